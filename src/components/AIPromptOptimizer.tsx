@@ -9,6 +9,7 @@ import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { 
   Zap, 
@@ -35,9 +36,21 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useSettings } from '@/hooks/use-settings';
+import { useModelCatalog } from '@/hooks/use-model-catalog';
 import { Link, useSearchParams, useNavigate } from 'react-router-dom';
 import { usePromptData } from '@/context/PromptDataContext';
-import { useOptimizerSession } from '@/context/OptimizerSessionContext';
+import { DEFAULT_RUBRIC, useOptimizerSession, type EvaluatorType, type IntentGuardMode, type RankingMode, type RubricCriterion, type TestCase } from '@/context/OptimizerSessionContext';
+import { TestCasesEditor, TestCaseResults, type TestCaseResult } from '@/components/TestCases';
+import { EvaluationBreakdown, EvaluatorSettings, type VariantEvaluation } from '@/components/Evaluation';
+import { TournamentResults } from '@/components/Tournament';
+import { OptimizationProgressPanel } from '@/components/OptimizationProgress';
+import { RenderedPromptComparison } from '@/components/Dialect';
+import { JsonSchemaEditor, SchemaValidationResult } from '@/components/JsonSchema';
+import { parseJsonSchemaText } from '@/lib/json-schema';
+import { PromptVariablesEditor } from '@/components/PromptVariables';
+import { IntentDriftBadge } from '@/components/Intent';
+import { FallbackChainEditor, type FallbackTarget } from '@/components/api/FallbackChainEditor';
+import { bindingsFor, type PromptVariables } from '@/lib/placeholders';
 
 interface OptimizationResult {
   promptId: string;
@@ -49,8 +62,12 @@ interface OptimizationResult {
     strategy: string;
     score: number;
     response: string;
+    cycle?: number;
+    testResults?: TestCaseResult[];
+    evaluation?: VariantEvaluation | null;
     metrics: {
       tokens_used: number;
+      cost_usd?: number;
       response_length: number;
       prompt_length: number;
       strategy_weight: number;
@@ -60,7 +77,10 @@ interface OptimizationResult {
     improvementScore: number;
     bestStrategy: string;
     totalVariants: number;
+    roundsCompleted?: number;
     processingTimeMs: number;
+    totalTokens?: number;
+    totalCost?: number;
   };
 }
 
@@ -82,6 +102,26 @@ const PromptOptimizerForm = ({
   setMaxTokens,
   temperature,
   setTemperature,
+  rounds,
+  setRounds,
+  testCases,
+  setTestCases,
+  evaluator,
+  setEvaluator,
+  rubric,
+  setRubric,
+  ranking,
+  setRanking,
+  intentGuard,
+  setIntentGuard,
+  renderDialect,
+  setRenderDialect,
+  fallbackChain,
+  setFallbackChain,
+  jsonSchema,
+  setJsonSchema,
+  variables,
+  setVariables,
   selectedInfluence,
   setSelectedInfluence,
   influenceType,
@@ -112,6 +152,26 @@ const PromptOptimizerForm = ({
   setMaxTokens: (value: number[]) => void;
   temperature: number[];
   setTemperature: (value: number[]) => void;
+  rounds?: number;
+  setRounds?: (value: number) => void;
+  testCases?: TestCase[];
+  setTestCases?: (value: TestCase[]) => void;
+  evaluator?: EvaluatorType;
+  setEvaluator?: (value: EvaluatorType) => void;
+  rubric?: RubricCriterion[];
+  setRubric?: (value: RubricCriterion[]) => void;
+  ranking?: RankingMode;
+  setRanking?: (value: RankingMode) => void;
+  intentGuard?: IntentGuardMode;
+  setIntentGuard?: (value: IntentGuardMode) => void;
+  renderDialect?: boolean;
+  setRenderDialect?: (value: boolean) => void;
+  fallbackChain?: FallbackTarget[];
+  setFallbackChain?: (value: FallbackTarget[]) => void;
+  jsonSchema?: string;
+  setJsonSchema?: (value: string) => void;
+  variables?: PromptVariables;
+  setVariables?: (value: PromptVariables) => void;
   selectedInfluence: string;
   setSelectedInfluence: (value: string) => void;
   influenceType: string;
@@ -132,6 +192,15 @@ const PromptOptimizerForm = ({
     setSelectedInfluence("");
   };
 
+  const { modelOptions, providerOptions } = useModelCatalog();
+
+  // The server rejects models outside the provider's catalog, so switch to the provider's first model
+  const handleProviderChange = (value: string) => {
+    setSelectedProvider(value);
+    const firstModel = modelOptions[value]?.[0]?.value;
+    if (firstModel) setSelectedLLM(firstModel);
+  };
+
   return (
     <Card className="p-6 shadow-card">
       <div className="space-y-6">
@@ -154,6 +223,9 @@ const PromptOptimizerForm = ({
             onChange={(e) => setOriginalPrompt?.(e.target.value)}
             className="min-h-[120px] resize-none"
           />
+          {setVariables && (
+            <PromptVariablesEditor prompt={originalPrompt ?? ''} values={variables ?? {}} onChange={setVariables} />
+          )}
         </div>
 
         {/* Task Description */}
@@ -349,16 +421,14 @@ const PromptOptimizerForm = ({
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="space-y-2">
             <Label className="text-sm font-medium">AI Provider</Label>
-            <Select value={selectedProvider} onValueChange={setSelectedProvider}>
+            <Select value={selectedProvider} onValueChange={handleProviderChange}>
               <SelectTrigger>
                 <SelectValue placeholder="Select AI provider" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="openai">OpenAI</SelectItem>
-                <SelectItem value="anthropic">Anthropic (Claude)</SelectItem>
-                <SelectItem value="google">Google (Gemini)</SelectItem>
-                <SelectItem value="groq">Groq</SelectItem>
-                <SelectItem value="mistral">Mistral</SelectItem>
+                {providerOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -370,43 +440,9 @@ const PromptOptimizerForm = ({
                 <SelectValue placeholder="Select LLM model" />
               </SelectTrigger>
               <SelectContent>
-                {selectedProvider === "openai" && (
-                  <>
-                    <SelectItem value="gpt-5-2025-08-07">GPT-5</SelectItem>
-                    <SelectItem value="gpt-5-mini-2025-08-07">GPT-5 mini</SelectItem>
-                    <SelectItem value="gpt-5-nano-2025-08-07">GPT-5 nano</SelectItem>
-                    <SelectItem value="gpt-4.1-2025-04-14">GPT-4.1</SelectItem>
-                    <SelectItem value="gpt-4o">GPT-4o</SelectItem>
-                    <SelectItem value="gpt-4o-mini">GPT-4o Mini</SelectItem>
-                  </>
-                )}
-                {selectedProvider === "anthropic" && (
-                  <>
-                    <SelectItem value="claude-opus-4-1-20250805">Claude 4 Opus</SelectItem>
-                    <SelectItem value="claude-sonnet-4-20250514">Claude 4 Sonnet</SelectItem>
-                    <SelectItem value="claude-3-5-haiku-20241022">Claude 3.5 Haiku</SelectItem>
-                  </>
-                )}
-                {selectedProvider === "google" && (
-                  <>
-                    <SelectItem value="gemini-2.0-flash-lite">Gemini 2.0 Flash-Lite</SelectItem>
-                    <SelectItem value="gemini-2.0-flash">Gemini 2.0 Flash</SelectItem>
-                    <SelectItem value="gemini-2.5-flash-lite">Gemini 2.5 Flash-Lite</SelectItem>
-                    <SelectItem value="gemini-2.5-flash">Gemini 2.5 Flash</SelectItem>
-                    <SelectItem value="gemini-2.5-pro">Gemini 2.5 Pro</SelectItem>
-                  </>
-                )}
-                {selectedProvider === "groq" && (
-                  <>
-                    <SelectItem value="llama-3.1-8b">Llama 3.1 8B</SelectItem>
-                  </>
-                )}
-                {selectedProvider === "mistral" && (
-                  <>
-                    <SelectItem value="mistral-large">Mistral Large</SelectItem>
-                    <SelectItem value="mistral-medium">Mistral Medium</SelectItem>
-                  </>
-                )}
+                {modelOptions[selectedProvider]?.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -487,6 +523,96 @@ const PromptOptimizerForm = ({
                   className="w-full"
                 />
               </div>
+
+              {selectedOutputType === 'json' && setJsonSchema && (
+                <JsonSchemaEditor value={jsonSchema ?? ''} onChange={setJsonSchema} />
+              )}
+
+              {optimizationMode === 'deep' && setRounds && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Refinement Rounds</Label>
+                  <Select value={(rounds ?? 1).toString()} onValueChange={(value) => setRounds(parseInt(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">1 Round</SelectItem>
+                      <SelectItem value="2">2 Rounds</SelectItem>
+                      <SelectItem value="3">3 Rounds</SelectItem>
+                      <SelectItem value="5">5 Rounds</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Each round refines the previous winner and stops early once scores stop improving
+                  </p>
+                </div>
+              )}
+
+              {optimizationMode === 'deep' && setEvaluator && setRubric && (
+                <EvaluatorSettings
+                  evaluator={evaluator ?? 'heuristic'}
+                  setEvaluator={setEvaluator}
+                  rubric={rubric ?? DEFAULT_RUBRIC}
+                  setRubric={setRubric}
+                />
+              )}
+
+              {optimizationMode === 'deep' && setRanking && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Winner Selection</Label>
+                  <Select value={ranking ?? 'score'} onValueChange={(value) => setRanking(value as RankingMode)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="score">Highest score</SelectItem>
+                      <SelectItem value="tournament">Pairwise tournament</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Tournament mode has the judge compare top variants head-to-head and ranks them with a Bradley-Terry model
+                  </p>
+                </div>
+              )}
+
+              {setIntentGuard && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Intent Drift</Label>
+                  <Select value={intentGuard ?? 'flag'} onValueChange={(value) => setIntentGuard(value as IntentGuardMode)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="flag">Flag drifting variants</SelectItem>
+                      <SelectItem value="discard">Discard drifting variants</SelectItem>
+                      <SelectItem value="off">Don't check</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    The judge compares each variant's task, verb and deliverable with your original prompt, e.g. catching "fix this code" turning into "review this code"
+                  </p>
+                </div>
+              )}
+
+              {setFallbackChain && (
+                <FallbackChainEditor value={fallbackChain ?? []} onChange={setFallbackChain} />
+              )}
+
+              {optimizationMode === 'deep' && setRenderDialect && (
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label className="text-sm font-medium">Render for Target Model</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Restructure the winning prompt in the model's preferred style, e.g. XML sections for Claude or a system/user split for GPT
+                    </p>
+                  </div>
+                  <Switch checked={renderDialect ?? false} onCheckedChange={setRenderDialect} />
+                </div>
+              )}
+
+              {optimizationMode === 'deep' && setTestCases && (
+                <TestCasesEditor testCases={testCases ?? []} setTestCases={setTestCases} />
+              )}
             </div>
           </CollapsibleContent>
         </Collapsible>
@@ -525,6 +651,7 @@ export const AIPromptOptimizer: React.FC = () => {
   const {
     isOptimizing,
     optimizationStartTime,
+    progress,
     payload,
     result,
     speedResult,
@@ -549,6 +676,16 @@ export const AIPromptOptimizer: React.FC = () => {
   const [variants, setVariants] = useState(3);
   const [maxTokens, setMaxTokens] = useState<number[]>([0]); // 0 means no limit
   const [temperature, setTemperature] = useState([0.7]);
+  const [rounds, setRounds] = useState(1);
+  const [testCases, setTestCases] = useState<TestCase[]>([]);
+  const [evaluator, setEvaluator] = useState<EvaluatorType>('heuristic');
+  const [rubric, setRubric] = useState<RubricCriterion[]>(DEFAULT_RUBRIC);
+  const [ranking, setRanking] = useState<RankingMode>('score');
+  const [intentGuard, setIntentGuard] = useState<IntentGuardMode>('flag');
+  const [renderDialect, setRenderDialect] = useState(false);
+  const [fallbackChain, setFallbackChain] = useState<FallbackTarget[]>([]);
+  const [jsonSchema, setJsonSchema] = useState('');
+  const [variables, setVariables] = useState<PromptVariables>({});
   const [selectedInfluence, setSelectedInfluence] = useState('');
   const [influenceType, setInfluenceType] = useState('');
   const [influenceWeight, setInfluenceWeight] = useState([75]);
@@ -646,6 +783,16 @@ export const AIPromptOptimizer: React.FC = () => {
       return;
     }
 
+    const { schema, error: schemaError } = outputType === 'json' ? parseJsonSchemaText(jsonSchema) : { schema: null, error: null };
+    if (schemaError) {
+      toast({
+        title: "Invalid JSON Schema",
+        description: schemaError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Clear the opposite mode's result before starting new optimization
     if (optimizationMode === 'speed') {
       setResult(null); // Clear deep mode results
@@ -666,6 +813,18 @@ export const AIPromptOptimizer: React.FC = () => {
       influence: selectedInfluence,
       influenceWeight: influenceWeight[0],
       mode: optimizationMode,
+      rounds: optimizationMode === 'deep' ? rounds : 1,
+      testCases: optimizationMode === 'deep'
+        ? testCases.filter(tc => tc.input.trim() && (tc.expectedOutput?.trim() || tc.assertions.length > 0))
+        : [],
+      evaluator: optimizationMode === 'deep' ? evaluator : 'heuristic',
+      rubric: evaluator !== 'heuristic' ? rubric.filter(c => c.name.trim() && c.weight > 0) : undefined,
+      ranking: optimizationMode === 'deep' ? ranking : 'score',
+      intentGuard,
+      renderDialect: optimizationMode === 'deep' && renderDialect,
+      fallbackChain: fallbackChain.filter(t => t.model),
+      jsonSchema: schema,
+      variables: bindingsFor(originalPrompt, variables),
     });
   };
 
@@ -681,6 +840,7 @@ export const AIPromptOptimizer: React.FC = () => {
     setOptimizerTaskDescription('');
     setSelectedInfluence('');
     setInfluenceType('');
+    setVariables({});
     
     // Clear localStorage
     localStorage.removeItem('promptOptimizer_originalPrompt');
@@ -760,6 +920,26 @@ export const AIPromptOptimizer: React.FC = () => {
         setMaxTokens={setMaxTokens}
         temperature={temperature}
         setTemperature={setTemperature}
+        rounds={rounds}
+        setRounds={setRounds}
+        testCases={testCases}
+        setTestCases={setTestCases}
+        evaluator={evaluator}
+        setEvaluator={setEvaluator}
+        rubric={rubric}
+        setRubric={setRubric}
+        ranking={ranking}
+        setRanking={setRanking}
+        intentGuard={intentGuard}
+        setIntentGuard={setIntentGuard}
+        renderDialect={renderDialect}
+        setRenderDialect={setRenderDialect}
+        fallbackChain={fallbackChain}
+        setFallbackChain={setFallbackChain}
+        jsonSchema={jsonSchema}
+        setJsonSchema={setJsonSchema}
+        variables={variables}
+        setVariables={setVariables}
         selectedInfluence={selectedInfluence}
         setSelectedInfluence={setSelectedInfluence}
         influenceType={influenceType}
@@ -792,6 +972,7 @@ export const AIPromptOptimizer: React.FC = () => {
           </div>
         </Card>
       )}
+      {isOptimizing && progress && <OptimizationProgressPanel progress={progress} />}
       {speedResult && (
         <div className="space-y-4" data-results-section>
           {/* Speed Mode Stats */}
@@ -802,6 +983,11 @@ export const AIPromptOptimizer: React.FC = () => {
                   <Zap className="h-6 w-6 mx-auto mb-2 text-green-500" />
                   <div className="text-lg font-bold">{(speedResult.processingTimeMs / 1000).toFixed(1)}s</div>
                   <div className="text-xs text-muted-foreground">Processing Time</div>
+                  {typeof speedResult.summary?.totalCost === 'number' && (
+                    <div className="text-xs text-muted-foreground">
+                      {(speedResult.summary.totalTokens ?? 0).toLocaleString()} tokens · ${speedResult.summary.totalCost.toFixed(4)}
+                    </div>
+                  )}
                 </div>
                 <div className="text-center p-4 rounded-lg bg-muted/50">
                   <Target className="h-6 w-6 mx-auto mb-2 text-primary" />
@@ -822,7 +1008,8 @@ export const AIPromptOptimizer: React.FC = () => {
           
           {(speedResult.variants || []).map((variant: any, index: number) => (
             <Card key={index}>
-              <CardContent className="pt-6">
+              <CardContent className="pt-6 space-y-2">
+                <IntentDriftBadge check={variant.intentCheck} />
                 <div className="relative">
                   <Textarea
                     value={variant.prompt}
@@ -893,9 +1080,10 @@ export const AIPromptOptimizer: React.FC = () => {
 
             {/* Tabs for Results */}
             <Tabs defaultValue="best" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className={`grid w-full ${result.tournament ? 'grid-cols-4' : 'grid-cols-3'}`}>
                 <TabsTrigger value="best">Best Result</TabsTrigger>
                 <TabsTrigger value="variants">All Variants</TabsTrigger>
+                {result.tournament && <TabsTrigger value="ranking">Ranking</TabsTrigger>}
                 <TabsTrigger value="comparison">Comparison</TabsTrigger>
               </TabsList>
 
@@ -926,8 +1114,16 @@ export const AIPromptOptimizer: React.FC = () => {
                       </span>
                     </div>
                     {getScoreBadge(result.bestScore)}
+                    <IntentDriftBadge check={result.variants?.find(v => v.prompt === result.bestOptimizedPrompt)?.intentCheck} />
                   </div>
                 </Card>
+                {result.rendered && (
+                  <RenderedPromptComparison
+                    rawPrompt={result.bestOptimizedPrompt}
+                    rendered={result.rendered}
+                    onCopy={copyToClipboard}
+                  />
+                )}
               </TabsContent>
 
               <TabsContent value="variants" className="space-y-4">
@@ -936,9 +1132,13 @@ export const AIPromptOptimizer: React.FC = () => {
                     <div className="flex items-center justify-between mb-3">
                       <div className="flex items-center space-x-2">
                         <Badge variant="outline">{variant.strategy}</Badge>
+                        {(result.summary?.roundsCompleted ?? 1) > 1 && variant.cycle && (
+                          <Badge variant="secondary">Round {variant.cycle}</Badge>
+                        )}
                         <span className={`text-sm font-medium ${getScoreColor(variant.score)}`}>
                           {Math.round(variant.score * 100)}%
                         </span>
+                        <IntentDriftBadge check={variant.intentCheck} />
                       </div>
                       <Button
                         variant="outline"
@@ -953,11 +1153,26 @@ export const AIPromptOptimizer: React.FC = () => {
                       <p className="text-sm whitespace-pre-wrap">{variant.prompt}</p>
                     </div>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-muted-foreground">
-                      <div>Tokens: {variant.metrics?.tokens_used ?? '—'}</div>
+                      <div>Tokens: {variant.metrics?.tokens_used ?? '—'}{typeof variant.metrics?.cost_usd === 'number' ? ` ($${variant.metrics.cost_usd.toFixed(4)})` : ''}</div>
                       <div>Response Length: {variant.metrics?.response_length ?? '—'}</div>
                       <div>Prompt Length: {variant.metrics?.prompt_length ?? '—'}</div>
                       <div>Strategy Weight: {variant.metrics?.strategy_weight ?? '—'}{typeof variant.metrics?.strategy_weight === 'number' ? '%' : ''}</div>
                     </div>
+                    {variant.testResults && variant.testResults.length > 0 && (
+                      <div className="mt-3">
+                        <TestCaseResults results={variant.testResults} />
+                      </div>
+                    )}
+                    {variant.evaluation?.schemaValidation && (
+                      <div className="mt-3">
+                        <SchemaValidationResult validation={variant.evaluation.schemaValidation} />
+                      </div>
+                    )}
+                    {variant.evaluation?.criteria && (
+                      <div className="mt-3 rounded-md border p-3">
+                        <EvaluationBreakdown evaluation={variant.evaluation} />
+                      </div>
+                    )}
                   </Card>
                 ))}
                 {(!result.variants || result.variants.length === 0) && (
@@ -974,6 +1189,14 @@ export const AIPromptOptimizer: React.FC = () => {
                 )}
               </TabsContent>
 
+              {result.tournament && (
+                <TabsContent value="ranking" className="space-y-4">
+                  <Card className="p-4">
+                    <TournamentResults tournament={result.tournament} />
+                  </Card>
+                </TabsContent>
+              )}
+
               <TabsContent value="comparison" className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <Card className="p-4">
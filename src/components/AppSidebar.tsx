@@ -27,6 +27,7 @@ import {
   Code,
   Key,
   BookOpen,
+  Layers,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -50,6 +51,7 @@ const apiNavigationItems = [
   { title: "Agents", section: "agents", icon: Bot },
   { title: "Create Agent", section: "create", icon: Zap },
   { title: "API Keys", section: "keys", icon: Key },
+  { title: "Batches", section: "batches", icon: Layers },
   { title: "Logs", section: "logs", icon: FileText },
   { title: "Documentation", section: "docs", icon: BookOpen },
 ];
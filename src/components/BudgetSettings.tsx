@@ -0,0 +1,146 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Wallet } from "lucide-react";
+import type { UserSettings } from "@/hooks/use-settings";
+
+interface BudgetSettingsProps {
+  settings: UserSettings;
+  setSettings: (settings: UserSettings) => void;
+}
+
+interface PeriodUsage {
+  tokens: number;
+  cost: number;
+}
+
+const emptyUsage: PeriodUsage = { tokens: 0, cost: 0 };
+
+// Budget periods reset at midnight UTC and on the first of the month UTC, matching the edge functions
+const startOfUtcDay = (now: Date) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+const startOfUtcMonth = (now: Date) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+const formatAmount = (amount: number, unit: UserSettings['budgetUnit']) =>
+  unit === 'tokens' ? `${Math.round(amount).toLocaleString()} tokens` : `$${amount.toFixed(2)}`;
+
+const parseLimit = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const BudgetMeter = ({ label, used, limit, unit }: { label: string; used: number; limit: number | null; unit: UserSettings['budgetUnit'] }) => {
+  const percent = limit ? Math.min(100, (used / limit) * 100) : 0;
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className={limit !== null && used >= limit ? 'text-destructive' : 'text-muted-foreground'}>
+          {formatAmount(used, unit)}{limit !== null ? ` of ${formatAmount(limit, unit)}` : ' (no limit)'}
+        </span>
+      </div>
+      {limit !== null && <Progress value={percent} className="h-2" />}
+    </div>
+  );
+};
+
+export function BudgetSettings({ settings, setSettings }: BudgetSettingsProps) {
+  const [daily, setDaily] = useState<PeriodUsage>(emptyUsage);
+  const [monthly, setMonthly] = useState<PeriodUsage>(emptyUsage);
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  const loadUsage = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const now = new Date();
+      const { data, error } = await supabase
+        .from('usage_records')
+        .select('tokens_used, cost_usd, created_at')
+        .eq('user_id', user.id)
+        .gte('created_at', startOfUtcMonth(now).toISOString());
+
+      if (error) throw error;
+
+      const dayStart = startOfUtcDay(now);
+      const sum = (rows: typeof data) => rows.reduce(
+        (totals, r) => ({ tokens: totals.tokens + (r.tokens_used || 0), cost: totals.cost + Number(r.cost_usd || 0) }),
+        emptyUsage
+      );
+      setMonthly(sum(data || []));
+      setDaily(sum((data || []).filter(r => new Date(r.created_at) >= dayStart)));
+    } catch (error) {
+      console.error('Error loading usage:', error);
+    }
+  };
+
+  const unit = settings.budgetUnit;
+  const usedIn = (usage: PeriodUsage) => unit === 'tokens' ? usage.tokens : usage.cost;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Wallet className="h-5 w-5 text-primary" />
+        <h2 className="text-lg font-semibold">Usage & Budget</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Optimizations and agent calls are refused once a limit is reached. Leave a limit empty for no cap.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Budget Unit</Label>
+          <Select
+            value={unit}
+            onValueChange={(value) => setSettings({ ...settings, budgetUnit: value as UserSettings['budgetUnit'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="usd">Dollars (USD)</SelectItem>
+              <SelectItem value="tokens">Tokens</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Daily Limit</Label>
+          <Input
+            type="number"
+            min={0}
+            step={unit === 'tokens' ? 1000 : 0.5}
+            placeholder="No limit"
+            value={settings.dailyBudget ?? ''}
+            onChange={(e) => setSettings({ ...settings, dailyBudget: parseLimit(e.target.value) })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Monthly Limit</Label>
+          <Input
+            type="number"
+            min={0}
+            step={unit === 'tokens' ? 10000 : 1}
+            placeholder="No limit"
+            value={settings.monthlyBudget ?? ''}
+            onChange={(e) => setSettings({ ...settings, monthlyBudget: parseLimit(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-4 mt-6">
+        <BudgetMeter label="Today" used={usedIn(daily)} limit={settings.dailyBudget} unit={unit} />
+        <BudgetMeter label="This month" used={usedIn(monthly)} limit={settings.monthlyBudget} unit={unit} />
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Server, Trash2 } from "lucide-react";
+import { useCustomProvider } from "@/hooks/use-custom-provider";
+
+const emptyForm = {
+  name: "Custom",
+  baseUrl: "",
+  authHeader: "Authorization",
+  authValue: "",
+  // Set when the user asks to remove the saved auth value; an empty field otherwise keeps it
+  clearAuthValue: false,
+  models: ""
+};
+
+const parseModels = (value: string) =>
+  Array.from(new Set(value.split(/[\n,]/).map(m => m.trim()).filter(Boolean)));
+
+// The function answers errors with a JSON body; surface its message instead of the generic one
+const readFunctionError = async (error: Error): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) return body.error;
+    } catch {
+      // fall through to the client's message
+    }
+  }
+  return error.message || "Request failed";
+};
+
+export function CustomProviderSettings() {
+  const { customProvider, reload } = useCustomProvider();
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!customProvider) return;
+    setForm({
+      name: customProvider.name,
+      baseUrl: customProvider.base_url,
+      authHeader: customProvider.auth_header || "",
+      authValue: "",
+      clearAuthValue: false,
+      models: customProvider.models.join("\n")
+    });
+  }, [customProvider]);
+
+  const handleSave = async () => {
+    const models = parseModels(form.models);
+    if (!form.baseUrl.trim() || models.length === 0) {
+      toast.error("Base URL and at least one model are required");
+      return;
+    }
+
+    try {
+      new URL(form.baseUrl.trim());
+    } catch {
+      toast.error("Base URL must be a full URL, e.g. http://localhost:11434/v1");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Saved through the function so the auth value is encrypted before it is stored
+      const { error } = await supabase.functions.invoke('custom-provider', {
+        body: {
+          action: 'save',
+          name: form.name,
+          baseUrl: form.baseUrl,
+          authHeader: form.authHeader,
+          authValue: form.authValue,
+          clearAuthValue: form.clearAuthValue,
+          models
+        }
+      });
+      if (error) {
+        toast.error(await readFunctionError(error));
+        return;
+      }
+
+      toast.success("Custom provider saved");
+      reload();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!customProvider) return;
+    const { error } = await supabase
+      .from('custom_providers')
+      .delete()
+      .eq('id', customProvider.id);
+
+    if (error) {
+      toast.error(error.message || "Failed to remove custom provider");
+      return;
+    }
+    setForm(emptyForm);
+    toast.success("Custom provider removed");
+    reload();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+            <Server className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Custom Provider</CardTitle>
+            <CardDescription>
+              Point the optimizer and your agents at any OpenAI-compatible endpoint, such as vLLM or Ollama
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="custom-provider-name">Display Name</Label>
+            <Input
+              id="custom-provider-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Internal vLLM"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="custom-provider-url">Base URL</Label>
+            <Input
+              id="custom-provider-url"
+              value={form.baseUrl}
+              onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className="font-mono"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="custom-provider-header">Auth Header</Label>
+            <Input
+              id="custom-provider-header"
+              value={form.authHeader}
+              onChange={(e) => setForm({ ...form, authHeader: e.target.value })}
+              placeholder="Authorization"
+              className="font-mono"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="custom-provider-value">Auth Value</Label>
+            <Input
+              id="custom-provider-value"
+              type="password"
+              value={form.authValue}
+              onChange={(e) => setForm({ ...form, authValue: e.target.value, clearAuthValue: false })}
+              placeholder={customProvider?.has_auth_value && !form.clearAuthValue ? "Saved - leave empty to keep" : "Bearer sk-..."}
+              className="font-mono"
+            />
+            {customProvider?.has_auth_value && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>{form.clearAuthValue ? "Removed when you save" : "A value is saved and stays hidden"}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm({ ...form, authValue: "", clearAuthValue: !form.clearAuthValue })}
+                >
+                  {form.clearAuthValue ? "Keep" : "Clear"}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Requests go to the base URL plus /chat/completions. Leave the auth fields empty for servers without authentication.
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="custom-provider-models">Models</Label>
+          <Textarea
+            id="custom-provider-models"
+            value={form.models}
+            onChange={(e) => setForm({ ...form, models: e.target.value })}
+            placeholder={"llama3.1:8b\nqwen2.5:14b"}
+            rows={3}
+            className="font-mono"
+          />
+          <p className="text-sm text-muted-foreground">
+            One model name per line, exactly as the server expects it
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? "Saving..." : customProvider ? "Update Provider" : "Save Provider"}
+          </Button>
+          {customProvider && (
+            <Button variant="outline" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+              Remove
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
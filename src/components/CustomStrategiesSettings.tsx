@@ -0,0 +1,264 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Wand2, Pencil, Trash2, Plus } from "lucide-react";
+
+interface CustomStrategy {
+  id: string;
+  name: string;
+  instruction: string;
+  applicability_regex: string | null;
+  weight: number;
+  is_active: boolean;
+}
+
+const emptyForm = {
+  name: "",
+  instruction: "",
+  applicabilityRegex: "",
+  weight: 0.15
+};
+
+export function CustomStrategiesSettings() {
+  const [strategies, setStrategies] = useState<CustomStrategy[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    loadStrategies();
+  }, []);
+
+  const loadStrategies = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('custom_strategies')
+        .select('id, name, instruction, applicability_regex, weight, is_active')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setStrategies(data || []);
+    } catch (error) {
+      console.error('Error loading custom strategies:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleEdit = (strategy: CustomStrategy) => {
+    setEditingId(strategy.id);
+    setForm({
+      name: strategy.name,
+      instruction: strategy.instruction,
+      applicabilityRegex: strategy.applicability_regex || "",
+      weight: Number(strategy.weight)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.instruction.trim()) {
+      toast.error("Name and instruction are required");
+      return;
+    }
+
+    if (form.applicabilityRegex.trim()) {
+      try {
+        new RegExp(form.applicabilityRegex.trim(), 'i');
+      } catch {
+        toast.error("Applicability regex is not a valid regular expression");
+        return;
+      }
+    }
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast.error("Please sign in to manage custom strategies");
+        return;
+      }
+
+      const values = {
+        name: form.name.trim(),
+        instruction: form.instruction.trim(),
+        applicability_regex: form.applicabilityRegex.trim() || null,
+        weight: form.weight
+      };
+
+      const { error } = editingId
+        ? await supabase.from('custom_strategies').update(values).eq('id', editingId)
+        : await supabase.from('custom_strategies').insert({ ...values, user_id: user.id });
+
+      if (error) throw error;
+
+      toast.success(editingId ? "Strategy updated" : "Strategy created");
+      resetForm();
+      loadStrategies();
+    } catch (error: any) {
+      console.error('Error saving custom strategy:', error);
+      toast.error(error.message || "Failed to save strategy");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = async (strategy: CustomStrategy, isActive: boolean) => {
+    const { error } = await supabase
+      .from('custom_strategies')
+      .update({ is_active: isActive })
+      .eq('id', strategy.id);
+
+    if (error) {
+      toast.error(error.message || "Failed to update strategy");
+      return;
+    }
+    setStrategies(prev => prev.map(s => s.id === strategy.id ? { ...s, is_active: isActive } : s));
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase
+      .from('custom_strategies')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast.error(error.message || "Failed to delete strategy");
+      return;
+    }
+    if (editingId === id) resetForm();
+    setStrategies(prev => prev.filter(s => s.id !== id));
+    toast.success("Strategy deleted");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+            <Wand2 className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Custom Strategies</CardTitle>
+            <CardDescription>
+              Add your own optimization strategies alongside the built-in ones
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {strategies.length > 0 && (
+          <div className="space-y-2">
+            {strategies.map((strategy) => (
+              <div key={strategy.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium">{strategy.name}</p>
+                    <Badge variant="secondary">Weight {Number(strategy.weight).toFixed(2)}</Badge>
+                    {strategy.applicability_regex && (
+                      <Badge variant="outline" className="font-mono text-xs">/{strategy.applicability_regex}/i</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2">{strategy.instruction}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={strategy.is_active}
+                    onCheckedChange={(checked) => handleToggle(strategy, checked)}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(strategy)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(strategy.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="strategy-name">Name</Label>
+          <Input
+            id="strategy-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Persona Framing"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="strategy-instruction">Instruction</Label>
+          <Textarea
+            id="strategy-instruction"
+            value={form.instruction}
+            onChange={(e) => setForm({ ...form, instruction: e.target.value })}
+            placeholder="You are a prompt optimization expert. Rewrite the prompt so it assigns the AI a fitting expert persona while preserving the exact request:"
+            rows={4}
+          />
+          <p className="text-sm text-muted-foreground">
+            Sent to the optimizer model in place of a built-in strategy's system prompt
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="strategy-regex">Applicability Regex</Label>
+          <Input
+            id="strategy-regex"
+            value={form.applicabilityRegex}
+            onChange={(e) => setForm({ ...form, applicabilityRegex: e.target.value })}
+            placeholder="\b(email|letter)\b"
+            className="font-mono"
+          />
+          <p className="text-sm text-muted-foreground">
+            Only used when the original prompt matches (case-insensitive). Leave empty to always apply.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Weight: {form.weight.toFixed(2)}</Label>
+          <Slider
+            value={[form.weight]}
+            onValueChange={(value) => setForm({ ...form, weight: value[0] })}
+            min={0}
+            max={1}
+            step={0.01}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={loading}>
+            {editingId ? (
+              loading ? "Saving..." : "Update Strategy"
+            ) : (
+              <>
+                <Plus className="h-4 w-4 mr-2" />
+                {loading ? "Saving..." : "Add Strategy"}
+              </>
+            )}
+          </Button>
+          {editingId && (
+            <Button variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Copy, Code2 } from "lucide-react";
+import type { RenderedPrompt } from "@/context/OptimizerSessionContext";
+
+const DIALECT_LABELS: Record<RenderedPrompt['dialect'], string> = {
+  xml: 'XML sections',
+  markdown: 'Markdown',
+  plain: 'Unchanged'
+};
+
+// Single-string form for pasting into tools that take one prompt
+const renderedPromptText = (rendered: RenderedPrompt) =>
+  rendered.system ? `${rendered.system}\n\n${rendered.user}` : rendered.user;
+
+// The winning prompt as generated next to its rendering in the target model's dialect
+export const RenderedPromptComparison = ({
+  rawPrompt,
+  rendered,
+  onCopy
+}: {
+  rawPrompt: string;
+  rendered: RenderedPrompt;
+  onCopy: (text: string) => void;
+}) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-medium">Raw Prompt</span>
+        <Button variant="outline" size="sm" onClick={() => onCopy(rawPrompt)}>
+          <Copy className="h-3 w-3 mr-1" />
+          Copy
+        </Button>
+      </div>
+      <div className="bg-muted/50 p-3 rounded-md">
+        <p className="text-sm whitespace-pre-wrap">{rawPrompt}</p>
+      </div>
+    </Card>
+
+    <Card className="p-4 border-primary/20 bg-primary/5">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Code2 className="h-4 w-4 text-primary" />
+          <span className="font-medium">Rendered for {rendered.model}</span>
+          <Badge variant="outline">{DIALECT_LABELS[rendered.dialect]}</Badge>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => onCopy(renderedPromptText(rendered))}>
+          <Copy className="h-3 w-3 mr-1" />
+          Copy
+        </Button>
+      </div>
+      <div className="space-y-3">
+        {rendered.system && (
+          <div>
+            <div className="text-xs font-medium text-muted-foreground mb-1">System</div>
+            <div className="bg-background/50 p-3 rounded-md">
+              <pre className="text-sm whitespace-pre-wrap font-mono">{rendered.system}</pre>
+            </div>
+          </div>
+        )}
+        <div>
+          {rendered.system && <div className="text-xs font-medium text-muted-foreground mb-1">User</div>}
+          <div className="bg-background/50 p-3 rounded-md">
+            <pre className="text-sm whitespace-pre-wrap font-mono">{rendered.user}</pre>
+          </div>
+        </div>
+      </div>
+    </Card>
+  </div>
+);
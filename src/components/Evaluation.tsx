@@ -0,0 +1,122 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Plus, Trash2, Scale } from "lucide-react";
+import type { EvaluatorType, RubricCriterion } from "@/context/OptimizerSessionContext";
+
+export interface VariantEvaluation {
+  evaluator: EvaluatorType;
+  score: number;
+  criteria?: Array<{ name: string; weight: number; score: number; rationale: string }>;
+  schemaValidation?: { valid: boolean; errors: string[] };
+}
+
+// Evaluator choice for a deep-mode run, plus the judge rubric when a judge is involved
+export const EvaluatorSettings = ({
+  evaluator,
+  setEvaluator,
+  rubric,
+  setRubric
+}: {
+  evaluator: EvaluatorType;
+  setEvaluator: (value: EvaluatorType) => void;
+  rubric: RubricCriterion[];
+  setRubric: (value: RubricCriterion[]) => void;
+}) => {
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    setRubric(rubric.map((c, i) => i === index ? { ...c, ...changes } : c));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Evaluator</Label>
+        <Select value={evaluator} onValueChange={(value) => setEvaluator(value as EvaluatorType)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="heuristic">Heuristic (fast)</SelectItem>
+            <SelectItem value="judge">LLM Judge</SelectItem>
+            <SelectItem value="hybrid">Hybrid</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {evaluator !== 'heuristic' && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Judge Rubric</Label>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setRubric([...rubric, { name: '', weight: 0.1 }])}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add Criterion
+            </Button>
+          </div>
+          {rubric.map((criterion, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={criterion.name}
+                onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                placeholder="Criterion"
+              />
+              <Input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={criterion.weight}
+                onChange={(e) => updateCriterion(index, { weight: parseFloat(e.target.value) || 0 })}
+                className="w-24"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setRubric(rubric.filter((_, i) => i !== index))}
+                disabled={rubric.length <= 1}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">Weights are normalized to sum to 1</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Per-criterion judge scores with rationales for a scored variant
+export const EvaluationBreakdown = ({ evaluation }: { evaluation: VariantEvaluation }) => {
+  if (!evaluation.criteria || evaluation.criteria.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+        <Scale className="h-3 w-3" />
+        <span>{evaluation.evaluator === 'hybrid' ? 'Hybrid evaluation' : 'Judge evaluation'}</span>
+      </div>
+      {evaluation.criteria.map((criterion) => (
+        <div key={criterion.name} className="space-y-1">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium">{criterion.name}</span>
+            <span className="text-muted-foreground">
+              {Math.round(criterion.score * 100)}% · weight {Math.round(criterion.weight * 100)}%
+            </span>
+          </div>
+          <Progress value={criterion.score * 100} className="h-1.5" />
+          {criterion.rationale && (
+            <p className="text-xs text-muted-foreground">{criterion.rationale}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
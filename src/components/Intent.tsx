@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import type { IntentCheck } from "@/context/OptimizerSessionContext";
+
+// Warning shown on variants whose judge-extracted task, verb or deliverable differs from the original prompt
+export const IntentDriftBadge = ({ check }: { check?: IntentCheck | null }) => {
+  if (!check || check.preserved) return null;
+
+  const aspects = check.changed.length > 0 ? check.changed.join(', ') : 'task';
+  const detail = [
+    check.reason,
+    check.changed.includes('task') && check.original.task && check.variant.task ? `Task: ${check.original.task} → ${check.variant.task}` : '',
+    check.original.verb && check.variant.verb ? `Verb: ${check.original.verb} → ${check.variant.verb}` : '',
+    check.original.deliverable && check.variant.deliverable ? `Deliverable: ${check.original.deliverable} → ${check.variant.deliverable}` : ''
+  ].filter(Boolean).join('\n');
+
+  return (
+    <Badge variant="outline" className="border-yellow-500/50 text-yellow-700 dark:text-yellow-400" title={detail}>
+      <AlertTriangle className="h-3 w-3 mr-1" />
+      Intent drift ({aspects})
+    </Badge>
+  );
+};
@@ -0,0 +1,63 @@
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, XCircle } from "lucide-react";
+import { parseJsonSchemaText } from "@/lib/json-schema";
+
+const PLACEHOLDER = `{
+  "type": "object",
+  "properties": {
+    "title": { "type": "string" },
+    "tags": { "type": "array", "items": { "type": "string" } }
+  },
+  "required": ["title"]
+}`;
+
+// Optional JSON Schema that structured responses are validated against
+export const JsonSchemaEditor = ({
+  value,
+  onChange,
+  description = 'Responses are validated against this schema, and validity counts toward the score'
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  description?: string;
+}) => {
+  const { error } = parseJsonSchemaText(value);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">JSON Schema</Label>
+      <p className="text-xs text-muted-foreground">{description}</p>
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={PLACEHOLDER}
+        rows={6}
+        className="font-mono text-xs"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+// Whether a tested response matched the run's schema, with the first few problems when it didn't
+export const SchemaValidationResult = ({ validation }: { validation: { valid: boolean; errors: string[] } }) => (
+  <div className="space-y-1 text-xs">
+    <div className="flex items-center gap-2">
+      {validation.valid ? (
+        <CheckCircle className="h-3 w-3 text-green-500" />
+      ) : (
+        <XCircle className="h-3 w-3 text-red-500" />
+      )}
+      <span className="font-medium">{validation.valid ? 'Matches JSON Schema' : 'Does not match JSON Schema'}</span>
+    </div>
+    {!validation.valid && (
+      <div className="flex flex-wrap gap-1">
+        {validation.errors.map((error, index) => (
+          <Badge key={index} variant="destructive" className="text-[10px] font-mono">{error}</Badge>
+        ))}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,87 @@
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import type { OptimizationProgress, VariantProgressStatus } from "@/context/OptimizerSessionContext";
+
+const statusLabels: Record<VariantProgressStatus, string> = {
+  generating: 'Generating',
+  testing: 'Testing',
+  scoring: 'Scoring',
+  scored: 'Scored',
+  failed: 'Failed',
+};
+
+// Share of pipeline work each status represents, for the overall progress bar
+const statusWeights: Record<VariantProgressStatus, number> = {
+  generating: 0,
+  testing: 0.4,
+  scoring: 0.8,
+  scored: 1,
+  failed: 1,
+};
+
+// Per-variant status of a streamed deep-mode run, with variants listed as soon as they are scored
+export const OptimizationProgressPanel = ({ progress }: { progress: OptimizationProgress }) => {
+  const roundVariants = progress.variants.filter(v => v.cycle === progress.round);
+  const completion = roundVariants.length > 0
+    ? roundVariants.reduce((sum, v) => sum + statusWeights[v.status], 0) / roundVariants.length
+    : 0;
+  const partialVariants = [...progress.partialVariants].sort((a, b) => b.score - a.score);
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">
+            {progress.totalRounds > 1 ? `Round ${progress.round} of ${progress.totalRounds}` : 'Optimizing variants'}
+          </span>
+          <span className="text-muted-foreground">{Math.round(completion * 100)}%</span>
+        </div>
+        <Progress value={completion * 100} className="h-2" />
+      </div>
+
+      {roundVariants.length > 0 && (
+        <div className="space-y-2">
+          {roundVariants.map((variant) => (
+            <div key={`${variant.cycle}-${variant.strategyKey}`} className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                {variant.status === 'scored' ? (
+                  <CheckCircle className="h-4 w-4 text-green-500" />
+                ) : variant.status === 'failed' ? (
+                  <XCircle className="h-4 w-4 text-red-500" />
+                ) : (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                )}
+                <span>{variant.strategy}</span>
+                {variant.reason && <span className="text-xs text-muted-foreground">{variant.reason}</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                {typeof variant.score === 'number' && (
+                  <span className="font-medium">{Math.round(variant.score * 100)}%</span>
+                )}
+                <Badge variant="outline">{statusLabels[variant.status]}</Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {partialVariants.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Results so far</div>
+          {partialVariants.map((variant, index) => (
+            <div key={index} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{variant.strategy}</Badge>
+                {progress.totalRounds > 1 && <Badge variant="secondary">Round {variant.cycle}</Badge>}
+                <span className="text-sm font-medium">{Math.round(variant.score * 100)}%</span>
+              </div>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3">{variant.prompt}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Globe, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useModelCatalog } from "@/hooks/use-model-catalog";
+import { supabase } from "@/integrations/supabase/client";
+import type { EvaluatorType, RubricCriterion, TestCase } from "@/context/OptimizerSessionContext";
+
+export interface PortabilityResult {
+  provider: string;
+  model: string;
+  output: string;
+  score: number | null;
+  latencyMs: number;
+  cost: { cost: number; totalTokens: number };
+  error?: string;
+}
+
+interface PortabilityCheckProps {
+  prompt: string;
+  originalPrompt: string;
+  taskDescription: string;
+  aiProvider: string;
+  llmModel: string;
+  maxTokens?: number | null;
+  testCases?: TestCase[];
+  evaluator?: EvaluatorType;
+  rubric?: RubricCriterion[];
+}
+
+type DiffSegment = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Matches the server-side limit on targets per check
+const MAX_PORTABILITY_TARGETS = 6;
+// Word-level LCS is quadratic, so long outputs are compared on their opening words only
+const MAX_DIFF_WORDS = 1500;
+
+const targetKey = (provider: string, model: string) => `${provider}/${model}`;
+
+// Word-level diff of `next` against `base`, merging consecutive words of the same kind
+const diffWords = (base: string, next: string): DiffSegment[] => {
+  const a = base.split(/\s+/).filter(Boolean).slice(0, MAX_DIFF_WORDS);
+  const b = next.split(/\s+/).filter(Boolean).slice(0, MAX_DIFF_WORDS);
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], word: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += ` ${word}`;
+    else segments.push({ type, text: word });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push('same', a[i]); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) push('removed', a[i++]);
+    else push('added', b[j++]);
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return segments;
+};
+
+// Share of words two outputs have in common, from 0 (nothing) to 1 (identical)
+const similarity = (segments: DiffSegment[]) => {
+  const count = (type: DiffSegment['type']) => segments
+    .filter(s => s.type === type)
+    .reduce((total, s) => total + s.text.split(' ').length, 0);
+  const same = count('same');
+  const total = 2 * same + count('added') + count('removed');
+  return total > 0 ? (2 * same) / total : 1;
+};
+
+const segmentClass: Record<DiffSegment['type'], string> = {
+  same: '',
+  added: 'bg-green-500/15 text-green-700 dark:text-green-400',
+  removed: 'bg-red-500/15 text-red-700 dark:text-red-400 line-through'
+};
+
+// Run one optimized prompt on several models and compare score, latency, cost and output side by side
+export const PortabilityCheck = ({
+  prompt,
+  originalPrompt,
+  taskDescription,
+  aiProvider,
+  llmModel,
+  maxTokens = null,
+  testCases = [],
+  evaluator = 'heuristic',
+  rubric
+}: PortabilityCheckProps) => {
+  const { toast } = useToast();
+  const { modelOptions, providerOptions } = useModelCatalog();
+  const [selected, setSelected] = useState<string[]>([targetKey(aiProvider, llmModel)]);
+  const [results, setResults] = useState<PortabilityResult[] | null>(null);
+  const [focused, setFocused] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const toggleTarget = (key: string, checked: boolean) => {
+    setSelected(checked ? [...selected, key] : selected.filter(k => k !== key));
+  };
+
+  const runCheck = async () => {
+    setIsRunning(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await supabase.functions.invoke('prompt-optimizer', {
+        body: {
+          action: 'portability_check',
+          prompt,
+          targets: selected.map(key => {
+            const [provider, ...model] = key.split('/');
+            return { provider, model: model.join('/') };
+          }),
+          originalPrompt,
+          taskDescription,
+          aiProvider,
+          modelName: llmModel,
+          userId: user.id,
+          maxTokens,
+          testCases,
+          evaluator,
+          rubric
+        }
+      });
+      if (error) throw new Error(error.message || 'Portability check failed');
+
+      setResults(data.results);
+      setFocused(null);
+    } catch (error) {
+      console.error('Error running portability check:', error);
+      toast({
+        title: "Portability Check Failed",
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Outputs are diffed against the run's own model when it was checked, otherwise the first model that answered
+  const reference = results?.find(r => r.provider === aiProvider && r.model === llmModel && r.output)
+    ?? results?.find(r => r.output);
+  const diffs = new Map((results ?? [])
+    .filter(r => r.output && reference)
+    .map(r => [targetKey(r.provider, r.model), diffWords(reference!.output, r.output)]));
+  const focusedResult = results?.find(r => targetKey(r.provider, r.model) === focused);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Globe className="h-4 w-4 text-primary" />
+          <span>Target Models</span>
+          <span className="text-xs text-muted-foreground">
+            {selected.length}/{MAX_PORTABILITY_TARGETS} selected
+          </span>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {providerOptions.map(provider => (
+            <div key={provider.value} className="space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">{provider.label}</div>
+              {modelOptions[provider.value]?.map(model => {
+                const key = targetKey(provider.value, model.value);
+                const checked = selected.includes(key);
+                return (
+                  <div key={key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`portability-${key}`}
+                      checked={checked}
+                      disabled={!checked && selected.length >= MAX_PORTABILITY_TARGETS}
+                      onCheckedChange={(value) => toggleTarget(key, value === true)}
+                    />
+                    <Label htmlFor={`portability-${key}`} className="text-sm font-normal">{model.label}</Label>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        <Button onClick={runCheck} disabled={isRunning || selected.length === 0}>
+          {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Globe className="h-4 w-4 mr-2" />}
+          {isRunning ? 'Running Check...' : 'Run Portability Check'}
+        </Button>
+      </div>
+
+      {results && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Model</TableHead>
+              <TableHead className="text-right">Score</TableHead>
+              <TableHead className="text-right">Latency</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead className="text-right">Similarity</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.map(r => {
+              const key = targetKey(r.provider, r.model);
+              const diff = diffs.get(key);
+              return (
+                <TableRow
+                  key={key}
+                  className={`cursor-pointer ${focused === key ? 'bg-muted' : ''}`}
+                  onClick={() => setFocused(focused === key ? null : key)}
+                >
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{r.model}</span>
+                      <Badge variant="outline">{r.provider}</Badge>
+                      {r === reference && <Badge variant="secondary">Reference</Badge>}
+                    </div>
+                    {r.error && <div className="text-xs text-destructive">{r.error}</div>}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {r.score === null ? '—' : `${Math.round(r.score * 100)}%`}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{(r.latencyMs / 1000).toFixed(1)}s</TableCell>
+                  <TableCell className="text-right font-mono">
+                    ${r.cost.cost.toFixed(4)}
+                    <div className="text-xs text-muted-foreground">{r.cost.totalTokens.toLocaleString()} tokens</div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {diff ? `${Math.round(similarity(diff) * 100)}%` : '—'}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {results && !focusedResult && (
+        <p className="text-xs text-muted-foreground">Select a model to compare its output with the reference.</p>
+      )}
+
+      {focusedResult && reference && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium">
+            {focusedResult === reference
+              ? `${reference.model} output (reference)`
+              : `${focusedResult.model} vs ${reference.model}`}
+          </div>
+          <div className="bg-muted/50 p-3 rounded-md text-sm whitespace-pre-wrap">
+            {focusedResult === reference
+              ? reference.output
+              : diffs.get(targetKey(focusedResult.provider, focusedResult.model))?.map((segment, index) => (
+                <span key={index} className={segmentClass[segment.type]}>{segment.text} </span>
+              )) ?? 'No output to compare'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,11 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Copy, ThumbsUp, ThumbsDown, RefreshCw, Star, Loader2, Award, TrendingUp, Target, BarChart3, Zap } from "lucide-react";
+import { Copy, ThumbsUp, ThumbsDown, RefreshCw, Star, Loader2, Award, TrendingUp, Target, BarChart3, Zap, Globe } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from '@/integrations/supabase/client';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
+import { TestCaseResults, type TestCaseResult } from '@/components/TestCases';
+import { EvaluationBreakdown, type VariantEvaluation } from '@/components/Evaluation';
+import { TournamentResults } from '@/components/Tournament';
+import { PortabilityCheck } from '@/components/Portability';
+import { IntentDriftBadge } from '@/components/Intent';
+import type { EvaluatorType, IntentCheck, RankingMode, RubricCriterion, TestCase, TournamentResult } from '@/context/OptimizerSessionContext';
 
 interface PromptResultsProps {
   taskDescription: string;
@@ -20,6 +26,11 @@ interface PromptResultsProps {
   maxTokens?: number;
   temperature?: number;
   optimizationMode?: 'speed' | 'deep';
+  rounds?: number;
+  testCases?: TestCase[];
+  evaluator?: EvaluatorType;
+  rubric?: RubricCriterion[];
+  ranking?: RankingMode;
 }
 
 interface OptimizationResult {
@@ -32,18 +43,27 @@ interface OptimizationResult {
     strategy: string;
     score: number;
     response: string;
+    cycle?: number;
+    testResults?: TestCaseResult[];
+    evaluation?: VariantEvaluation | null;
+    intentCheck?: IntentCheck | null;
     metrics: {
       tokens_used: number;
+      cost_usd?: number;
       response_length: number;
       prompt_length: number;
       strategy_weight: number;
     };
   }>;
+  tournament?: TournamentResult | null;
   summary: {
     improvementScore: number;
     bestStrategy: string;
     totalVariants: number;
+    roundsCompleted?: number;
     processingTimeMs: number;
+    totalTokens?: number;
+    totalCost?: number;
   };
 }
 
@@ -57,12 +77,18 @@ export const PromptResults = ({
   variants = 3,
   maxTokens = null,
   temperature = 0.7,
-  optimizationMode = 'deep'
+  optimizationMode = 'deep',
+  rounds = 1,
+  testCases = [],
+  evaluator = 'heuristic',
+  rubric,
+  ranking = 'score'
 }: PromptResultsProps) => {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
   const [result, setResult] = useState<OptimizationResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState('best');
 
   useEffect(() => {
     generateOptimizedPrompts();
@@ -94,7 +120,12 @@ export const PromptResults = ({
           temperature,
           influence: influence || '',
           influenceWeight: influenceWeight || 0,
-          mode: optimizationMode
+          mode: optimizationMode,
+          rounds,
+          testCases,
+          evaluator,
+          rubric,
+          ranking
         }
       });
 
@@ -252,17 +283,24 @@ export const PromptResults = ({
             <Zap className="h-6 w-6 mx-auto mb-2 text-primary" />
             <div className="text-lg font-bold">{Math.round(result.summary.processingTimeMs / 1000)}s</div>
             <div className="text-xs text-muted-foreground">Processing Time</div>
+            {typeof result.summary.totalCost === 'number' && (
+              <div className="text-xs text-muted-foreground">
+                {(result.summary.totalTokens ?? 0).toLocaleString()} tokens · ${result.summary.totalCost.toFixed(4)}
+              </div>
+            )}
           </div>
         </div>
 
         <Separator />
 
         {/* Tabs for Results */}
-        <Tabs defaultValue="best" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className={`grid w-full ${result.tournament ? 'grid-cols-5' : 'grid-cols-4'}`}>
             <TabsTrigger value="best">Best Result</TabsTrigger>
             <TabsTrigger value="variants">All Variants</TabsTrigger>
+            {result.tournament && <TabsTrigger value="ranking">Ranking</TabsTrigger>}
             <TabsTrigger value="comparison">Original vs Optimized</TabsTrigger>
+            <TabsTrigger value="portability">Portability</TabsTrigger>
           </TabsList>
 
           <TabsContent value="best" className="space-y-4">
@@ -292,6 +330,11 @@ export const PromptResults = ({
                   </span>
                 </div>
                 {getScoreBadge(result.bestScore)}
+                <IntentDriftBadge check={result.variants.find(v => v.prompt === result.bestOptimizedPrompt)?.intentCheck} />
+                <Button variant="outline" size="sm" onClick={() => setActiveTab('portability')}>
+                  <Globe className="h-3 w-3 mr-1" />
+                  Check Portability
+                </Button>
               </div>
             </Card>
             
@@ -324,9 +367,13 @@ export const PromptResults = ({
               <Card key={index} className="p-4">
                 <div className="flex items-center justify-between mb-3">
                   <div className="flex items-center space-x-2">
+                    {(result.summary.roundsCompleted ?? 1) > 1 && variant.cycle && (
+                      <Badge variant="secondary">Round {variant.cycle}</Badge>
+                    )}
                     <span className={`text-sm font-medium ${getScoreColor(variant.score)}`}>
                       {Math.round(variant.score * 100)}%
                     </span>
+                    <IntentDriftBadge check={variant.intentCheck} />
                   </div>
                   <Button
                     variant="outline"
@@ -365,15 +412,33 @@ export const PromptResults = ({
                 </div>
                 
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-muted-foreground">
-                  <div>Tokens: {variant.metrics.tokens_used}</div>
+                  <div>Tokens: {variant.metrics.tokens_used}{typeof variant.metrics.cost_usd === 'number' ? ` ($${variant.metrics.cost_usd.toFixed(4)})` : ''}</div>
                   <div>Response Length: {variant.metrics.response_length}</div>
                   <div>Prompt Length: {variant.metrics.prompt_length}</div>
                   <div>Strategy Weight: {variant.metrics.strategy_weight}%</div>
                 </div>
+                {variant.testResults && variant.testResults.length > 0 && (
+                  <div className="mt-3">
+                    <TestCaseResults results={variant.testResults} />
+                  </div>
+                )}
+                {variant.evaluation?.criteria && (
+                  <div className="mt-3 rounded-md border p-3">
+                    <EvaluationBreakdown evaluation={variant.evaluation} />
+                  </div>
+                )}
               </Card>
             ))}
           </TabsContent>
 
+          {result.tournament && (
+            <TabsContent value="ranking" className="space-y-4">
+              <Card className="p-4">
+                <TournamentResults tournament={result.tournament} />
+              </Card>
+            </TabsContent>
+          )}
+
           <TabsContent value="comparison" className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Card className="p-4">
@@ -397,6 +462,22 @@ export const PromptResults = ({
               </Card>
             </div>
           </TabsContent>
+
+          <TabsContent value="portability" className="space-y-4">
+            <Card className="p-4">
+              <PortabilityCheck
+                prompt={result.bestOptimizedPrompt}
+                originalPrompt={result.originalPrompt}
+                taskDescription={taskDescription}
+                aiProvider={aiProvider.toLowerCase()}
+                llmModel={llmModel}
+                maxTokens={maxTokens}
+                testCases={testCases}
+                evaluator={evaluator}
+                rubric={rubric}
+              />
+            </Card>
+          </TabsContent>
         </Tabs>
 
         <div className="flex justify-center">
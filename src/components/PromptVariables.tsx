@@ -0,0 +1,44 @@
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
+import { extractPlaceholders, type PromptVariables } from "@/lib/placeholders";
+
+// Placeholders found in the prompt, locked through optimization, with optional sample values for the test step
+export const PromptVariablesEditor = ({
+  prompt,
+  values,
+  onChange
+}: {
+  prompt: string;
+  values: PromptVariables;
+  onChange: (values: PromptVariables) => void;
+}) => {
+  const placeholders = extractPlaceholders(prompt);
+  if (placeholders.length === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center gap-2">
+        <Lock className="h-4 w-4 text-primary" />
+        <Label className="text-sm font-medium">Prompt Variables</Label>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Every variant must keep these placeholders. Sample values fill them in when variants are tested; blank ones are left as written.
+      </p>
+      <div className="space-y-2">
+        {placeholders.map(name => (
+          <div key={name} className="grid grid-cols-[minmax(0,1fr)_2fr] items-center gap-2">
+            <Badge variant="secondary" className="justify-self-start font-mono">{`{{${name}}}`}</Badge>
+            <Input
+              value={values[name] ?? ''}
+              onChange={(e) => onChange({ ...values, [name]: e.target.value })}
+              placeholder={`Sample ${name}`}
+              className="h-8 text-sm"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
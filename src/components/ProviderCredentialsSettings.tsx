@@ -0,0 +1,215 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { KeyRound, Trash2 } from "lucide-react";
+import type { UserSettings } from "@/hooks/use-settings";
+
+interface ProviderCredentialsSettingsProps {
+  settings: UserSettings;
+  setSettings: (settings: UserSettings) => void;
+}
+
+interface StoredCredential {
+  id: string;
+  provider: string;
+  key_hint: string | null;
+  last_tested_at: string | null;
+  last_test_ok: boolean | null;
+  last_test_error: string | null;
+}
+
+const PROVIDERS = [
+  { value: "openai", label: "OpenAI", placeholder: "sk-..." },
+  { value: "anthropic", label: "Anthropic", placeholder: "sk-ant-..." },
+  { value: "google", label: "Google", placeholder: "AIza..." },
+  { value: "groq", label: "Groq", placeholder: "gsk_..." },
+  { value: "mistral", label: "Mistral", placeholder: "Mistral API key" }
+];
+
+// The function answers errors with a JSON body; surface its message instead of the generic one
+const readFunctionError = async (error: any): Promise<string> => {
+  try {
+    const body = await error?.context?.json();
+    if (body?.error) return body.error;
+  } catch {
+    // fall through to the client's message
+  }
+  return error?.message || "Request failed";
+};
+
+const TestStatus = ({ credential }: { credential: StoredCredential }) => {
+  if (credential.last_test_ok === null) {
+    return <Badge variant="outline">Not tested</Badge>;
+  }
+  return credential.last_test_ok
+    ? <Badge variant="secondary">Working</Badge>
+    : <Badge variant="destructive" title={credential.last_test_error || undefined}>Failed</Badge>;
+};
+
+export function ProviderCredentialsSettings({ settings, setSettings }: ProviderCredentialsSettingsProps) {
+  const [credentials, setCredentials] = useState<StoredCredential[]>([]);
+  const [keys, setKeys] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCredentials();
+  }, []);
+
+  const loadCredentials = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('provider_credentials')
+        .select('id, provider, key_hint, last_tested_at, last_test_ok, last_test_error');
+
+      if (error) throw error;
+      setCredentials(data || []);
+    } catch (error) {
+      console.error('Error loading provider keys:', error);
+    }
+  };
+
+  const handleSave = async (provider: string) => {
+    const apiKey = keys[provider]?.trim();
+    if (!apiKey) {
+      toast.error("Enter an API key first");
+      return;
+    }
+
+    setBusy(provider);
+    try {
+      const { error } = await supabase.functions.invoke('provider-credentials', {
+        body: { action: 'save', provider, apiKey }
+      });
+      if (error) {
+        toast.error(await readFunctionError(error));
+        return;
+      }
+
+      setKeys({ ...keys, [provider]: "" });
+      toast.success("API key saved");
+      loadCredentials();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Tests the key typed in the field if there is one, otherwise the saved key
+  const handleTest = async (provider: string) => {
+    setBusy(provider);
+    try {
+      const { data, error } = await supabase.functions.invoke('provider-credentials', {
+        body: { action: 'test', provider, apiKey: keys[provider]?.trim() || undefined }
+      });
+      if (error) {
+        toast.error(await readFunctionError(error));
+        return;
+      }
+
+      if (data?.ok) {
+        toast.success("Key works");
+      } else {
+        toast.error(data?.error || "Key was rejected");
+      }
+      loadCredentials();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (credential: StoredCredential) => {
+    const { error } = await supabase
+      .from('provider_credentials')
+      .delete()
+      .eq('id', credential.id);
+
+    if (error) {
+      toast.error(error.message || "Failed to remove API key");
+      return;
+    }
+    toast.success("API key removed");
+    loadCredentials();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+            <KeyRound className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Provider Keys</CardTitle>
+            <CardDescription>
+              Bill optimizations and agent calls to your own provider accounts. Keys are encrypted and never shown again.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {PROVIDERS.map(({ value, label, placeholder }) => {
+          const credential = credentials.find(c => c.provider === value);
+          return (
+            <div key={value} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`provider-key-${value}`}>{label}</Label>
+                {credential && (
+                  <>
+                    <span className="text-sm text-muted-foreground font-mono">{credential.key_hint}</span>
+                    <TestStatus credential={credential} />
+                  </>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  id={`provider-key-${value}`}
+                  type="password"
+                  value={keys[value] || ""}
+                  onChange={(e) => setKeys({ ...keys, [value]: e.target.value })}
+                  placeholder={credential ? "Enter a new key to replace the saved one" : placeholder}
+                  className="font-mono"
+                />
+                <Button onClick={() => handleSave(value)} disabled={busy === value || !keys[value]?.trim()}>
+                  Save
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleTest(value)}
+                  disabled={busy === value || (!credential && !keys[value]?.trim())}
+                >
+                  {busy === value ? "..." : "Test"}
+                </Button>
+                {credential && (
+                  <Button variant="outline" size="icon" onClick={() => handleDelete(credential)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        <Separator />
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Fall Back to Platform Keys</Label>
+            <p className="text-sm text-muted-foreground">
+              Use the platform's keys for providers you have not added a key for. Turn off to only ever use your own.
+            </p>
+          </div>
+          <Switch
+            checked={settings.allowPlatformKeys}
+            onCheckedChange={(checked) => setSettings({ ...settings, allowPlatformKeys: checked })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -23,6 +23,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { usePromptData } from "@/context/PromptDataContext";
+import { useModelCatalog } from "@/hooks/use-model-catalog";
 
 interface Template {
   id: string;
@@ -67,6 +68,13 @@ export const TemplateOptimizer = () => {
   // AI Configuration
   const [aiProvider, setAiProvider] = useState("openai");
   const [modelName, setModelName] = useState("gpt-4o-mini");
+  const { modelOptions, providerOptions } = useModelCatalog();
+
+  const handleProviderChange = (provider: string) => {
+    setAiProvider(provider);
+    const firstModel = modelOptions[provider]?.[0]?.value;
+    if (firstModel) setModelName(firstModel);
+  };
   const [outputType, setOutputType] = useState("text");
   const [variants, setVariants] = useState(3);
   const [temperature, setTemperature] = useState(0.7);
@@ -183,31 +191,6 @@ export const TemplateOptimizer = () => {
   };
 
   const categories = ["all", "custom", "code", "writing", "analysis", "marketing"];
-  const providers = [
-    { value: "openai", label: "OpenAI" },
-    { value: "anthropic", label: "Anthropic" },
-    { value: "mistral", label: "Mistral" },
-    { value: "google", label: "Google" },
-    { value: "groq", label: "Groq" }
-  ];
-
-  const getModelOptions = () => {
-    switch (aiProvider) {
-      case "openai":
-        return ["gpt-5-2025-08-07", "gpt-5-mini-2025-08-07", "gpt-5-nano-2025-08-07", "gpt-4.1-2025-04-14", "gpt-4o", "gpt-4o-mini"];
-      case "anthropic":
-        return ["claude-opus-4-1-20250805", "claude-sonnet-4-20250514", "claude-3-5-haiku-20241022"];
-      case "mistral":
-        return ["mistral-large", "mistral-medium"];
-      case "google":
-        return ["gemini-2.0-flash-lite", "gemini-2.0-flash", "gemini-2.5-flash-lite", "gemini-2.5-flash", "gemini-2.5-pro"];
-      case "groq":
-        return ["llama-3.1-8b"];
-      default:
-        return ["gpt-4o-mini"];
-    }
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -330,12 +313,12 @@ export const TemplateOptimizer = () => {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label>AI Provider</Label>
-                <Select value={aiProvider} onValueChange={setAiProvider}>
+                <Select value={aiProvider} onValueChange={handleProviderChange}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {providers.map(provider => (
+                    {providerOptions.map(provider => (
                       <SelectItem key={provider.value} value={provider.value}>
                         {provider.label}
                       </SelectItem>
@@ -351,9 +334,9 @@ export const TemplateOptimizer = () => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {getModelOptions().map(model => (
-                      <SelectItem key={model} value={model}>
-                        {model}
+                    {modelOptions[aiProvider]?.map(model => (
+                      <SelectItem key={model.value} value={model.value}>
+                        {model.label}
                       </SelectItem>
                     ))}
                   </SelectContent>
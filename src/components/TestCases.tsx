@@ -0,0 +1,164 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, XCircle, Plus, Trash2 } from "lucide-react";
+import type { TestAssertionType, TestCase } from "@/context/OptimizerSessionContext";
+
+export interface TestCaseResult {
+  input: string;
+  output: string;
+  passed: boolean;
+  // 'schema' checks are added by the server when the run has a JSON Schema
+  assertions: Array<{ type: TestAssertionType | 'schema'; value?: string; passed: boolean; message: string }>;
+}
+
+const assertionLabels: Record<TestAssertionType, string> = {
+  contains: 'Contains',
+  regex: 'Matches Regex',
+  json: 'Valid JSON',
+  equals: 'Equals',
+};
+
+// Editor for the per-run test suite used to score deep-mode variants
+export const TestCasesEditor = ({
+  testCases,
+  setTestCases
+}: {
+  testCases: TestCase[];
+  setTestCases: (value: TestCase[]) => void;
+}) => {
+  const updateCase = (index: number, changes: Partial<TestCase>) => {
+    setTestCases(testCases.map((tc, i) => i === index ? { ...tc, ...changes } : tc));
+  };
+
+  const updateAssertion = (caseIndex: number, assertionIndex: number, changes: Partial<TestCase['assertions'][number]>) => {
+    const assertions = testCases[caseIndex].assertions.map((a, i) => i === assertionIndex ? { ...a, ...changes } : a);
+    updateCase(caseIndex, { assertions });
+  };
+
+  const addCase = () => {
+    setTestCases([...testCases, { input: '', expectedOutput: '', assertions: [] }]);
+  };
+
+  const removeCase = (index: number) => {
+    setTestCases(testCases.filter((_, i) => i !== index));
+  };
+
+  const addAssertion = (caseIndex: number) => {
+    updateCase(caseIndex, { assertions: [...testCases[caseIndex].assertions, { type: 'contains', value: '' }] });
+  };
+
+  const removeAssertion = (caseIndex: number, assertionIndex: number) => {
+    updateCase(caseIndex, { assertions: testCases[caseIndex].assertions.filter((_, i) => i !== assertionIndex) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Test Cases</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addCase}>
+          <Plus className="h-3 w-3 mr-1" />
+          Add Case
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Variants are scored by the share of cases they pass. Use {'{{input}}'} in your prompt to control where the input goes.
+      </p>
+
+      {testCases.map((testCase, caseIndex) => (
+        <div key={caseIndex} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-muted-foreground">Case {caseIndex + 1}</span>
+            <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeCase(caseIndex)}>
+              <Trash2 className="h-3 w-3 text-destructive" />
+            </Button>
+          </div>
+          <Textarea
+            value={testCase.input}
+            onChange={(e) => updateCase(caseIndex, { input: e.target.value })}
+            placeholder="Example input"
+            rows={2}
+          />
+          <Textarea
+            value={testCase.expectedOutput || ''}
+            onChange={(e) => updateCase(caseIndex, { expectedOutput: e.target.value })}
+            placeholder="Expected output (checked for equality when no assertions are added)"
+            rows={2}
+          />
+
+          {testCase.assertions.map((assertion, assertionIndex) => (
+            <div key={assertionIndex} className="flex items-center gap-2">
+              <Select
+                value={assertion.type}
+                onValueChange={(value) => updateAssertion(caseIndex, assertionIndex, { type: value as TestAssertionType })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(assertionLabels) as TestAssertionType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{assertionLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {assertion.type !== 'json' && (
+                <Input
+                  value={assertion.value || ''}
+                  onChange={(e) => updateAssertion(caseIndex, assertionIndex, { value: e.target.value })}
+                  placeholder={assertion.type === 'regex' ? '^\\d+$' : 'Expected text'}
+                  className={assertion.type === 'regex' ? 'font-mono' : ''}
+                />
+              )}
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeAssertion(caseIndex, assertionIndex)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+
+          <Button type="button" variant="ghost" size="sm" onClick={() => addAssertion(caseIndex)}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add Assertion
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Per-case pass/fail breakdown for a scored variant
+export const TestCaseResults = ({ results }: { results: TestCaseResult[] }) => {
+  const passed = results.filter(r => r.passed).length;
+
+  return (
+    <details className="group">
+      <summary className="cursor-pointer text-xs text-muted-foreground hover:text-foreground transition-colors">
+        Test cases: {passed}/{results.length} passed
+      </summary>
+      <div className="mt-2 space-y-2">
+        {results.map((result, index) => (
+          <div key={index} className="rounded-md border p-2 text-xs space-y-1">
+            <div className="flex items-center gap-2">
+              {result.passed ? (
+                <CheckCircle className="h-3 w-3 text-green-500" />
+              ) : (
+                <XCircle className="h-3 w-3 text-red-500" />
+              )}
+              <span className="font-medium truncate">{result.input}</span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {result.assertions.map((assertion, i) => (
+                <Badge key={i} variant={assertion.passed ? 'secondary' : 'destructive'} className="text-[10px]">
+                  {assertion.message}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-muted-foreground whitespace-pre-wrap line-clamp-3">{result.output || 'No output'}</p>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,105 @@
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trophy } from "lucide-react";
+import type { TournamentResult } from "@/context/OptimizerSessionContext";
+
+const matchCellClass = (points: number | null) => {
+  if (points === null) return 'bg-muted';
+  if (points === 1) return 'bg-green-500/15 text-green-700 dark:text-green-400';
+  if (points === 0) return 'bg-red-500/15 text-red-700 dark:text-red-400';
+  return 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-400';
+};
+
+const matchCellLabel = (points: number | null) => {
+  if (points === null) return '—';
+  if (points === 1) return 'W';
+  if (points === 0) return 'L';
+  return 'T';
+};
+
+// Bradley-Terry ranking with 95% intervals, plus the head-to-head results behind it
+export const TournamentResults = ({ tournament }: { tournament: TournamentResult }) => {
+  // Matrix rows/columns follow the finalist order; ranking indexes point into the full variants array
+  const labelFor = (variantIndex: number) => `#${variantIndex + 1}`;
+  const strategyFor = (variantIndex: number) =>
+    tournament.ranking.find(r => r.index === variantIndex)?.strategy ?? labelFor(variantIndex);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Trophy className="h-4 w-4 text-primary" />
+          <span>Tournament Ranking</span>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">Rank</TableHead>
+              <TableHead>Variant</TableHead>
+              <TableHead className="text-right">Rating</TableHead>
+              <TableHead className="text-right">95% CI</TableHead>
+              <TableHead className="text-right">W-L-T</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tournament.ranking.map((entry, position) => (
+              <TableRow key={entry.index}>
+                <TableCell className="font-medium">{position + 1}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{labelFor(entry.index)}</Badge>
+                    <span>{entry.strategy}</span>
+                    {position === 0 && <Badge>Winner</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right font-mono">{entry.rating}</TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {entry.ciLow}–{entry.ciHigh}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {entry.wins}-{entry.losses}-{entry.ties}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground">
+          Overlapping intervals mean the judge could not reliably separate those variants
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Head-to-Head</div>
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th className="p-2" />
+                {tournament.variantIndexes.map(variantIndex => (
+                  <th key={variantIndex} className="p-2 font-medium" title={strategyFor(variantIndex)}>
+                    {labelFor(variantIndex)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {tournament.matrix.map((row, i) => (
+                <tr key={i}>
+                  <th className="p-2 text-left font-medium whitespace-nowrap">
+                    {labelFor(tournament.variantIndexes[i])} {strategyFor(tournament.variantIndexes[i])}
+                  </th>
+                  {row.map((points, j) => (
+                    <td key={j} className={`p-2 text-center rounded ${matchCellClass(points)}`}>
+                      {matchCellLabel(points)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">Read across: the row variant's result against the column variant</p>
+      </div>
+    </div>
+  );
+};
@@ -21,9 +21,14 @@ import {
   Upload
 } from "lucide-react";
 import { useSettings } from "@/hooks/use-settings";
+import { useModelCatalog } from "@/hooks/use-model-catalog";
 import { useThemeSettings } from "@/hooks/use-theme-settings";
 import { useTheme } from "next-themes";
 import { ProfileSettings } from "@/components/ProfileSettings";
+import { CustomStrategiesSettings } from "@/components/CustomStrategiesSettings";
+import { BudgetSettings } from "@/components/BudgetSettings";
+import { CustomProviderSettings } from "@/components/CustomProviderSettings";
+import { ProviderCredentialsSettings } from "@/components/ProviderCredentialsSettings";
 import { useDataCleanup } from "@/hooks/use-data-cleanup";
 
 export const UserSettings = () => {
@@ -37,6 +42,7 @@ export const UserSettings = () => {
   } = useSettings();
 
   const { cleanupOldData, previewCleanup, isLoading: isCleaningUp, isPreviewLoading } = useDataCleanup();
+  const { modelOptions, providerOptions } = useModelCatalog();
 
   // Apply theme and compact mode settings
   useThemeSettings(settings, setSettings);
@@ -134,16 +140,21 @@ export const UserSettings = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
             <Label>Default AI Provider</Label>
-            <Select value={settings.defaultProvider} onValueChange={(value) => setSettings({ ...settings, defaultProvider: value })}>
+            <Select
+              value={settings.defaultProvider}
+              onValueChange={(value) => setSettings({
+                ...settings,
+                defaultProvider: value,
+                defaultModel: modelOptions[value]?.[0]?.value || settings.defaultModel
+              })}
+            >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="openai">OpenAI</SelectItem>
-                <SelectItem value="anthropic">Anthropic</SelectItem>
-                <SelectItem value="google">Google</SelectItem>
-                <SelectItem value="groq">Groq</SelectItem>
-                <SelectItem value="mistral">Mistral</SelectItem>
+                {providerOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -158,43 +169,9 @@ export const UserSettings = () => {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {settings.defaultProvider === 'openai' && (
-                  <>
-                    <SelectItem value="gpt-5-2025-08-07">GPT-5</SelectItem>
-                    <SelectItem value="gpt-5-mini-2025-08-07">GPT-5 Mini</SelectItem>
-                    <SelectItem value="gpt-5-nano-2025-08-07">GPT-5 Nano</SelectItem>
-                    <SelectItem value="gpt-4.1-2025-04-14">GPT-4.1</SelectItem>
-                    <SelectItem value="gpt-4o">GPT-4o</SelectItem>
-                    <SelectItem value="gpt-4o-mini">GPT-4o Mini</SelectItem>
-                  </>
-                )}
-                {settings.defaultProvider === 'anthropic' && (
-                  <>
-                    <SelectItem value="claude-opus-4-1-20250805">Claude Opus 4.1</SelectItem>
-                    <SelectItem value="claude-sonnet-4-20250514">Claude Sonnet 4</SelectItem>
-                    <SelectItem value="claude-3-5-haiku-20241022">Claude 3.5 Haiku</SelectItem>
-                  </>
-                )}
-                {settings.defaultProvider === 'google' && (
-                  <>
-                    <SelectItem value="gemini-2.5-pro">Gemini 2.5 Pro</SelectItem>
-                    <SelectItem value="gemini-2.5-flash">Gemini 2.5 Flash</SelectItem>
-                    <SelectItem value="gemini-2.5-flash-lite">Gemini 2.5 Flash Lite</SelectItem>
-                    <SelectItem value="gemini-2.0-flash">Gemini 2.0 Flash</SelectItem>
-                    <SelectItem value="gemini-2.0-flash-lite">Gemini 2.0 Flash Lite</SelectItem>
-                  </>
-                )}
-                {settings.defaultProvider === 'groq' && (
-                  <>
-                    <SelectItem value="llama-3.1-8b">Llama 3.1 8B</SelectItem>
-                  </>
-                )}
-                {settings.defaultProvider === 'mistral' && (
-                  <>
-                    <SelectItem value="mistral-large">Mistral Large</SelectItem>
-                    <SelectItem value="mistral-medium">Mistral Medium</SelectItem>
-                  </>
-                )}
+                {modelOptions[settings.defaultProvider]?.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -265,6 +242,18 @@ export const UserSettings = () => {
         </div>
       </Card>
 
+      {/* Usage & Budget */}
+      <BudgetSettings settings={settings} setSettings={setSettings} />
+
+      {/* Custom Optimization Strategies */}
+      <CustomStrategiesSettings />
+
+      {/* User-supplied provider API keys */}
+      <ProviderCredentialsSettings settings={settings} setSettings={setSettings} />
+
+      {/* Custom OpenAI-compatible Provider */}
+      <CustomProviderSettings />
+
       {/* Notifications */}
       <Card className="p-6">
         <div className="flex items-center space-x-2 mb-4">
@@ -27,6 +27,34 @@ export function APIDocs() {
     "input": "Write me a product description"
   }'`;
 
+  const conversationsUrl = baseUrl.replace('agent-invoke', 'agent-conversations');
+
+  const conversationExample = `{
+  "apiKey": "YOUR_API_KEY",
+  "agent_id": "YOUR_AGENT_ID",
+  "conversation_id": "CONVERSATION_ID_FROM_A_PREVIOUS_RESPONSE",
+  "input": "Make it shorter"
+}`;
+
+  const conversationsCurlExample = `curl -X POST "${conversationsUrl}?action=list" \\
+  -H "Authorization: Bearer YOUR_API_KEY" \\
+  -H "Content-Type: application/json" \\
+  -d '{ "agent_id": "YOUR_AGENT_ID", "limit": 20 }'`;
+
+  const batchUrl = baseUrl.replace('agent-invoke', 'agent-batch');
+
+  const batchCurlExample = `curl -X POST "${batchUrl}?action=create" \\
+  -H "Authorization: Bearer YOUR_API_KEY" \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "agent_id": "YOUR_AGENT_ID",
+    "concurrency": 3,
+    "inputs": [
+      "Write a tagline for running shoes",
+      { "input": "Write a tagline", "variables": { "product": "hiking boots" } }
+    ]
+  }'`;
+
   const requestExample = `{
   "apiKey": "YOUR_API_KEY",
   "agent_id": "YOUR_AGENT_ID",
@@ -35,10 +63,25 @@ export function APIDocs() {
 
   const responseExample = `{
   "agentId": "YOUR_AGENT_ID",
+  "agent_version": 3,
   "output": "Introducing our premium product - crafted with precision and designed for excellence. This innovative solution combines cutting-edge technology with elegant design...",
   "tokens_used": 187,
+  "cost": {
+    "promptTokens": 42,
+    "completionTokens": 145,
+    "totalTokens": 187,
+    "cost": 0.000093,
+    "calls": 1,
+    "currency": "USD",
+    "byModel": {
+      "gpt-4o-mini": { "promptTokens": 42, "completionTokens": 145, "totalTokens": 187, "cost": 0.000093, "calls": 1, "provider": "openai" }
+    },
+    "unpricedModels": [],
+    "providers": ["openai"]
+  },
   "model": "gpt-4o-mini",
   "provider": "openai",
+  "fallback_from": [],
   "processing_time_ms": 1234,
   "timestamp": "2024-01-20T12:00:00.000Z"
 }`;
@@ -203,11 +246,49 @@ export function APIDocs() {
             </div>
             <div>
               <p className="text-sm font-medium mb-1">agent_id (string, required)</p>
-              <p className="text-xs text-muted-foreground mb-2">The unique ID of your agent. Find this in the "Your Agents" tab by clicking on any agent.</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                The unique ID of your agent. Find this in the "Your Agents" tab by clicking on any agent. Requests get the agent's
+                published version; edits only reach callers once they are published from "Versions". Append <code>@3</code> to pin
+                version 3, or <code>@latest</code> to be explicit. Responses and log entries include <code>agent_version</code>.
+              </p>
             </div>
             <div>
               <p className="text-sm font-medium mb-1">input (string, required)</p>
-              <p className="text-xs text-muted-foreground mb-2">The prompt or question you want to send to your AI agent.</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                The prompt or question you want to send to your AI agent. May be left out when <code>messages</code> ends with a user turn.
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-1">conversation_id (string, optional)</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                Chat agents only. Continues a stored conversation: earlier turns are sent to the model for you, and the new turn
+                and reply are saved. Every multi-turn response includes <code>conversation_id</code>.
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-1">messages (array, optional)</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                Chat agents only. Starts a new stored conversation from earlier turns, e.g.{' '}
+                <code>{'[{ "role": "user", "content": "..." }, { "role": "assistant", "content": "..." }]'}</code>.
+                Cannot be combined with <code>conversation_id</code>. History that exceeds the agent's context window is dropped
+                or summarized, oldest turns first, depending on the agent's settings.
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-1">variables (object, optional)</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                Values for <code>{'{{placeholders}}'}</code> in the agent's prompt, e.g. <code>{'{ "customer_name": "Ada" }'}</code>.
+                When sent, every placeholder needs a value; otherwise the request fails with code <code>missing_variables</code>.
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-1">stream (boolean, optional)</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                Chat agents only. Returns Server-Sent Events instead of one JSON response: <code>start</code> with the serving
+                provider and model, a <code>delta</code> with <code>text</code> for each piece of output, then <code>done</code> with
+                the same fields as the normal response (or <code>error</code>). Events look the same for every provider.
+                Not available for agents with tools.
+              </p>
             </div>
             <div className="mt-4 pt-4 border-t">
               <p className="text-sm font-semibold mb-2">Example Request:</p>
@@ -239,6 +320,94 @@ export function APIDocs() {
           <pre className="bg-muted p-4 rounded text-sm overflow-x-auto">
             {responseExample}
           </pre>
+          <p className="text-xs text-muted-foreground mt-3">
+            Agents with a JSON Schema also return <code>data</code> (the parsed JSON output) and{' '}
+            <code>schema_validation</code> with <code>valid</code>, <code>errors</code> and <code>retried</code>.
+            An invalid response is retried once before it is returned.
+          </p>
+          <p className="text-xs text-muted-foreground mt-2">
+            Agents with tools call each tool's webhook with <code>{'{ "tool", "call_id", "arguments", "agent_id" }'}</code> and
+            feed the response body back to the model, for up to the agent's max tool steps. Those responses also include{' '}
+            <code>tool_calls</code> (<code>step</code>, <code>tool</code>, <code>arguments</code>, <code>status</code>,{' '}
+            <code>duration_ms</code>) and <code>tool_limit_reached</code>; when the limit runs out before the model answers,{' '}
+            <code>output</code> is empty and <code>error</code> says so. Every call is recorded in your agent logs.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Conversations</CardTitle>
+              <CardDescription>Multi-turn chats stored for your agent</CardDescription>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => copyToClipboard(conversationsCurlExample)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm font-semibold mb-2">Continue a conversation:</p>
+              <pre className="bg-muted p-4 rounded text-sm overflow-x-auto">
+                {conversationExample}
+              </pre>
+            </div>
+            <div>
+              <code className="text-sm font-mono">POST /functions/v1/agent-conversations?action=list | get | delete</code>
+              <p className="text-xs text-muted-foreground mt-2">
+                Uses the same API key and <code>agent_id</code>. <code>list</code> returns the agent's conversations, most recent
+                first (<code>limit</code> and <code>offset</code> for paging); <code>get</code> returns one conversation with its
+                messages; <code>delete</code> removes it. <code>get</code> and <code>delete</code> need <code>conversation_id</code>.
+              </p>
+            </div>
+            <pre className="bg-muted p-4 rounded text-xs overflow-x-auto">
+              {conversationsCurlExample}
+            </pre>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Batches</CardTitle>
+              <CardDescription>Run an agent over many inputs in the background</CardDescription>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => copyToClipboard(batchCurlExample)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <pre className="bg-muted p-4 rounded text-xs overflow-x-auto">
+              {batchCurlExample}
+            </pre>
+            <div>
+              <code className="text-sm font-mono">POST /functions/v1/agent-batch?action=create | list | status | results</code>
+              <p className="text-xs text-muted-foreground mt-2">
+                Uses the same API key and <code>agent_id</code>. <code>create</code> takes up to 1000 <code>inputs</code> (strings or
+                objects with <code>input</code> and <code>variables</code>) and an optional <code>name</code> and <code>concurrency</code> (1-10,
+                default 3), and answers 202 with a <code>batch_id</code> right away. Each input is run like a normal agent-invoke request,
+                without streaming or conversations, on the agent version that was live when the batch was created (or the one
+                pinned with <code>agent_id@version</code>). <code>status</code> returns progress, tokens and cost for a <code>batch_id</code>;
+                <code>list</code> returns recent batches (<code>limit</code>, <code>offset</code>). <code>results</code> downloads one row per
+                input with <code>format</code> <code>jsonl</code> (default) or <code>csv</code>. A batch stops early if the budget is exceeded.
+              </p>
+            </div>
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,378 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { parseBatchInputs, type BatchInput } from '@/lib/batch-input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Layers, Loader2, Play, RefreshCw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+type Agent = Pick<Tables<'agents'>, 'id' | 'name' | 'provider'>;
+
+type Batch = Tables<'agent_batches'>;
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 5, 10];
+const POLL_INTERVAL_MS = 5000;
+
+// The function answers errors with a JSON body; surface its message instead of the generic one
+const readFunctionError = async (error: Error): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) return body.error;
+    } catch {
+      // fall through to the client's message
+    }
+  }
+  return error.message || 'Request failed';
+};
+
+const statusBadge = (status: string) => {
+  switch (status) {
+    case 'completed':
+      return 'bg-green-500/10 text-green-500 border-green-500/20';
+    case 'failed':
+      return 'bg-red-500/10 text-red-500 border-red-500/20';
+    case 'running':
+      return 'bg-blue-500/10 text-blue-500 border-blue-500/20';
+    default:
+      return 'bg-muted text-muted-foreground';
+  }
+};
+
+export function AgentBatches() {
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedAgent, setSelectedAgent] = useState('');
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [loadingBatches, setLoadingBatches] = useState(false);
+  const [name, setName] = useState('');
+  const [concurrency, setConcurrency] = useState(3);
+  const [source, setSource] = useState<{ text: string; fileName?: string }>({ text: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const parsed: { inputs: BatchInput[]; error: string | null } | null = source.text.trim()
+    ? parseBatchInputs(source.text, source.fileName)
+    : null;
+
+  const loadAgents = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('agents')
+        .select('id, name, provider')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setAgents(data || []);
+      if (data && data.length > 0) setSelectedAgent(data[0].id);
+    } catch (error) {
+      console.error('Error loading agents:', error);
+      toast.error('Failed to load agents');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadBatches = useCallback(async (quiet = false) => {
+    if (!quiet) setLoadingBatches(true);
+    try {
+      const { data, error } = await supabase
+        .from('agent_batches')
+        .select('*')
+        .eq('agent_id', selectedAgent)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setBatches(data || []);
+    } catch (error) {
+      console.error('Error loading batches:', error);
+      if (!quiet) toast.error('Failed to load batches');
+    } finally {
+      if (!quiet) setLoadingBatches(false);
+    }
+  }, [selectedAgent]);
+
+  useEffect(() => {
+    loadAgents();
+  }, [loadAgents]);
+
+  useEffect(() => {
+    if (selectedAgent) loadBatches();
+  }, [selectedAgent, loadBatches]);
+
+  // Poll while a batch is still being worked on
+  const active = batches.some(batch => batch.status === 'queued' || batch.status === 'running');
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => loadBatches(true), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [active, loadBatches]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setSource({ text: await file.text(), fileName: file.name });
+  };
+
+  const handleSubmit = async () => {
+    if (!parsed || parsed.error) return;
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('agent-batch?action=create', {
+        body: { agent_id: selectedAgent, name: name.trim() || undefined, concurrency, inputs: parsed.inputs }
+      });
+      if (error) {
+        toast.error(await readFunctionError(error));
+        return;
+      }
+
+      toast.success(`Batch started with ${data.total_items} inputs`);
+      setName('');
+      setSource({ text: '' });
+      loadBatches();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDownload = async (batch: Batch, format: 'csv' | 'jsonl') => {
+    setDownloading(`${batch.id}-${format}`);
+    try {
+      const { data, error } = await supabase.functions.invoke('agent-batch?action=results', {
+        body: { agent_id: batch.agent_id, batch_id: batch.id, format }
+      });
+      if (error) {
+        toast.error(await readFunctionError(error));
+        return;
+      }
+
+      const blob = new Blob([data], { type: format === 'csv' ? 'text/csv' : 'application/x-ndjson' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${batch.name || `batch-${batch.id}`}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (agents.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>No Agents Found</CardTitle>
+          <CardDescription>
+            Create an agent first to run batches.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6 w-full">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Layers className="h-7 w-7 text-primary" />
+          <h1 className="text-3xl font-bold">Batch Runs</h1>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => loadBatches()}
+          disabled={loadingBatches}
+          className="gap-2"
+        >
+          {loadingBatches ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4" />
+          )}
+          Refresh
+        </Button>
+      </div>
+
+      <Card className="border-primary/20">
+        <CardHeader>
+          <CardTitle>New Batch</CardTitle>
+          <CardDescription>
+            Run the agent over many inputs. Upload a CSV with an "input" column (other columns fill prompt variables)
+            or JSONL with one input per line.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Agent</Label>
+              <Select value={selectedAgent} onValueChange={setSelectedAgent}>
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  {agents.map((agent) => (
+                    <SelectItem key={agent.id} value={agent.id}>
+                      {agent.name}
+                      <span className="text-xs text-muted-foreground ml-1">({agent.provider})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-name">Name (optional)</Label>
+              <Input
+                id="batch-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Product descriptions"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Parallel Requests</Label>
+              <Select value={String(concurrency)} onValueChange={(value) => setConcurrency(Number(value))}>
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  {CONCURRENCY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="batch-inputs">Inputs</Label>
+              <Button variant="outline" size="sm" className="gap-2" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="h-4 w-4" />
+                  Upload CSV / JSONL
+                  <input
+                    type="file"
+                    accept=".csv,.jsonl,.ndjson,.json,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleFile(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </Button>
+            </div>
+            <Textarea
+              id="batch-inputs"
+              value={source.text}
+              onChange={(e) => setSource({ text: e.target.value })}
+              placeholder={'input,product\n"Write a tagline","running shoes"\n\nor JSONL:\n{"input": "Write a tagline", "variables": {"product": "running shoes"}}'}
+              rows={8}
+              className="font-mono text-xs"
+            />
+            {source.fileName && (
+              <p className="text-xs text-muted-foreground">Loaded from {source.fileName}</p>
+            )}
+            {parsed && (
+              parsed.error
+                ? <p className="text-xs text-destructive">{parsed.error}</p>
+                : <p className="text-xs text-muted-foreground">{parsed.inputs.length} inputs ready</p>
+            )}
+          </div>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !selectedAgent || !parsed || !!parsed.error}
+            className="gap-2"
+          >
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+            Run Batch
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Batches</CardTitle>
+          <CardDescription>Recent batches for the selected agent</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loadingBatches ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : batches.length > 0 ? (
+            <div className="space-y-3">
+              {batches.map((batch) => {
+                const done = batch.succeeded_items + batch.failed_items;
+                return (
+                  <div key={batch.id} className="rounded-lg border border-border/50 p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-medium">{batch.name || 'Untitled batch'}</span>
+                          <Badge className={statusBadge(batch.status)}>{batch.status.toUpperCase()}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(batch.created_at).toLocaleString()}
+                          {batch.agent_version && ` · v${batch.agent_version}`} · {batch.concurrency} parallel
+                          {batch.tokens_used > 0 && ` · ${batch.tokens_used.toLocaleString()} tokens · $${Number(batch.cost_usd).toFixed(4)}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        {(['csv', 'jsonl'] as const).map((format) => (
+                          <Button
+                            key={format}
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            disabled={done === 0 || downloading === `${batch.id}-${format}`}
+                            onClick={() => handleDownload(batch, format)}
+                          >
+                            {downloading === `${batch.id}-${format}` ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Download className="h-4 w-4" />
+                            )}
+                            {format.toUpperCase()}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <Progress value={batch.total_items > 0 ? (done / batch.total_items) * 100 : 0} className="h-2" />
+                    <p className="text-xs text-muted-foreground">
+                      {done} of {batch.total_items} done · {batch.succeeded_items} succeeded · {batch.failed_items} failed
+                    </p>
+                    {batch.error && <p className="text-xs text-destructive">{batch.error}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <Layers className="h-12 w-12 text-muted-foreground/50 mb-4" />
+              <p className="text-muted-foreground">No batches for this agent yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,6 +7,10 @@ import { Slider } from '@/components/ui/slider';
 import { Card } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { supabase } from '@/integrations/supabase/client';
+import { useModelCatalog } from '@/hooks/use-model-catalog';
+import { FallbackChainEditor, type FallbackTarget } from '@/components/api/FallbackChainEditor';
+import { JsonSchemaEditor } from '@/components/JsonSchema';
+import { parseJsonSchemaText } from '@/lib/json-schema';
 import { toast } from 'sonner';
 import { Loader2, Settings, ChevronDown } from 'lucide-react';
 
@@ -26,37 +30,13 @@ export function AgentForm({ onSuccess }: AgentFormProps) {
     outputType: '',
     variants: 3,
     maxTokens: 2048,
-    temperature: 0.7
+    temperature: 0.7,
+    fallbackChain: [] as FallbackTarget[],
+    jsonSchema: ''
   });
 
-  // Model options per provider
-  const modelOptions: Record<string, { value: string; label: string }[]> = {
-    openai: [
-      { value: 'gpt-5-2025-08-07', label: 'GPT-5' },
-      { value: 'gpt-5-mini-2025-08-07', label: 'GPT-5 Mini' },
-      { value: 'gpt-5-nano-2025-08-07', label: 'GPT-5 Nano' },
-      { value: 'gpt-4.1-2025-04-14', label: 'GPT-4.1' },
-      { value: 'gpt-4o', label: 'GPT-4o' },
-      { value: 'gpt-4o-mini', label: 'GPT-4o Mini' }
-    ],
-    anthropic: [
-      { value: 'claude-opus-4-1-20250805', label: 'Claude Opus 4.1' },
-      { value: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4' },
-      { value: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku' }
-    ],
-    google: [
-      { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
-      { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
-      { value: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite' }
-    ],
-    groq: [
-      { value: 'llama-3.1-8b', label: 'Llama 3.1 8B' }
-    ],
-    mistral: [
-      { value: 'mistral-large', label: 'Mistral Large' },
-      { value: 'mistral-medium', label: 'Mistral Medium' }
-    ]
-  };
+  // Provider and model options from the model catalog
+  const { modelOptions, providerOptions } = useModelCatalog();
 
   // Auto-select first model when provider changes
   const handleProviderChange = (provider: string) => {
@@ -72,6 +52,14 @@ export function AgentForm({ onSuccess }: AgentFormProps) {
       return;
     }
 
+    const { schema, error: schemaError } = formData.outputType === 'json'
+      ? parseJsonSchemaText(formData.jsonSchema)
+      : { schema: null, error: null };
+    if (schemaError) {
+      toast.error(`Invalid JSON Schema: ${schemaError}`);
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -91,13 +79,23 @@ export function AgentForm({ onSuccess }: AgentFormProps) {
           temperature: formData.temperature,
           user_prompt: formData.systemPrompt,
           output_type: formData.outputType,
-          variants: formData.variants
+          variants: formData.variants,
+          fallback_chain: formData.fallbackChain.filter(t => t.model),
+          json_schema: schema
         })
         .select()
         .single();
 
       if (agentError) throw agentError;
 
+      // A new agent goes live as version 1; later edits are drafts until published
+      const { error: publishError } = await supabase.rpc('publish_agent_version', {
+        p_agent_id: agent.id,
+        p_notes: 'Initial version'
+      });
+
+      if (publishError) throw publishError;
+
       // Generate API key
       const apiKey = `pk_${Math.random().toString(36).substring(2)}${Date.now().toString(36)}`;
       
@@ -122,7 +120,9 @@ export function AgentForm({ onSuccess }: AgentFormProps) {
         outputType: '',
         variants: 3,
         maxTokens: 2048,
-        temperature: 0.7
+        temperature: 0.7,
+        fallbackChain: [],
+        jsonSchema: ''
       });
       onSuccess?.();
     } catch (error: any) {
@@ -224,11 +224,11 @@ export function AgentForm({ onSuccess }: AgentFormProps) {
               <SelectValue placeholder="Select AI provider" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="openai">OpenAI</SelectItem>
-              <SelectItem value="anthropic">Anthropic (Claude)</SelectItem>
-              <SelectItem value="google">Google (Gemini)</SelectItem>
-              <SelectItem value="groq">Groq</SelectItem>
-              <SelectItem value="mistral">Mistral</SelectItem>
+              {providerOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -278,6 +278,14 @@ export function AgentForm({ onSuccess }: AgentFormProps) {
           </Select>
         </div>
 
+        {formData.outputType === 'json' && (
+          <JsonSchemaEditor
+            value={formData.jsonSchema}
+            onChange={(jsonSchema) => setFormData({ ...formData, jsonSchema })}
+            description="Chat responses are validated against this schema and retried once when they don't match"
+          />
+        )}
+
         {/* Number of Variants */}
         <div className="space-y-2">
           <Label className="text-sm font-medium">Number of Variants</Label>
@@ -342,6 +350,11 @@ export function AgentForm({ onSuccess }: AgentFormProps) {
                   className="w-full"
                 />
               </div>
+
+              <FallbackChainEditor
+                value={formData.fallbackChain}
+                onChange={(fallbackChain) => setFormData({ ...formData, fallbackChain })}
+              />
             </div>
           </CollapsibleContent>
         </Collapsible>
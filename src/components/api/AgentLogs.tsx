@@ -22,8 +22,11 @@ interface LogEntry {
   metadata?: any;
   agentId: string;
   agentName: string;
+  agentVersion?: number | null;
   optimizedPrompt?: string;
   originalPrompt?: string;
+  tokensUsed?: number;
+  costUsd?: number;
   requestDetails?: any;
 }
 
@@ -102,8 +105,11 @@ export function AgentLogs() {
         message: log.message,
         agentId: log.agent_id,
         agentName: log.agent_name,
+        agentVersion: log.agent_version,
         optimizedPrompt: log.optimized_prompt,
         originalPrompt: log.original_prompt,
+        tokensUsed: log.tokens_used,
+        costUsd: Number(log.cost_usd) || 0,
         metadata: log.metadata
       }));
 
@@ -259,9 +265,17 @@ export function AgentLogs() {
                                 {log.agentName}
                               </Badge>
                             )}
+                            {log.agentVersion && (
+                              <Badge variant="outline">v{log.agentVersion}</Badge>
+                            )}
                             <span className="text-xs text-muted-foreground">
                               {new Date(log.timestamp).toLocaleString()}
                             </span>
+                            {log.tokensUsed > 0 && (
+                              <span className="text-xs text-muted-foreground">
+                                {log.tokensUsed.toLocaleString()} tokens · ${log.costUsd.toFixed(4)}
+                              </span>
+                            )}
                           </div>
                           <p className="text-sm leading-relaxed">{log.message}</p>
                           {(log.optimizedPrompt || log.metadata) && (
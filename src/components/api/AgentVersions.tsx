@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { configFromAgent, diffConfigs, type AgentConfig } from '@/lib/agent-versions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, RotateCcw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+type AgentVersion = Tables<'agent_versions'>;
+
+interface AgentVersionsProps {
+  agentId: string | null;
+  onOpenChange: (open: boolean) => void;
+  // Publishing and rolling back change the agent row, so the list showing it needs to reload
+  onChanged: () => void;
+}
+
+// Compare targets: "draft" or a version number
+const DRAFT = 'draft';
+
+export function AgentVersions({ agentId, onOpenChange, onChanged }: AgentVersionsProps) {
+  const [draft, setDraft] = useState<Tables<'agents'> | null>(null);
+  const [versions, setVersions] = useState<AgentVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [publishing, setPublishing] = useState(false);
+  const [rollbackTo, setRollbackTo] = useState<AgentVersion | null>(null);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState(DRAFT);
+
+  const loadVersions = useCallback(async () => {
+    if (!agentId) return;
+    setLoading(true);
+    try {
+      const [{ data: agent, error: agentError }, { data, error }] = await Promise.all([
+        supabase.from('agents').select('*').eq('id', agentId).single(),
+        supabase.from('agent_versions').select('*').eq('agent_id', agentId).order('version', { ascending: false })
+      ]);
+      if (agentError) throw agentError;
+      if (error) throw error;
+
+      setDraft(agent);
+      setVersions(data || []);
+      setCompareFrom(agent.published_version ? String(agent.published_version) : DRAFT);
+      setCompareTo(DRAFT);
+    } catch (error) {
+      console.error('Error loading agent versions:', error);
+      toast.error('Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const configFor = (target: string): AgentConfig | null => {
+    if (target === DRAFT) return draft ? configFromAgent(draft) : null;
+    const version = versions.find(v => String(v.version) === target);
+    return version ? version.config as AgentConfig : null;
+  };
+
+  const liveConfig = draft?.published_version ? configFor(String(draft.published_version)) : null;
+  const draftConfig = configFor(DRAFT);
+  const hasUnpublishedChanges = !!draftConfig && (!liveConfig || diffConfigs(liveConfig, draftConfig).length > 0);
+
+  const fromConfig = configFor(compareFrom);
+  const toConfig = configFor(compareTo);
+  const changes = fromConfig && toConfig ? diffConfigs(fromConfig, toConfig) : [];
+
+  const handlePublish = async () => {
+    if (!agentId) return;
+    setPublishing(true);
+    try {
+      const { data: version, error } = await supabase.rpc('publish_agent_version', {
+        p_agent_id: agentId,
+        p_notes: notes.trim() || undefined
+      });
+      if (error) throw error;
+
+      toast.success(`Published version ${version}`);
+      setNotes('');
+      loadVersions();
+      onChanged();
+    } catch (error) {
+      console.error('Error publishing agent version:', error);
+      toast.error('Failed to publish version');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  // Makes the version live again and resets the draft to it, so later edits start from what is being served
+  const handleRollback = async () => {
+    if (!agentId || !rollbackTo) return;
+    try {
+      const { error } = await supabase
+        .from('agents')
+        .update({ ...(rollbackTo.config as TablesUpdate<'agents'>), published_version: rollbackTo.version })
+        .eq('id', agentId);
+      if (error) throw error;
+
+      toast.success(`Rolled back to version ${rollbackTo.version}`);
+      loadVersions();
+      onChanged();
+    } catch (error) {
+      console.error('Error rolling back agent:', error);
+      toast.error('Failed to roll back');
+    } finally {
+      setRollbackTo(null);
+    }
+  };
+
+  const compareOptions = [
+    { value: DRAFT, label: 'Draft' },
+    ...versions.map(v => ({ value: String(v.version), label: `v${v.version}${v.version === draft?.published_version ? ' (live)' : ''}` }))
+  ];
+
+  return (
+    <>
+      <Dialog open={!!agentId} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Versions{draft ? ` - ${draft.name}` : ''}</DialogTitle>
+            <DialogDescription>
+              Edits are saved as a draft. API callers get the published version, or pin one with <code>agent_id@version</code>.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !draft ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="space-y-6 py-2">
+              <div className="rounded-lg border border-border/50 p-4 space-y-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium">Draft</span>
+                  {hasUnpublishedChanges ? (
+                    <Badge variant="outline" className="border-yellow-500/30 text-yellow-600">Unpublished changes</Badge>
+                  ) : (
+                    <Badge variant="outline">Same as live version</Badge>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="What changed? (optional)"
+                  />
+                  <Button onClick={handlePublish} disabled={publishing || !hasUnpublishedChanges} className="gap-2 shrink-0">
+                    {publishing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                    Publish v{(versions[0]?.version ?? 0) + 1}
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Published Versions</Label>
+                {versions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Not published yet - API callers get the draft until the first version is published.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {versions.map((version) => {
+                      const live = version.version === draft.published_version;
+                      return (
+                        <div key={version.id} className="flex items-center justify-between gap-4 rounded-lg border border-border/50 p-3">
+                          <div className="space-y-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <Badge variant="secondary">v{version.version}</Badge>
+                              {live && <Badge className="bg-green-500/10 text-green-500 border-green-500/20">Live</Badge>}
+                              <span className="text-xs text-muted-foreground">
+                                {new Date(version.created_at).toLocaleString()}
+                              </span>
+                            </div>
+                            {version.notes && <p className="text-sm text-muted-foreground truncate">{version.notes}</p>}
+                          </div>
+                          <div className="flex gap-2 shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setCompareFrom(String(version.version));
+                                setCompareTo(DRAFT);
+                              }}
+                            >
+                              Compare
+                            </Button>
+                            {!live && (
+                              <Button variant="outline" size="sm" className="gap-2" onClick={() => setRollbackTo(version)}>
+                                <RotateCcw className="h-4 w-4" />
+                                Roll back
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Label className="shrink-0">Compare</Label>
+                  <Select value={compareFrom} onValueChange={setCompareFrom}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {compareOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Select value={compareTo} onValueChange={setCompareTo}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {compareOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No differences</p>
+                ) : (
+                  <div className="space-y-3">
+                    {changes.map((change) => (
+                      <div key={change.field} className="space-y-1">
+                        <p className="text-xs font-medium">{change.label}</p>
+                        <div className="grid gap-2 md:grid-cols-2">
+                          <pre className="whitespace-pre-wrap break-words rounded-md border border-red-500/20 bg-red-500/5 p-2 text-xs">
+                            {change.before || '(empty)'}
+                          </pre>
+                          <pre className="whitespace-pre-wrap break-words rounded-md border border-green-500/20 bg-green-500/5 p-2 text-xs">
+                            {change.after || '(empty)'}
+                          </pre>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!rollbackTo} onOpenChange={() => setRollbackTo(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to v{rollbackTo?.version}</AlertDialogTitle>
+            <AlertDialogDescription>
+              API callers using the latest version will get v{rollbackTo?.version} right away, and the draft is reset to it.
+              Unpublished edits in the draft are lost. Callers pinned to a version are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRollback}>Roll back</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,9 +1,16 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useModelCatalog } from '@/hooks/use-model-catalog';
+import { FallbackChainEditor, type FallbackTarget } from '@/components/api/FallbackChainEditor';
+import { ToolsEditor } from '@/components/api/ToolsEditor';
+import { AgentVersions } from '@/components/api/AgentVersions';
+import { JsonSchemaEditor } from '@/components/JsonSchema';
+import { formatJsonSchema, parseJsonSchemaText } from '@/lib/json-schema';
+import { parseToolDrafts, toolDraftsFrom, type AgentToolDraft } from '@/lib/agent-tools';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Trash2, Search, Edit, Loader2 } from 'lucide-react';
+import { Trash2, Search, Edit, Loader2, History } from 'lucide-react';
 import { toast } from 'sonner';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -34,6 +41,14 @@ interface Agent {
   created_at: string;
   output_type: string;
   variants: number;
+  fallback_chain: FallbackTarget[];
+  // Edited as text; parsed back to an object on save
+  json_schema: string;
+  context_window_tokens: number;
+  context_strategy: string;
+  tools: AgentToolDraft[];
+  max_tool_steps: number;
+  published_version: number | null;
 }
 
 export function AgentsList() {
@@ -42,35 +57,10 @@ export function AgentsList() {
   const [searchQuery, setSearchQuery] = useState('');
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [editAgent, setEditAgent] = useState<Agent | null>(null);
+  const [versionsAgentId, setVersionsAgentId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
 
-  const modelOptions: Record<string, { value: string; label: string }[]> = {
-    openai: [
-      { value: 'gpt-5-2025-08-07', label: 'GPT-5' },
-      { value: 'gpt-5-mini-2025-08-07', label: 'GPT-5 Mini' },
-      { value: 'gpt-5-nano-2025-08-07', label: 'GPT-5 Nano' },
-      { value: 'gpt-4.1-2025-04-14', label: 'GPT-4.1' },
-      { value: 'gpt-4o', label: 'GPT-4o' },
-      { value: 'gpt-4o-mini', label: 'GPT-4o Mini' }
-    ],
-    anthropic: [
-      { value: 'claude-opus-4-1-20250805', label: 'Claude Opus 4.1' },
-      { value: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4' },
-      { value: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku' }
-    ],
-    google: [
-      { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
-      { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
-      { value: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite' }
-    ],
-    groq: [
-      { value: 'llama-3.1-8b', label: 'Llama 3.1 8B' }
-    ],
-    mistral: [
-      { value: 'mistral-large', label: 'Mistral Large' },
-      { value: 'mistral-medium', label: 'Mistral Medium' }
-    ]
-  };
+  const { modelOptions, providerOptions } = useModelCatalog();
 
   const loadAgents = async () => {
     try {
@@ -80,7 +70,12 @@ export function AgentsList() {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setAgents(data || []);
+      setAgents((data || []).map(agent => ({
+        ...agent,
+        fallback_chain: Array.isArray(agent.fallback_chain) ? agent.fallback_chain as FallbackTarget[] : [],
+        json_schema: formatJsonSchema(agent.json_schema),
+        tools: toolDraftsFrom(agent.tools)
+      })));
     } catch (error: any) {
       toast.error('Failed to load agents');
     } finally {
@@ -114,6 +109,20 @@ export function AgentsList() {
   const handleUpdate = async () => {
     if (!editAgent) return;
 
+    const { schema, error: schemaError } = editAgent.output_type === 'json'
+      ? parseJsonSchemaText(editAgent.json_schema)
+      : { schema: null, error: null };
+    if (schemaError) {
+      toast.error(`Invalid JSON Schema: ${schemaError}`);
+      return;
+    }
+
+    const { tools, error: toolsError } = parseToolDrafts(editAgent.tools);
+    if (toolsError) {
+      toast.error(toolsError);
+      return;
+    }
+
     setSaving(true);
     try {
       const { error } = await supabase
@@ -127,13 +136,19 @@ export function AgentsList() {
           temperature: editAgent.temperature,
           user_prompt: editAgent.user_prompt,
           output_type: editAgent.output_type,
-          variants: editAgent.variants
+          variants: editAgent.variants,
+          fallback_chain: editAgent.fallback_chain.filter(t => t.model),
+          json_schema: schema,
+          context_window_tokens: editAgent.context_window_tokens,
+          context_strategy: editAgent.context_strategy,
+          tools,
+          max_tool_steps: editAgent.max_tool_steps
         })
         .eq('id', editAgent.id);
 
       if (error) throw error;
 
-      toast.success('Agent updated successfully');
+      toast.success('Draft saved. Publish it from Versions to make it live');
       setAgents(agents.map(a => a.id === editAgent.id ? editAgent : a));
       setEditAgent(null);
     } catch (error: any) {
@@ -190,6 +205,14 @@ export function AgentsList() {
                       </CardDescription>
                     </div>
                     <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="hover:bg-primary/10"
+                        onClick={() => setVersionsAgentId(agent.id)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -217,6 +240,9 @@ export function AgentsList() {
                     <Badge variant="outline" className="border-accent/30 bg-accent/5">
                       Temp: {agent.temperature}
                     </Badge>
+                    <Badge variant="outline">
+                      {agent.published_version ? `Live: v${agent.published_version}` : 'Not published'}
+                    </Badge>
                   </div>
                   {agent.user_prompt && (
                     <p className="text-sm text-muted-foreground line-clamp-2">
@@ -250,7 +276,7 @@ export function AgentsList() {
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Agent</DialogTitle>
-            <DialogDescription>Update your agent configuration</DialogDescription>
+            <DialogDescription>Changes are saved as a draft; API callers keep the published version until you publish again</DialogDescription>
           </DialogHeader>
           
           {editAgent && (
@@ -318,11 +344,11 @@ export function AgentsList() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="openai">OpenAI</SelectItem>
-                      <SelectItem value="anthropic">Anthropic</SelectItem>
-                      <SelectItem value="google">Google</SelectItem>
-                      <SelectItem value="groq">Groq</SelectItem>
-                      <SelectItem value="mistral">Mistral</SelectItem>
+                      {providerOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -369,6 +395,14 @@ export function AgentsList() {
                 </Select>
               </div>
 
+              {editAgent.output_type === 'json' && (
+                <JsonSchemaEditor
+                  value={editAgent.json_schema}
+                  onChange={(json_schema) => setEditAgent({ ...editAgent, json_schema })}
+                  description="Chat responses are validated against this schema and retried once when they don't match"
+                />
+              )}
+
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <Label>Number of Variants</Label>
@@ -411,19 +445,75 @@ export function AgentsList() {
                 />
               </div>
 
+              {/* Multi-turn API conversations and tools are served by chat agents only */}
+              {editAgent.mode === 'chat' && (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Conversation Context Window</Label>
+                      <span className="text-sm text-muted-foreground">{editAgent.context_window_tokens} tokens</span>
+                    </div>
+                    <Slider
+                      value={[editAgent.context_window_tokens]}
+                      onValueChange={([value]) => setEditAgent({ ...editAgent, context_window_tokens: value })}
+                      min={1000}
+                      max={128000}
+                      step={1000}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Older Turns</Label>
+                    <Select
+                      value={editAgent.context_strategy}
+                      onValueChange={(value) => setEditAgent({ ...editAgent, context_strategy: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="truncate">Drop the oldest turns</SelectItem>
+                        <SelectItem value="summarize">Summarize the oldest turns</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      What happens to conversation history that no longer fits the context window
+                    </p>
+                  </div>
+
+                  <ToolsEditor
+                    value={editAgent.tools}
+                    onChange={(tools) => setEditAgent({ ...editAgent, tools })}
+                    maxSteps={editAgent.max_tool_steps}
+                    onMaxStepsChange={(max_tool_steps) => setEditAgent({ ...editAgent, max_tool_steps })}
+                  />
+                </>
+              )}
+
+              <FallbackChainEditor
+                value={editAgent.fallback_chain}
+                onChange={(fallback_chain) => setEditAgent({ ...editAgent, fallback_chain })}
+              />
+
               <div className="flex gap-2 pt-4">
                 <Button variant="outline" onClick={() => setEditAgent(null)} className="flex-1">
                   Cancel
                 </Button>
                 <Button onClick={handleUpdate} disabled={saving} className="flex-1">
                   {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                  Save Changes
+                  Save Draft
                 </Button>
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      <AgentVersions
+        agentId={versionsAgentId}
+        onOpenChange={(open) => !open && setVersionsAgentId(null)}
+        onChanged={loadAgents}
+      />
     </>
   );
 }
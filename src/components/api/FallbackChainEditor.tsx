@@ -0,0 +1,87 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useModelCatalog } from '@/hooks/use-model-catalog';
+import { Plus, X } from 'lucide-react';
+
+// A type alias rather than an interface so it can be stored in a Json column
+export type FallbackTarget = {
+  provider: string;
+  model: string;
+};
+
+interface FallbackChainEditorProps {
+  value: FallbackTarget[];
+  onChange: (value: FallbackTarget[]) => void;
+}
+
+// Matches the server-side limit on fallback chain length
+const MAX_FALLBACKS = 3;
+
+export function FallbackChainEditor({ value, onChange }: FallbackChainEditorProps) {
+  const { modelOptions, providerOptions } = useModelCatalog();
+
+  const updateTarget = (index: number, target: FallbackTarget) => {
+    onChange(value.map((t, i) => (i === index ? target : t)));
+  };
+
+  const addTarget = () => {
+    onChange([...value, { provider: 'openai', model: modelOptions.openai?.[0]?.value || '' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Fallback Providers</Label>
+      <p className="text-xs text-muted-foreground">
+        Tried in order when the primary provider keeps failing after retries
+      </p>
+
+      {value.map((target, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+          <Select
+            value={target.provider}
+            onValueChange={(provider) => updateTarget(index, { provider, model: modelOptions[provider]?.[0]?.value || '' })}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {providerOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={target.model}
+            onValueChange={(model) => updateTarget(index, { ...target, model })}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select model" />
+            </SelectTrigger>
+            <SelectContent>
+              {modelOptions[target.provider]?.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {value.length < MAX_FALLBACKS && (
+        <Button type="button" variant="outline" size="sm" onClick={addTarget}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Fallback
+        </Button>
+      )}
+    </div>
+  );
+}
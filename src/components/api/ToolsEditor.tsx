@@ -0,0 +1,104 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Slider } from '@/components/ui/slider';
+import { MAX_AGENT_TOOLS, type AgentToolDraft } from '@/lib/agent-tools';
+import { Plus, X } from 'lucide-react';
+
+interface ToolsEditorProps {
+  value: AgentToolDraft[];
+  onChange: (value: AgentToolDraft[]) => void;
+  maxSteps: number;
+  onMaxStepsChange: (value: number) => void;
+}
+
+const PARAMETERS_PLACEHOLDER = `{
+  "type": "object",
+  "properties": { "city": { "type": "string" } },
+  "required": ["city"]
+}`;
+
+// Webhook-backed tools a chat agent's model may call, and how many rounds of calls one request may run
+export function ToolsEditor({ value, onChange, maxSteps, onMaxStepsChange }: ToolsEditorProps) {
+  const updateTool = (index: number, tool: AgentToolDraft) => {
+    onChange(value.map((t, i) => (i === index ? tool : t)));
+  };
+
+  const addTool = () => {
+    onChange([...value, { name: '', description: '', parameters: '', webhook_url: '' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Tools</Label>
+      <p className="text-xs text-muted-foreground">
+        The model may call these while answering. Each call is POSTed to the tool's webhook as{' '}
+        <code>{'{ tool, call_id, arguments, agent_id }'}</code> and the response body is handed back to the model.
+      </p>
+
+      {value.map((tool, index) => (
+        <div key={index} className="space-y-2 p-3 border rounded-md">
+          <div className="flex items-center gap-2">
+            <Input
+              value={tool.name}
+              onChange={(e) => updateTool(index, { ...tool, name: e.target.value })}
+              placeholder="get_weather"
+              className="flex-1 font-mono text-xs"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            value={tool.description}
+            onChange={(e) => updateTool(index, { ...tool, description: e.target.value })}
+            placeholder="What the tool does and when to use it"
+            className="text-xs"
+          />
+          <Input
+            value={tool.webhook_url}
+            onChange={(e) => updateTool(index, { ...tool, webhook_url: e.target.value })}
+            placeholder="https://example.com/tools/weather"
+            className="font-mono text-xs"
+          />
+          <Textarea
+            value={tool.parameters}
+            onChange={(e) => updateTool(index, { ...tool, parameters: e.target.value })}
+            placeholder={PARAMETERS_PLACEHOLDER}
+            rows={4}
+            className="font-mono text-xs"
+          />
+        </div>
+      ))}
+
+      {value.length < MAX_AGENT_TOOLS && (
+        <Button type="button" variant="outline" size="sm" onClick={addTool}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Tool
+        </Button>
+      )}
+
+      {value.length > 0 && (
+        <div className="space-y-2 pt-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Max Tool Steps</Label>
+            <span className="text-sm text-muted-foreground">{maxSteps}</span>
+          </div>
+          <Slider
+            value={[maxSteps]}
+            onValueChange={([steps]) => onMaxStepsChange(steps)}
+            min={1}
+            max={20}
+            step={1}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,75 @@
 import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { usePromptData } from '@/context/PromptDataContext';
+import type { FallbackTarget } from '@/components/api/FallbackChainEditor';
 
 export type OptimizationMode = 'speed' | 'deep';
 
+export type TestAssertionType = 'contains' | 'regex' | 'json' | 'equals';
+
+export interface TestCase {
+  input: string;
+  expectedOutput?: string;
+  assertions: Array<{ type: TestAssertionType; value?: string }>;
+}
+
+export type EvaluatorType = 'heuristic' | 'judge' | 'hybrid';
+
+export interface RubricCriterion {
+  name: string;
+  description?: string;
+  weight: number;
+}
+
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  { name: 'Task fulfillment', description: 'Does the response do exactly what the original prompt asked for?', weight: 0.4 },
+  { name: 'Completeness', description: 'Does it cover everything the prompt requires without gaps?', weight: 0.25 },
+  { name: 'Clarity', description: 'Is it well organized and easy to follow?', weight: 0.2 },
+  { name: 'Format adherence', description: 'Does it follow the requested output format and constraints?', weight: 0.15 },
+];
+
+export type RankingMode = 'score' | 'tournament';
+
+export interface TournamentRanking {
+  index: number;
+  strategy: string;
+  rating: number;
+  ciLow: number;
+  ciHigh: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface TournamentResult {
+  ranking: TournamentRanking[];
+  matrix: (number | null)[][];
+  variantIndexes: number[];
+  comparisons: Array<{ a: number; b: number; outcome: number; rationale: string }>;
+}
+
+// The winning prompt restructured for the target model family
+export interface RenderedPrompt {
+  dialect: 'xml' | 'markdown' | 'plain';
+  provider: string;
+  model: string;
+  system: string;
+  user: string;
+}
+
+export type IntentGuardMode = 'off' | 'flag' | 'discard';
+
+// Judge verdict on whether a variant still asks for what the original prompt asked for
+export interface IntentCheck {
+  preserved: boolean;
+  changed: Array<'task' | 'verb' | 'deliverable'>;
+  original: { task: string; verb: string; deliverable: string };
+  variant: { task: string; verb: string; deliverable: string };
+  reason: string;
+}
+
 export interface OptimizerPayload {
   originalPrompt: string;
   taskDescription: string;
@@ -17,6 +82,18 @@ export interface OptimizerPayload {
   influence: string;
   influenceWeight: number;
   mode: OptimizationMode;
+  rounds?: number;
+  testCases?: TestCase[];
+  evaluator?: EvaluatorType;
+  rubric?: RubricCriterion[];
+  ranking?: RankingMode;
+  renderDialect?: boolean;
+  jsonSchema?: Record<string, unknown> | null;
+  // Sample values for {{placeholders}} in the prompt, used when variants are tested
+  variables?: Record<string, string>;
+  intentGuard?: IntentGuardMode;
+  // Providers to try, in order, when the selected one keeps failing during this run
+  fallbackChain?: FallbackTarget[];
 }
 
 export interface OptimizationResult {
@@ -25,25 +102,75 @@ export interface OptimizationResult {
   bestOptimizedPrompt: string;
   bestScore: number;
   variants: any[];
+  tournament?: TournamentResult | null;
+  rendered?: RenderedPrompt | null;
+  // {{placeholders}} every variant was required to keep
+  placeholders?: string[];
   summary?: any;
 }
 
+export type VariantProgressStatus = 'generating' | 'testing' | 'scoring' | 'scored' | 'failed';
+
+export interface VariantProgress {
+  cycle: number;
+  strategyKey: string;
+  strategy: string;
+  status: VariantProgressStatus;
+  score?: number;
+  reason?: string;
+}
+
+// Live state of a deep-mode run, built from the optimizer's progress events and stored on its job
+export interface OptimizationProgress {
+  round: number;
+  totalRounds: number;
+  variants: VariantProgress[];
+  partialVariants: any[];
+}
+
+// Polling cadence for a running optimization job
+const JOB_POLL_INTERVAL_MS = 2000;
+
 interface OptimizerSessionState {
   isOptimizing: boolean;
   optimizationStartTime: number | null;
   payload: OptimizerPayload | null;
   result: OptimizationResult | null;
   speedResult: any | null;
+  progress: OptimizationProgress | null;
+  jobId: string | null;
   error: string | null;
 }
 
 interface OptimizerSessionContextValue extends OptimizerSessionState {
-  startOptimization: (payload: OptimizerPayload, opts?: { resume?: boolean }) => Promise<void>;
+  startOptimization: (payload: OptimizerPayload) => Promise<void>;
   setIsOptimizing: React.Dispatch<React.SetStateAction<boolean>>;
   setResult: React.Dispatch<React.SetStateAction<OptimizationResult | null>>;
   setSpeedResult: React.Dispatch<React.SetStateAction<any | null>>;
 }
 
+// Edge function errors carry the HTTP response; budget refusals (402) explain themselves in the body
+async function readInvokeError(err: any): Promise<{ message: string; budgetExceeded: boolean }> {
+  if (err?.context?.status === 402) {
+    try {
+      const body = await err.context.json();
+      return { message: body?.error || 'Budget limit reached', budgetExceeded: true };
+    } catch {
+      return { message: 'Budget limit reached', budgetExceeded: true };
+    }
+  }
+  return { message: err?.message || 'Unknown error', budgetExceeded: false };
+}
+
+// The server fails a job whose worker stopped responding, so the status it returns is the one to trust
+async function fetchJobStatus(jobId: string) {
+  const { data, error } = await supabase.functions.invoke('prompt-optimizer', {
+    body: { action: 'job_status', jobId }
+  });
+  if (error instanceof FunctionsHttpError && error.context?.status === 404) return { job: null, error: null };
+  return { job: data, error };
+}
+
 const OptimizerSessionContext = createContext<OptimizerSessionContextValue | undefined>(undefined);
 
 export const OptimizerSessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -51,15 +178,9 @@ export const OptimizerSessionProvider: React.FC<{ children: React.ReactNode }> =
   const { addPromptToHistory } = usePromptData();
 
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [isOptimizing, setIsOptimizing] = useState<boolean>(() => localStorage.getItem('promptOptimizer_isOptimizing') === 'true');
-  const [optimizationStartTime, setOptimizationStartTime] = useState<number | null>(() => {
-    const v = localStorage.getItem('promptOptimizer_startTime');
-    return v ? parseInt(v) : null;
-  });
-  const [payload, setPayload] = useState<OptimizerPayload | null>(() => {
-    const v = localStorage.getItem('promptOptimizer_payload');
-    return v ? JSON.parse(v) : null;
-  });
+  const [isOptimizing, setIsOptimizing] = useState<boolean>(false);
+  const [optimizationStartTime, setOptimizationStartTime] = useState<number | null>(null);
+  const [payload, setPayload] = useState<OptimizerPayload | null>(null);
   const [result, setResult] = useState<OptimizationResult | null>(() => {
     const v = localStorage.getItem('promptOptimizer_result');
     return v ? JSON.parse(v) : null;
@@ -69,7 +190,9 @@ export const OptimizerSessionProvider: React.FC<{ children: React.ReactNode }> =
     return v ? JSON.parse(v) : null;
   });
   const [error, setError] = useState<string | null>(null);
-
+  const [progress, setProgress] = useState<OptimizationProgress | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  // Set from the moment a run starts until it finishes, so a double submit can't start a second run
   const runningRef = useRef(false);
 
   // Reset all state when user changes
@@ -85,6 +208,8 @@ export const OptimizerSessionProvider: React.FC<{ children: React.ReactNode }> =
         setPayload(null);
         setResult(null);
         setSpeedResult(null);
+        setProgress(null);
+        setJobId(null);
         setError(null);
         runningRef.current = false;
       }
@@ -95,25 +220,7 @@ export const OptimizerSessionProvider: React.FC<{ children: React.ReactNode }> =
     return () => subscription.unsubscribe();
   }, [currentUserId]);
 
-  // Persist session to localStorage
-  useEffect(() => {
-    localStorage.setItem('promptOptimizer_isOptimizing', isOptimizing.toString());
-    if (isOptimizing && !optimizationStartTime) {
-      const start = Date.now();
-      setOptimizationStartTime(start);
-      localStorage.setItem('promptOptimizer_startTime', String(start));
-    }
-    if (!isOptimizing) {
-      localStorage.removeItem('promptOptimizer_startTime');
-      setOptimizationStartTime(null);
-    }
-  }, [isOptimizing]);
-
-  useEffect(() => {
-    if (payload) localStorage.setItem('promptOptimizer_payload', JSON.stringify(payload));
-    else localStorage.removeItem('promptOptimizer_payload');
-  }, [payload]);
-
+  // Persist finished results so they survive a reload
   useEffect(() => {
     if (result) localStorage.setItem('promptOptimizer_result', JSON.stringify(result));
     else localStorage.removeItem('promptOptimizer_result');
@@ -155,482 +262,188 @@ export const OptimizerSessionProvider: React.FC<{ children: React.ReactNode }> =
     }
   }, [addPromptToHistory]);
 
-  const startOptimization = useCallback(async (p: OptimizerPayload, opts?: { resume?: boolean }) => {
-    // Always clear any cached results before starting a brand-new optimization to avoid stale polling
-    if (!opts?.resume) {
-      localStorage.removeItem('promptOptimizer_result_speed');
-      localStorage.removeItem('promptOptimizer_result_deep');
+  const completeOptimization = useCallback(async (data: any, p: OptimizerPayload) => {
+    if (p.mode === 'speed') {
+      console.log('Speed optimization completed:', data);
+      setSpeedResult(data);
+    } else {
+      console.log('Deep optimization completed:', data);
+      setResult(data);
     }
 
-    // Cancel any ongoing optimization and start fresh
-    if (runningRef.current && !opts?.resume) {
-      console.log('Canceling ongoing optimization to start new one');
-      runningRef.current = false;
-      setIsOptimizing(false);
-      setResult(null);
-      setSpeedResult(null);
-      setError(null);
-      // Clear any stored results from previous optimization
-      localStorage.removeItem('promptOptimizer_result_speed');
-      localStorage.removeItem('promptOptimizer_result_deep');
+    await appendToHistory(data, p.aiProvider, p.modelName, p.outputType, p.originalPrompt);
+
+    // Clear draft prompt fields after success, but keep results for viewing
+    localStorage.removeItem('promptOptimizer_originalPrompt');
+    localStorage.removeItem('promptOptimizer_taskDescription');
+
+    toast({ title: 'Success', description: `Prompt optimized successfully using ${p.mode} mode!` });
+  }, [appendToHistory, toast]);
+
+  const failOptimization = useCallback((message: string, budgetExceeded = false) => {
+    runningRef.current = false;
+    setError(message);
+    setIsOptimizing(false);
+    setProgress(null);
+    setJobId(null);
+    if (budgetExceeded) {
+      toast({ title: 'Budget reached', description: message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Error', description: 'Failed to optimize prompt. Please try again.', variant: 'destructive' });
     }
-    
-    // If resuming, check BOTH localStorage AND database for results
-    if (opts?.resume) {
-      // First check localStorage
-      const storedResult = localStorage.getItem(`promptOptimizer_result_${p.mode}`);
-      if (storedResult) {
-        try {
-          const parsedResult = JSON.parse(storedResult);
-          console.log('Found completed results from localStorage');
-          if (p.mode === 'speed') {
-            setSpeedResult(parsedResult);
-          } else {
-            setResult(parsedResult);
-          }
-          await appendToHistory(parsedResult, p.aiProvider, p.modelName, p.outputType, p.originalPrompt);
-          localStorage.removeItem(`promptOptimizer_result_${p.mode}`);
-          setIsOptimizing(false);
-          runningRef.current = false;
-          return;
-        } catch (e) {
-          console.error('Error parsing stored result:', e);
-        }
-      }
+  }, [toast]);
 
-      // If not in localStorage, check database for completed prompt
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          console.log('Checking database for completed optimization...');
-          const { data: completedPrompts } = await supabase
-            .from('prompts')
-            .select('*')
-            .eq('user_id', user.id)
-            .eq('original_prompt', p.originalPrompt)
-            .eq('status', 'completed')
-            .order('created_at', { ascending: false })
-            .limit(1);
-
-          if (completedPrompts && completedPrompts.length > 0) {
-            const dbPrompt = completedPrompts[0];
-            console.log('✅ Found completed optimization in database!');
-            
-            // Fetch all variants from optimization_history
-            const { data: historyVariants } = await supabase
-              .from('optimization_history')
-              .select('*')
-              .eq('prompt_id', dbPrompt.id)
-              .order('score', { ascending: false });
-            
-            console.log(`Fetched ${historyVariants?.length || 0} variants from history`);
-            
-            // Reconstruct variants array
-            const variants = (historyVariants || []).map((v: any) => ({
-              prompt: v.variant_prompt,
-              strategy: 'optimization',
-              score: v.score || 0,
-              response: v.ai_response || '',
-              metrics: v.metrics || {
-                tokens_used: v.tokens_used || 0,
-                response_length: v.ai_response?.length || 0,
-                prompt_length: v.variant_prompt?.length || 0,
-                strategy_weight: 0
-              }
-            }));
-            
-            // Get processing time from variants or use 0
-            const processingTimeMs = historyVariants?.[0]?.generation_time_ms || 0;
-            
-            // Reconstruct result object from database with full variants
-            const dbResult = {
-              promptId: dbPrompt.id,
-              originalPrompt: dbPrompt.original_prompt,
-              bestOptimizedPrompt: dbPrompt.optimized_prompt,
-              bestScore: dbPrompt.score || 0,
-              variants: variants,
-              summary: dbPrompt.performance_metrics || {
-                improvementScore: dbPrompt.score || 0,
-                bestStrategy: 'database',
-                totalVariants: variants.length,
-                processingTimeMs: processingTimeMs
-              }
-            };
-
-            if (p.mode === 'speed') {
-              setSpeedResult(dbResult);
-            } else {
-              setResult(dbResult);
-            }
-            
-            await appendToHistory(dbResult, p.aiProvider, p.modelName, p.outputType, p.originalPrompt);
-            setIsOptimizing(false);
-            runningRef.current = false;
-            return;
-          }
-        }
-      } catch (dbError) {
-        console.error('Error checking database for results:', dbError);
-      }
+  const startOptimization = useCallback(async (p: OptimizerPayload) => {
+    if (runningRef.current) {
+      console.log('Optimization already running; ignoring new start');
+      return;
     }
-    
     runningRef.current = true;
     setError(null);
+    setProgress(null);
+    setJobId(null);
     setPayload(p);
     setIsOptimizing(true);
+    setOptimizationStartTime(Date.now());
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      const { data, error } = await supabase.functions.invoke('prompt-optimizer', {
-        body: {
-          originalPrompt: p.originalPrompt,
-          taskDescription: p.taskDescription,
-          aiProvider: p.aiProvider,
-          modelName: p.modelName,
-          outputType: p.outputType,
-          variants: p.variants,
-          userId: user.id,
-          maxTokens: p.maxTokens,
-          temperature: p.temperature,
-          influence: p.influence,
-          influenceWeight: p.influenceWeight,
-          mode: p.mode,
-        }
-      });
-
-      if (error) throw error;
+      const body = {
+        originalPrompt: p.originalPrompt,
+        taskDescription: p.taskDescription,
+        aiProvider: p.aiProvider,
+        modelName: p.modelName,
+        outputType: p.outputType,
+        variants: p.variants,
+        userId: user.id,
+        maxTokens: p.maxTokens,
+        temperature: p.temperature,
+        influence: p.influence,
+        influenceWeight: p.influenceWeight,
+        mode: p.mode,
+        rounds: p.rounds,
+        testCases: p.testCases,
+        evaluator: p.evaluator,
+        rubric: p.rubric,
+        ranking: p.ranking,
+        renderDialect: p.renderDialect,
+        jsonSchema: p.jsonSchema,
+        variables: p.variables,
+        intentGuard: p.intentGuard,
+        fallbackChain: p.fallbackChain,
+      };
+
+      if (p.mode === 'deep') {
+        // Deep runs go through the job queue; the polling effect below picks up progress and the result
+        const { data, error } = await supabase.functions.invoke('prompt-optimizer', {
+          body: { ...body, action: 'submit_job' }
+        });
+        if (error) throw error;
 
-      if (p.mode === 'speed') {
-        console.log('Speed optimization completed:', data);
-        setSpeedResult(data);
-      } else {
-        console.log('Deep optimization completed:', data);
-        setResult(data);
+        console.log('Optimization job submitted:', data.jobId);
+        setProgress({ round: 1, totalRounds: p.rounds ?? 1, variants: [], partialVariants: [] });
+        setJobId(data.jobId);
+        return;
       }
 
-      // Append to history first, then store in localStorage
-      await appendToHistory(data, p.aiProvider, p.modelName, p.outputType, p.originalPrompt);
-      
-      // Now that all processing is done, store result for background completion detection
-      localStorage.setItem(`promptOptimizer_result_${p.mode}`, JSON.stringify(data));
-
-      // Clear draft prompt fields after success, but keep results for viewing
-      localStorage.removeItem('promptOptimizer_originalPrompt');
-      localStorage.removeItem('promptOptimizer_taskDescription');
+      const { data, error } = await supabase.functions.invoke('prompt-optimizer', { body });
+      if (error) throw error;
 
-      if (!opts?.resume) {
-        // Only toast when user initiated, not on resume
-        toast({ title: 'Success', description: `Prompt optimized successfully using ${p.mode} mode!` });
-      }
-    } catch (err: any) {
-      console.error('Error optimizing prompt:', err);
-      setError(err?.message || 'Unknown error');
-      toast({ title: 'Error', description: 'Failed to optimize prompt. Please try again.', variant: 'destructive' });
-    } finally {
-      setIsOptimizing(false);
+      await completeOptimization(data, p);
       runningRef.current = false;
-    }
-  }, [appendToHistory, toast]);
-
-  // Re-sync state on mount to check if results already exist
-  useEffect(() => {
-    const cachedSpeedResult = localStorage.getItem('promptOptimizer_result_speed');
-    const cachedDeepResult = localStorage.getItem('promptOptimizer_result_deep');
-    const isRunning = localStorage.getItem('promptOptimizer_isOptimizing');
-    
-    // If we already have results, force-finish the loading state
-    if (cachedSpeedResult || cachedDeepResult) {
-      try {
-        if (cachedSpeedResult) {
-          const parsed = JSON.parse(cachedSpeedResult);
-          if (parsed?.bestOptimizedPrompt) {
-            console.log('✅ Found completed speed result on mount - ending loading state');
-            setIsOptimizing(false);
-            setSpeedResult(parsed);
-            localStorage.removeItem('promptOptimizer_result_speed');
-          }
-        }
-        if (cachedDeepResult) {
-          const parsed = JSON.parse(cachedDeepResult);
-          if (parsed?.bestOptimizedPrompt) {
-            console.log('✅ Found completed deep result on mount - ending loading state');
-            setIsOptimizing(false);
-            setResult(parsed);
-            localStorage.removeItem('promptOptimizer_result_deep');
-          }
-        }
-      } catch (e) {
-        console.error('Error parsing cached results on mount:', e);
-      }
-    } else if (isRunning === 'true' && isOptimizing && payload && !result && !speedResult && !runningRef.current) {
-      // Only show optimizing if nothing has completed yet
-      console.log('Resume check: isOptimizing=true, checking for cached results...');
-      
-      // CRITICAL: Check localStorage for completed results FIRST before resuming
-      const storedSpeedResult = localStorage.getItem(`promptOptimizer_result_speed`);
-      const storedDeepResult = localStorage.getItem(`promptOptimizer_result_deep`);
-      
-      const hasStoredResult = (payload.mode === 'speed' && storedSpeedResult) || 
-                              (payload.mode === 'deep' && storedDeepResult);
-      
-      if (hasStoredResult) {
-        console.log('✅ Found completed results from background optimization, loading immediately');
-        try {
-          const storedData = payload.mode === 'speed' ? storedSpeedResult! : storedDeepResult!;
-          const parsedResult = JSON.parse(storedData);
-          
-          // Set the result immediately
-          if (payload.mode === 'speed') {
-            setSpeedResult(parsedResult);
-          } else {
-            setResult(parsedResult);
-          }
-          
-          // Add to history
-          appendToHistory(parsedResult, payload.aiProvider, payload.modelName, payload.outputType, payload.originalPrompt);
-          
-          // Clean up localStorage
-          localStorage.removeItem(`promptOptimizer_result_${payload.mode}`);
-          
-          // CRITICAL: Clear isOptimizing immediately to stop loading state
-          console.log('✅ Clearing isOptimizing flag - results loaded from cache');
-          setIsOptimizing(false);
-          runningRef.current = false;
-          
-          return; // Exit early - don't resume
-        } catch (e) {
-          console.error('❌ Error parsing stored result:', e);
-          // Fall through to resume logic if parsing fails
-        }
-      }
-      
-      // No stored results found, need to actually resume the API call
-      console.log('⏳ No cached results, resuming optimization API call...');
-      const timeoutId = setTimeout(() => {
-        if (!runningRef.current) {
-          startOptimization(payload, { resume: true });
-        }
-      }, 100);
-      
-      return () => clearTimeout(timeoutId);
-    } else if (!isRunning || isRunning !== 'true') {
-      // Ensure we're not stuck in loading state
       setIsOptimizing(false);
+    } catch (err: any) {
+      console.error('Error optimizing prompt:', err);
+      const { message, budgetExceeded } = await readInvokeError(err);
+      failOptimization(message, budgetExceeded);
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [completeOptimization, failOptimization]);
 
-  // Safety: timeout long-running sessions (2 minutes max)
+  // Restore the user's in-flight job from the server after a reload
   useEffect(() => {
-    const checkStale = () => {
-      // Do not enforce timeout while the tab is hidden to avoid false cancellations
-      if (document.hidden) return;
-      if (isOptimizing && optimizationStartTime) {
-        const elapsed = Date.now() - optimizationStartTime;
-        // Reduced to 2 minutes timeout for better UX
-        if (elapsed > 2 * 60 * 1000) {
-          console.warn('⚠️ Optimization timeout after 2 minutes - auto-clearing');
-          setIsOptimizing(false);
-          runningRef.current = false;
-          localStorage.removeItem('promptOptimizer_isOptimizing');
-          localStorage.removeItem('promptOptimizer_startTime');
-          toast({ 
-            title: 'Optimization Timeout', 
-            description: 'The optimization took too long and was cancelled. Please try again.', 
-            variant: 'destructive' 
-          });
-        }
+    if (!currentUserId) return;
+    let cancelled = false;
+
+    const restoreActiveJob = async () => {
+      const { data: activeJob, error: activeError } = await supabase
+        .from('optimization_jobs')
+        .select('id')
+        .eq('user_id', currentUserId)
+        .in('status', ['queued', 'running'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (cancelled || activeError || !activeJob) return;
+      const { job, error } = await fetchJobStatus(activeJob.id);
+      if (cancelled || error || !job) return;
+      if (job.status !== 'queued' && job.status !== 'running') {
+        console.warn('Ignoring optimization job that is no longer running', job.id);
+        return;
       }
+      if (runningRef.current) return;
+
+      console.log('🔄 Restoring optimization job', job.id);
+      setPayload(job.payload as unknown as OptimizerPayload);
+      setProgress(job.progress as unknown as OptimizationProgress);
+      setOptimizationStartTime(Date.parse(job.created_at));
+      runningRef.current = true;
+      setIsOptimizing(true);
+      setJobId(job.id);
     };
 
-    const id = setInterval(checkStale, 10000); // Check every 10 seconds
-    return () => clearInterval(id);
-  }, [isOptimizing, optimizationStartTime, toast]);
+    restoreActiveJob();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUserId]);
 
-  // Phase 3: Add visibility change detection for background optimization safety
+  // Poll the active job until it completes or fails
   useEffect(() => {
-    const handleVisibilityChange = async () => {
-      if (!document.hidden && isOptimizing && payload) {
-        console.log('🔄 User returned to page - checking for background completion...');
-        
-        // Check if optimization completed while away
-        const storedResult = localStorage.getItem(`promptOptimizer_result_${payload.mode}`);
-        if (storedResult) {
-          console.log('✅ Found background-completed results in localStorage');
-          try {
-            const parsedResult = JSON.parse(storedResult);
-            
-            setIsOptimizing(false);
-            runningRef.current = false;
-            
-            if (payload.mode === 'speed') {
-              setSpeedResult(parsedResult);
-            } else {
-              setResult(parsedResult);
-            }
-            
-            appendToHistory(parsedResult, payload.aiProvider, payload.modelName, payload.outputType, payload.originalPrompt);
-            localStorage.removeItem(`promptOptimizer_result_${payload.mode}`);
-            return;
-          } catch (e) {
-            console.error('❌ Error parsing background result:', e);
-          }
-        }
-
-        // Also check database for completed prompts
-        try {
-          const { data: { user } } = await supabase.auth.getUser();
-          if (user) {
-            console.log('Checking database for completed optimization...');
-            const { data: completedPrompts } = await supabase
-              .from('prompts')
-              .select('*')
-              .eq('user_id', user.id)
-              .eq('original_prompt', payload.originalPrompt)
-              .eq('status', 'completed')
-              .order('created_at', { ascending: false })
-              .limit(1);
-
-            if (completedPrompts && completedPrompts.length > 0) {
-              const dbPrompt = completedPrompts[0] as any;
-              console.log('✅ Found completed optimization in database from background!');
-              const createdAtMs = Date.parse(dbPrompt.created_at);
-              if (!optimizationStartTime || !createdAtMs || createdAtMs >= optimizationStartTime) {
-                const dbResult = {
-                  promptId: dbPrompt.id,
-                  originalPrompt: dbPrompt.original_prompt,
-                  bestOptimizedPrompt: dbPrompt.optimized_prompt,
-                  bestScore: dbPrompt.score || 0,
-                  variants: [],
-                  summary: dbPrompt.performance_metrics
-                };
-
-                setIsOptimizing(false);
-                runningRef.current = false;
-                
-                if (payload.mode === 'speed') {
-                  setSpeedResult(dbResult);
-                } else {
-                  setResult(dbResult);
-                }
-                
-                appendToHistory(dbResult, payload.aiProvider, payload.modelName, payload.outputType, payload.originalPrompt);
-              } else {
-                console.log('🔎 Visibility check: ignoring stale DB result from previous run');
-              }
-            }
-          }
-        } catch (dbError) {
-          console.error('❌ Error checking database for background results:', dbError);
-        }
-      }
-    };
+    if (!jobId) return;
+    let active = true;
+    let finished = false;
 
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [isOptimizing, payload, optimizationStartTime, appendToHistory]);
+    const poll = async () => {
+      if (!active || finished) return;
+      const { job, error } = await fetchJobStatus(jobId);
 
-  // Cross-tab/background sync: react to localStorage updates from other tabs/windows
-  useEffect(() => {
-    const onStorage = (e: StorageEvent) => {
-      try {
-        if (!e.key) return;
-        if (payload && e.key === `promptOptimizer_result_${payload.mode}` && e.newValue) {
-          const parsed = JSON.parse(e.newValue);
-          if (parsed?.bestOptimizedPrompt) {
-            console.log('📥 Storage event: loaded background result');
-            setIsOptimizing(false);
-            runningRef.current = false;
-            if (payload.mode === 'speed') setSpeedResult(parsed); else setResult(parsed);
-            appendToHistory(parsed, payload.aiProvider, payload.modelName, payload.outputType, payload.originalPrompt);
-            localStorage.removeItem(`promptOptimizer_result_${payload.mode}`);
-          }
-        }
-        if (e.key === 'promptOptimizer_isOptimizing' && e.newValue === 'false') {
-          setIsOptimizing(false);
-          runningRef.current = false;
-        }
-      } catch (err) {
-        console.error('Error handling storage event:', err);
+      if (!active || finished) return;
+      if (error) {
+        console.error('Error polling optimization job:', error);
+        return;
+      }
+      if (!job) {
+        finished = true;
+        failOptimization('Optimization job no longer exists');
+        return;
       }
-    };
-    window.addEventListener('storage', onStorage);
-    return () => window.removeEventListener('storage', onStorage);
-  }, [payload, appendToHistory]);
-
-  // Robust polling while optimizing: periodically check cache and DB so state never gets stuck
-  useEffect(() => {
-    if (!isOptimizing || !payload) return;
 
-    let active = true;
-    const check = async () => {
-      if (!active) return;
-      try {
-        const key = `promptOptimizer_result_${payload.mode}`;
-        const cached = localStorage.getItem(key);
-        if (cached) {
-          const parsed = JSON.parse(cached);
-          if (parsed?.bestOptimizedPrompt) {
-            console.log('⏱️ Poll: found cached result, finalizing');
-            setIsOptimizing(false);
-            runningRef.current = false;
-            if (payload.mode === 'speed') setSpeedResult(parsed); else setResult(parsed);
-            appendToHistory(parsed, payload.aiProvider, payload.modelName, payload.outputType, payload.originalPrompt);
-            localStorage.removeItem(key);
-            return;
-          }
-        }
-        // DB fallback
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          const { data: completedPrompts } = await supabase
-            .from('prompts')
-            .select('*')
-            .eq('user_id', user.id)
-            .eq('original_prompt', payload.originalPrompt)
-            .eq('status', 'completed')
-            .order('created_at', { ascending: false })
-            .limit(1);
-          if (completedPrompts && completedPrompts.length > 0) {
-            const dbPrompt = completedPrompts[0] as any;
-            const createdAtMs = Date.parse(dbPrompt.created_at);
-            const startMs = optimizationStartTime ?? Date.now();
-            // Only treat as completion if the DB row was created AFTER this run started
-            if (!createdAtMs || createdAtMs >= startMs) {
-              const dbResult = {
-                promptId: dbPrompt.id,
-                originalPrompt: dbPrompt.original_prompt,
-                bestOptimizedPrompt: dbPrompt.optimized_prompt,
-                bestScore: dbPrompt.score || 0,
-                variants: [],
-                summary: dbPrompt.performance_metrics
-              };
-              console.log('⏱️ Poll: found DB-completed result, finalizing');
-              setIsOptimizing(false);
-              runningRef.current = false;
-              if (payload.mode === 'speed') setSpeedResult(dbResult); else setResult(dbResult);
-              appendToHistory(dbResult, payload.aiProvider, payload.modelName, payload.outputType, payload.originalPrompt);
-              return;
-            } else {
-              console.log('⏱️ Poll: ignoring stale DB result from previous run');
-            }
-          }
-        }
-      } catch (err) {
-        console.error('Polling error:', err);
+      if (job.status === 'completed' && job.result) {
+        finished = true;
+        await completeOptimization(job.result, job.payload as unknown as OptimizerPayload);
+        runningRef.current = false;
+        setIsOptimizing(false);
+        setProgress(null);
+        setJobId(null);
+      } else if (job.status === 'failed') {
+        finished = true;
+        console.error('Optimization job failed:', job.error);
+        failOptimization(job.error || 'Optimization failed');
+      } else {
+        setProgress(job.progress as unknown as OptimizationProgress);
       }
     };
 
-    // initial check + interval
-    check();
-    const id = setInterval(check, 15000);
+    poll();
+    const id = setInterval(poll, JOB_POLL_INTERVAL_MS);
     return () => {
       active = false;
       clearInterval(id);
     };
-  }, [isOptimizing, payload, optimizationStartTime, appendToHistory]);
+  }, [jobId, completeOptimization, failOptimization]);
 
   // Hydrate variants after resume when only best prompt is present
   const hydratedIdsRef = useRef<Set<string>>(new Set());
@@ -658,6 +471,10 @@ export const OptimizerSessionProvider: React.FC<{ children: React.ReactNode }> =
           prompt: v.variant_prompt,
           strategy: 'optimization',
           score: v.score || 0,
+          cycle: v.optimization_cycle || 1,
+          testResults: v.metrics?.test_results,
+          evaluation: v.metrics?.evaluation,
+          intentCheck: v.metrics?.intent_check,
           response: v.ai_response || '',
           metrics: v.metrics || {
             tokens_used: v.tokens_used || 0,
@@ -690,6 +507,8 @@ export const OptimizerSessionProvider: React.FC<{ children: React.ReactNode }> =
     payload,
     result,
     speedResult,
+    progress,
+    jobId,
     error,
     startOptimization,
     setIsOptimizing,
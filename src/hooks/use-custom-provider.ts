@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface CustomProvider {
+  id: string;
+  name: string;
+  base_url: string;
+  auth_header: string | null;
+  // Whether an auth value is saved; the value itself stays server-side
+  has_auth_value: boolean;
+  models: string[];
+}
+
+// The signed-in user's OpenAI-compatible endpoint, if they have configured one
+export const useCustomProvider = () => {
+  const [customProvider, setCustomProvider] = useState<CustomProvider | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadCustomProvider = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('custom_providers')
+        .select('id, name, base_url, auth_header, has_auth_value, models')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setCustomProvider(data);
+    } catch (error) {
+      console.error('Error loading custom provider:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCustomProvider();
+  }, [loadCustomProvider]);
+
+  const modelOptions = (customProvider?.models || []).map(model => ({ value: model, label: model }));
+
+  return { customProvider, modelOptions, loading, reload: loadCustomProvider };
+};
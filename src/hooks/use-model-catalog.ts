@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useCustomProvider } from '@/hooks/use-custom-provider';
+
+export interface CatalogModel {
+  id: string;
+  provider: string;
+  label: string;
+  apiName: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  price: { input: number; output: number };
+  capabilities: { jsonMode: boolean; tools: boolean; vision: boolean };
+  status: 'active' | 'deprecated';
+  replacement?: string;
+}
+
+export interface ModelOption {
+  value: string;
+  label: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic (Claude)',
+  google: 'Google (Gemini)',
+  groq: 'Groq',
+  mistral: 'Mistral'
+};
+
+// The catalog only changes on deploy, so every picker on the page shares one request
+let catalogRequest: Promise<CatalogModel[]> | null = null;
+
+const fetchCatalog = () => {
+  if (!catalogRequest) {
+    catalogRequest = supabase.functions.invoke('models', { method: 'GET' })
+      .then(({ data, error }) => {
+        if (error) throw error;
+        return (data?.models || []) as CatalogModel[];
+      })
+      .catch(error => {
+        catalogRequest = null;
+        throw error;
+      });
+  }
+  return catalogRequest;
+};
+
+// Platform models from the catalog endpoint plus the user's custom provider, shaped for Select pickers
+export const useModelCatalog = () => {
+  const { customProvider, modelOptions: customModelOptions } = useCustomProvider();
+  const [models, setModels] = useState<CatalogModel[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCatalog()
+      .then(setModels)
+      .catch(error => console.error('Error loading model catalog:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const modelOptions: Record<string, ModelOption[]> = { custom: customModelOptions };
+  for (const model of models) {
+    (modelOptions[model.provider] ??= []).push({
+      value: model.id,
+      label: model.status === 'deprecated' ? `${model.label} (deprecated)` : model.label
+    });
+  }
+
+  const providerOptions: ModelOption[] = Object.entries(PROVIDER_LABELS)
+    .filter(([provider]) => modelOptions[provider]?.length)
+    .map(([value, label]) => ({ value, label }));
+  if (customProvider) {
+    providerOptions.push({ value: 'custom', label: `${customProvider.name} (Custom)` });
+  }
+
+  const findModel = (provider: string, id: string) =>
+    models.find(m => m.provider === provider && m.id === id);
+
+  return { models, modelOptions, providerOptions, findModel, loading };
+};
@@ -34,6 +34,14 @@ export interface UserSettings {
   
   // History
   showOnlyBestInHistory: boolean;
+
+  // Budget (null means no limit)
+  budgetUnit: 'usd' | 'tokens';
+  dailyBudget: number | null;
+  monthlyBudget: number | null;
+
+  // Provider keys
+  allowPlatformKeys: boolean;
 }
 
 const DEFAULT_SETTINGS: UserSettings = {
@@ -68,6 +76,14 @@ const DEFAULT_SETTINGS: UserSettings = {
   
   // History
   showOnlyBestInHistory: false,
+
+  // Budget
+  budgetUnit: 'usd',
+  dailyBudget: null,
+  monthlyBudget: null,
+
+  // Provider keys
+  allowPlatformKeys: true,
 };
 
 export const useSettings = () => {
@@ -126,6 +142,10 @@ export const useSettings = () => {
           showScores: data.show_scores ?? DEFAULT_SETTINGS.showScores,
           autoSave: data.auto_save ?? DEFAULT_SETTINGS.autoSave,
           showOnlyBestInHistory: data.show_only_best_in_history ?? DEFAULT_SETTINGS.showOnlyBestInHistory,
+          budgetUnit: data.budget_unit === 'tokens' ? 'tokens' : DEFAULT_SETTINGS.budgetUnit,
+          dailyBudget: data.daily_budget ?? DEFAULT_SETTINGS.dailyBudget,
+          monthlyBudget: data.monthly_budget ?? DEFAULT_SETTINGS.monthlyBudget,
+          allowPlatformKeys: data.allow_platform_keys ?? DEFAULT_SETTINGS.allowPlatformKeys,
         };
         setSettings(loadedSettings);
       } else {
@@ -161,6 +181,10 @@ export const useSettings = () => {
             show_scores: DEFAULT_SETTINGS.showScores,
             auto_save: DEFAULT_SETTINGS.autoSave,
             show_only_best_in_history: DEFAULT_SETTINGS.showOnlyBestInHistory,
+            budget_unit: DEFAULT_SETTINGS.budgetUnit,
+            daily_budget: DEFAULT_SETTINGS.dailyBudget,
+            monthly_budget: DEFAULT_SETTINGS.monthlyBudget,
+            allow_platform_keys: DEFAULT_SETTINGS.allowPlatformKeys,
           };
 
           await supabase.from('user_settings').upsert(settingsData, { onConflict: 'user_id' });
@@ -208,6 +232,10 @@ export const useSettings = () => {
         show_scores: settings.showScores,
         auto_save: settings.autoSave,
         show_only_best_in_history: settings.showOnlyBestInHistory,
+        budget_unit: settings.budgetUnit,
+        daily_budget: settings.dailyBudget,
+        monthly_budget: settings.monthlyBudget,
+        allow_platform_keys: settings.allowPlatformKeys,
       };
 
       const { error } = await supabase
@@ -14,10 +14,195 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_batch_items: {
+        Row: {
+          batch_id: string
+          cost_usd: number
+          created_at: string
+          error: string | null
+          id: string
+          input: string
+          output: string | null
+          position: number
+          processing_time_ms: number | null
+          result: Json | null
+          status: string
+          tokens_used: number
+          updated_at: string
+          user_id: string
+          variables: Json | null
+        }
+        Insert: {
+          batch_id: string
+          cost_usd?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          input: string
+          output?: string | null
+          position: number
+          processing_time_ms?: number | null
+          result?: Json | null
+          status?: string
+          tokens_used?: number
+          updated_at?: string
+          user_id: string
+          variables?: Json | null
+        }
+        Update: {
+          batch_id?: string
+          cost_usd?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          input?: string
+          output?: string | null
+          position?: number
+          processing_time_ms?: number | null
+          result?: Json | null
+          status?: string
+          tokens_used?: number
+          updated_at?: string
+          user_id?: string
+          variables?: Json | null
+        }
+        Relationships: []
+      }
+      agent_batches: {
+        Row: {
+          agent_id: string
+          agent_version: number | null
+          completed_at: string | null
+          concurrency: number
+          cost_usd: number
+          created_at: string
+          error: string | null
+          failed_items: number
+          id: string
+          name: string | null
+          started_at: string | null
+          status: string
+          succeeded_items: number
+          tokens_used: number
+          total_items: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          agent_id: string
+          agent_version?: number | null
+          completed_at?: string | null
+          concurrency?: number
+          cost_usd?: number
+          created_at?: string
+          error?: string | null
+          failed_items?: number
+          id?: string
+          name?: string | null
+          started_at?: string | null
+          status?: string
+          succeeded_items?: number
+          tokens_used?: number
+          total_items?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          agent_id?: string
+          agent_version?: number | null
+          completed_at?: string | null
+          concurrency?: number
+          cost_usd?: number
+          created_at?: string
+          error?: string | null
+          failed_items?: number
+          id?: string
+          name?: string | null
+          started_at?: string | null
+          status?: string
+          succeeded_items?: number
+          tokens_used?: number
+          total_items?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      agent_conversation_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          metadata: Json | null
+          position: number
+          role: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          metadata?: Json | null
+          position: number
+          role: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          metadata?: Json | null
+          position?: number
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      agent_conversations: {
+        Row: {
+          agent_id: string
+          created_at: string
+          id: string
+          message_count: number
+          summarized_count: number
+          summary: string | null
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string
+          id?: string
+          message_count?: number
+          summarized_count?: number
+          summary?: string | null
+          title?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string
+          id?: string
+          message_count?: number
+          summarized_count?: number
+          summary?: string | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       agent_logs: {
         Row: {
           agent_id: string
           agent_name: string
+          agent_version: number | null
+          cost_usd: number
           created_at: string
           id: string
           level: string
@@ -25,11 +210,14 @@ export type Database = {
           metadata: Json | null
           optimized_prompt: string | null
           original_prompt: string | null
+          tokens_used: number
           user_id: string
         }
         Insert: {
           agent_id: string
           agent_name: string
+          agent_version?: number | null
+          cost_usd?: number
           created_at?: string
           id?: string
           level?: string
@@ -37,11 +225,14 @@ export type Database = {
           metadata?: Json | null
           optimized_prompt?: string | null
           original_prompt?: string | null
+          tokens_used?: number
           user_id: string
         }
         Update: {
           agent_id?: string
           agent_name?: string
+          agent_version?: number | null
+          cost_usd?: number
           created_at?: string
           id?: string
           level?: string
@@ -49,51 +240,103 @@ export type Database = {
           metadata?: Json | null
           optimized_prompt?: string | null
           original_prompt?: string | null
+          tokens_used?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      agent_versions: {
+        Row: {
+          agent_id: string
+          config: Json
+          created_at: string
+          id: string
+          notes: string | null
+          user_id: string
+          version: number
+        }
+        Insert: {
+          agent_id: string
+          config: Json
+          created_at?: string
+          id?: string
+          notes?: string | null
+          user_id: string
+          version: number
+        }
+        Update: {
+          agent_id?: string
+          config?: Json
+          created_at?: string
+          id?: string
+          notes?: string | null
           user_id?: string
+          version?: number
         }
         Relationships: []
       }
       agents: {
         Row: {
+          context_strategy: string
+          context_window_tokens: number
           created_at: string
+          fallback_chain: Json
           id: string
+          json_schema: Json | null
           max_tokens: number | null
+          max_tool_steps: number
           mode: string
           model: string
           name: string
           output_type: string | null
           provider: string
+          published_version: number | null
           temperature: number | null
+          tools: Json
           updated_at: string
           user_id: string
           user_prompt: string | null
           variants: number | null
         }
         Insert: {
+          context_strategy?: string
+          context_window_tokens?: number
           created_at?: string
+          fallback_chain?: Json
           id?: string
+          json_schema?: Json | null
           max_tokens?: number | null
+          max_tool_steps?: number
           mode?: string
           model: string
           name: string
           output_type?: string | null
           provider: string
+          published_version?: number | null
           temperature?: number | null
+          tools?: Json
           updated_at?: string
           user_id: string
           user_prompt?: string | null
           variants?: number | null
         }
         Update: {
+          context_strategy?: string
+          context_window_tokens?: number
           created_at?: string
+          fallback_chain?: Json
           id?: string
+          json_schema?: Json | null
           max_tokens?: number | null
+          max_tool_steps?: number
           mode?: string
           model?: string
           name?: string
           output_type?: string | null
           provider?: string
+          published_version?: number | null
           temperature?: number | null
+          tools?: Json
           updated_at?: string
           user_id?: string
           user_prompt?: string | null
@@ -201,13 +444,93 @@ export type Database = {
         }
         Relationships: []
       }
+      custom_providers: {
+        Row: {
+          auth_header: string | null
+          auth_value_iv: string | null
+          base_url: string
+          created_at: string
+          encrypted_auth_value: string | null
+          has_auth_value: boolean
+          id: string
+          models: string[]
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auth_header?: string | null
+          auth_value_iv?: string | null
+          base_url: string
+          created_at?: string
+          encrypted_auth_value?: string | null
+          has_auth_value?: never
+          id?: string
+          models?: string[]
+          name?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auth_header?: string | null
+          auth_value_iv?: string | null
+          base_url?: string
+          created_at?: string
+          encrypted_auth_value?: string | null
+          has_auth_value?: never
+          id?: string
+          models?: string[]
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      custom_strategies: {
+        Row: {
+          applicability_regex: string | null
+          created_at: string
+          id: string
+          instruction: string
+          is_active: boolean
+          name: string
+          updated_at: string
+          user_id: string
+          weight: number
+        }
+        Insert: {
+          applicability_regex?: string | null
+          created_at?: string
+          id?: string
+          instruction: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+          weight?: number
+        }
+        Update: {
+          applicability_regex?: string | null
+          created_at?: string
+          id?: string
+          instruction?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+          weight?: number
+        }
+        Relationships: []
+      }
       optimization_history: {
         Row: {
           ai_response: string | null
+          cost_usd: number
           created_at: string
           generation_time_ms: number | null
           id: string
           metrics: Json | null
+          optimization_cycle: number
           prompt_id: string | null
           score: number | null
           tokens_used: number | null
@@ -216,10 +539,12 @@ export type Database = {
         }
         Insert: {
           ai_response?: string | null
+          cost_usd?: number
           created_at?: string
           generation_time_ms?: number | null
           id?: string
           metrics?: Json | null
+          optimization_cycle?: number
           prompt_id?: string | null
           score?: number | null
           tokens_used?: number | null
@@ -228,10 +553,12 @@ export type Database = {
         }
         Update: {
           ai_response?: string | null
+          cost_usd?: number
           created_at?: string
           generation_time_ms?: number | null
           id?: string
           metrics?: Json | null
+          optimization_cycle?: number
           prompt_id?: string | null
           score?: number | null
           tokens_used?: number | null
@@ -296,6 +623,54 @@ export type Database = {
         }
         Relationships: []
       }
+      optimization_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          mode: string
+          payload: Json
+          progress: Json
+          prompt_id: string | null
+          result: Json | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          mode?: string
+          payload: Json
+          progress?: Json
+          prompt_id?: string | null
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          mode?: string
+          payload?: Json
+          progress?: Json
+          prompt_id?: string | null
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           bio: string | null
@@ -401,6 +776,7 @@ export type Database = {
       prompts: {
         Row: {
           ai_provider: string
+          cost_usd: number
           created_at: string
           id: string
           model_name: string
@@ -412,12 +788,14 @@ export type Database = {
           score: number | null
           status: string | null
           task_description: string | null
+          tokens_used: number
           updated_at: string
           user_id: string
           variants_generated: number | null
         }
         Insert: {
           ai_provider: string
+          cost_usd?: number
           created_at?: string
           id?: string
           model_name: string
@@ -429,12 +807,14 @@ export type Database = {
           score?: number | null
           status?: string | null
           task_description?: string | null
+          tokens_used?: number
           updated_at?: string
           user_id: string
           variants_generated?: number | null
         }
         Update: {
           ai_provider?: string
+          cost_usd?: number
           created_at?: string
           id?: string
           model_name?: string
@@ -446,12 +826,55 @@ export type Database = {
           score?: number | null
           status?: string | null
           task_description?: string | null
+          tokens_used?: number
           updated_at?: string
           user_id?: string
           variants_generated?: number | null
         }
         Relationships: []
       }
+      provider_credentials: {
+        Row: {
+          created_at: string
+          encrypted_key: string
+          id: string
+          key_hint: string | null
+          key_iv: string
+          last_test_error: string | null
+          last_test_ok: boolean | null
+          last_tested_at: string | null
+          provider: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          encrypted_key: string
+          id?: string
+          key_hint?: string | null
+          key_iv: string
+          last_test_error?: string | null
+          last_test_ok?: boolean | null
+          last_tested_at?: string | null
+          provider: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          encrypted_key?: string
+          id?: string
+          key_hint?: string | null
+          key_iv?: string
+          last_test_error?: string | null
+          last_test_ok?: boolean | null
+          last_tested_at?: string | null
+          provider?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       speed_optimizations: {
         Row: {
           ai_provider: string
@@ -503,6 +926,36 @@ export type Database = {
         }
         Relationships: []
       }
+      usage_records: {
+        Row: {
+          breakdown: Json
+          cost_usd: number
+          created_at: string
+          id: string
+          source: string
+          tokens_used: number
+          user_id: string
+        }
+        Insert: {
+          breakdown?: Json
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          source: string
+          tokens_used?: number
+          user_id: string
+        }
+        Update: {
+          breakdown?: Json
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          source?: string
+          tokens_used?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_favorites: {
         Row: {
           created_at: string
@@ -550,9 +1003,12 @@ export type Database = {
       }
       user_settings: {
         Row: {
+          allow_platform_keys: boolean
           auto_save: boolean | null
+          budget_unit: string
           compact_mode: boolean | null
           created_at: string
+          daily_budget: number | null
           data_retention_days: number | null
           default_max_tokens: number | null
           default_model: string | null
@@ -563,6 +1019,7 @@ export type Database = {
           email: string | null
           email_notifications: boolean | null
           id: string
+          monthly_budget: number | null
           name: string | null
           new_features: boolean | null
           prompt_completed: boolean | null
@@ -576,9 +1033,12 @@ export type Database = {
           weekly_digest: boolean | null
         }
         Insert: {
+          allow_platform_keys?: boolean
           auto_save?: boolean | null
+          budget_unit?: string
           compact_mode?: boolean | null
           created_at?: string
+          daily_budget?: number | null
           data_retention_days?: number | null
           default_max_tokens?: number | null
           default_model?: string | null
@@ -589,6 +1049,7 @@ export type Database = {
           email?: string | null
           email_notifications?: boolean | null
           id?: string
+          monthly_budget?: number | null
           name?: string | null
           new_features?: boolean | null
           prompt_completed?: boolean | null
@@ -602,9 +1063,12 @@ export type Database = {
           weekly_digest?: boolean | null
         }
         Update: {
+          allow_platform_keys?: boolean
           auto_save?: boolean | null
+          budget_unit?: string
           compact_mode?: boolean | null
           created_at?: string
+          daily_budget?: number | null
           data_retention_days?: number | null
           default_max_tokens?: number | null
           default_model?: string | null
@@ -615,6 +1079,7 @@ export type Database = {
           email?: string | null
           email_notifications?: boolean | null
           id?: string
+          monthly_budget?: number | null
           name?: string | null
           new_features?: boolean | null
           prompt_completed?: boolean | null
@@ -664,6 +1129,10 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      publish_agent_version: {
+        Args: { p_agent_id: string; p_notes?: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,67 @@
+import type { Json } from '@/integrations/supabase/types';
+import { formatJsonSchema, parseJsonSchemaText, type JsonSchemaObject } from '@/lib/json-schema';
+
+// A tool as stored in agents.tools; a type alias so it can go straight into the Json column
+export type AgentTool = {
+  name: string;
+  description: string;
+  parameters: JsonSchemaObject;
+  webhook_url: string;
+};
+
+// Editable form of a tool: the parameters schema is kept as text until save
+export interface AgentToolDraft {
+  name: string;
+  description: string;
+  parameters: string;
+  webhook_url: string;
+}
+
+// Matches the server-side rules; anything else is skipped at invocation time
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+export const MAX_AGENT_TOOLS = 20;
+
+export function toolDraftsFrom(raw: Json | null | undefined): AgentToolDraft[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(item => item && typeof item === 'object' && !Array.isArray(item)).map(item => {
+    const tool = item as Record<string, Json | undefined>;
+    return {
+      name: typeof tool.name === 'string' ? tool.name : '',
+      description: typeof tool.description === 'string' ? tool.description : '',
+      parameters: formatJsonSchema(tool.parameters),
+      webhook_url: typeof tool.webhook_url === 'string' ? tool.webhook_url : ''
+    };
+  });
+}
+
+// Validate every draft before saving; the first problem found is reported
+export function parseToolDrafts(drafts: AgentToolDraft[]): { tools: AgentTool[]; error: string | null } {
+  const tools: AgentTool[] = [];
+  for (const draft of drafts) {
+    const name = draft.name.trim();
+    if (!TOOL_NAME_PATTERN.test(name)) {
+      return { tools: [], error: `Tool name "${name}" may only use letters, numbers, _ and - (up to 64 characters)` };
+    }
+    if (tools.some(tool => tool.name === name)) {
+      return { tools: [], error: `There are two tools named "${name}"` };
+    }
+    let url: URL | null = null;
+    try {
+      url = new URL(draft.webhook_url.trim());
+    } catch {
+      // Reported below
+    }
+    if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+      return { tools: [], error: `Tool "${name}" needs an http(s) webhook URL` };
+    }
+    const { schema, error } = parseJsonSchemaText(draft.parameters);
+    if (error) return { tools: [], error: `Tool "${name}" parameters: ${error}` };
+    tools.push({
+      name,
+      description: draft.description.trim(),
+      parameters: schema ?? { type: 'object', properties: {} },
+      webhook_url: url.toString()
+    });
+  }
+  return { tools, error: null };
+}
@@ -0,0 +1,64 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// A version's config: the agent's configuration columns, as publish_agent_version snapshots them
+export type AgentConfig = Record<string, Json | undefined>;
+
+export interface ConfigChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Columns that describe the agent itself rather than its configuration; kept in step with publish_agent_version
+const NON_CONFIG_COLUMNS = ['id', 'user_id', 'created_at', 'updated_at', 'published_version'];
+
+// Display order and labels for the diff; columns added later still show up, under their own name
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  user_prompt: 'System Prompt',
+  mode: 'Mode',
+  provider: 'Provider',
+  model: 'Model',
+  max_tokens: 'Max Tokens',
+  temperature: 'Temperature',
+  output_type: 'Output Type',
+  variants: 'Variants',
+  json_schema: 'JSON Schema',
+  fallback_chain: 'Fallback Chain',
+  context_window_tokens: 'Context Window',
+  context_strategy: 'Older Turns',
+  tools: 'Tools',
+  max_tool_steps: 'Max Tool Steps'
+};
+
+export function configFromAgent(agent: Record<string, unknown>): AgentConfig {
+  return Object.fromEntries(
+    Object.entries(agent).filter(([key]) => !NON_CONFIG_COLUMNS.includes(key))
+  ) as AgentConfig;
+}
+
+// Object keys sorted, so the same value always prints the same way
+function formatValue(value: Json | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  const sortKeys = (item: Json): Json => Array.isArray(item)
+    ? item.map(sortKeys)
+    : item && typeof item === 'object'
+      ? Object.fromEntries(Object.keys(item).sort().map(key => [key, sortKeys(item[key] as Json)]))
+      : item;
+  return typeof value === 'object' ? JSON.stringify(sortKeys(value), null, 2) : String(value);
+}
+
+// Fields whose values differ between two configs, in display order
+export function diffConfigs(from: AgentConfig, to: AgentConfig): ConfigChange[] {
+  const known = Object.keys(FIELD_LABELS);
+  const fields = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort((a, b) => {
+    const rank = (field: string) => (known.includes(field) ? known.indexOf(field) : known.length);
+    return rank(a) - rank(b) || a.localeCompare(b);
+  });
+
+  return fields
+    .map(field => ({ field, label: FIELD_LABELS[field] ?? field, before: formatValue(from[field]), after: formatValue(to[field]) }))
+    .filter(change => change.before !== change.after);
+}
@@ -0,0 +1,111 @@
+import type { PromptVariables } from '@/lib/placeholders';
+
+// One input of an agent batch, in the shape agent-batch accepts
+export interface BatchInput {
+  input: string;
+  variables?: PromptVariables;
+}
+
+// Matches agent-batch's limit
+export const MAX_BATCH_INPUTS = 1000;
+
+// RFC 4180 rows: quoted fields may hold commas, newlines and doubled quotes
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// CSV with a header row: the "input" column is the input, every other column is bound as a prompt variable
+export function parseCsvInputs(text: string): { inputs: BatchInput[]; error: string | null } {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return { inputs: [], error: 'The CSV file is empty' };
+
+  const columns = header.map(name => name.trim());
+  const inputColumn = columns.findIndex(name => name.toLowerCase() === 'input');
+  if (inputColumn === -1) return { inputs: [], error: 'The CSV needs an "input" column' };
+
+  const inputs: BatchInput[] = [];
+  for (const [index, cells] of rows.entries()) {
+    const input = cells[inputColumn]?.trim();
+    if (!input) return { inputs: [], error: `Row ${index + 2} has no input` };
+    const variables: PromptVariables = {};
+    columns.forEach((name, column) => {
+      if (column !== inputColumn && name && cells[column]?.trim()) variables[name] = cells[column];
+    });
+    inputs.push(Object.keys(variables).length > 0 ? { input, variables } : { input });
+  }
+  return { inputs, error: null };
+}
+
+// One JSON value per line: a string, or an object with "input" and optional "variables"
+export function parseJsonlInputs(text: string): { inputs: BatchInput[]; error: string | null } {
+  const inputs: BatchInput[] = [];
+  for (const [index, line] of text.split(/\r?\n/).entries()) {
+    if (!line.trim()) continue;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      return { inputs: [], error: `Line ${index + 1} is not valid JSON` };
+    }
+    if (typeof value === 'string' && value.trim()) {
+      inputs.push({ input: value });
+      continue;
+    }
+    const { input, variables } = (value && typeof value === 'object' ? value : {}) as { input?: unknown; variables?: unknown };
+    if (typeof input !== 'string' || !input.trim()) {
+      return { inputs: [], error: `Line ${index + 1} needs an "input" string` };
+    }
+    inputs.push(variables && typeof variables === 'object' && !Array.isArray(variables)
+      ? { input, variables: variables as PromptVariables }
+      : { input });
+  }
+  return { inputs, error: null };
+}
+
+// Picks the parser from the file name; pasted text is read as JSONL when its first line looks like JSON
+export function parseBatchInputs(text: string, fileName?: string): { inputs: BatchInput[]; error: string | null } {
+  const jsonl = fileName
+    ? /\.(jsonl|ndjson|json)$/i.test(fileName)
+    : /^\s*["{]/.test(text);
+  const result = jsonl ? parseJsonlInputs(text) : parseCsvInputs(text);
+  if (result.error) return result;
+  if (result.inputs.length === 0) return { inputs: [], error: 'No inputs found' };
+  if (result.inputs.length > MAX_BATCH_INPUTS) {
+    return { inputs: [], error: `A batch can have at most ${MAX_BATCH_INPUTS} inputs` };
+  }
+  return result;
+}
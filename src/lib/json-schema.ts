@@ -0,0 +1,22 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Object-shaped Json, so a parsed schema can be stored straight into a jsonb column
+export type JsonSchemaObject = { [key: string]: Json | undefined };
+
+// Parse the schema a user typed; an empty box means "no schema" rather than an error
+export function parseJsonSchemaText(text: string): { schema: JsonSchemaObject | null; error: string | null } {
+  if (!text.trim()) return { schema: null, error: null };
+  try {
+    const schema = JSON.parse(text);
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return { schema: null, error: 'Schema must be a JSON object' };
+    }
+    return { schema, error: null };
+  } catch (error) {
+    return { schema: null, error: `Invalid JSON: ${(error as Error).message}` };
+  }
+}
+
+export function formatJsonSchema(schema: unknown): string {
+  return schema && typeof schema === 'object' ? JSON.stringify(schema, null, 2) : '';
+}
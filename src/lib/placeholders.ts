@@ -0,0 +1,18 @@
+// Mirrors the placeholder syntax prompt-optimizer locks during optimization: {{name}}, {{ customer.name }}
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export type PromptVariables = Record<string, string>;
+
+// Unique placeholder names in order of first appearance
+export function extractPlaceholders(prompt: string): string[] {
+  return [...new Set(Array.from(prompt.matchAll(PLACEHOLDER_PATTERN), match => match[1]))];
+}
+
+// Only the bindings for placeholders still in the prompt, skipping ones left blank
+export function bindingsFor(prompt: string, variables: PromptVariables): PromptVariables {
+  return Object.fromEntries(
+    extractPlaceholders(prompt)
+      .filter(name => variables[name]?.trim())
+      .map(name => [name, variables[name]])
+  );
+}
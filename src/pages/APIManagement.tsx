@@ -4,6 +4,7 @@ import { AgentsList } from '@/components/api/AgentsList';
 import { APIKeysList } from '@/components/api/APIKeysList';
 import { APIDocs } from '@/components/api/APIDocs';
 import { AgentLogs } from '@/components/api/AgentLogs';
+import { AgentBatches } from '@/components/api/AgentBatches';
 import { useAppMode } from '@/context/AppModeContext';
 
 export default function APIManagement() {
@@ -26,6 +27,8 @@ export default function APIManagement() {
         return <APIDocs />;
       case 'logs':
         return <AgentLogs />;
+      case 'batches':
+        return <AgentBatches />;
       default:
         return <AgentsList key={refreshKey} />;
     }
@@ -43,6 +46,8 @@ export default function APIManagement() {
         return { title: 'API Documentation', description: 'Learn how to use the API endpoints' };
       case 'logs':
         return { title: 'Agent Logs', description: 'View execution logs for your agents' };
+      case 'batches':
+        return { title: 'Batch Runs', description: 'Run an agent over many inputs at once' };
       default:
         return { title: 'API Management', description: 'Manage your AI agents and API keys' };
     }
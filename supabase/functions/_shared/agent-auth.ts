@@ -0,0 +1,80 @@
+// Agent auth: resolve the caller of a public agent endpoint (API key, owner session or service role) to the agent
+
+// apiKey in the body (for n8n and other clients) wins over an "Authorization: Bearer" header
+export function apiKeyFromRequest(req: Request, body: { apiKey?: unknown } | null): string | null {
+  if (typeof body?.apiKey === 'string' && body.apiKey) return body.apiKey;
+  const authHeader = req.headers.get('Authorization');
+  return authHeader && authHeader.startsWith('Bearer ') ? authHeader.replace('Bearer ', '') : null;
+}
+
+export const MISSING_API_KEY_MESSAGE = 'Missing API key. Provide either "apiKey" in request body or "Authorization: Bearer YOUR_KEY" header';
+
+export type AgentAuth =
+  | { ok: true; agent: any; userId: string }
+  | { ok: false; status: number; error: string };
+
+// The key must exist and belong to agent_id; the agent row is returned in full
+export async function authenticateAgent(supabase: any, apiKey: string, agentId: string): Promise<AgentAuth> {
+  const { data: keyData, error: keyError } = await supabase
+    .from('api_keys')
+    .select('user_id, agent_id')
+    .eq('key', apiKey)
+    .single();
+
+  if (keyError || !keyData) {
+    console.error('Invalid API key:', keyError);
+    return { ok: false, status: 401, error: 'Invalid API key' };
+  }
+
+  if (keyData.agent_id !== agentId) {
+    return { ok: false, status: 403, error: 'Agent ID does not match API key' };
+  }
+
+  const { data: agent, error: agentError } = await supabase
+    .from('agents')
+    .select('*')
+    .eq('id', agentId)
+    .eq('user_id', keyData.user_id)
+    .single();
+
+  if (agentError || !agent) {
+    console.error('Agent not found:', agentError);
+    return { ok: false, status: 404, error: 'Agent not found' };
+  }
+
+  return { ok: true, agent, userId: keyData.user_id };
+}
+
+// Service-role callers (agent-batch) act for the agent's owner, so the agent is looked up by id alone
+export async function loadAgentForService(supabase: any, agentId: string): Promise<AgentAuth> {
+  const { data: agent, error } = await supabase
+    .from('agents')
+    .select('*')
+    .eq('id', agentId)
+    .maybeSingle();
+
+  if (error || !agent) {
+    console.error('Agent not found:', error);
+    return { ok: false, status: 404, error: 'Agent not found' };
+  }
+  return { ok: true, agent, userId: agent.user_id };
+}
+
+// An API key, or the owner's session token so the app can call the endpoint for a signed-in user
+export async function authenticateAgentOrOwner(supabase: any, token: string, agentId: string): Promise<AgentAuth> {
+  const keyAuth = await authenticateAgent(supabase, token, agentId);
+  if (keyAuth.ok || keyAuth.status !== 401) return keyAuth;
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return keyAuth;
+
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('*')
+    .eq('id', agentId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (!agent) return { ok: false, status: 404, error: 'Agent not found' };
+  return { ok: true, agent, userId: user.id };
+}
@@ -0,0 +1,40 @@
+// Agent versions: published, immutable snapshots of an agent's configuration and which one serves a request
+
+// A pinned version number, or whichever version the agent currently has published
+export type AgentVersionRef = number | 'latest';
+
+export interface ResolvedAgent {
+  agent: any;
+  // Null when the agent has never been published and its draft is served
+  version: number | null;
+}
+
+export const INVALID_AGENT_REF_MESSAGE = 'agent_id must be "AGENT_ID", "AGENT_ID@latest" or "AGENT_ID@<version>"';
+
+// "AGENT_ID", "AGENT_ID@latest" or "AGENT_ID@3"; null when the version part is anything else
+export function parseAgentRef(raw: unknown): { agentId: string; version: AgentVersionRef } | null {
+  if (typeof raw !== 'string' || !raw) return null;
+  const [agentId, version, ...rest] = raw.split('@');
+  if (!agentId || rest.length > 0) return null;
+  if (version === undefined || version === 'latest') return { agentId, version: 'latest' };
+  return /^[1-9]\d*$/.test(version) ? { agentId, version: Number(version) } : null;
+}
+
+// The agents row is the editable draft; the requested published version is layered over it.
+// Null when a pinned version does not exist. Runs with the service role, so the owner check is explicit.
+export async function resolveAgentVersion(supabase: any, agent: any, ref: AgentVersionRef): Promise<ResolvedAgent | null> {
+  const version = ref === 'latest' ? agent.published_version : ref;
+  if (version === null || version === undefined) return { agent, version: null };
+
+  const { data, error } = await supabase
+    .from('agent_versions')
+    .select('config')
+    .eq('agent_id', agent.id)
+    .eq('user_id', agent.user_id)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load agent version: ${error.message}`);
+  if (!data) return null;
+  return { agent: { ...agent, ...data.config, id: agent.id, user_id: agent.user_id }, version };
+}
@@ -0,0 +1,123 @@
+// Budget: per-user daily and monthly spend caps from user_settings, enforced before provider calls
+
+import type { CostBreakdown, SpendLimit } from './usage.ts';
+
+export type BudgetUnit = 'usd' | 'tokens';
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface PeriodBudget {
+  period: BudgetPeriod;
+  limit: number;
+  used: number;
+  remaining: number;
+  since: string;
+}
+
+interface UsageRecord {
+  tokens_used: number;
+  cost_usd: number;
+  created_at: string;
+}
+
+export interface BudgetStatus {
+  unit: BudgetUnit;
+  periods: PeriodBudget[];
+  // First period whose cap has been reached, if any
+  exceeded: PeriodBudget | null;
+}
+
+// Periods start at midnight UTC and on the first of the month UTC
+function periodStart(period: BudgetPeriod, now: Date): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+// Load the user's caps and what they have spent against them; users without caps get an empty status
+export async function loadBudgetStatus(supabase: any, userId: string): Promise<BudgetStatus> {
+  const { data: settings, error: settingsError } = await supabase
+    .from('user_settings')
+    .select('budget_unit, daily_budget, monthly_budget')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (settingsError) {
+    console.error('Error loading budget settings:', settingsError);
+  }
+
+  const unit: BudgetUnit = settings?.budget_unit === 'tokens' ? 'tokens' : 'usd';
+  const limits: [BudgetPeriod, number | null][] = [
+    ['daily', settings?.daily_budget != null ? Number(settings.daily_budget) : null],
+    ['monthly', settings?.monthly_budget != null ? Number(settings.monthly_budget) : null]
+  ];
+  const activeLimits = limits.filter((entry): entry is [BudgetPeriod, number] => entry[1] !== null);
+  if (activeLimits.length === 0) {
+    return { unit, periods: [], exceeded: null };
+  }
+
+  // One query covers both periods: the month always contains today
+  const now = new Date();
+  const earliest = periodStart(activeLimits.some(([period]) => period === 'monthly') ? 'monthly' : 'daily', now);
+  const { data: records, error: recordsError } = await supabase
+    .from('usage_records')
+    .select('tokens_used, cost_usd, created_at')
+    .eq('user_id', userId)
+    .gte('created_at', earliest.toISOString());
+
+  if (recordsError) {
+    throw new Error(`Failed to load usage for budget check: ${recordsError.message}`);
+  }
+
+  const periods = activeLimits.map(([period, limit]): PeriodBudget => {
+    const since = periodStart(period, now);
+    const used = ((records || []) as UsageRecord[])
+      .filter(r => new Date(r.created_at) >= since)
+      .reduce((sum, r) => sum + (unit === 'tokens' ? Number(r.tokens_used) : Number(r.cost_usd)), 0);
+    return { period, limit, used, remaining: Math.max(0, limit - used), since: since.toISOString() };
+  });
+
+  return { unit, periods, exceeded: periods.find(p => p.used >= p.limit) ?? null };
+}
+
+// Tightest remaining allowance across periods, as a per-run ledger limit
+export function budgetSpendLimit(status: BudgetStatus): SpendLimit | undefined {
+  if (status.periods.length === 0) return undefined;
+  const remaining = Math.min(...status.periods.map(p => p.remaining));
+  return status.unit === 'tokens' ? { tokens: remaining } : { cost: remaining };
+}
+
+export function formatBudgetAmount(amount: number, unit: BudgetUnit): string {
+  return unit === 'tokens' ? `${Math.round(amount).toLocaleString()} tokens` : `$${amount.toFixed(2)}`;
+}
+
+export function budgetExceededMessage(status: BudgetStatus): string {
+  const period = status.exceeded!;
+  return `Your ${period.period} budget of ${formatBudgetAmount(period.limit, status.unit)} has been reached ` +
+    `(${formatBudgetAmount(period.used, status.unit)} used). Raise the limit in Settings or wait for the next period.`;
+}
+
+// 402 Payment Required with the period that tripped, so clients can show when spending resumes
+export function budgetExceededResponse(status: BudgetStatus, headers: Record<string, string>): Response {
+  const period = status.exceeded!;
+  return new Response(
+    JSON.stringify({
+      error: budgetExceededMessage(status),
+      code: 'budget_exceeded',
+      budget: { unit: status.unit, period: period.period, limit: period.limit, used: period.used, since: period.since }
+    }),
+    { status: 402, headers: { ...headers, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Bill a run against the user's budgets; failures are logged rather than failing the request
+export async function recordUsage(supabase: any, userId: string, source: string, cost: CostBreakdown): Promise<void> {
+  if (cost.calls === 0) return;
+  const { error } = await supabase.from('usage_records').insert({
+    user_id: userId,
+    source,
+    tokens_used: cost.totalTokens,
+    cost_usd: cost.cost,
+    breakdown: cost
+  });
+  if (error) console.error('Error recording usage:', error);
+}
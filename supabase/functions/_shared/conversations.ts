@@ -0,0 +1,186 @@
+// Conversations: multi-turn state for API agents, stored server-side and fitted into each agent's context window
+
+export type ConversationRole = 'user' | 'assistant';
+
+// truncate: drop the oldest turns that no longer fit; summarize: fold them into a running summary first
+export type ContextStrategy = 'truncate' | 'summarize';
+
+export interface ConversationTurn {
+  role: ConversationRole;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface Conversation {
+  id: string;
+  summary: string | null;
+  // Turns at positions below this are covered by the summary
+  summarizedCount: number;
+  messageCount: number;
+  // The most recent stored turns, oldest first, starting at position recentStart
+  recent: ConversationTurn[];
+  recentStart: number;
+}
+
+export interface ContextFit {
+  // Newest turns that fit the budget, oldest first
+  kept: ConversationTurn[];
+  // Older turns that did not fit, oldest first
+  dropped: ConversationTurn[];
+}
+
+export const DEFAULT_CONTEXT_WINDOW_TOKENS = 4000;
+const CONTEXT_STRATEGIES: ContextStrategy[] = ['truncate', 'summarize'];
+const MAX_REQUEST_TURNS = 100;
+const MAX_TURN_LENGTH = 50000;
+// Far more than any window holds; older turns are never sent to the model again
+const MAX_LOADED_TURNS = 200;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const TITLE_LENGTH = 80;
+const CONVERSATION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Rough count (about four characters per token) that is good enough for budgeting history
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || '').length / 4);
+}
+
+export function normalizeContextStrategy(raw: unknown): ContextStrategy {
+  return CONTEXT_STRATEGIES.includes(raw as ContextStrategy) ? raw as ContextStrategy : 'truncate';
+}
+
+// Checked before querying, so a malformed id is a client error rather than a database one
+export function isConversationId(raw: unknown): raw is string {
+  return typeof raw === 'string' && CONVERSATION_ID_PATTERN.test(raw);
+}
+
+// History sent by a client; null when it is not a list of user/assistant turns with text
+export function normalizeTurns(raw: unknown): ConversationTurn[] | null {
+  if (!Array.isArray(raw) || raw.length > MAX_REQUEST_TURNS) return null;
+  const turns: ConversationTurn[] = [];
+  for (const item of raw) {
+    const { role, content } = (item ?? {}) as { role?: unknown; content?: unknown };
+    if ((role !== 'user' && role !== 'assistant') || typeof content !== 'string' || !content.trim()) return null;
+    turns.push({ role, content: content.slice(0, MAX_TURN_LENGTH) });
+  }
+  return turns;
+}
+
+// Keep the newest turns that fit; history never opens on an assistant turn, which some providers reject
+export function fitContextWindow(turns: ConversationTurn[], budgetTokens: number): ContextFit {
+  let used = 0;
+  let start = turns.length;
+  while (start > 0) {
+    const cost = estimateTokens(turns[start - 1].content) + MESSAGE_OVERHEAD_TOKENS;
+    if (used + cost > budgetTokens) break;
+    used += cost;
+    start--;
+  }
+  while (start < turns.length && turns[start].role === 'assistant') start++;
+  return { kept: turns.slice(start), dropped: turns.slice(0, start) };
+}
+
+export function summaryRequest(previousSummary: string | null, turns: ConversationTurn[]): string {
+  const transcript = turns.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n\n');
+  return `Summarize this conversation between a user and an AI assistant so the assistant can carry on without the full transcript. Keep names, facts, decisions, preferences and open questions; drop pleasantries. Write at most 200 words of plain text.\n\n${previousSummary ? `Summary of the conversation before this part:\n${previousSummary}\n\n` : ''}Conversation:\n${transcript}`;
+}
+
+// Appended to the system prompt so the summary is read as background rather than as a turn to answer
+export function summaryContext(summary: string): string {
+  return `Summary of the earlier conversation:\n${summary}`;
+}
+
+export function conversationTitle(input: string): string {
+  const title = input.trim().replace(/\s+/g, ' ');
+  return title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 3)}...` : title;
+}
+
+// Null when the conversation does not exist or belongs to another agent
+export async function loadConversation(supabase: any, conversationId: string, agentId: string): Promise<Conversation | null> {
+  const { data: conversation, error } = await supabase
+    .from('agent_conversations')
+    .select('id, summary, summarized_count, message_count')
+    .eq('id', conversationId)
+    .eq('agent_id', agentId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load conversation: ${error.message}`);
+  if (!conversation) return null;
+
+  const { data: messages, error: messagesError } = await supabase
+    .from('agent_conversation_messages')
+    .select('role, content, position')
+    .eq('conversation_id', conversationId)
+    .order('position', { ascending: false })
+    .limit(MAX_LOADED_TURNS);
+
+  if (messagesError) throw new Error(`Failed to load conversation messages: ${messagesError.message}`);
+
+  const recent = (messages ?? []).reverse();
+  return {
+    id: conversation.id,
+    summary: conversation.summary,
+    summarizedCount: conversation.summarized_count ?? 0,
+    messageCount: conversation.message_count ?? 0,
+    recent: recent.map((message: { role: ConversationRole; content: string }) => ({ role: message.role, content: message.content })),
+    recentStart: recent.length > 0 ? recent[0].position : conversation.message_count ?? 0
+  };
+}
+
+export interface ConversationSave {
+  // Null starts a new conversation
+  conversationId: string | null;
+  agentId: string;
+  userId: string;
+  title: string;
+  // Position of the first new turn
+  startPosition: number;
+  turns: ConversationTurn[];
+  summary: string | null;
+  summarizedCount: number;
+}
+
+// Append turns (creating the conversation if needed) and return its id.
+// Positions are unique per conversation, so two requests racing on the same conversation cannot interleave turns.
+export async function saveConversationTurns(supabase: any, save: ConversationSave): Promise<string> {
+  const messageCount = save.startPosition + save.turns.length;
+  let conversationId = save.conversationId;
+
+  if (!conversationId) {
+    const { data, error } = await supabase
+      .from('agent_conversations')
+      .insert({
+        user_id: save.userId,
+        agent_id: save.agentId,
+        title: save.title,
+        summary: save.summary,
+        summarized_count: save.summarizedCount,
+        message_count: messageCount
+      })
+      .select('id')
+      .single();
+    if (error || !data) throw new Error(`Failed to create conversation: ${error?.message ?? 'no row returned'}`);
+    conversationId = data.id;
+  }
+
+  const { error: messagesError } = await supabase
+    .from('agent_conversation_messages')
+    .insert(save.turns.map((turn, index) => ({
+      conversation_id: conversationId,
+      user_id: save.userId,
+      position: save.startPosition + index,
+      role: turn.role,
+      content: turn.content,
+      metadata: turn.metadata ?? null
+    })));
+  if (messagesError) throw new Error(`Failed to save conversation messages: ${messagesError.message}`);
+
+  if (save.conversationId) {
+    const { error } = await supabase
+      .from('agent_conversations')
+      .update({ summary: save.summary, summarized_count: save.summarizedCount, message_count: messageCount })
+      .eq('id', conversationId);
+    if (error) throw new Error(`Failed to update conversation: ${error.message}`);
+  }
+
+  return conversationId!;
+}
@@ -0,0 +1,51 @@
+// Crypto: AES-GCM encryption for secrets stored at rest, keyed by the PROVIDER_KEY_ENCRYPTION_SECRET function secret
+
+export interface EncryptedSecret {
+  ciphertext: string;
+  iv: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+let cachedKey: Promise<CryptoKey> | null = null;
+
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const secret = Deno.env.get('PROVIDER_KEY_ENCRYPTION_SECRET');
+    if (!secret) {
+      throw new Error('PROVIDER_KEY_ENCRYPTION_SECRET is not configured. Please add it as a secret in Supabase.');
+    }
+    // Derive a fixed-length AES-256 key from the secret so any string length works
+    cachedKey = crypto.subtle.digest('SHA-256', encoder.encode(secret))
+      .then(hash => crypto.subtle.importKey('raw', hash, 'AES-GCM', false, ['encrypt', 'decrypt']));
+  }
+  return cachedKey;
+}
+
+export async function encryptSecret(plaintext: string): Promise<EncryptedSecret> {
+  const key = await getEncryptionKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return { ciphertext: toBase64(new Uint8Array(encrypted)), iv: toBase64(iv) };
+}
+
+export async function decryptSecret(secret: EncryptedSecret): Promise<string> {
+  const key = await getEncryptionKey();
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(secret.iv) },
+    key,
+    fromBase64(secret.ciphertext)
+  );
+  return decoder.decode(decrypted);
+}
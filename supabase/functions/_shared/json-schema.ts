@@ -0,0 +1,171 @@
+// JSON Schema: validate model output against a user-supplied schema (the commonly used draft-07 keywords)
+// and describe the schema to the model
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface SchemaValidation {
+  valid: boolean;
+  // JSONPath-style location and problem, e.g. "$.items[2].price: expected number"
+  errors: string[];
+  data?: unknown;
+}
+
+const MAX_SCHEMA_ERRORS = 10;
+const MAX_SCHEMA_LENGTH = 20000;
+
+// Accept a schema object or its JSON text; null when nothing usable was given
+export function normalizeJsonSchema(raw: unknown): JsonSchema | null {
+  let schema = raw;
+  if (typeof raw === 'string') {
+    if (!raw.trim() || raw.length > MAX_SCHEMA_LENGTH) return null;
+    try {
+      schema = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return null;
+  return JSON.stringify(schema).length <= MAX_SCHEMA_LENGTH ? schema as JsonSchema : null;
+}
+
+// True when the caller sent something as a schema, so an unusable one can be rejected rather than ignored
+export function hasJsonSchemaInput(raw: unknown): boolean {
+  if (raw === null || raw === undefined) return false;
+  return typeof raw !== 'string' || raw.trim() !== '';
+}
+
+// Models often wrap JSON in a markdown fence or add a sentence around it
+export function extractJson(text: string): string {
+  const fenceMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  if (fenceMatch) return fenceMatch[1].trim();
+  const trimmed = text.trim();
+  const start = trimmed.search(/[[{]/);
+  if (start > 0) {
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (end > start) return trimmed.slice(start, end + 1);
+  }
+  return trimmed;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function validateValue(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  if (errors.length >= MAX_SCHEMA_ERRORS) return;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const matched = (schema.anyOf as JsonSchema[]).some(option => {
+      const optionErrors: string[] = [];
+      validateValue(value, option, path, optionErrors);
+      return optionErrors.length === 0;
+    });
+    if (!matched) errors.push(`${path}: does not match any allowed schema`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) errors.push(`${path}: does not match ${schema.pattern}`);
+      } catch {
+        // An invalid pattern in the schema is the author's problem, not the model's
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${path}: below minimum ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${path}: above maximum ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => validateValue(item, schema.items as JsonSchema, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    for (const key of Array.isArray(schema.required) ? schema.required as string[] : []) {
+      if (!(key in record)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, propertyValue] of Object.entries(record)) {
+      if (properties[key]) {
+        validateValue(propertyValue, properties[key], `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validateValue(propertyValue, schema.additionalProperties as JsonSchema, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+export function validateJsonOutput(text: string, schema: JsonSchema): SchemaValidation {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(text));
+  } catch (error) {
+    return { valid: false, errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+  const errors: string[] = [];
+  validateValue(data, schema, '$', errors);
+  return { valid: errors.length === 0, errors: errors.slice(0, MAX_SCHEMA_ERRORS), data };
+}
+
+// 1 for a valid response, partial credit for parseable JSON with a few mistakes, 0 for anything else
+export function schemaValidityScore(validation: SchemaValidation): number {
+  if (validation.valid) return 1;
+  if (validation.data === undefined) return 0;
+  return Math.max(0, 0.5 - 0.1 * validation.errors.length);
+}
+
+// Instruction appended to prompts so every model sees the exact contract, with or without a JSON mode
+export function schemaInstruction(schema: JsonSchema): string {
+  return `Respond only with JSON that matches this JSON Schema, with no other text:\n\`\`\`json\n${JSON.stringify(schema, null, 2)}\n\`\`\``;
+}
+
+// Idempotent, so refining a prompt that already carries the schema doesn't repeat it
+export function appendSchemaInstruction(prompt: string, schema: JsonSchema): string {
+  const instruction = schemaInstruction(schema);
+  return prompt.includes(instruction) ? prompt : `${prompt.trim()}\n\n${instruction}`;
+}
+
+// Feedback for a second attempt after an invalid response
+export function schemaRepairMessage(validation: SchemaValidation): string {
+  return `Your previous response did not match the required JSON Schema:\n${validation.errors.map(e => `- ${e}`).join('\n')}\n\nReply again with only the corrected JSON.`;
+}
@@ -0,0 +1,121 @@
+// Models: the catalog of platform models — API names, limits, prices and capabilities — served by the
+// models function and used for validation, API name mapping and cost estimates
+
+import type { ProviderId } from './providers/types.ts';
+
+export type ModelStatus = 'active' | 'deprecated';
+
+export interface ModelCapabilities {
+  jsonMode: boolean;
+  tools: boolean;
+  vision: boolean;
+}
+
+export interface ModelInfo {
+  // The app's model id, stored on agents and sent by the UI
+  id: string;
+  provider: ProviderId;
+  label: string;
+  // Name the provider's API expects; often the same as the id
+  apiName: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  // USD per 1M tokens
+  price: { input: number; output: number };
+  capabilities: ModelCapabilities;
+  status: ModelStatus;
+  // Suggested id to move to once a model is deprecated
+  replacement?: string;
+}
+
+const GPT: ModelCapabilities = { jsonMode: true, tools: true, vision: true };
+const CLAUDE: ModelCapabilities = { jsonMode: false, tools: true, vision: true };
+const GEMINI: ModelCapabilities = { jsonMode: true, tools: true, vision: true };
+
+export const MODEL_CATALOG: ModelInfo[] = [
+  { id: 'gpt-5-2025-08-07', provider: 'openai', label: 'GPT-5', apiName: 'gpt-5-2025-08-07', contextWindow: 400000, maxOutputTokens: 128000, price: { input: 1.25, output: 10 }, capabilities: GPT, status: 'active' },
+  { id: 'gpt-5-mini-2025-08-07', provider: 'openai', label: 'GPT-5 Mini', apiName: 'gpt-5-mini-2025-08-07', contextWindow: 400000, maxOutputTokens: 128000, price: { input: 0.25, output: 2 }, capabilities: GPT, status: 'active' },
+  { id: 'gpt-5-nano-2025-08-07', provider: 'openai', label: 'GPT-5 Nano', apiName: 'gpt-5-nano-2025-08-07', contextWindow: 400000, maxOutputTokens: 128000, price: { input: 0.05, output: 0.4 }, capabilities: GPT, status: 'active' },
+  { id: 'gpt-4.1-2025-04-14', provider: 'openai', label: 'GPT-4.1', apiName: 'gpt-4.1-2025-04-14', contextWindow: 1047576, maxOutputTokens: 32768, price: { input: 2, output: 8 }, capabilities: GPT, status: 'active' },
+  { id: 'gpt-4o', provider: 'openai', label: 'GPT-4o', apiName: 'gpt-4o', contextWindow: 128000, maxOutputTokens: 16384, price: { input: 2.5, output: 10 }, capabilities: GPT, status: 'active' },
+  { id: 'gpt-4o-mini', provider: 'openai', label: 'GPT-4o Mini', apiName: 'gpt-4o-mini', contextWindow: 128000, maxOutputTokens: 16384, price: { input: 0.15, output: 0.6 }, capabilities: GPT, status: 'active' },
+
+  { id: 'claude-opus-4-1-20250805', provider: 'anthropic', label: 'Claude Opus 4.1', apiName: 'claude-opus-4-1-20250805', contextWindow: 200000, maxOutputTokens: 32000, price: { input: 15, output: 75 }, capabilities: CLAUDE, status: 'active' },
+  { id: 'claude-sonnet-4-20250514', provider: 'anthropic', label: 'Claude Sonnet 4', apiName: 'claude-sonnet-4-20250514', contextWindow: 200000, maxOutputTokens: 64000, price: { input: 3, output: 15 }, capabilities: CLAUDE, status: 'active' },
+  { id: 'claude-3-5-haiku-20241022', provider: 'anthropic', label: 'Claude 3.5 Haiku', apiName: 'claude-3-5-haiku-20241022', contextWindow: 200000, maxOutputTokens: 8192, price: { input: 0.8, output: 4 }, capabilities: CLAUDE, status: 'active' },
+
+  { id: 'gemini-2.0-flash-lite', provider: 'google', label: 'Gemini 2.0 Flash-Lite', apiName: 'gemini-2.0-flash-lite', contextWindow: 1048576, maxOutputTokens: 8192, price: { input: 0.075, output: 0.3 }, capabilities: { ...GEMINI, tools: false }, status: 'active' },
+  { id: 'gemini-2.0-flash', provider: 'google', label: 'Gemini 2.0 Flash', apiName: 'gemini-2.0-flash', contextWindow: 1048576, maxOutputTokens: 8192, price: { input: 0.1, output: 0.4 }, capabilities: GEMINI, status: 'active' },
+  { id: 'gemini-2.5-flash-lite', provider: 'google', label: 'Gemini 2.5 Flash-Lite', apiName: 'gemini-2.5-flash-lite', contextWindow: 1048576, maxOutputTokens: 65536, price: { input: 0.1, output: 0.4 }, capabilities: GEMINI, status: 'active' },
+  { id: 'gemini-2.5-flash', provider: 'google', label: 'Gemini 2.5 Flash', apiName: 'gemini-2.5-flash', contextWindow: 1048576, maxOutputTokens: 65536, price: { input: 0.3, output: 2.5 }, capabilities: GEMINI, status: 'active' },
+  { id: 'gemini-2.5-pro', provider: 'google', label: 'Gemini 2.5 Pro', apiName: 'gemini-2.5-pro', contextWindow: 1048576, maxOutputTokens: 65536, price: { input: 1.25, output: 10 }, capabilities: GEMINI, status: 'active' },
+
+  { id: 'llama-3.1-8b', provider: 'groq', label: 'Llama 3.1 8B', apiName: 'llama-3.1-8b-instant', contextWindow: 131072, maxOutputTokens: 131072, price: { input: 0.05, output: 0.08 }, capabilities: { jsonMode: true, tools: true, vision: false }, status: 'active' },
+
+  { id: 'mistral-large', provider: 'mistral', label: 'Mistral Large', apiName: 'mistral-large-latest', contextWindow: 128000, maxOutputTokens: 32768, price: { input: 2, output: 6 }, capabilities: { jsonMode: true, tools: true, vision: false }, status: 'active' },
+  { id: 'mistral-medium', provider: 'mistral', label: 'Mistral Medium', apiName: 'mistral-medium-latest', contextWindow: 128000, maxOutputTokens: 32768, price: { input: 0.4, output: 2 }, capabilities: { jsonMode: true, tools: true, vision: true }, status: 'active' },
+  { id: 'mistral-small', provider: 'mistral', label: 'Mistral Small', apiName: 'mistral-small-latest', contextWindow: 128000, maxOutputTokens: 32768, price: { input: 0.1, output: 0.3 }, capabilities: { jsonMode: true, tools: true, vision: true }, status: 'active' }
+];
+
+// Accepts either the app id or the API name, so older rows storing API names still resolve
+export function findModel(provider: string, model: string): ModelInfo | undefined {
+  return MODEL_CATALOG.find(m => m.provider === provider && (m.id === model || m.apiName === model));
+}
+
+export class UnknownModelError extends Error {
+  constructor(provider: string, model: string) {
+    super(`Model ${model} is not available for ${provider}`);
+    this.name = 'UnknownModelError';
+  }
+}
+
+// Validate a provider/model pair; custom endpoints accept only the models the user listed
+export function validateModel(provider: string, model: string, customModels: string[] = []): string | null {
+  if (provider === 'custom') {
+    return customModels.includes(model) ? null : `Model ${model} is not listed on your custom provider`;
+  }
+  const info = findModel(provider, model);
+  if (!info) return `Model ${model} is not available for ${provider}`;
+  if (info.status === 'deprecated') {
+    console.warn(`⚠️ ${provider}/${model} is deprecated${info.replacement ? `; use ${info.replacement}` : ''}`);
+  }
+  return null;
+}
+
+// Map the app's model id to the provider's API model name
+export function resolveApiModel(provider: string, model: string): string {
+  // Custom endpoints serve whatever model names the user listed
+  if (provider === 'custom') return model;
+  const info = findModel(provider, model);
+  if (!info) throw new UnknownModelError(provider, model);
+  return info.apiName;
+}
+
+// Map { provider, model } entries (e.g. a fallback chain) to API names, skipping models outside the catalog
+export function resolveApiTargets<T extends { provider: string; model: string }>(targets: T[]): T[] {
+  return targets.flatMap(target => {
+    if (target.provider !== 'custom' && !findModel(target.provider, target.model)) {
+      console.warn(`Skipping unknown model ${target.provider}/${target.model}`);
+      return [];
+    }
+    return [{ ...target, model: resolveApiModel(target.provider, target.model) }];
+  });
+}
+
+// Cheaper models used to write optimized prompts in deep mode
+export const OPTIMIZATION_MODELS: Partial<Record<ProviderId, string>> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-20241022',
+  google: 'gemini-2.5-flash',
+  groq: 'llama-3.1-8b',
+  mistral: 'mistral-medium'
+};
+
+// Speed mode favours latency over quality when generating variants
+export const SPEED_OPTIMIZATION_MODELS: Partial<Record<ProviderId, string>> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-20241022',
+  google: 'gemini-2.0-flash-lite',
+  groq: 'llama-3.1-8b',
+  mistral: 'mistral-small'
+};
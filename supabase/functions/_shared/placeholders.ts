@@ -0,0 +1,45 @@
+// Placeholders: {{variable}} slots in prompt templates, which optimization must keep and callers fill in at run time
+
+export type PromptVariables = Record<string, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+const MAX_VARIABLES = 50;
+const MAX_VARIABLE_LENGTH = 10000;
+
+// Unique placeholder names in order of first appearance
+export function extractPlaceholders(prompt: string): string[] {
+  const names = new Set<string>();
+  for (const match of (prompt || '').matchAll(PLACEHOLDER_PATTERN)) names.add(match[1]);
+  return [...names];
+}
+
+// Required placeholders a variant dropped or renamed
+export function missingPlaceholders(prompt: string, required: string[]): string[] {
+  const present = new Set(extractPlaceholders(prompt));
+  return required.filter(name => !present.has(name));
+}
+
+// Substitute bound placeholders; unbound ones stay in place so the caller can see what is left
+export function fillPlaceholders(prompt: string, variables: PromptVariables): string {
+  return prompt.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+}
+
+// Accept a flat object of bindings; numbers and booleans are stringified, anything else is dropped
+export function normalizeVariables(raw: unknown): PromptVariables {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const variables: PromptVariables = {};
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>).slice(0, MAX_VARIABLES)) {
+    if (!/^[A-Za-z_][\w.-]*$/.test(name)) continue;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      variables[name] = String(value).slice(0, MAX_VARIABLE_LENGTH);
+    }
+  }
+  return variables;
+}
+
+// Generator rule naming the placeholders every variant has to carry through unchanged
+export function placeholderInstruction(names: string[]): string {
+  return `The prompt is a template. Keep these placeholders exactly as written, including the double braces, and do not rename, fill in or remove any of them: ${names.map(name => `{{${name}}}`).join(', ')}`;
+}
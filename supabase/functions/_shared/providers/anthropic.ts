@@ -0,0 +1,125 @@
+// Anthropic Adapter: Messages API, with system messages sent in the top-level system field.
+// There is no JSON mode, so a requested responseFormat is left to the prompt.
+
+import { parseAnthropicUsage } from '../usage.ts';
+import { parseSSEData, postJSON, postStream, readSSE } from './http.ts';
+import { ProviderError, type ChatMessage, type ChatRequest, type ChatStreamChunk, type ProviderAdapter, type ProviderConfig, type StopReason, type ToolCall } from './types.ts';
+
+function mapStopReason(reason: string | null | undefined): StopReason {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_use';
+    case 'refusal':
+      return 'content_filter';
+    default:
+      return 'unknown';
+  }
+}
+
+// Tool calls are tool_use blocks on the assistant turn; their results go back as tool_result blocks in the next
+// user turn, so consecutive results are merged into one message
+function toProviderMessages(messages: ChatMessage[]): Record<string, unknown>[] {
+  const result: Record<string, unknown>[] = [];
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = result[result.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        (previous.content as unknown[]).push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+    } else if (message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+        ]
+      });
+    } else {
+      result.push({ role: message.role, content: message.content });
+    }
+  }
+  return result;
+}
+
+function buildPayload(request: ChatRequest): Record<string, unknown> {
+  const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const payload: Record<string, unknown> = {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    messages: toProviderMessages(request.messages)
+  };
+  if (system) payload.system = system;
+  if (request.tools?.length) {
+    payload.tools = request.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }));
+  }
+  if (request.temperature !== undefined) payload.temperature = request.temperature;
+  if (request.stop?.length) payload.stop_sequences = request.stop;
+  return payload;
+}
+
+function authHeaders(config: ProviderConfig): Record<string, string> {
+  return { 'x-api-key': config.apiKey, 'anthropic-version': '2023-06-01' };
+}
+
+// Input tokens come with message_start and output tokens with message_delta, so usage is reported once both are known
+async function* streamChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamChunk> {
+  let inputTokens = 0;
+  for await (const message of readSSE('anthropic', body)) {
+    const data = parseSSEData(message);
+    if (!data) continue;
+    switch (data.type) {
+      case 'message_start':
+        inputTokens = Number(data.message?.usage?.input_tokens) || 0;
+        break;
+      case 'content_block_delta':
+        if (data.delta?.type === 'text_delta' && data.delta.text) yield { text: data.delta.text };
+        break;
+      case 'message_delta':
+        yield {
+          usage: parseAnthropicUsage({ usage: { input_tokens: inputTokens, output_tokens: data.usage?.output_tokens } }),
+          stopReason: mapStopReason(data.delta?.stop_reason)
+        };
+        break;
+      case 'error':
+        throw new ProviderError('anthropic', `anthropic stream error: ${data.error?.message ?? 'unknown error'}`, {
+          retryable: data.error?.type === 'overloaded_error'
+        });
+    }
+  }
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1/messages',
+  chat: async (request, config, signal) => {
+    const data = await postJSON('anthropic', config.baseUrl, authHeaders(config), buildPayload(request), signal);
+
+    const blocks: any[] = Array.isArray(data?.content) ? data.content : [];
+    const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+    const toolCalls: ToolCall[] = blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: block.input ?? {} }));
+
+    return {
+      provider: 'anthropic',
+      model: request.model,
+      text,
+      usage: parseAnthropicUsage(data),
+      stopReason: mapStopReason(data?.stop_reason),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  },
+  stream: async (request, config, signal) => {
+    const body = await postStream('anthropic', config.baseUrl, authHeaders(config), { ...buildPayload(request), stream: true }, signal);
+    return streamChunks(body);
+  }
+};
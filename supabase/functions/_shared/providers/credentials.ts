@@ -0,0 +1,48 @@
+// Credentials: users' own provider API keys, stored encrypted in provider_credentials
+
+import { decryptSecret } from '../crypto.ts';
+import type { ProviderId } from './types.ts';
+
+// Providers a user can bring their own key for; custom endpoints carry their auth in custom_providers
+export const CREDENTIAL_PROVIDERS: ProviderId[] = ['openai', 'anthropic', 'google', 'groq', 'mistral'];
+
+// Shown in the UI so users can tell keys apart without ever reading them back
+export function keyHint(apiKey: string): string {
+  return apiKey.length > 8 ? `…${apiKey.slice(-4)}` : '…';
+}
+
+export async function loadProviderCredentials(supabase: any, userId: string): Promise<Partial<Record<ProviderId, string>>> {
+  const { data, error } = await supabase
+    .from('provider_credentials')
+    .select('provider, encrypted_key, key_iv')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error loading provider credentials:', error);
+    return {};
+  }
+
+  const keys: Partial<Record<ProviderId, string>> = {};
+  for (const row of data || []) {
+    try {
+      keys[row.provider as ProviderId] = await decryptSecret({ ciphertext: row.encrypted_key, iv: row.key_iv });
+    } catch (error) {
+      // A rotated encryption secret makes old rows unreadable; skip them rather than failing the request
+      console.error(`Could not decrypt ${row.provider} credential:`, error);
+    }
+  }
+  return keys;
+}
+
+export async function loadAllowPlatformKeys(supabase: any, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('allow_platform_keys')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading platform key setting:', error);
+  }
+  return data?.allow_platform_keys ?? true;
+}
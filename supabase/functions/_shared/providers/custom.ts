@@ -0,0 +1,58 @@
+// Custom Provider: a user's own OpenAI-compatible endpoint (vLLM, Ollama, LiteLLM, ...) stored in custom_providers
+
+import { decryptSecret } from '../crypto.ts';
+import type { ProviderConfig } from './types.ts';
+
+export interface CustomProvider {
+  name: string;
+  baseUrl: string;
+  authHeader: string | null;
+  authValue: string | null;
+  models: string[];
+}
+
+// Accept either the API root (".../v1") or the full chat completions URL
+export function chatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return /\/chat\/completions$/.test(trimmed) ? trimmed : `${trimmed}/chat/completions`;
+}
+
+export async function loadCustomProvider(supabase: any, userId: string): Promise<CustomProvider | null> {
+  const { data, error } = await supabase
+    .from('custom_providers')
+    .select('name, base_url, auth_header, encrypted_auth_value, auth_value_iv, models')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading custom provider:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  let authValue: string | null = null;
+  if (data.encrypted_auth_value && data.auth_value_iv) {
+    try {
+      authValue = await decryptSecret({ ciphertext: data.encrypted_auth_value, iv: data.auth_value_iv });
+    } catch (error) {
+      // A rotated encryption secret makes the value unreadable; call the endpoint without it rather than failing
+      console.error('Could not decrypt custom provider auth value:', error);
+    }
+  }
+
+  return {
+    name: data.name,
+    baseUrl: data.base_url,
+    authHeader: data.auth_header,
+    authValue,
+    models: data.models || []
+  };
+}
+
+export function customProviderConfig(custom: CustomProvider): ProviderConfig {
+  // Local servers such as Ollama usually need no auth at all
+  const headers: Record<string, string> = custom.authHeader && custom.authValue
+    ? { [custom.authHeader]: custom.authValue }
+    : {};
+  return { apiKey: '', baseUrl: chatCompletionsUrl(custom.baseUrl), headers };
+}
@@ -0,0 +1,152 @@
+// Google Adapter: Gemini generateContent, with system messages sent as systemInstruction
+
+import { parseGoogleUsage } from '../usage.ts';
+import { parseSSEData, postJSON, postStream, readSSE } from './http.ts';
+import type { ChatMessage, ChatRequest, ChatStreamChunk, ProviderAdapter, StopReason, ToolCall } from './types.ts';
+
+function mapFinishReason(reason: string | null | undefined): StopReason {
+  switch (reason) {
+    case 'STOP':
+      return 'stop';
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'content_filter';
+    default:
+      return 'unknown';
+  }
+}
+
+// Function declarations take an OpenAPI subset of JSON Schema and reject the rest (additionalProperties, $schema, ...)
+const GEMINI_SCHEMA_KEYS = new Set(['type', 'description', 'properties', 'required', 'items', 'enum', 'format', 'nullable', 'minimum', 'maximum', 'minItems', 'maxItems']);
+
+function toGeminiSchema(schema: unknown): unknown {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return schema;
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    if (!GEMINI_SCHEMA_KEYS.has(key)) continue;
+    if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([name, child]) => [name, toGeminiSchema(child)]));
+    } else {
+      result[key] = key === 'items' ? toGeminiSchema(value) : value;
+    }
+  }
+  return result;
+}
+
+// Tool calls are functionCall parts on the model turn and results are functionResponse parts; consecutive
+// results are merged into one turn
+function toContents(messages: ChatMessage[]): Record<string, unknown>[] {
+  const contents: { role: string; parts: Record<string, unknown>[] }[] = [];
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    if (message.role === 'tool') {
+      const part = { functionResponse: { name: message.toolName, response: { content: message.content } } };
+      const previous = contents[contents.length - 1];
+      if (previous?.role === 'user' && previous.parts.every(existing => 'functionResponse' in existing)) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+    } else if (message.toolCalls?.length) {
+      contents.push({
+        role: 'model',
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+        ]
+      });
+    } else {
+      contents.push({ role: message.role === 'assistant' ? 'model' : 'user', parts: [{ text: message.content }] });
+    }
+  }
+  return contents;
+}
+
+function buildPayload(request: ChatRequest): Record<string, unknown> {
+  const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const generationConfig: Record<string, unknown> = { maxOutputTokens: request.maxTokens };
+  if (request.temperature !== undefined) generationConfig.temperature = request.temperature;
+  if (request.stop?.length) generationConfig.stopSequences = request.stop;
+  // Gemini's responseSchema is an OpenAPI subset that rejects many JSON Schemas, so only JSON mode is requested
+  if (request.responseFormat) generationConfig.responseMimeType = 'application/json';
+
+  const payload: Record<string, unknown> = {
+    contents: toContents(request.messages),
+    generationConfig
+  };
+  if (system) payload.systemInstruction = { parts: [{ text: system }] };
+  if (request.tools?.length) {
+    payload.tools = [{
+      functionDeclarations: request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: toGeminiSchema(tool.parameters)
+      }))
+    }];
+  }
+  return payload;
+}
+
+function candidateText(data: any): string {
+  return data?.candidates?.[0]?.content?.parts?.map((part: any) => part.text ?? '').join('') ?? '';
+}
+
+// Gemini has no call ids, so results are matched back by name and position
+function candidateToolCalls(data: any): ToolCall[] | undefined {
+  const calls: ToolCall[] = (data?.candidates?.[0]?.content?.parts ?? [])
+    .filter((part: any) => part.functionCall)
+    .map((part: any, index: number) => ({
+      id: `${part.functionCall.name}-${index}`,
+      name: part.functionCall.name,
+      arguments: part.functionCall.args ?? {}
+    }));
+  return calls.length > 0 ? calls : undefined;
+}
+
+// A blocked prompt comes back with no candidates and a promptFeedback.blockReason
+function stopReasonOf(data: any): StopReason {
+  const candidate = data?.candidates?.[0];
+  return !candidate && data?.promptFeedback?.blockReason ? 'content_filter' : mapFinishReason(candidate?.finishReason);
+}
+
+// With alt=sse every event is a partial generateContent response; the running usage total rides along on each one
+async function* streamChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamChunk> {
+  for await (const message of readSSE('google', body)) {
+    const data = parseSSEData(message);
+    if (!data) continue;
+    const finished = data.candidates?.[0]?.finishReason || data.promptFeedback?.blockReason;
+    yield {
+      text: candidateText(data) || undefined,
+      usage: data.usageMetadata ? parseGoogleUsage(data) : undefined,
+      stopReason: finished ? stopReasonOf(data) : undefined
+    };
+  }
+}
+
+export const googleAdapter: ProviderAdapter = {
+  id: 'google',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta/models',
+  chat: async (request, config, signal) => {
+    const data = await postJSON('google', `${config.baseUrl}/${request.model}:generateContent?key=${config.apiKey}`, {}, buildPayload(request), signal);
+
+    const toolCalls = candidateToolCalls(data);
+    return {
+      provider: 'google',
+      model: request.model,
+      text: candidateText(data),
+      usage: parseGoogleUsage(data),
+      // Gemini finishes with STOP when it calls a function
+      stopReason: toolCalls ? 'tool_use' : stopReasonOf(data),
+      toolCalls
+    };
+  },
+  stream: async (request, config, signal) => {
+    const body = await postStream('google', `${config.baseUrl}/${request.model}:streamGenerateContent?alt=sse&key=${config.apiKey}`, {}, buildPayload(request), signal);
+    return streamChunks(body);
+  }
+};
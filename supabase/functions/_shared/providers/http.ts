@@ -0,0 +1,125 @@
+// Provider HTTP: POST a JSON body or open an SSE stream, turning failed responses into ProviderErrors
+
+import { ProviderError } from './types.ts';
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function post(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    const aborted = error instanceof DOMException && error.name === 'AbortError';
+    throw new ProviderError(provider, aborted ? `${provider} request timed out` : `${provider} request failed: ${(error as Error).message}`, { retryable: true });
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`❌ ${provider} API error (${response.status}):`, errorText);
+    throw new ProviderError(provider, `${provider} API error: ${response.status} ${response.statusText} - ${errorText}`, {
+      status: response.status,
+      retryable: response.status === 429 || response.status >= 500,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+    });
+  }
+
+  return response;
+}
+
+export async function postJSON(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<any> {
+  const response = await post(provider, url, headers, body, signal);
+  return await response.json();
+}
+
+// POST a streaming request; failures before the body starts are the same ProviderErrors postJSON throws
+export async function postStream(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await post(provider, url, { 'Accept': 'text/event-stream', ...headers }, body, signal);
+  if (!response.body) {
+    throw new ProviderError(provider, `${provider} returned an empty stream`, { retryable: true });
+  }
+  return response.body;
+}
+
+export interface SSEMessage {
+  event: string | null;
+  data: string;
+}
+
+// Split a Server-Sent Events body into messages. A connection that drops part-way throws a ProviderError;
+// it is not retryable because some of the output has already been delivered.
+export async function* readSSE(provider: string, body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let event: string | null = null;
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      let chunk: ReadableStreamReadResult<string>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        throw new ProviderError(provider, `${provider} stream interrupted: ${(error as Error).message}`);
+      }
+      if (chunk.done) break;
+
+      buffer += chunk.value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event, data: data.join('\n') };
+          event = null;
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+    if (buffer.startsWith('data:')) data.push(buffer.slice(5).replace(/^ /, ''));
+    if (data.length > 0) yield { event, data: data.join('\n') };
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Parse one SSE data payload as JSON, skipping keep-alives and anything malformed
+export function parseSSEData(message: SSEMessage): any | null {
+  try {
+    return JSON.parse(message.data);
+  } catch {
+    return null;
+  }
+}
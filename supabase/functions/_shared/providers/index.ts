@@ -0,0 +1,226 @@
+// Providers: one chat() entry point over the OpenAI, Anthropic, Google, Groq, Mistral and custom adapters,
+// with retries for transient failures, chatWithFallback() for trying several providers in order, and
+// chatStreamWithFallback() for the same over token streams
+
+import { anthropicAdapter } from './anthropic.ts';
+import { loadAllowPlatformKeys, loadProviderCredentials } from './credentials.ts';
+import { customProviderConfig, loadCustomProvider } from './custom.ts';
+import { googleAdapter } from './google.ts';
+import { createOpenAICompatibleAdapter } from './openai-compatible.ts';
+import { withRetry } from './retry.ts';
+import { EMPTY_USAGE } from '../usage.ts';
+import { ProviderError, type ChatRequest, type ChatResponse, type ChatStreamChunk, type ChatStreamEvent, type FailedAttempt, type FallbackTarget, type ProviderAdapter, type ProviderConfig, type ProviderId } from './types.ts';
+
+export * from './types.ts';
+export * from './custom.ts';
+export * from './credentials.ts';
+export * from './retry.ts';
+
+export const PROVIDER_ADAPTERS: Record<ProviderId, ProviderAdapter> = {
+  openai: createOpenAICompatibleAdapter('openai', 'https://api.openai.com/v1/chat/completions'),
+  groq: createOpenAICompatibleAdapter('groq', 'https://api.groq.com/openai/v1/chat/completions'),
+  mistral: createOpenAICompatibleAdapter('mistral', 'https://api.mistral.ai/v1/chat/completions'),
+  anthropic: anthropicAdapter,
+  google: googleAdapter,
+  // Base URL and auth come from the user's custom_providers row
+  custom: createOpenAICompatibleAdapter('custom', '')
+};
+
+const API_KEY_SECRETS: Partial<Record<ProviderId, string>> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  google: 'GOOGLE_API_KEY',
+  groq: 'GROQ_API_KEY',
+  mistral: 'MISTRAL_API_KEY'
+};
+
+// Per-user overrides of the platform configuration. Without configs, calls use the platform keys.
+export interface ProviderConfigs {
+  user: Partial<Record<ProviderId, ProviderConfig>>;
+  // When false, providers the user has no key for are unavailable instead of billed to the platform
+  allowPlatformKeys: boolean;
+}
+
+export function isProviderId(provider: string): provider is ProviderId {
+  return provider in PROVIDER_ADAPTERS;
+}
+
+export function getProviderApiKey(provider: ProviderId): string | undefined {
+  const secret = API_KEY_SECRETS[provider];
+  return secret ? Deno.env.get(secret) : undefined;
+}
+
+function resolveConfig(provider: ProviderId, configs?: ProviderConfigs): ProviderConfig | null {
+  const userConfig = configs?.user[provider];
+  if (userConfig) return userConfig;
+  if (configs && !configs.allowPlatformKeys) return null;
+  const apiKey = getProviderApiKey(provider);
+  return apiKey ? { apiKey, baseUrl: PROVIDER_ADAPTERS[provider].defaultBaseUrl } : null;
+}
+
+export function isProviderConfigured(provider: string, configs?: ProviderConfigs): boolean {
+  return isProviderId(provider) && resolveConfig(provider, configs) !== null;
+}
+
+// Load everything a user has configured for themselves; pass the result to chat()
+export async function loadUserProviderConfigs(supabase: any, userId: string): Promise<ProviderConfigs> {
+  const [custom, credentials, allowPlatformKeys] = await Promise.all([
+    loadCustomProvider(supabase, userId),
+    loadProviderCredentials(supabase, userId),
+    loadAllowPlatformKeys(supabase, userId)
+  ]);
+
+  const user: ProviderConfigs['user'] = {};
+  for (const [provider, apiKey] of Object.entries(credentials) as [ProviderId, string][]) {
+    user[provider] = { apiKey, baseUrl: PROVIDER_ADAPTERS[provider].defaultBaseUrl };
+  }
+  if (custom) user.custom = customProviderConfig(custom);
+
+  return { user, allowPlatformKeys };
+}
+
+// Send a chat request to a provider, retrying rate limits, timeouts and 5xx responses with backoff.
+// Throws ProviderError for unknown or unconfigured providers and once retries are exhausted;
+// an empty completion is returned as-is so its usage can still be billed.
+export async function chat(provider: string, request: ChatRequest, configs?: ProviderConfigs): Promise<ChatResponse> {
+  const { adapter, config } = requireProvider(provider, configs);
+  console.log(`📤 ${provider} chat: ${request.model} (maxTokens: ${request.maxTokens})`);
+
+  return await withRetry(`${provider} chat`, async () => {
+    const controller = request.timeoutMs ? new AbortController() : null;
+    const timeoutId = controller ? setTimeout(() => controller.abort(), request.timeoutMs) : null;
+    try {
+      return await adapter.chat(request, config, controller?.signal);
+    } finally {
+      if (timeoutId !== null) clearTimeout(timeoutId);
+    }
+  }, request.retry);
+}
+
+function requireProvider(provider: string, configs?: ProviderConfigs): { adapter: ProviderAdapter; config: ProviderConfig } {
+  if (!isProviderId(provider)) {
+    throw new ProviderError(provider, `Unsupported provider: ${provider}`);
+  }
+  const config = resolveConfig(provider, configs);
+  if (!config) {
+    throw new ProviderError(provider, provider === 'custom'
+      ? 'No custom provider is configured. Add your endpoint under Settings > Custom Provider.'
+      : configs && !configs.allowPlatformKeys
+        ? `No ${provider} API key is saved and platform keys are disabled. Add your key under Settings > Provider Keys.`
+        : `API key for ${provider} is not configured. Please add the ${API_KEY_SECRETS[provider]} secret in Supabase.`);
+  }
+  return { adapter: PROVIDER_ADAPTERS[provider], config };
+}
+
+// Open a token stream, retrying like chat() until the provider accepts the request. timeoutMs covers
+// the wait for the response to start, not the whole stream.
+async function openStream(provider: string, request: ChatRequest, configs?: ProviderConfigs): Promise<AsyncIterable<ChatStreamChunk>> {
+  const { adapter, config } = requireProvider(provider, configs);
+  console.log(`📤 ${provider} stream: ${request.model} (maxTokens: ${request.maxTokens})`);
+
+  return await withRetry(`${provider} stream`, async () => {
+    const controller = request.timeoutMs ? new AbortController() : null;
+    const timeoutId = controller ? setTimeout(() => controller.abort(), request.timeoutMs) : null;
+    try {
+      return await adapter.stream(request, config, controller?.signal);
+    } finally {
+      if (timeoutId !== null) clearTimeout(timeoutId);
+    }
+  }, request.retry);
+}
+
+// Accept a user-supplied chain of { provider, model } entries, dropping anything malformed
+export function parseFallbackChain(value: unknown, maxLength = 3): FallbackTarget[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((t): t is FallbackTarget =>
+      !!t && typeof t.provider === 'string' && isProviderId(t.provider) && typeof t.model === 'string' && t.model.trim() !== '')
+    .map(t => ({ provider: t.provider, model: t.model.trim() }))
+    .slice(0, maxLength);
+}
+
+// Try each target in order until one answers; the response records which provider served it and
+// which ones failed first. Throws the last error when every target fails.
+export async function chatWithFallback(
+  targets: FallbackTarget[],
+  request: Omit<ChatRequest, 'model'>,
+  configs?: ProviderConfigs
+): Promise<ChatResponse> {
+  const failures: FailedAttempt[] = [];
+  let lastError: unknown = new ProviderError('none', 'No providers to try');
+
+  for (const target of targets) {
+    try {
+      const response = await chat(target.provider, { ...request, model: target.model }, configs);
+      if (failures.length > 0) {
+        console.warn(`↪️ Served by fallback ${target.provider}/${target.model} after ${failures.map(f => f.provider).join(', ')} failed`);
+        return { ...response, fallbackFrom: failures };
+      }
+      return response;
+    } catch (error) {
+      // Only provider failures move on to the next target; anything else is a bug worth surfacing
+      if (!(error instanceof ProviderError)) throw error;
+      console.error(`❌ ${target.provider}/${target.model} failed:`, error.message);
+      failures.push({ ...target, error: error.message });
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+// Stream a completion as unified events: 'start' once a target has accepted the request, 'delta' per piece of text
+// and 'done' with the assembled ChatResponse. Fallback targets are only tried before the stream starts; a stream
+// that breaks part-way throws, since its text has already been passed on.
+export async function* chatStreamWithFallback(
+  targets: FallbackTarget[],
+  request: Omit<ChatRequest, 'model'>,
+  configs?: ProviderConfigs
+): AsyncGenerator<ChatStreamEvent> {
+  const failures: FailedAttempt[] = [];
+  let lastError: unknown = new ProviderError('none', 'No providers to try');
+
+  for (const target of targets) {
+    let chunks: AsyncIterable<ChatStreamChunk>;
+    try {
+      chunks = await openStream(target.provider, { ...request, model: target.model }, configs);
+    } catch (error) {
+      if (!(error instanceof ProviderError)) throw error;
+      console.error(`❌ ${target.provider}/${target.model} failed:`, error.message);
+      failures.push({ ...target, error: error.message });
+      lastError = error;
+      continue;
+    }
+
+    if (failures.length > 0) {
+      console.warn(`↪️ Streaming from fallback ${target.provider}/${target.model} after ${failures.map(f => f.provider).join(', ')} failed`);
+    }
+    const provider = target.provider as ProviderId;
+    yield { type: 'start', provider, model: target.model, fallbackFrom: failures };
+
+    let text = '';
+    let usage = EMPTY_USAGE;
+    let stopReason: ChatResponse['stopReason'] = 'unknown';
+    for await (const chunk of chunks) {
+      if (chunk.text) {
+        text += chunk.text;
+        yield { type: 'delta', text: chunk.text };
+      }
+      if (chunk.usage) usage = chunk.usage;
+      if (chunk.stopReason) stopReason = chunk.stopReason;
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        provider,
+        model: target.model,
+        text,
+        usage,
+        stopReason,
+        ...(failures.length > 0 ? { fallbackFrom: failures } : {})
+      }
+    };
+    return;
+  }
+  throw lastError;
+}
@@ -0,0 +1,144 @@
+// OpenAI-compatible Adapter: chat completions API shared by OpenAI, Groq and Mistral
+
+import { parseOpenAIUsage } from '../usage.ts';
+import { parseSSEData, postJSON, postStream, readSSE } from './http.ts';
+import type { ChatMessage, ChatRequest, ChatStreamChunk, ProviderAdapter, ProviderConfig, ProviderId, StopReason, ToolCall } from './types.ts';
+
+// Reasoning models take max_completion_tokens and reject a non-default temperature
+const REASONING_MODEL = /^(gpt-5|gpt-4\.1|o3|o4)/i;
+
+function mapFinishReason(reason: string | null | undefined): StopReason {
+  switch (reason) {
+    case 'stop':
+      return 'stop';
+    case 'length':
+      return 'length';
+    case 'content_filter':
+      return 'content_filter';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    default:
+      return 'unknown';
+  }
+}
+
+// OpenAI enforces a JSON Schema; Groq and Mistral only promise valid JSON. Custom endpoints vary, so they
+// get no response_format at all and rely on the prompt.
+function responseFormatFor(id: ProviderId, format: ChatRequest['responseFormat']): Record<string, unknown> | null {
+  if (!format || id === 'custom') return null;
+  if (id === 'openai' && format.schema) {
+    return { type: 'json_schema', json_schema: { name: format.name || 'response', schema: format.schema, strict: false } };
+  }
+  return { type: 'json_object' };
+}
+
+// Tool calls travel as assistant tool_calls with JSON-encoded arguments, and results as role "tool" messages
+function toProviderMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+// Arguments that are not a JSON object come through as {} and fail the tool's schema check downstream
+function parseToolCalls(raw: unknown): ToolCall[] | undefined {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined;
+  return raw.map((call: any, index: number) => {
+    let args: unknown = {};
+    try {
+      args = JSON.parse(call?.function?.arguments || '{}');
+    } catch {
+      // Left empty
+    }
+    return {
+      id: call?.id || `call_${index}`,
+      name: call?.function?.name ?? '',
+      arguments: args && typeof args === 'object' && !Array.isArray(args) ? args as Record<string, unknown> : {}
+    };
+  });
+}
+
+function buildPayload(id: ProviderId, request: ChatRequest): Record<string, unknown> {
+  const isReasoningModel = id === 'openai' && REASONING_MODEL.test(request.model);
+  const payload: Record<string, unknown> = {
+    model: request.model,
+    messages: request.messages.map(toProviderMessage)
+  };
+
+  if (isReasoningModel) {
+    payload.max_completion_tokens = request.maxTokens;
+  } else {
+    payload.max_tokens = request.maxTokens;
+    if (request.temperature !== undefined) payload.temperature = request.temperature;
+  }
+  if (request.stop?.length) payload.stop = request.stop;
+  const responseFormat = responseFormatFor(id, request.responseFormat);
+  if (responseFormat) payload.response_format = responseFormat;
+  if (request.tools?.length) {
+    payload.tools = request.tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    }));
+  }
+  return payload;
+}
+
+function authHeaders(config: ProviderConfig): Record<string, string> {
+  return config.headers ?? { 'Authorization': `Bearer ${config.apiKey}` };
+}
+
+// Chunks carry choices[0].delta; usage arrives on the last chunk (OpenAI with include_usage, Mistral always,
+// Groq under x_groq) and the stream ends with "data: [DONE]"
+async function* streamChunks(id: ProviderId, body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamChunk> {
+  for await (const message of readSSE(id, body)) {
+    if (message.data === '[DONE]') return;
+    const data = parseSSEData(message);
+    if (!data) continue;
+    const choice = data.choices?.[0];
+    const usageData = data.usage ? data : data.x_groq?.usage ? data.x_groq : null;
+    yield {
+      text: choice?.delta?.content || undefined,
+      usage: usageData ? parseOpenAIUsage(usageData) : undefined,
+      stopReason: choice?.finish_reason ? mapFinishReason(choice.finish_reason) : undefined
+    };
+  }
+}
+
+export function createOpenAICompatibleAdapter(id: ProviderId, defaultBaseUrl: string): ProviderAdapter {
+  return {
+    id,
+    defaultBaseUrl,
+    chat: async (request, config, signal) => {
+      const data = await postJSON(id, config.baseUrl, authHeaders(config), buildPayload(id, request), signal);
+      const choice = data?.choices?.[0];
+
+      return {
+        provider: id,
+        model: request.model,
+        text: choice?.message?.content ?? '',
+        usage: parseOpenAIUsage(data),
+        stopReason: mapFinishReason(choice?.finish_reason),
+        toolCalls: parseToolCalls(choice?.message?.tool_calls)
+      };
+    },
+    stream: async (request, config, signal) => {
+      const payload: Record<string, unknown> = { ...buildPayload(id, request), stream: true };
+      // Without this OpenAI sends no usage at all when streaming
+      if (id === 'openai') payload.stream_options = { include_usage: true };
+      const body = await postStream(id, config.baseUrl, authHeaders(config), payload, signal);
+      return streamChunks(id, body);
+    }
+  };
+}
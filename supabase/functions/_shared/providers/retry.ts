@@ -0,0 +1,37 @@
+// Retry: exponential backoff with full jitter for transient provider failures, honouring Retry-After
+
+import { ProviderError, type RetryPolicy } from './types.ts';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 20000
+};
+
+// Delay before the next attempt, or null when the error should not be retried
+export function retryDelayMs(error: unknown, attempt: number, policy: RetryPolicy): number | null {
+  if (!(error instanceof ProviderError) || !error.retryable || attempt >= policy.maxAttempts) {
+    return null;
+  }
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxRetryAfterMs ? error.retryAfterMs : null;
+  }
+  // Full jitter spreads concurrent variant calls out instead of retrying them in lockstep
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+export async function withRetry<T>(label: string, fn: () => Promise<T>, overrides?: Partial<RetryPolicy>): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const delay = retryDelayMs(error, attempt, policy);
+      if (delay === null) throw error;
+      console.warn(`🔁 ${label} attempt ${attempt}/${policy.maxAttempts} failed (${(error as Error).message}); retrying in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// Provider Types: the request/response contract every provider adapter implements
+
+import type { TokenUsage } from '../usage.ts';
+
+// 'custom' is a user's own OpenAI-compatible endpoint; the rest use platform API keys
+export type ProviderId = 'openai' | 'anthropic' | 'google' | 'groq' | 'mistral' | 'custom';
+
+// 'tool' carries a tool's result back to the model, answering one of the previous assistant turn's toolCalls
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // Assistant turns: the tools the model asked to run
+  toolCalls?: ToolCall[];
+  // Tool turns: the call this result answers
+  toolCallId?: string;
+  toolName?: string;
+}
+
+// A function the model may ask the caller to run; parameters is a JSON Schema object
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  // Provider-issued where the provider has ids (Gemini does not, so one is generated)
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+  // Provider API model name (e.g. 'llama-3.1-8b-instant', not the app's 'llama-3.1-8b')
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  // Omitted means the provider default; reasoning models ignore it regardless
+  temperature?: number;
+  stop?: string[];
+  // Applies to each attempt, not the request as a whole
+  timeoutMs?: number;
+  // Overrides the default retry policy; { maxAttempts: 1 } disables retries
+  retry?: Partial<RetryPolicy>;
+  // Ask for a JSON reply; adapters use the provider's JSON mode where it has one and rely on the prompt otherwise
+  responseFormat?: ResponseFormat;
+  // Offered to the model; a reply that uses them has stopReason 'tool_use' and toolCalls set. chat() only: streams carry text.
+  tools?: ToolDefinition[];
+}
+
+export interface ResponseFormat {
+  type: 'json';
+  // Enforced by providers that support structured outputs; the others only get JSON mode
+  schema?: Record<string, unknown>;
+  name?: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A longer Retry-After than this gives up on the provider instead of waiting
+  maxRetryAfterMs: number;
+}
+
+// Normalized across providers: 'length' means the output was cut off by maxTokens
+export type StopReason = 'stop' | 'length' | 'content_filter' | 'tool_use' | 'unknown';
+
+export interface ChatResponse {
+  provider: ProviderId;
+  model: string;
+  text: string;
+  usage: TokenUsage;
+  stopReason: StopReason;
+  toolCalls?: ToolCall[];
+  // Providers that failed before this one served the request, when a fallback chain was used
+  fallbackFrom?: FailedAttempt[];
+}
+
+// One piece of a streamed completion: text as it arrives, and usage or the stop reason once the provider reports them
+export interface ChatStreamChunk {
+  text?: string;
+  usage?: TokenUsage;
+  stopReason?: StopReason;
+}
+
+// Streamed completions look the same whichever provider served them
+export type ChatStreamEvent =
+  | { type: 'start'; provider: ProviderId; model: string; fallbackFrom: FailedAttempt[] }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ChatResponse };
+
+export interface FallbackTarget {
+  provider: string;
+  model: string;
+}
+
+export interface FailedAttempt extends FallbackTarget {
+  error: string;
+}
+
+export interface ProviderConfig {
+  apiKey: string;
+  baseUrl: string;
+  // Replaces the adapter's default auth headers, e.g. a custom endpoint's own header or none at all
+  headers?: Record<string, string>;
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  defaultBaseUrl: string;
+  chat: (request: ChatRequest, config: ProviderConfig, signal?: AbortSignal) => Promise<ChatResponse>;
+  // Resolves once the provider has accepted the request, so connection failures can be retried like chat()
+  stream: (request: ChatRequest, config: ProviderConfig, signal?: AbortSignal) => Promise<AsyncIterable<ChatStreamChunk>>;
+}
+
+export class ProviderError extends Error {
+  provider: string;
+  // HTTP status from the provider, when the failure came from a response
+  status?: number;
+  // Rate limits, timeouts and 5xx responses are worth retrying; bad requests and auth failures are not
+  retryable: boolean;
+  // How long the provider asked us to wait (Retry-After), when it said
+  retryAfterMs?: number;
+
+  constructor(provider: string, message: string, options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
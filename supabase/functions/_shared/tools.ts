@@ -0,0 +1,106 @@
+// Tools: webhook-backed functions an agent's model can call, and the HTTP round trip that runs one call
+
+import { normalizeJsonSchema, validateJsonOutput, type JsonSchema } from './json-schema.ts';
+import type { ToolCall, ToolDefinition } from './providers/index.ts';
+
+export interface AgentTool extends ToolDefinition {
+  parameters: JsonSchema;
+  webhookUrl: string;
+}
+
+// ok: the webhook answered 2xx; anything else was reported back to the model as an error result
+export type ToolStepStatus = 'ok' | 'unknown_tool' | 'invalid_arguments' | 'error';
+
+export interface ToolStep {
+  // Model round that requested the call, starting at 1; parallel calls share a step
+  step: number;
+  callId: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  status: ToolStepStatus;
+  httpStatus?: number;
+  durationMs: number;
+  // Exactly what the model was given back
+  result: string;
+}
+
+export const DEFAULT_MAX_TOOL_STEPS = 5;
+const MAX_TOOL_STEPS = 20;
+const MAX_TOOLS = 20;
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const TOOL_TIMEOUT_MS = 15000;
+const MAX_TOOL_RESULT_LENGTH = 20000;
+
+// http is allowed alongside https so a local stub server can stand in for a tool during development
+export function isWebhookUrl(raw: unknown): raw is string {
+  if (typeof raw !== 'string') return false;
+  try {
+    const url = new URL(raw);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// Tools as stored on the agent ({ name, description, parameters, webhook_url }); malformed or duplicate entries are skipped
+export function normalizeTools(raw: unknown): AgentTool[] {
+  if (!Array.isArray(raw)) return [];
+  const tools: AgentTool[] = [];
+  for (const item of raw.slice(0, MAX_TOOLS)) {
+    const { name, description, parameters, webhook_url } = (item ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !TOOL_NAME_PATTERN.test(name) || tools.some(tool => tool.name === name)) continue;
+    if (!isWebhookUrl(webhook_url)) continue;
+    tools.push({
+      name,
+      description: typeof description === 'string' && description.trim() ? description.trim() : undefined,
+      parameters: normalizeJsonSchema(parameters) ?? { type: 'object', properties: {} },
+      webhookUrl: webhook_url
+    });
+  }
+  return tools;
+}
+
+export function normalizeMaxToolSteps(raw: unknown): number {
+  const steps = Math.floor(Number(raw));
+  return Number.isFinite(steps) && steps >= 1 ? Math.min(steps, MAX_TOOL_STEPS) : DEFAULT_MAX_TOOL_STEPS;
+}
+
+// POST { tool, call_id, arguments, agent_id } to the tool's webhook and hand the response body back verbatim.
+// Failures become an "Error: ..." result so the model can recover instead of the whole request failing.
+export async function runToolCall(tools: AgentTool[], call: ToolCall, step: number, agentId: string): Promise<ToolStep> {
+  const base = { step, callId: call.id, tool: call.name, arguments: call.arguments };
+  const tool = tools.find(t => t.name === call.name);
+  if (!tool) {
+    return { ...base, status: 'unknown_tool', durationMs: 0, result: `Error: there is no tool named "${call.name}"` };
+  }
+
+  const validation = validateJsonOutput(JSON.stringify(call.arguments), tool.parameters);
+  if (!validation.valid) {
+    return { ...base, status: 'invalid_arguments', durationMs: 0, result: `Error: invalid arguments for ${tool.name}: ${validation.errors.join('; ')}` };
+  }
+
+  const startTime = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TOOL_TIMEOUT_MS);
+  try {
+    const response = await fetch(tool.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tool: tool.name, call_id: call.id, arguments: call.arguments, agent_id: agentId }),
+      signal: controller.signal
+    });
+    const text = (await response.text()).slice(0, MAX_TOOL_RESULT_LENGTH);
+    const durationMs = Date.now() - startTime;
+    if (!response.ok) {
+      return { ...base, status: 'error', httpStatus: response.status, durationMs, result: `Error: ${tool.name} returned HTTP ${response.status}${text ? `: ${text}` : ''}` };
+    }
+    return { ...base, status: 'ok', httpStatus: response.status, durationMs, result: text || '(empty result)' };
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `did not respond within ${TOOL_TIMEOUT_MS / 1000}s`
+      : `could not be reached (${error instanceof Error ? error.message : String(error)})`;
+    return { ...base, status: 'error', durationMs: Date.now() - startTime, result: `Error: ${tool.name} ${message}` };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,137 @@
+// Usage: token accounting and cost estimates for provider calls, shared across edge functions
+
+import { MODEL_CATALOG } from './models.ts';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  cost: number;
+  calls: number;
+  // Provider that served these calls, when the caller reported it
+  provider?: string;
+}
+
+export interface CostBreakdown extends UsageTotals {
+  currency: 'USD';
+  byModel: Record<string, UsageTotals>;
+  // Models that had no entry in MODEL_PRICES; their tokens are counted but cost nothing
+  unpricedModels: string[];
+  // Every provider that actually served a call, including fallbacks
+  providers: string[];
+}
+
+// USD per 1M tokens from the model catalog, keyed by both the app's model ids and the provider's API model names
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = Object.fromEntries(
+  MODEL_CATALOG.flatMap(m => [[m.id, m.price], [m.apiName, m.price]])
+);
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+export function calculateCost(model: string, usage: TokenUsage): number | null {
+  const price = MODEL_PRICES[model];
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+// OpenAI, Groq and Mistral: { usage: { prompt_tokens, completion_tokens, total_tokens } }
+export function parseOpenAIUsage(data: any): TokenUsage {
+  const promptTokens = Number(data?.usage?.prompt_tokens) || 0;
+  const completionTokens = Number(data?.usage?.completion_tokens) || 0;
+  return { promptTokens, completionTokens, totalTokens: Number(data?.usage?.total_tokens) || promptTokens + completionTokens };
+}
+
+// Anthropic: { usage: { input_tokens, output_tokens } }
+export function parseAnthropicUsage(data: any): TokenUsage {
+  const promptTokens = Number(data?.usage?.input_tokens) || 0;
+  const completionTokens = Number(data?.usage?.output_tokens) || 0;
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// Google: { usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount } }
+export function parseGoogleUsage(data: any): TokenUsage {
+  const promptTokens = Number(data?.usageMetadata?.promptTokenCount) || 0;
+  const completionTokens = Number(data?.usageMetadata?.candidatesTokenCount) || 0;
+  return { promptTokens, completionTokens, totalTokens: Number(data?.usageMetadata?.totalTokenCount) || promptTokens + completionTokens };
+}
+
+// Caps on what a ledger may spend; either field may be omitted
+export interface SpendLimit {
+  cost?: number;
+  tokens?: number;
+}
+
+export class SpendLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpendLimitError';
+  }
+}
+
+export interface UsageLedger {
+  record: (model: string, usage: TokenUsage, provider?: string) => void;
+  summary: () => CostBreakdown;
+  // Throws SpendLimitError once this ledger or any ancestor has reached its limit; call before each provider request
+  assertWithinLimit: () => void;
+}
+
+// Accumulates usage per model; a child ledger also records into its parent so run totals include every scope
+export function createUsageLedger(parent?: UsageLedger, limit?: SpendLimit): UsageLedger {
+  const byModel: Record<string, UsageTotals> = {};
+  const unpriced = new Set<string>();
+
+  const record = (model: string, usage: TokenUsage, provider?: string) => {
+    const totals = byModel[model] ?? (byModel[model] = { ...EMPTY_USAGE, cost: 0, calls: 0 });
+    if (provider) totals.provider = provider;
+    const cost = calculateCost(model, usage);
+    if (cost === null) unpriced.add(model);
+
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.totalTokens += usage.totalTokens;
+    totals.cost += cost ?? 0;
+    totals.calls += 1;
+
+    parent?.record(model, usage, provider);
+  };
+
+  const summary = (): CostBreakdown => {
+    const models = Object.values(byModel);
+    return {
+      promptTokens: models.reduce((sum, m) => sum + m.promptTokens, 0),
+      completionTokens: models.reduce((sum, m) => sum + m.completionTokens, 0),
+      totalTokens: models.reduce((sum, m) => sum + m.totalTokens, 0),
+      cost: roundCost(models.reduce((sum, m) => sum + m.cost, 0)),
+      calls: models.reduce((sum, m) => sum + m.calls, 0),
+      currency: 'USD',
+      byModel: Object.fromEntries(
+        Object.entries(byModel).map(([model, totals]) => [model, { ...totals, cost: roundCost(totals.cost) }])
+      ),
+      unpricedModels: [...unpriced],
+      providers: [...new Set(models.map(m => m.provider).filter((p): p is string => !!p))]
+    };
+  };
+
+  const assertWithinLimit = () => {
+    parent?.assertWithinLimit();
+    if (!limit) return;
+    const models = Object.values(byModel);
+    const cost = models.reduce((sum, m) => sum + m.cost, 0);
+    const tokens = models.reduce((sum, m) => sum + m.totalTokens, 0);
+    if (limit.cost !== undefined && cost >= limit.cost) {
+      throw new SpendLimitError(`Spend limit of $${limit.cost.toFixed(2)} reached`);
+    }
+    if (limit.tokens !== undefined && tokens >= limit.tokens) {
+      throw new SpendLimitError(`Token limit of ${limit.tokens} reached`);
+    }
+  };
+
+  return { record, summary, assertWithinLimit };
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
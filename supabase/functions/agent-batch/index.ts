@@ -0,0 +1,493 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { apiKeyFromRequest, authenticateAgentOrOwner, MISSING_API_KEY_MESSAGE } from '../_shared/agent-auth.ts';
+import { normalizeVariables, type PromptVariables } from '../_shared/placeholders.ts';
+import { INVALID_AGENT_REF_MESSAGE, parseAgentRef, resolveAgentVersion, type AgentVersionRef } from '../_shared/agent-versions.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+// Also the project's max_rows, so a whole batch comes back in one query
+const MAX_BATCH_ITEMS = 1000;
+const MAX_INPUT_LENGTH = 20000;
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+const INSERT_CHUNK_SIZE = 500;
+// Edge functions are stopped after a few minutes, so a worker stops taking items after this and hands the rest
+// of the batch to a fresh invocation
+const WORKER_TIME_BUDGET_MS = 90000;
+// Agent errors that will fail every remaining item too, so the batch stops instead of burning through them
+const FATAL_ITEM_STATUSES = [402, 404];
+
+interface BatchItemInput {
+  input: string;
+  variables: PromptVariables | null;
+}
+
+interface ItemOutcome {
+  succeeded: boolean;
+  tokensUsed: number;
+  costUsd: number;
+  error?: string;
+  fatal?: boolean;
+}
+
+// Batch runs of an agent over many inputs: ?action=create | list | status | results (and continue, internally)
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const action = url.searchParams.get('action');
+    // Parameters come from the JSON body, or the query string for GET requests
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const param = (name: string) => body?.[name] ?? url.searchParams.get(name) ?? undefined;
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+    // A worker that ran out of time picks the batch back up through here, authenticated with the service role key
+    if (action === 'continue') {
+      if (!supabaseServiceKey || req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const batchId = String(param('batch_id') ?? '');
+      EdgeRuntime.waitUntil(processBatch(supabase, batchId));
+      return new Response(
+        JSON.stringify({ batch_id: batchId, status: 'running' }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // An agent API key, or the owner's session when called from the app
+    const token = apiKeyFromRequest(req, body);
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: MISSING_API_KEY_MESSAGE }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!param('agent_id')) {
+      return new Response(
+        JSON.stringify({ error: 'agent_id is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const agentRef = parseAgentRef(String(param('agent_id')));
+    if (!agentRef) {
+      return new Response(
+        JSON.stringify({ error: INVALID_AGENT_REF_MESSAGE }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const auth = await authenticateAgentOrOwner(supabase, token, agentRef.agentId);
+    if (!auth.ok) {
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      case 'create':
+        return await createBatch(supabase, auth.agent, agentRef.version, auth.userId, body);
+      case 'list':
+        return await listBatches(supabase, auth.agent.id, param('limit'), param('offset'));
+      case 'status':
+      case 'results': {
+        const batchId = param('batch_id');
+        if (!batchId) {
+          return new Response(
+            JSON.stringify({ error: 'batch_id is required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return action === 'status'
+          ? await getBatchStatus(supabase, auth.agent.id, String(batchId))
+          : await downloadResults(supabase, auth.agent.id, String(batchId), param('format') === 'csv' ? 'csv' : 'jsonl');
+      }
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Invalid action. Use create, list, status or results' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Error in agent-batch function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Each input is a string or { input, variables }; returns an error message for the first one that is neither
+function normalizeBatchItems(raw: unknown[]): { items: BatchItemInput[]; error: string | null } {
+  const items: BatchItemInput[] = [];
+  for (const [index, entry] of raw.entries()) {
+    const { input, variables } = typeof entry === 'string'
+      ? { input: entry, variables: undefined }
+      : (entry ?? {}) as { input?: unknown; variables?: unknown };
+    if (typeof input !== 'string' || !input.trim()) {
+      return { items: [], error: `Item ${index + 1} has no input` };
+    }
+    if (input.length > MAX_INPUT_LENGTH) {
+      return { items: [], error: `Item ${index + 1} is longer than ${MAX_INPUT_LENGTH} characters` };
+    }
+    const bound = normalizeVariables(variables);
+    items.push({ input, variables: Object.keys(bound).length > 0 ? bound : null });
+  }
+  return { items, error: null };
+}
+
+function pageNumber(raw: unknown, fallback: number, max: number): number {
+  const value = Math.floor(Number(raw));
+  return Number.isFinite(value) && value >= 0 ? Math.min(value, max) : fallback;
+}
+
+async function createBatch(supabase: any, agent: any, versionRef: AgentVersionRef, userId: string, body: any) {
+  const rawItems = body?.inputs;
+  if (!Array.isArray(rawItems) || rawItems.length === 0) {
+    return new Response(
+      JSON.stringify({ error: 'inputs must be a non-empty array of strings or { "input", "variables" } objects' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+  if (rawItems.length > MAX_BATCH_ITEMS) {
+    return new Response(
+      JSON.stringify({ error: `A batch can have at most ${MAX_BATCH_ITEMS} inputs` }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+  const { items, error: itemsError } = normalizeBatchItems(rawItems);
+  if (itemsError) {
+    return new Response(
+      JSON.stringify({ error: itemsError }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Every item runs on the version that was current when the batch was created, even if a new one is published meanwhile
+  const resolved = await resolveAgentVersion(supabase, agent, versionRef);
+  if (!resolved) {
+    return new Response(
+      JSON.stringify({ error: `Version ${versionRef} of this agent does not exist`, code: 'version_not_found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const concurrency = Math.max(1, pageNumber(body.concurrency, DEFAULT_CONCURRENCY, MAX_CONCURRENCY));
+  const { data: batch, error: batchError } = await supabase
+    .from('agent_batches')
+    .insert({
+      user_id: userId,
+      agent_id: agent.id,
+      agent_version: resolved.version,
+      name: typeof body.name === 'string' && body.name.trim() ? body.name.trim().slice(0, 120) : null,
+      concurrency,
+      total_items: items.length
+    })
+    .select()
+    .single();
+
+  if (batchError || !batch) {
+    throw new Error(`Failed to create batch: ${batchError?.message ?? 'no row returned'}`);
+  }
+
+  for (let start = 0; start < items.length; start += INSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('agent_batch_items')
+      .insert(items.slice(start, start + INSERT_CHUNK_SIZE).map((item, offset) => ({
+        batch_id: batch.id,
+        user_id: userId,
+        position: start + offset,
+        input: item.input,
+        variables: item.variables
+      })));
+    if (error) {
+      await supabase.from('agent_batches').delete().eq('id', batch.id);
+      throw new Error(`Failed to save batch inputs: ${error.message}`);
+    }
+  }
+
+  console.log(`Batch ${batch.id} created for agent ${agent.id}: ${items.length} inputs, concurrency ${concurrency}`);
+  EdgeRuntime.waitUntil(processBatch(supabase, batch.id));
+
+  return new Response(
+    JSON.stringify({ batch_id: batch.id, agentId: agent.id, agent_version: resolved.version, status: batch.status, total_items: items.length, concurrency }),
+    { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Runs through agent-invoke with the service role key, so budgets, fallbacks, schemas and tools apply as usual
+async function runItem(supabase: any, agentRef: string, item: { id: string; input: string; variables: PromptVariables | null }): Promise<ItemOutcome> {
+  await supabase.from('agent_batch_items').update({ status: 'running' }).eq('id', item.id);
+  const startTime = Date.now();
+
+  const { data, error } = await supabase.functions.invoke('agent-invoke', {
+    body: { agent_id: agentRef, input: item.input, ...(item.variables ? { variables: item.variables } : {}) }
+  });
+  const processingTime = Date.now() - startTime;
+
+  if (error) {
+    let message = error.message;
+    try {
+      message = (await error.context.json())?.error ?? message;
+    } catch {
+      // Not a JSON error body; keep the client's message
+    }
+    await supabase
+      .from('agent_batch_items')
+      .update({ status: 'failed', error: message, processing_time_ms: processingTime })
+      .eq('id', item.id);
+    return { succeeded: false, tokensUsed: 0, costUsd: 0, error: message, fatal: FATAL_ITEM_STATUSES.includes(error.context?.status) };
+  }
+
+  const tokensUsed = Number(data?.tokens_used) || 0;
+  const costUsd = Number(data?.cost?.cost) || 0;
+  await supabase
+    .from('agent_batch_items')
+    .update({
+      status: 'succeeded',
+      // Chat agents answer; optimization agents return the optimized prompt
+      output: data?.output ?? data?.optimized_prompt ?? '',
+      result: data,
+      tokens_used: tokensUsed,
+      cost_usd: costUsd,
+      processing_time_ms: processingTime
+    })
+    .eq('id', item.id);
+  return { succeeded: true, tokensUsed, costUsd };
+}
+
+// Work through a batch's pending items with at most `concurrency` in flight, then finish the batch or hand it on
+async function processBatch(supabase: any, batchId: string): Promise<void> {
+  const deadline = Date.now() + WORKER_TIME_BUDGET_MS;
+  try {
+    const { data: batch } = await supabase.from('agent_batches').select('*').eq('id', batchId).maybeSingle();
+    if (!batch || batch.status === 'completed' || batch.status === 'failed') return;
+
+    // Only one worker runs a batch at a time, so items still marked running were cut off with a previous worker
+    await supabase.from('agent_batch_items').update({ status: 'pending' }).eq('batch_id', batchId).eq('status', 'running');
+    const { data: pending, error: pendingError } = await supabase
+      .from('agent_batch_items')
+      .select('id, input, variables')
+      .eq('batch_id', batchId)
+      .eq('status', 'pending')
+      .order('position', { ascending: true })
+      .limit(MAX_BATCH_ITEMS);
+    if (pendingError) throw new Error(`Failed to load batch items: ${pendingError.message}`);
+
+    if (batch.status === 'queued') {
+      await supabase.from('agent_batches').update({ status: 'running', started_at: new Date().toISOString() }).eq('id', batchId);
+    }
+
+    const totals = {
+      succeeded_items: batch.succeeded_items,
+      failed_items: batch.failed_items,
+      tokens_used: batch.tokens_used,
+      cost_usd: Number(batch.cost_usd) || 0
+    };
+    const queue = [...(pending ?? [])];
+    const agentRef = batch.agent_version ? `${batch.agent_id}@${batch.agent_version}` : batch.agent_id;
+    let stopReason: string | null = null;
+
+    const worker = async () => {
+      while (queue.length > 0 && !stopReason && Date.now() < deadline) {
+        const outcome = await runItem(supabase, agentRef, queue.shift()!);
+        if (outcome.succeeded) totals.succeeded_items++;
+        else totals.failed_items++;
+        totals.tokens_used += outcome.tokensUsed;
+        totals.cost_usd += outcome.costUsd;
+        if (outcome.fatal) stopReason = outcome.error ?? 'Agent invocation failed';
+        await supabase.from('agent_batches').update({ ...totals }).eq('id', batchId);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(batch.concurrency, queue.length) }, worker));
+
+    if (!stopReason && queue.length > 0) {
+      console.log(`Batch ${batchId}: ${queue.length} items left, continuing in a new invocation`);
+      const { error } = await supabase.functions.invoke(`agent-batch?action=continue`, { body: { batch_id: batchId } });
+      if (!error) return;
+      stopReason = `Could not continue the batch: ${error.message}`;
+    }
+    await finishBatch(supabase, { ...batch, ...totals }, stopReason);
+  } catch (error) {
+    console.error(`Batch ${batchId} failed:`, error);
+    const { data: batch } = await supabase.from('agent_batches').select('*').eq('id', batchId).maybeSingle();
+    if (batch) await finishBatch(supabase, batch, error instanceof Error ? error.message : 'Batch failed');
+  }
+}
+
+// Close the batch and write its single agent_logs entry
+async function finishBatch(supabase: any, batch: any, error: string | null): Promise<void> {
+  const status = error ? 'failed' : 'completed';
+  await supabase
+    .from('agent_batches')
+    .update({ status, error, completed_at: new Date().toISOString() })
+    .eq('id', batch.id);
+
+  const { data: agent } = await supabase.from('agents').select('name').eq('id', batch.agent_id).maybeSingle();
+  const elapsed = batch.started_at ? `${((Date.now() - new Date(batch.started_at).getTime()) / 1000).toFixed(1)}s` : 'n/a';
+  const label = batch.name ? `Batch "${batch.name}"` : 'Batch';
+  const { error: logError } = await supabase.from('agent_logs').insert({
+    user_id: batch.user_id,
+    agent_id: batch.agent_id,
+    agent_name: agent?.name ?? '',
+    agent_version: batch.agent_version,
+    level: error ? 'error' : batch.failed_items > 0 ? 'warning' : 'success',
+    message: error
+      ? `${label} stopped after ${batch.succeeded_items + batch.failed_items} of ${batch.total_items} inputs: ${error}`
+      : `${label} completed - ${batch.succeeded_items} of ${batch.total_items} inputs succeeded in ${elapsed}`,
+    tokens_used: batch.tokens_used,
+    cost_usd: batch.cost_usd,
+    metadata: {
+      batch_id: batch.id,
+      total_items: batch.total_items,
+      succeeded_items: batch.succeeded_items,
+      failed_items: batch.failed_items,
+      concurrency: batch.concurrency,
+      ...(error ? { error } : {})
+    }
+  });
+  if (logError) console.error('Error saving agent log:', logError);
+}
+
+function batchSummary(batch: any) {
+  return {
+    batch_id: batch.id,
+    name: batch.name,
+    agent_version: batch.agent_version,
+    status: batch.status,
+    concurrency: batch.concurrency,
+    total_items: batch.total_items,
+    succeeded_items: batch.succeeded_items,
+    failed_items: batch.failed_items,
+    pending_items: Math.max(0, batch.total_items - batch.succeeded_items - batch.failed_items),
+    tokens_used: batch.tokens_used,
+    cost_usd: Number(batch.cost_usd) || 0,
+    error: batch.error,
+    created_at: batch.created_at,
+    started_at: batch.started_at,
+    completed_at: batch.completed_at
+  };
+}
+
+// Most recent first
+async function listBatches(supabase: any, agentId: string, rawLimit: unknown, rawOffset: unknown) {
+  const limit = Math.max(1, pageNumber(rawLimit, 20, 100));
+  const offset = pageNumber(rawOffset, 0, Number.MAX_SAFE_INTEGER);
+
+  const { data, error, count } = await supabase
+    .from('agent_batches')
+    .select('*', { count: 'exact' })
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ agentId, batches: (data ?? []).map(batchSummary), total: count ?? 0, limit, offset }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function loadBatch(supabase: any, agentId: string, batchId: string) {
+  const { data } = await supabase
+    .from('agent_batches')
+    .select('*')
+    .eq('id', batchId)
+    .eq('agent_id', agentId)
+    .maybeSingle();
+  return data;
+}
+
+async function getBatchStatus(supabase: any, agentId: string, batchId: string) {
+  const batch = await loadBatch(supabase, agentId, batchId);
+  if (!batch) {
+    return new Response(
+      JSON.stringify({ error: 'Batch not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+  return new Response(
+    JSON.stringify({ agentId, ...batchSummary(batch) }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+function csvField(value: unknown): string {
+  const raw = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  // Spreadsheets run cells starting with these as formulas; model output is untrusted, so keep it as text
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One line or row per input, in submission order; items still pending are included with their status
+async function downloadResults(supabase: any, agentId: string, batchId: string, format: 'csv' | 'jsonl') {
+  const batch = await loadBatch(supabase, agentId, batchId);
+  if (!batch) {
+    return new Response(
+      JSON.stringify({ error: 'Batch not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data: items, error } = await supabase
+    .from('agent_batch_items')
+    .select('position, input, variables, status, output, result, error, tokens_used, cost_usd, processing_time_ms')
+    .eq('batch_id', batchId)
+    .order('position', { ascending: true })
+    .limit(MAX_BATCH_ITEMS);
+
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const rows = (items ?? []).map((item: any) => ({
+    position: item.position,
+    input: item.input,
+    variables: item.variables,
+    status: item.status,
+    output: item.output,
+    // Parsed output, for agents with a JSON Schema
+    data: item.result?.data ?? null,
+    error: item.error,
+    tokens_used: item.tokens_used,
+    cost_usd: Number(item.cost_usd) || 0,
+    processing_time_ms: item.processing_time_ms
+  }));
+
+  const columns = ['position', 'input', 'status', 'output', 'error', 'tokens_used', 'cost_usd', 'processing_time_ms'] as const;
+  const file = format === 'csv'
+    ? [columns.join(','), ...rows.map(row => columns.map(column => csvField(row[column])).join(','))].join('\r\n')
+    : rows.map(row => JSON.stringify(row)).join('\n');
+
+  return new Response(file, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="batch-${batchId}.${format}"`
+    }
+  });
+}
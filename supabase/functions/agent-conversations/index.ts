@@ -0,0 +1,187 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { apiKeyFromRequest, authenticateAgent, MISSING_API_KEY_MESSAGE } from '../_shared/agent-auth.ts';
+import { isConversationId } from '../_shared/conversations.ts';
+import { parseAgentRef } from '../_shared/agent-versions.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_MESSAGES = 1000;
+
+// Conversations agent-invoke stored for an agent, behind the same API key: ?action=list | get | delete
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const action = url.searchParams.get('action');
+    // Parameters come from the JSON body, or the query string for GET requests
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const param = (name: string) => body?.[name] ?? url.searchParams.get(name) ?? undefined;
+
+    const apiKey = apiKeyFromRequest(req, body);
+    if (!apiKey) {
+      return new Response(
+        JSON.stringify({ error: MISSING_API_KEY_MESSAGE }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Conversations belong to the agent, not a version, so "AGENT_ID@3" finds the same ones as "AGENT_ID"
+    const agentId = parseAgentRef(param('agent_id'))?.agentId;
+    if (!agentId) {
+      return new Response(
+        JSON.stringify({ error: 'agent_id is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const auth = await authenticateAgent(supabase, apiKey, agentId);
+    if (!auth.ok) {
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      case 'list':
+        return await listConversations(supabase, auth.agent.id, param('limit'), param('offset'));
+      case 'get':
+      case 'delete': {
+        const conversationId = param('conversation_id');
+        if (!isConversationId(conversationId)) {
+          return new Response(
+            JSON.stringify({ error: 'conversation_id must be a conversation UUID' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return action === 'get'
+          ? await getConversation(supabase, auth.agent.id, conversationId)
+          : await deleteConversation(supabase, auth.agent.id, conversationId);
+      }
+      default:
+        return new Response(
+          JSON.stringify({ error: 'Invalid action. Use list, get or delete' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+  } catch (error) {
+    console.error('Error in agent-conversations function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+function pageNumber(raw: unknown, fallback: number, max: number): number {
+  const value = Math.floor(Number(raw));
+  return Number.isFinite(value) && value >= 0 ? Math.min(value, max) : fallback;
+}
+
+// Most recently active first
+async function listConversations(supabase: any, agentId: string, rawLimit: unknown, rawOffset: unknown) {
+  const limit = Math.max(1, pageNumber(rawLimit, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE));
+  const offset = pageNumber(rawOffset, 0, Number.MAX_SAFE_INTEGER);
+
+  const { data, error, count } = await supabase
+    .from('agent_conversations')
+    .select('id, title, message_count, created_at, updated_at', { count: 'exact' })
+    .eq('agent_id', agentId)
+    .order('updated_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ agentId, conversations: data ?? [], total: count ?? 0, limit, offset }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function getConversation(supabase: any, agentId: string, conversationId: string) {
+  const { data: conversation, error } = await supabase
+    .from('agent_conversations')
+    .select('id, title, summary, summarized_count, message_count, created_at, updated_at')
+    .eq('id', conversationId)
+    .eq('agent_id', agentId)
+    .maybeSingle();
+
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+  if (!conversation) {
+    return new Response(
+      JSON.stringify({ error: 'Conversation not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data: messages, error: messagesError } = await supabase
+    .from('agent_conversation_messages')
+    .select('role, content, metadata, created_at')
+    .eq('conversation_id', conversationId)
+    .order('position', { ascending: true })
+    .limit(MAX_MESSAGES);
+
+  if (messagesError) {
+    return new Response(
+      JSON.stringify({ error: messagesError.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ agentId, conversation, messages: messages ?? [] }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Messages go with the conversation (ON DELETE CASCADE)
+async function deleteConversation(supabase: any, agentId: string, conversationId: string) {
+  const { data, error } = await supabase
+    .from('agent_conversations')
+    .delete()
+    .eq('id', conversationId)
+    .eq('agent_id', agentId)
+    .select('id');
+
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+  if (!data || data.length === 0) {
+    return new Response(
+      JSON.stringify({ error: 'Conversation not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ agentId, conversation_id: conversationId, deleted: true }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
@@ -1,198 +1,197 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { budgetExceededMessage, budgetExceededResponse, budgetSpendLimit, loadBudgetStatus, recordUsage } from '../_shared/budget.ts';
+import { createUsageLedger, SpendLimitError, type CostBreakdown } from '../_shared/usage.ts';
+import { resolveApiModel, resolveApiTargets, validateModel } from '../_shared/models.ts';
+import { chatStreamWithFallback, chatWithFallback, loadCustomProvider, loadUserProviderConfigs, parseFallbackChain, ProviderError, type ChatMessage, type ChatResponse, type FallbackTarget, type ProviderConfigs, type ResponseFormat, type ToolDefinition } from '../_shared/providers/index.ts';
+import { appendSchemaInstruction, normalizeJsonSchema, schemaRepairMessage, validateJsonOutput, type SchemaValidation } from '../_shared/json-schema.ts';
+import { extractPlaceholders, fillPlaceholders, normalizeVariables } from '../_shared/placeholders.ts';
+import { apiKeyFromRequest, authenticateAgent, loadAgentForService, MISSING_API_KEY_MESSAGE } from '../_shared/agent-auth.ts';
+import { normalizeMaxToolSteps, normalizeTools, runToolCall, type ToolStep } from '../_shared/tools.ts';
+import { INVALID_AGENT_REF_MESSAGE, parseAgentRef, resolveAgentVersion } from '../_shared/agent-versions.ts';
+import { conversationTitle, DEFAULT_CONTEXT_WINDOW_TOKENS, estimateTokens, fitContextWindow, isConversationId, loadConversation, normalizeContextStrategy, normalizeTurns, saveConversationTurns, summaryContext, summaryRequest, type ConversationTurn } from '../_shared/conversations.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
-const googleApiKey = Deno.env.get('GOOGLE_API_KEY');
-const groqApiKey = Deno.env.get('GROQ_API_KEY');
-const mistralApiKey = Deno.env.get('MISTRAL_API_KEY');
-
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
-// Call AI provider
+const SUMMARY_MAX_TOKENS = 512;
+
+// Call AI provider with the agent's conversation (system prompt first), falling back along the agent's chain
 async function callAIProvider(
-  provider: string,
-  model: string,
-  systemPrompt: string,
-  userInput: string,
+  targets: FallbackTarget[],
+  messages: ChatMessage[],
   maxTokens: number,
-  temperature: number
-): Promise<string> {
-  console.log(`Calling ${provider} with model ${model}`);
-  
-  // Validate API keys before attempting to call
-  const apiKeyMap: Record<string, string | undefined> = {
-    'openai': openAIApiKey,
-    'anthropic': anthropicApiKey,
-    'google': googleApiKey,
-    'groq': groqApiKey,
-    'mistral': mistralApiKey
-  };
+  temperature: number,
+  providerConfigs?: ProviderConfigs,
+  responseFormat?: ResponseFormat,
+  tools?: ToolDefinition[]
+): Promise<ChatResponse> {
+  console.log(`Calling ${targets.map(t => `${t.provider}/${t.model}`).join(' -> ')}`);
 
-  const requiredApiKey = apiKeyMap[provider];
-  if (!requiredApiKey) {
-    throw new Error(`API key for ${provider} is not configured. Please add the ${provider.toUpperCase()}_API_KEY secret in Supabase.`);
-  }
-  
   try {
-    switch (provider) {
-      case 'openai': {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openAIApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: model,
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userInput }
-            ],
-            max_tokens: maxTokens,
-            temperature: temperature,
-          }),
-        });
-
-        if (!response.ok) {
-          const error = await response.text();
-          console.error('OpenAI API error:', error);
-          throw new Error(`OpenAI API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        return data.choices[0].message.content;
-      }
-
-      case 'anthropic': {
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'x-api-key': anthropicApiKey!,
-            'anthropic-version': '2023-06-01',
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: model,
-            max_tokens: maxTokens,
-            temperature: temperature,
-            system: systemPrompt,
-            messages: [
-              { role: 'user', content: userInput }
-            ],
-          }),
-        });
-
-        if (!response.ok) {
-          const error = await response.text();
-          console.error('Anthropic API error:', error);
-          throw new Error(`Anthropic API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        return data.content[0].text;
-      }
-
-      case 'google': {
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${googleApiKey}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              contents: [{
-                parts: [{
-                  text: `${systemPrompt}\n\nUser: ${userInput}`
-                }]
-              }],
-              generationConfig: {
-                maxOutputTokens: maxTokens,
-                temperature: temperature,
-              },
-            }),
-          }
-        );
-
-        if (!response.ok) {
-          const error = await response.text();
-          console.error('Google API error:', error);
-          throw new Error(`Google API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        return data.candidates[0].content.parts[0].text;
-      }
-
-      case 'groq': {
-        const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${groqApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: model,
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userInput }
-            ],
-            max_tokens: maxTokens,
-            temperature: temperature,
-          }),
-        });
-
-        if (!response.ok) {
-          const error = await response.text();
-          console.error('Groq API error:', error);
-          throw new Error(`Groq API error: ${response.status}`);
-        }
+    return await chatWithFallback(targets, {
+      messages,
+      maxTokens,
+      temperature,
+      responseFormat,
+      tools: tools?.length ? tools : undefined
+    }, providerConfigs);
+  } catch (error) {
+    console.error(`Error calling ${targets[0].provider}:`, error);
+    throw error;
+  }
+}
 
-        const data = await response.json();
-        return data.choices[0].message.content;
-      }
+// Everything about a finished chat completion that goes into its log entry and the response
+interface ChatOutcome {
+  agent: any;
+  // Published version that served the request; null for an agent that was never published
+  agentVersion: number | null;
+  userId: string;
+  input: string;
+  completion: ChatResponse;
+  cost: CostBreakdown;
+  processingTime: number;
+  schemaValidation: SchemaValidation | null;
+  schemaRetried: boolean;
+  // Names of the variables the caller bound, when it sent any
+  variableNames: string[] | null;
+  // Set for multi-turn requests: the stored conversation and how much of its history reached the model
+  conversation: ConversationContext | null;
+  toolSteps: ToolStep[];
+  // The model still wanted tools when the agent's step limit ran out
+  toolLimitReached: boolean;
+  streamed: boolean;
+}
 
-      case 'mistral': {
-        const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${mistralApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: model,
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userInput }
-            ],
-            max_tokens: maxTokens,
-            temperature: temperature,
-          }),
-        });
+interface ConversationContext {
+  id: string;
+  turnsSent: number;
+  turnsDropped: number;
+  // True when older turns were folded into the conversation summary on this request
+  summarized: boolean;
+}
 
-        if (!response.ok) {
-          const error = await response.text();
-          console.error('Mistral API error:', error);
-          throw new Error(`Mistral API error: ${response.status}`);
-        }
+function chatLogEntry(outcome: ChatOutcome) {
+  const { agent, completion, cost, processingTime, schemaValidation, schemaRetried, toolSteps, toolLimitReached } = outcome;
+  const output = completion.text;
+  const fallbackFrom = completion.fallbackFrom ?? [];
+  const schemaInvalid = schemaValidation !== null && !schemaValidation.valid;
+  const elapsed = `${(processingTime / 1000).toFixed(1)}s`;
+
+  return {
+    user_id: outcome.userId,
+    agent_id: agent.id,
+    agent_name: agent.name,
+    level: fallbackFrom.length > 0 || schemaInvalid || toolLimitReached ? 'warning' : 'success',
+    message: toolLimitReached
+      ? `Agent stopped at its limit of ${toolSteps[toolSteps.length - 1]?.step ?? 0} tool steps - Response generated in ${elapsed}`
+      : schemaInvalid
+        ? `Agent response did not match its JSON Schema${schemaRetried ? ' after a retry' : ''} - Response generated in ${elapsed}`
+        : fallbackFrom.length > 0
+          ? `Agent invoked via fallback ${completion.provider} after ${fallbackFrom.map(f => f.provider).join(', ')} failed - Response generated in ${elapsed}`
+          : `Agent invoked successfully - Response ${outcome.streamed ? 'streamed' : 'generated'} in ${elapsed}`,
+    original_prompt: outcome.input,
+    tokens_used: cost.totalTokens,
+    cost_usd: cost.cost,
+    metadata: {
+      tokens_used: cost.totalTokens,
+      prompt_tokens: cost.promptTokens,
+      completion_tokens: cost.completionTokens,
+      stop_reason: completion.stopReason,
+      cost,
+      model: completion.model,
+      provider: completion.provider,
+      requested_model: agent.model,
+      requested_provider: agent.provider,
+      fallback_from: fallbackFrom,
+      ...(outcome.streamed ? { streamed: true } : {}),
+      ...(outcome.variableNames ? { variables: outcome.variableNames } : {}),
+      ...(outcome.conversation ? {
+        conversation_id: outcome.conversation.id,
+        context_turns: outcome.conversation.turnsSent,
+        context_dropped_turns: outcome.conversation.turnsDropped,
+        context_summarized: outcome.conversation.summarized
+      } : {}),
+      ...(schemaValidation ? { schema_valid: schemaValidation.valid, schema_errors: schemaValidation.errors, schema_retried: schemaRetried } : {}),
+      ...(toolSteps.length > 0 ? { tool_calls: toolSteps.length, tools_used: [...new Set(toolSteps.map(s => s.tool))], tool_limit_reached: toolLimitReached } : {}),
+      processing_time_ms: processingTime,
+      output_preview: output.substring(0, 200) + (output.length > 200 ? '...' : '')
+    }
+  };
+}
 
-        const data = await response.json();
-        return data.choices[0].message.content;
-      }
+// Chat-mode response body; streaming clients receive the same fields in the final "done" event
+function chatResult(outcome: ChatOutcome) {
+  const { completion, cost, schemaValidation } = outcome;
+  return {
+    agentId: outcome.agent.id,
+    agent_version: outcome.agentVersion,
+    output: completion.text,
+    tokens_used: cost.totalTokens,
+    cost,
+    stop_reason: completion.stopReason,
+    model: completion.model,
+    provider: completion.provider,
+    fallback_from: completion.fallbackFrom ?? [],
+    ...(outcome.conversation ? { conversation_id: outcome.conversation.id } : {}),
+    // Every tool call the model made on the way to this answer, in order
+    ...(outcome.toolSteps.length > 0 ? {
+      tool_calls: outcome.toolSteps.map(step => ({
+        step: step.step,
+        tool: step.tool,
+        arguments: step.arguments,
+        status: step.status,
+        duration_ms: step.durationMs
+      })),
+      tool_limit_reached: outcome.toolLimitReached
+    } : {}),
+    // The model was still calling tools when the step limit ran out, so there is no answer to return
+    ...(outcome.toolLimitReached && !completion.text.trim() ? {
+      error: `Stopped at the agent's limit of ${outcome.toolSteps[outcome.toolSteps.length - 1]?.step ?? 0} tool steps before a final answer`
+    } : {}),
+    // Parsed output and its validation result, for agents with a JSON Schema
+    ...(schemaValidation ? {
+      data: schemaValidation.data ?? null,
+      schema_validation: { valid: schemaValidation.valid, errors: schemaValidation.errors, retried: outcome.schemaRetried }
+    } : {}),
+    processing_time_ms: outcome.processingTime,
+    timestamp: new Date().toISOString()
+  };
+}
 
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
+// One agent_logs row per tool call, so each step of a tool-using run can be inspected on its own
+function toolStepLogEntry(agent: any, userId: string, input: string, step: ToolStep) {
+  return {
+    user_id: userId,
+    agent_id: agent.id,
+    agent_name: agent.name,
+    level: step.status === 'ok' ? 'info' : 'warning',
+    message: step.status === 'ok'
+      ? `Tool ${step.tool} called (step ${step.step}) - answered in ${step.durationMs}ms`
+      : `Tool ${step.tool} failed (step ${step.step}): ${step.result.replace(/^Error: /, '')}`.substring(0, 300),
+    original_prompt: input,
+    metadata: {
+      tool: step.tool,
+      tool_call_id: step.callId,
+      step: step.step,
+      arguments: step.arguments,
+      status: step.status,
+      http_status: step.httpStatus ?? null,
+      duration_ms: step.durationMs,
+      result_preview: step.result.substring(0, 200) + (step.result.length > 200 ? '...' : '')
     }
-  } catch (error) {
-    console.error(`Error calling ${provider}:`, error);
-    throw error;
-  }
+  };
+}
+
+function formatSSE(event: string, data: Record<string, unknown>): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
 }
 
 serve(async (req) => {
@@ -203,28 +202,57 @@ serve(async (req) => {
   try {
     // Get request body
     const body = await req.json();
-    const { agent_id, input, apiKey } = body;
+    const {
+      agent_id,
+      input: rawInput,
+      variables: rawVariables,
+      stream = false,
+      conversation_id: conversationId,
+      messages: rawMessages
+    } = body;
     
+    // agent-batch runs each item through here with the service role key; the batch keeps its own record of every
+    // item, so those calls write nothing to agent_logs
+    const serviceCall = !!supabaseServiceKey && req.headers.get('Authorization') === `Bearer ${supabaseServiceKey}`;
+
     // Extract API key from Authorization header OR request body
-    const authHeader = req.headers.get('Authorization');
-    let finalApiKey: string;
-    
-    if (apiKey) {
-      // Support apiKey in request body (for n8n and other clients)
-      finalApiKey = apiKey;
-    } else if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Support Bearer token in Authorization header
-      finalApiKey = authHeader.replace('Bearer ', '');
-    } else {
+    const finalApiKey = serviceCall ? null : apiKeyFromRequest(req, body);
+    if (!serviceCall && !finalApiKey) {
       return new Response(
-        JSON.stringify({ error: 'Missing API key. Provide either "apiKey" in request body or "Authorization: Bearer YOUR_KEY" header' }),
+        JSON.stringify({ error: MISSING_API_KEY_MESSAGE }),
         { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-    
+
+    // Multi-turn: conversation_id continues a stored conversation, messages starts a new one from the given history
+    const conversationRequested = conversationId !== undefined || rawMessages !== undefined;
+    if (conversationId !== undefined && rawMessages !== undefined) {
+      return new Response(
+        JSON.stringify({ error: 'Send either conversation_id or messages, not both' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (conversationId !== undefined && !isConversationId(conversationId)) {
+      return new Response(
+        JSON.stringify({ error: 'conversation_id must be a conversation UUID' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const requestTurns = rawMessages !== undefined ? normalizeTurns(rawMessages) : [];
+    if (!requestTurns) {
+      return new Response(
+        JSON.stringify({ error: 'messages must be an array of up to 100 { "role": "user" | "assistant", "content": string } objects' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    // Without input, the trailing user turn in messages is the one to answer
+    const input = rawInput === undefined && requestTurns[requestTurns.length - 1]?.role === 'user'
+      ? requestTurns.pop()!.content
+      : rawInput;
+
     if (!agent_id || !input) {
       return new Response(
-        JSON.stringify({ error: 'agent_id and input are required' }),
+        JSON.stringify({ error: 'agent_id and input (or messages ending with a user turn) are required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -236,54 +264,109 @@ serve(async (req) => {
       );
     }
 
-    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
-
-    // Validate API key and get associated agent
-    const { data: keyData, error: keyError } = await supabase
-      .from('api_keys')
-      .select('user_id, agent_id')
-      .eq('key', finalApiKey)
-      .single();
-
-    if (keyError || !keyData) {
-      console.error('Invalid API key:', keyError);
+    const hasVariables = rawVariables !== undefined && rawVariables !== null;
+    if (hasVariables && (typeof rawVariables !== 'object' || Array.isArray(rawVariables))) {
       return new Response(
-        JSON.stringify({ error: 'Invalid API key' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'variables must be an object mapping placeholder names to values' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+    const variables = normalizeVariables(rawVariables);
 
-    // Verify the agent_id matches the API key's agent
-    if (keyData.agent_id !== agent_id) {
+    // agent_id may pin a published version: "AGENT_ID@3"; "AGENT_ID" and "AGENT_ID@latest" get the current one
+    const agentRef = parseAgentRef(agent_id);
+    if (!agentRef) {
       return new Response(
-        JSON.stringify({ error: 'Agent ID does not match API key' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: INVALID_AGENT_REF_MESSAGE }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Fetch agent configuration
-    const { data: agent, error: agentError } = await supabase
-      .from('agents')
-      .select('*')
-      .eq('id', agent_id)
-      .eq('user_id', keyData.user_id)
-      .single();
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+    // Validate API key and get associated agent
+    const auth = serviceCall
+      ? await loadAgentForService(supabase, agentRef.agentId)
+      : await authenticateAgent(supabase, finalApiKey!, agentRef.agentId);
+    if (!auth.ok) {
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const { userId } = auth;
 
-    if (agentError || !agent) {
-      console.error('Agent not found:', agentError);
+    const resolved = await resolveAgentVersion(supabase, auth.agent, agentRef.version);
+    if (!resolved) {
       return new Response(
-        JSON.stringify({ error: 'Agent not found' }),
+        JSON.stringify({ error: `Version ${agentRef.version} of this agent does not exist`, code: 'version_not_found' }),
         { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+    const { agent, version: agentVersion } = resolved;
+
+    // Every log row records the version that served it
+    const saveLog = (logData: Record<string, unknown>): Promise<void> => serviceCall
+      ? Promise.resolve()
+      : supabase.from('agent_logs').insert({ ...logData, agent_version: agentVersion })
+        .then(({ error }) => {
+          if (error) console.error('Error saving agent log:', error);
+        });
 
     console.log('Invoking agent:', {
-      agent_id,
+      agent_id: agent.id,
+      version: agentVersion ?? 'draft',
       provider: agent.provider,
       model: agent.model,
-      mode: agent.mode
+      mode: agent.mode,
+      ...(conversationRequested ? { conversation_id: conversationId ?? 'new' } : {})
     });
 
+    if (conversationRequested && agent.mode !== 'chat') {
+      return new Response(
+        JSON.stringify({ error: 'Conversations are only available for chat agents', code: 'unsupported_mode' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Chat agents with tools run a call-tool-and-ask-again loop, which needs whole responses rather than a stream
+    const tools = agent.mode === 'chat' ? normalizeTools(agent.tools) : [];
+    if (tools.length > 0 && stream === true) {
+      return new Response(
+        JSON.stringify({ error: 'Streaming is not available for agents with tools', code: 'unsupported_stream' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Agents saved before the model catalog may point at models we no longer serve
+    const customModels = agent.provider === 'custom'
+      ? (await loadCustomProvider(supabase, userId))?.models ?? []
+      : [];
+    const modelError = validateModel(agent.provider, agent.model, customModels);
+    if (modelError) {
+      return new Response(
+        JSON.stringify({ error: `${modelError}. Update the agent to use a supported model.`, code: 'unknown_model' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Refuse before calling a provider once the owner's daily or monthly cap has been reached
+    const budget = await loadBudgetStatus(supabase, userId);
+    if (budget.exceeded) {
+      EdgeRuntime.waitUntil(
+        saveLog({
+          user_id: userId,
+          agent_id: agent.id,
+          agent_name: agent.name,
+          level: 'warning',
+          message: `Agent invocation refused: ${budgetExceededMessage(budget)}`,
+          original_prompt: input,
+          metadata: { budget: budget.exceeded, unit: budget.unit }
+        })
+      );
+      return budgetExceededResponse(budget, corsHeaders);
+    }
+
     const startTime = Date.now();
 
     // For optimization modes (speed/deep), call the prompt optimizer
@@ -295,33 +378,46 @@ serve(async (req) => {
         body: {
           originalPrompt: input,
           taskDescription: agent.user_prompt || '',
-          userId: keyData.user_id,
+          userId,
           aiProvider: agent.provider,
           modelName: agent.model,
           outputType: agent.output_type || 'text',
           variants: agent.variants || 3,
           maxTokens: agent.max_tokens || 2048,
           temperature: agent.temperature || 0.7,
-          mode: agent.mode
+          mode: agent.mode,
+          fallbackChain: agent.fallback_chain || [],
+          jsonSchema: agent.json_schema ?? null,
+          variables
         }
       });
 
       if (optimizerError) {
         console.error('Optimizer error:', optimizerError);
+        // Pass budget refusals through unchanged so API clients see the 402
+        if (optimizerError.context?.status === 402) {
+          return new Response(await optimizerError.context.text(), {
+            status: 402,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
         throw new Error(`Optimizer error: ${optimizerError.message}`);
       }
 
       const processingTime = Date.now() - startTime;
+      const cost = optimizerData.cost ?? null;
 
       // Log the optimization result
       const logData = {
-        user_id: keyData.user_id,
+        user_id: userId,
         agent_id: agent.id,
         agent_name: agent.name,
         level: 'success',
         message: `Agent optimized prompt - ${agent.mode} mode completed in ${processingTime}ms`,
         original_prompt: input,
         optimized_prompt: optimizerData.bestOptimizedPrompt,
+        tokens_used: cost?.totalTokens ?? 0,
+        cost_usd: cost?.cost ?? 0,
         metadata: {
           score: optimizerData.bestScore,
           strategy: optimizerData.summary.bestStrategy,
@@ -329,28 +425,27 @@ serve(async (req) => {
           improvement_score: optimizerData.summary.improvementScore,
           model: agent.model,
           provider: agent.provider,
-          processing_time_ms: processingTime
+          processing_time_ms: processingTime,
+          cost
         }
       };
 
       // Save log in background
-      EdgeRuntime.waitUntil(
-        supabase.from('agent_logs').insert(logData)
-          .then(({ error }) => {
-            if (error) console.error('Error saving agent log:', error);
-          })
-      );
+      EdgeRuntime.waitUntil(saveLog(logData));
 
       // Return the optimized prompt
       return new Response(
         JSON.stringify({
-          agentId: agent_id,
+          agentId: agent.id,
+          agent_version: agentVersion,
           optimized_prompt: optimizerData.bestOptimizedPrompt,
           original_prompt: input,
           score: optimizerData.bestScore,
           strategy: optimizerData.summary.bestStrategy,
           variants_count: optimizerData.summary.totalVariants,
           improvement_score: optimizerData.summary.improvementScore,
+          tokens_used: cost?.totalTokens ?? 0,
+          cost,
           model: agent.model,
           provider: agent.provider,
           processing_time_ms: processingTime,
@@ -363,56 +458,307 @@ serve(async (req) => {
       );
     }
 
-    // For chat mode, use custom system prompt and call AI provider
-    const systemPrompt = agent.user_prompt || 'You are a helpful AI assistant.';
+    // For chat mode, use custom system prompt and call AI provider.
+    // Template prompts are filled from the request's variables; once a caller sends variables, every placeholder needs one.
+    const systemPrompt = fillPlaceholders(agent.user_prompt || 'You are a helpful AI assistant.', variables);
+    const unboundPlaceholders = hasVariables ? extractPlaceholders(systemPrompt) : [];
+    if (unboundPlaceholders.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: `Missing values for placeholders: ${unboundPlaceholders.join(', ')}`,
+          code: 'missing_variables',
+          missing: unboundPlaceholders
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const providerConfigs = await loadUserProviderConfigs(supabase, userId);
     
-    const output = await callAIProvider(
-      agent.provider,
-      agent.model,
-      systemPrompt,
-      input,
-      agent.max_tokens || 2048,
-      agent.temperature || 0.7
-    );
+    const fallbackChain = parseFallbackChain(agent.fallback_chain);
+    const targets = [{ provider: agent.provider, model: resolveApiModel(agent.provider, agent.model) }, ...resolveApiTargets(fallbackChain)];
+    // Structured agents: ask for JSON, validate the reply and give the model one chance to fix it
+    const jsonSchema = normalizeJsonSchema(agent.json_schema);
+    const responseFormat: ResponseFormat | undefined = jsonSchema ? { type: 'json', schema: jsonSchema } : undefined;
+    const systemContent = jsonSchema ? appendSchemaInstruction(systemPrompt, jsonSchema) : systemPrompt;
+    const maxTokens = agent.max_tokens || 2048;
+    const temperature = agent.temperature || 0.7;
+    // Capped at what is left of the budget, so summaries, tool rounds and the schema retry cannot keep calling
+    // providers past it. A request stopped this way still bills what it spent.
+    const usage = createUsageLedger(undefined, budgetSpendLimit(budget));
+    const budgetStopped = (error: unknown): Response => {
+      if (!(error instanceof SpendLimitError)) throw error;
+      EdgeRuntime.waitUntil(recordUsage(supabase, userId, 'agent', usage.summary()));
+      EdgeRuntime.waitUntil(saveLog({
+        user_id: userId,
+        agent_id: agent.id,
+        agent_name: agent.name,
+        level: 'error',
+        message: `Agent stopped part-way, budget used up: ${error.message}`,
+        original_prompt: input,
+        tokens_used: usage.summary().totalTokens,
+        cost_usd: usage.summary().cost,
+        metadata: { budget: budgetSpendLimit(budget), unit: budget.unit }
+      }));
+      return new Response(
+        JSON.stringify({ error: `Budget used up during this request (${error.message}); stopped before the next model call`, code: 'budget_exceeded' }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    };
 
-    const processingTime = Date.now() - startTime;
+    const conversation = isConversationId(conversationId) ? await loadConversation(supabase, conversationId, agent.id) : null;
+    if (conversationId !== undefined && !conversation) {
+      return new Response(
+        JSON.stringify({ error: 'Conversation not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    // Log the chat completion
-    const logData = {
-      user_id: keyData.user_id,
-      agent_id: agent.id,
-      agent_name: agent.name,
-      level: 'success',
-      message: `Agent invoked successfully - Response generated in ${(processingTime / 1000).toFixed(1)}s`,
-      original_prompt: input,
-      metadata: {
-        tokens_used: output.length,
-        model: agent.model,
-        provider: agent.provider,
-        processing_time_ms: processingTime,
-        output_preview: output.substring(0, 200) + (output.length > 200 ? '...' : '')
+    // History the model may see: stored turns not yet covered by the summary, or the turns sent with this request.
+    // The agent's context window bounds system prompt, summary, history and input together; the oldest turns go first.
+    const historyStart = conversation ? Math.max(conversation.summarizedCount, conversation.recentStart) : 0;
+    const history = conversation ? conversation.recent.slice(historyStart - conversation.recentStart) : requestTurns;
+    let summary = conversation?.summary ?? null;
+    let summarizedCount = conversation?.summarizedCount ?? 0;
+    let summarized = false;
+    const contextWindow = agent.context_window_tokens || DEFAULT_CONTEXT_WINDOW_TOKENS;
+    const historyBudget = () => contextWindow - estimateTokens(systemContent) - estimateTokens(input)
+      - (summary ? estimateTokens(summaryContext(summary)) : 0);
+
+    let context = fitContextWindow(history, historyBudget());
+    if (context.dropped.length > 0 && normalizeContextStrategy(agent.context_strategy) === 'summarize') {
+      try {
+        usage.assertWithinLimit();
+        const summaryCompletion = await callAIProvider(targets, [
+          { role: 'user', content: summaryRequest(summary, context.dropped) }
+        ], SUMMARY_MAX_TOKENS, 0.3, providerConfigs);
+        usage.record(summaryCompletion.model, summaryCompletion.usage, summaryCompletion.provider);
+        if (summaryCompletion.text.trim()) {
+          summary = summaryCompletion.text.trim();
+          summarizedCount = historyStart + context.dropped.length;
+          summarized = true;
+          // The longer summary takes room too; turns it squeezes out are summarized on a later request
+          context = fitContextWindow(context.kept, historyBudget());
+        }
+      } catch (error) {
+        console.error('Conversation summary failed, truncating instead:', error);
       }
+    }
+    const droppedTurns = history.length - context.kept.length;
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: summary ? `${systemContent}\n\n${summaryContext(summary)}` : systemContent },
+      ...context.kept.map(turn => ({ role: turn.role, content: turn.content })),
+      { role: 'user', content: input }
+    ];
+
+    // Store the new turn and its reply; a request that starts a conversation stores the history it sent as well
+    const saveConversation = async (completion: ChatResponse): Promise<ConversationContext | null> => {
+      if (!conversationRequested) return null;
+      const turns: ConversationTurn[] = [
+        ...(conversation ? [] : requestTurns),
+        { role: 'user', content: input },
+        {
+          role: 'assistant',
+          content: completion.text,
+          metadata: { model: completion.model, provider: completion.provider, stop_reason: completion.stopReason }
+        }
+      ];
+      const id = await saveConversationTurns(supabase, {
+        conversationId: conversation?.id ?? null,
+        agentId: agent.id,
+        userId,
+        title: conversationTitle(requestTurns.find(turn => turn.role === 'user')?.content ?? input),
+        startPosition: conversation?.messageCount ?? 0,
+        turns,
+        summary,
+        summarizedCount
+      });
+      return { id, turnsSent: context.kept.length, turnsDropped: droppedTurns, summarized };
     };
 
+    // Streaming: provider tokens are relayed as SSE "delta" events. Opening the stream is awaited here so a request
+    // every provider rejects still fails with a normal error response; after that, problems arrive as an "error" event.
+    if (stream === true) {
+      try {
+        usage.assertWithinLimit();
+      } catch (error) {
+        return budgetStopped(error);
+      }
+      console.log(`Streaming ${targets.map(t => `${t.provider}/${t.model}`).join(' -> ')}`);
+      const events = chatStreamWithFallback(targets, { messages, maxTokens, temperature, responseFormat }, providerConfigs);
+      const first = await events.next();
+
+      const encoder = new TextEncoder();
+      let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+      let clientGone = false;
+      const body = new ReadableStream<Uint8Array>({
+        start(c) {
+          controller = c;
+        },
+        cancel() {
+          clientGone = true;
+        }
+      });
+      const send = (event: string, data: Record<string, unknown>) => {
+        if (clientGone || !controller) return;
+        try {
+          controller.enqueue(encoder.encode(formatSSE(event, data)));
+        } catch {
+          clientGone = true;
+        }
+      };
+
+      // Keeps reading after a client disconnects: the provider bills the whole completion, so usage and the log are finalised either way
+      const relay = async () => {
+        let completion: ChatResponse | null = null;
+        let partialText = '';
+        try {
+          for (let result = first; !result.done; result = await events.next()) {
+            const event = result.value;
+            if (event.type === 'start') {
+              send('start', { agentId: agent.id, agent_version: agentVersion, provider: event.provider, model: event.model, fallback_from: event.fallbackFrom });
+            } else if (event.type === 'delta') {
+              partialText += event.text;
+              send('delta', { text: event.text });
+            } else {
+              completion = event.response;
+            }
+          }
+          if (!completion) throw new Error('Stream ended without a completion');
+
+          usage.record(completion.model, completion.usage, completion.provider);
+          const cost = usage.summary();
+          await recordUsage(supabase, userId, 'agent', cost);
+          // No repair retry here: the invalid output has already been streamed
+          const outcome: ChatOutcome = {
+            agent,
+            agentVersion,
+            userId,
+            input,
+            completion,
+            cost,
+            processingTime: Date.now() - startTime,
+            schemaValidation: jsonSchema ? validateJsonOutput(completion.text, jsonSchema) : null,
+            schemaRetried: false,
+            variableNames: hasVariables ? Object.keys(variables) : null,
+            conversation: await saveConversation(completion),
+            toolSteps: [],
+            toolLimitReached: false,
+            streamed: true
+          };
+          await saveLog(chatLogEntry(outcome));
+          send('done', chatResult(outcome));
+        } catch (error) {
+          console.error('Agent stream error:', error);
+          const message = error instanceof Error ? error.message : 'Stream failed';
+          await saveLog({
+            user_id: userId,
+            agent_id: agent.id,
+            agent_name: agent.name,
+            level: 'error',
+            message: `Agent stream failed: ${message}`,
+            original_prompt: input,
+            metadata: {
+              streamed: true,
+              error: String(error),
+              output_preview: partialText.substring(0, 200) + (partialText.length > 200 ? '...' : '')
+            }
+          });
+          send('error', { error: message });
+        } finally {
+          if (!clientGone && controller) controller.close();
+        }
+      };
+      EdgeRuntime.waitUntil(relay());
+
+      return new Response(body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive'
+        }
+      });
+    }
+
+    const maxToolSteps = normalizeMaxToolSteps(agent.max_tool_steps);
+    const toolSteps: ToolStep[] = [];
+    let toolLimitReached = false;
+    let completion: ChatResponse;
+    let schemaValidation: SchemaValidation | null = null;
+    let schemaRetried = false;
+    try {
+      // Tool loop: run every call the model asked for, hand back the results and ask again. The step limit covers the
+      // whole request, schema retry included. The calls and results stay in this request; only the final answer
+      // reaches the client and the conversation.
+      let toolRounds = 0;
+      const completeWithTools = async (conversation: ChatMessage[]): Promise<ChatResponse> => {
+        usage.assertWithinLimit();
+        let reply = await callAIProvider(targets, conversation, maxTokens, temperature, providerConfigs, responseFormat, tools);
+        usage.record(reply.model, reply.usage, reply.provider);
+        while (reply.toolCalls?.length) {
+          if (toolRounds >= maxToolSteps) {
+            console.warn(`Agent ${agent.id} reached its limit of ${maxToolSteps} tool steps`);
+            toolLimitReached = true;
+            break;
+          }
+          const step = ++toolRounds;
+          const results = await Promise.all(reply.toolCalls.map(call => runToolCall(tools, call, step, agent.id)));
+          toolSteps.push(...results);
+          EdgeRuntime.waitUntil(Promise.all(results.map(result => saveLog(toolStepLogEntry(agent, userId, input, result)))));
+          conversation.push(
+            { role: 'assistant', content: reply.text, toolCalls: reply.toolCalls },
+            ...results.map((result): ChatMessage => ({ role: 'tool', content: result.result, toolCallId: result.callId, toolName: result.tool }))
+          );
+          usage.assertWithinLimit();
+          reply = await callAIProvider(targets, conversation, maxTokens, temperature, providerConfigs, responseFormat, tools);
+          usage.record(reply.model, reply.usage, reply.provider);
+        }
+        return reply;
+      };
+
+      completion = await completeWithTools(messages);
+      schemaValidation = jsonSchema ? validateJsonOutput(completion.text, jsonSchema) : null;
+      // A model cut off mid-tool-use has no answer to repair
+      if (jsonSchema && schemaValidation && !schemaValidation.valid && !toolLimitReached) {
+        console.warn(`Agent ${agent.id} returned invalid JSON (${schemaValidation.errors.join('; ')}); retrying once`);
+        schemaRetried = true;
+        completion = await completeWithTools([
+          ...messages,
+          { role: 'assistant', content: completion.text },
+          { role: 'user', content: schemaRepairMessage(schemaValidation) }
+        ]);
+        schemaValidation = validateJsonOutput(completion.text, jsonSchema);
+      }
+    } catch (error) {
+      return budgetStopped(error);
+    }
+
+    const cost = usage.summary();
+    // Optimization modes are billed by prompt-optimizer itself
+    EdgeRuntime.waitUntil(recordUsage(supabase, userId, 'agent', cost));
+    const outcome: ChatOutcome = {
+      agent,
+      agentVersion,
+      userId,
+      input,
+      completion,
+      cost,
+      processingTime: Date.now() - startTime,
+      schemaValidation,
+      schemaRetried,
+      variableNames: hasVariables ? Object.keys(variables) : null,
+      conversation: await saveConversation(completion),
+      toolSteps,
+      toolLimitReached,
+      streamed: false
+    };
     // Save log in background
-    EdgeRuntime.waitUntil(
-      supabase.from('agent_logs').insert(logData)
-        .then(({ error }) => {
-          if (error) console.error('Error saving agent log:', error);
-        })
-    );
+    EdgeRuntime.waitUntil(saveLog(chatLogEntry(outcome)));
 
     // Return response for chat mode
     return new Response(
-      JSON.stringify({
-        agentId: agent_id,
-        output,
-        tokens_used: output.length,
-        model: agent.model,
-        provider: agent.provider,
-        processing_time_ms: processingTime,
-        timestamp: new Date().toISOString()
-      }),
+      JSON.stringify(chatResult(outcome)),
       { 
         status: 200, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -425,16 +771,17 @@ serve(async (req) => {
     // Try to log the error if we have enough context
     try {
       const body = await req.clone().json();
-      const { agent_id } = body;
+      const agentRef = parseAgentRef(body.agent_id);
+      const serviceCall = req.headers.get('Authorization') === `Bearer ${supabaseServiceKey}`;
       
-      if (agent_id && supabaseUrl && supabaseServiceKey) {
+      if (agentRef && supabaseUrl && supabaseServiceKey && !serviceCall) {
         const supabase = createClient(supabaseUrl, supabaseServiceKey);
         
         // Get agent details for logging
         const { data: agent } = await supabase
           .from('agents')
-          .select('id, name, user_id')
-          .eq('id', agent_id)
+          .select('id, name, user_id, published_version')
+          .eq('id', agentRef.agentId)
           .single();
         
         if (agent) {
@@ -443,6 +790,7 @@ serve(async (req) => {
               user_id: agent.user_id,
               agent_id: agent.id,
               agent_name: agent.name,
+              agent_version: agentRef.version === 'latest' ? agent.published_version : agentRef.version,
               level: 'error',
               message: `Agent invocation failed: ${error.message}`,
               metadata: {
@@ -462,7 +810,8 @@ serve(async (req) => {
         error: error.message || 'Internal server error',
         details: error.toString()
       }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      // Every provider in the chain failing is an upstream problem, not ours
+      { status: error instanceof ProviderError ? 502 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
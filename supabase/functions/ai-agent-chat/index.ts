@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { chat, type ChatMessage } from '../_shared/providers/index.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,7 +10,6 @@ const corsHeaders = {
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openaiApiKey = Deno.env.get('OPENAI_API_KEY')!;
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -76,7 +76,7 @@ serve(async (req) => {
 
     // Prepare conversation context
     const conversationHistory = history || [];
-    const messages = [
+    const messages: ChatMessage[] = [
       {
         role: 'system',
         content: `You are PrompTek AI Agent, an expert in prompt engineering and optimization. You help users:
@@ -104,29 +104,16 @@ Always provide practical, implementable advice for prompt optimization.`
     ];
 
     // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: messages,
-        max_tokens: 2000,
-        temperature: 0.7,
-        stream: false
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
+    const completion = await chat('openai', {
+      model: 'gpt-4',
+      messages,
+      maxTokens: 2000,
+      temperature: 0.7
+    }).catch((error) => {
       console.error('OpenAI API error:', error);
       throw new Error('Failed to get AI response');
-    }
-
-    const data = await response.json();
-    const aiResponse = data.choices[0].message.content;
+    });
+    const aiResponse = completion.text;
 
     // Save AI response
     await supabase
@@ -138,7 +125,7 @@ Always provide practical, implementable advice for prompt optimization.`
         content: aiResponse,
         metadata: {
           model: 'gpt-4',
-          tokens_used: data.usage?.total_tokens || 0,
+          tokens_used: completion.usage.totalTokens,
           generation_time_ms: Date.now()
         }
       });
@@ -158,7 +145,7 @@ Always provide practical, implementable advice for prompt optimization.`
       JSON.stringify({
         response: aiResponse,
         sessionId: currentSessionId,
-        tokensUsed: data.usage?.total_tokens || 0
+        tokensUsed: completion.usage.totalTokens
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,96 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { encryptSecret } from '../_shared/crypto.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (body.action !== 'save') {
+      return jsonResponse({ error: `Unknown action: ${body.action}` }, 400);
+    }
+
+    const baseUrl = text(body.baseUrl);
+    const models = Array.isArray(body.models)
+      ? [...new Set(body.models.map(text).filter(Boolean))]
+      : [];
+    if (!baseUrl || models.length === 0) {
+      return jsonResponse({ error: 'Base URL and at least one model are required' }, 400);
+    }
+    try {
+      new URL(baseUrl);
+    } catch {
+      return jsonResponse({ error: 'Base URL must be a full URL, e.g. http://localhost:11434/v1' }, 400);
+    }
+
+    const row: Record<string, unknown> = {
+      user_id: user.id,
+      name: text(body.name) || 'Custom',
+      base_url: baseUrl,
+      auth_header: text(body.authHeader) || null,
+      models
+    };
+    // The saved value is never sent back, so an empty field keeps it; clearing it has to be asked for
+    const authValue = text(body.authValue);
+    if (authValue) {
+      const { ciphertext, iv } = await encryptSecret(authValue);
+      row.encrypted_auth_value = ciphertext;
+      row.auth_value_iv = iv;
+    } else if (body.clearAuthValue === true) {
+      row.encrypted_auth_value = null;
+      row.auth_value_iv = null;
+    }
+
+    const { data, error } = await supabase
+      .from('custom_providers')
+      .upsert(row, { onConflict: 'user_id' })
+      .select('id, name, base_url, auth_header, has_auth_value, models')
+      .single();
+
+    if (error) {
+      console.error('Error saving custom provider:', error);
+      return jsonResponse({ error: 'Failed to save custom provider' }, 500);
+    }
+
+    console.log(`🔌 Saved custom provider for user ${user.id}`);
+    return jsonResponse(data);
+  } catch (error: any) {
+    console.error('Error in custom-provider function:', error);
+    return jsonResponse({ error: error.message || 'Internal server error' }, 500);
+  }
+});
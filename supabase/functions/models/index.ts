@@ -0,0 +1,31 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { MODEL_CATALOG } from '../_shared/models.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Public, read-only catalog of the models every picker renders; custom provider models are per user and not included
+serve((req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const provider = url.searchParams.get('provider');
+  // Deprecated models are listed by default so pickers can still show what existing agents use
+  const activeOnly = url.searchParams.get('active_only') === 'true';
+
+  const models = MODEL_CATALOG.filter(m =>
+    (!provider || m.provider === provider) && (!activeOnly || m.status === 'active')
+  );
+
+  return new Response(
+    JSON.stringify({ models }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=3600' }
+    }
+  );
+});
@@ -0,0 +1,166 @@
+// Dialects: render an optimized prompt in the conventions each model family follows best
+// (XML sections for Claude, system/user markdown for GPT and open models, task-last markdown for Gemini)
+
+export type Dialect = 'xml' | 'markdown' | 'plain';
+
+export interface RenderedPrompt {
+  dialect: Dialect;
+  provider: string;
+  model: string;
+  // Standing instructions for the system message; empty when everything belongs in the user turn
+  system: string;
+  user: string;
+}
+
+type SectionKind = 'role' | 'context' | 'examples' | 'instructions' | 'format' | 'task';
+
+interface PromptSection {
+  title: string | null;
+  kind: SectionKind;
+  body: string;
+}
+
+const DIALECTS: Record<string, Dialect> = {
+  anthropic: 'xml',
+  openai: 'markdown',
+  google: 'markdown',
+  groq: 'markdown',
+  mistral: 'markdown'
+};
+
+// Context first and the actual ask last, which every supported family handles best on long prompts
+const KIND_ORDER: SectionKind[] = ['role', 'context', 'examples', 'instructions', 'format', 'task'];
+
+const KIND_TITLES: Record<SectionKind, string> = {
+  role: 'Role',
+  context: 'Context',
+  examples: 'Examples',
+  instructions: 'Instructions',
+  format: 'Output Format',
+  task: 'Task'
+};
+
+const KIND_PATTERNS: Array<[SectionKind, RegExp]> = [
+  ['role', /\b(role|persona|identity)\b/],
+  ['examples', /\bexamples?\b/],
+  ['format', /\b(format|output|structure|response|deliverables?)\b/],
+  ['context', /\b(context|background|audience|purpose|goals?|objectives?|situation)\b/],
+  ['instructions', /\b(instructions?|steps?|requirements?|constraints?|rules?|guidelines?|criteria|approach|process)\b/],
+  ['task', /\b(task|request|question|input)\b/]
+];
+
+const HEADING_PATTERNS = [
+  /^#{1,6}\s+(.+?)\s*#*$/,
+  /^\*\*([^*]+?):?\*\*:?\s*$/,
+  /^([A-Z][A-Za-z /&-]{1,40}):\s*$/
+];
+
+function classify(title: string): SectionKind | null {
+  const lower = title.toLowerCase();
+  return KIND_PATTERNS.find(([, pattern]) => pattern.test(lower))?.[0] ?? null;
+}
+
+// A heading line, or an inline "Label: text" line whose label is a recognised section name
+function matchHeading(line: string): { title: string; rest: string } | null {
+  const trimmed = line.trim();
+  for (const pattern of HEADING_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) return { title: match[1].trim(), rest: '' };
+  }
+  const inline = trimmed.match(/^\**([A-Z][A-Za-z /&-]{1,30}):\**\s+(.+)$/);
+  if (inline && classify(inline[1])) return { title: inline[1].trim(), rest: inline[2] };
+  return null;
+}
+
+function splitSections(prompt: string): PromptSection[] {
+  const sections: PromptSection[] = [];
+  let current: { title: string | null; lines: string[] } = { title: null, lines: [] };
+
+  const flush = () => {
+    const body = current.lines.join('\n').trim();
+    if (!body) return;
+    if (current.title) {
+      sections.push({ title: current.title, kind: classify(current.title) ?? 'instructions', body });
+      return;
+    }
+    // Untitled lead text: an opening "You are..." paragraph sets the role, the rest is the task
+    const [first, ...rest] = body.split(/\n\s*\n/);
+    if (/^(you are|act as)\b/i.test(first.trim())) {
+      sections.push({ title: null, kind: 'role', body: first.trim() });
+      if (rest.length) sections.push({ title: null, kind: 'task', body: rest.join('\n\n').trim() });
+    } else {
+      sections.push({ title: null, kind: 'task', body });
+    }
+  };
+
+  for (const line of prompt.split('\n')) {
+    const heading = matchHeading(line);
+    if (heading) {
+      flush();
+      current = { title: heading.title, lines: heading.rest ? [heading.rest] : [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  // Stable sort keeps the author's order within each kind
+  return sections
+    .map((section, index) => ({ section, index }))
+    .sort((a, b) => KIND_ORDER.indexOf(a.section.kind) - KIND_ORDER.indexOf(b.section.kind) || a.index - b.index)
+    .map(({ section }) => section);
+}
+
+function tagName(section: PromptSection): string {
+  const slug = (section.title ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 30);
+  return slug || section.kind;
+}
+
+function toXml(sections: PromptSection[]): string {
+  return sections.map(s => `<${tagName(s)}>\n${s.body}\n</${tagName(s)}>`).join('\n\n');
+}
+
+function toMarkdown(sections: PromptSection[]): string {
+  return sections.map(s => `## ${s.title ?? KIND_TITLES[s.kind]}\n\n${s.body}`).join('\n\n');
+}
+
+export function dialectFor(provider: string): Dialect {
+  return DIALECTS[provider] ?? 'plain';
+}
+
+// Rewrite the prompt's structure only; the wording itself is never changed
+export function renderPromptDialect(prompt: string, provider: string, model: string): RenderedPrompt {
+  const dialect = dialectFor(provider);
+  if (dialect === 'plain') {
+    return { dialect, provider, model, system: '', user: prompt.trim() };
+  }
+
+  const sections = splitSections(prompt);
+  const roleText = sections.filter(s => s.kind === 'role').map(s => s.body).join('\n\n');
+  const rest = sections.filter(s => s.kind !== 'role');
+
+  if (dialect === 'xml') {
+    // Claude: the role goes in the system prompt, everything else in tagged sections
+    return { dialect, provider, model, system: roleText, user: toXml(rest) };
+  }
+
+  if (provider === 'google') {
+    // Gemini: role as the system instruction, one markdown message ending with the task
+    return { dialect, provider, model, system: roleText, user: toMarkdown(rest) };
+  }
+
+  // GPT and open models: standing guidance in the system message, the situation and ask in the user turn
+  const userKinds: SectionKind[] = ['context', 'task'];
+  const standing = rest.filter(s => !userKinds.includes(s.kind));
+  const turn = rest.filter(s => userKinds.includes(s.kind));
+  if (turn.length === 0) {
+    return { dialect, provider, model, system: roleText, user: toMarkdown(standing) };
+  }
+  return {
+    dialect,
+    provider,
+    model,
+    system: [roleText, toMarkdown(standing)].filter(Boolean).join('\n\n'),
+    user: toMarkdown(turn)
+  };
+}
@@ -0,0 +1,345 @@
+// Evaluators: pluggable scoring for tested variants (heuristic, LLM judge, or a hybrid of both)
+
+import { schemaValidityScore, validateJsonOutput, type JsonSchema } from '../_shared/json-schema.ts';
+
+export type EvaluatorType = 'heuristic' | 'judge' | 'hybrid';
+
+export interface RubricCriterion {
+  name: string;
+  description?: string;
+  weight: number;
+}
+
+export interface CriterionScore {
+  name: string;
+  weight: number;
+  score: number;
+  rationale: string;
+}
+
+export interface EvaluationContext {
+  prompt: string;
+  response: string;
+  originalPrompt: string;
+  taskDescription?: string;
+  strategyWeight: number;
+}
+
+export interface EvaluationResult {
+  evaluator: EvaluatorType;
+  score: number;
+  criteria?: CriterionScore[];
+  // Present when the run has a JSON Schema
+  schemaValidation?: { valid: boolean; errors: string[] };
+}
+
+export interface Evaluator {
+  type: EvaluatorType;
+  evaluate(context: EvaluationContext): Promise<EvaluationResult>;
+}
+
+// Sends the judge prompt to the judge model and returns its raw text
+export type JudgeCall = (prompt: string) => Promise<string | null>;
+
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  { name: 'Task fulfillment', description: 'Does the response do exactly what the original prompt asked for?', weight: 0.4 },
+  { name: 'Completeness', description: 'Does it cover everything the prompt requires without gaps?', weight: 0.25 },
+  { name: 'Clarity', description: 'Is it well organized and easy to follow?', weight: 0.2 },
+  { name: 'Format adherence', description: 'Does it follow the requested output format and constraints?', weight: 0.15 },
+];
+
+const HYBRID_JUDGE_SHARE = 0.7;
+// Share of the score that comes from schema validity when a run has a JSON Schema
+const SCHEMA_SCORE_SHARE = 0.4;
+const MAX_RUBRIC_CRITERIA = 8;
+
+// Keep valid criteria and renormalize weights to sum to 1; falls back to the default rubric
+export function normalizeRubric(raw: unknown): RubricCriterion[] {
+  if (!Array.isArray(raw)) return DEFAULT_RUBRIC;
+
+  const criteria = (raw as Array<{ name?: unknown; description?: unknown; weight?: unknown }>)
+    .filter(c => c && typeof c.name === 'string' && c.name.trim() && Number(c.weight) > 0)
+    .slice(0, MAX_RUBRIC_CRITERIA)
+    .map(c => ({
+      name: (c.name as string).trim(),
+      description: typeof c.description === 'string' ? c.description : undefined,
+      weight: Number(c.weight)
+    }));
+
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (criteria.length === 0 || totalWeight <= 0) return DEFAULT_RUBRIC;
+  return criteria.map(c => ({ ...c, weight: c.weight / totalWeight }));
+}
+
+export function createHeuristicEvaluator(): Evaluator {
+  return {
+    type: 'heuristic',
+    evaluate: async ({ response, strategyWeight }) => {
+      // Use fast evaluation for very long responses (over 2 pages)
+      const responseWords = response.split(' ').length;
+      if (responseWords > 1500) { // Roughly 2 pages
+        console.log(`Using fast skim evaluation for long response (${responseWords} words)`);
+        return { evaluator: 'heuristic', score: fastSkimEvaluation(response, strategyWeight) };
+      }
+      return { evaluator: 'heuristic', score: evaluateOutput(response, strategyWeight) };
+    }
+  };
+}
+
+// Validity against the run's JSON Schema counts toward the score, so a well-written but malformed response can't win
+export function withSchemaValidation(evaluator: Evaluator, schema: JsonSchema | null): Evaluator {
+  if (!schema) return evaluator;
+  return {
+    type: evaluator.type,
+    evaluate: async (context) => {
+      const result = await evaluator.evaluate(context);
+      const { valid, errors, data } = validateJsonOutput(context.response, schema);
+      const validity = schemaValidityScore({ valid, errors, data });
+      return {
+        ...result,
+        score: (1 - SCHEMA_SCORE_SHARE) * result.score + SCHEMA_SCORE_SHARE * validity,
+        schemaValidation: { valid, errors }
+      };
+    }
+  };
+}
+
+export function createJudgeEvaluator(rubric: RubricCriterion[], callJudge: JudgeCall): Evaluator {
+  const heuristic = createHeuristicEvaluator();
+
+  return {
+    type: 'judge',
+    evaluate: async (context) => {
+      try {
+        const raw = await callJudge(buildJudgePrompt(context, rubric));
+        const criteria = parseJudgeScores(raw, rubric);
+        if (criteria) {
+          const score = criteria.reduce((sum, c) => sum + c.score * c.weight, 0);
+          return { evaluator: 'judge', score: Math.min(1, Math.max(0, score)), criteria };
+        }
+        console.error('⚖️ Judge returned an unparseable verdict, falling back to heuristic scoring');
+      } catch (error) {
+        console.error('⚖️ Judge evaluation failed, falling back to heuristic scoring:', error);
+      }
+
+      const fallback = await heuristic.evaluate(context);
+      return {
+        evaluator: 'judge',
+        score: fallback.score,
+        criteria: rubric.map(c => ({ ...c, score: fallback.score, rationale: 'Judge unavailable; heuristic score used' }))
+      };
+    }
+  };
+}
+
+// Blend heuristic and judge scores; the judge dominates and supplies the per-criterion rationales
+export function createHybridEvaluator(rubric: RubricCriterion[], callJudge: JudgeCall): Evaluator {
+  const heuristic = createHeuristicEvaluator();
+  const judge = createJudgeEvaluator(rubric, callJudge);
+
+  return {
+    type: 'hybrid',
+    evaluate: async (context) => {
+      const [heuristicResult, judgeResult] = await Promise.all([heuristic.evaluate(context), judge.evaluate(context)]);
+      return {
+        evaluator: 'hybrid',
+        score: HYBRID_JUDGE_SHARE * judgeResult.score + (1 - HYBRID_JUDGE_SHARE) * heuristicResult.score,
+        criteria: judgeResult.criteria
+      };
+    }
+  };
+}
+
+export function createEvaluator(type: EvaluatorType, rubric: RubricCriterion[], callJudge: JudgeCall): Evaluator {
+  switch (type) {
+    case 'judge':
+      return createJudgeEvaluator(rubric, callJudge);
+    case 'hybrid':
+      return createHybridEvaluator(rubric, callJudge);
+    default:
+      return createHeuristicEvaluator();
+  }
+}
+
+function buildJudgePrompt({ prompt, response, originalPrompt, taskDescription }: EvaluationContext, rubric: RubricCriterion[]): string {
+  const criteriaList = rubric
+    .map(c => `- ${c.name}${c.description ? `: ${c.description}` : ''}`)
+    .join('\n');
+
+  return `You are an impartial evaluator grading an AI response.\n\nThe user's original request:\n${originalPrompt}\n\n${taskDescription ? `Additional guidance from the user:\n${taskDescription}\n\n` : ''}The prompt that was actually sent to the AI:\n${prompt}\n\nThe AI's response:\n${response}\n\nScore the response from 0 to 10 on each criterion:\n${criteriaList}\n\nReturn ONLY JSON in this exact shape, with one entry per criterion in the same order:\n{"criteria": [{"name": "<criterion name>", "score": <0-10>, "rationale": "<one or two sentences>"}]}`;
+}
+
+// Map judge output back onto the rubric; returns null unless every criterion was scored
+function parseJudgeScores(raw: string | null, rubric: RubricCriterion[]): CriterionScore[] | null {
+  if (!raw) return null;
+  const jsonMatch = raw.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: { criteria?: Array<{ name?: string; score?: unknown; rationale?: string }> };
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed?.criteria)) return null;
+
+  const scored = rubric.map((criterion, index) => {
+    const entry = parsed.criteria!.find(c => c?.name?.toLowerCase() === criterion.name.toLowerCase()) ?? parsed.criteria![index];
+    const value = Number(entry?.score);
+    if (!entry || !Number.isFinite(value)) return null;
+    return {
+      name: criterion.name,
+      weight: criterion.weight,
+      score: Math.min(10, Math.max(0, value)) / 10,
+      rationale: typeof entry.rationale === 'string' ? entry.rationale : ''
+    };
+  });
+
+  return scored.every(Boolean) ? scored as CriterionScore[] : null;
+}
+
+// Heuristic scoring
+// Advanced evaluation logic with length-based analysis
+export function evaluateOutput(prompt: string, strategyWeight: number): number {
+  const words = prompt.split(' ').length;
+  const sentences = prompt.split(/[.!?]+/).length;
+  const approximateTokens = words * 1.3; // Rough token estimation
+
+  // Length-based evaluation strategy with calibrated scoring ranges
+  if (approximateTokens <= 1000) {
+    return fullDetailedEvaluation(prompt, words, sentences, strategyWeight);
+  } else {
+    return compressedAnalysis(prompt, words, sentences, strategyWeight);
+  }
+}
+
+// Full detailed evaluation for shorter outputs
+function fullDetailedEvaluation(prompt: string, words: number, sentences: number, strategyWeight: number): number {
+  // Base score starts at 0.35 for more realistic distribution
+  const hasSpecificTerms = /\b(specific|detail|example|step|instruction|format|constraint|criteria|acceptance)\b/i.test(prompt);
+  const hasStructure = /(?:\n\s*[-*]\s|\d+\.|:|#\s)/.test(prompt);
+  const hasContext = /\b(context|background|purpose|goal|objective|audience|constraints)\b/i.test(prompt);
+  const hasTransitions = /\b(then|next|after|before|finally|additionally|furthermore|therefore|however)\b/i.test(prompt);
+  const avgWordsPerSentence = words / Math.max(sentences, 1);
+
+  const accuracy = Math.min(1,
+    0.3 + (hasSpecificTerms ? 0.3 : 0) + (hasContext ? 0.2 : 0) + (hasStructure ? 0.2 : 0)
+  );
+
+  const sectionsCount = prompt.split(/\n\n|\n(?=[A-Z])|\d+\.|#{1,6}\s/).length;
+  const completeness = Math.min(1,
+    0.3 + (words >= 50 ? 0.25 : 0) + (words >= 100 ? 0.25 : 0) + (hasStructure ? 0.2 : 0)
+  );
+
+  const clarity = Math.min(1,
+    0.3 + ((avgWordsPerSentence >= 12 && avgWordsPerSentence <= 22) ? 0.3 : 0) + (hasTransitions ? 0.2 : 0) + (sentences >= 3 ? 0.2 : 0)
+  );
+
+  // Base score starts lower for realistic distribution
+  let score = 0.35 + 0.5 * (0.4 * accuracy + 0.35 * completeness + 0.25 * clarity);
+
+  // Penalties for bad quality
+  const hasCutoffText = prompt.trim().endsWith('...') || /\b(tbc|to be continued)\b/i.test(prompt);
+  const isVeryShort = words < 10;
+  const isGibberish = /^(.)\1{10,}|^[^a-zA-Z0-9\s]{20,}/.test(prompt.trim());
+  const isBlank = prompt.trim().length < 5;
+  
+  if (isBlank || isGibberish) score = 0.15; // Poor quality
+  else if (isVeryShort) score -= 0.25; 
+  else if (words < 20) score -= 0.15; 
+  else if (words < 40) score -= 0.10;
+  
+  if (words > 400) score -= 0.05;
+  if (hasCutoffText) score -= 0.15;
+  if (checkForRepetition(prompt)) score -= 0.12;
+
+  // Strategy bonus (reduced for balanced scoring)
+  score += strategyWeight * 0.05;
+
+  return Math.min(0.95, Math.max(0.15, score));
+}
+
+// Compressed analysis for longer outputs
+function compressedAnalysis(prompt: string, words: number, sentences: number, strategyWeight: number): number {
+  const sections = prompt.split(/\n\n|\n(?=[A-Z])|\d+\.|#{1,6}\s/).length;
+  const avgWordsPerSentence = words / Math.max(sentences, 1);
+
+  // Required sections presence check
+  const requiredSections = {
+    introduction: /\b(introduction|overview|purpose|goal)\b/i.test(prompt),
+    methodology: /\b(method|approach|steps|process|procedure)\b/i.test(prompt),
+    requirements: /\b(requirement|constraint|criteria|specification|acceptance)\b/i.test(prompt),
+    format: /\b(format|structure|template|output|result)\b/i.test(prompt),
+    conclusion: /\b(conclusion|summary|final|end)\b/i.test(prompt)
+  } as const;
+  const presentSections = Object.values(requiredSections).filter(Boolean).length;
+
+  const structure = Math.min(1, 0.3 + (sections >= 3 ? 0.25 : 0) + (sections >= 5 ? 0.25 : 0) + (sections >= 7 ? 0.2 : 0));
+  const coverage = Math.min(1, 0.3 + (presentSections / 5) * 0.7);
+  const clarity = Math.min(1, 0.3 + ((avgWordsPerSentence >= 12 && avgWordsPerSentence <= 24) ? 0.3 : 0) + (/\b(first|second|third|finally)\b/i.test(prompt) ? 0.2 : 0) + (sentences >= 5 ? 0.2 : 0));
+
+  // Base score starts lower for realistic distribution
+  let score = 0.35 + 0.5 * (0.5 * structure + 0.3 * coverage + 0.2 * clarity);
+
+  // Penalties for bad quality
+  const hasCutoffText = prompt.trim().endsWith('...') || /\b(tbc|to be continued)\b/i.test(prompt);
+  const isVeryShort = words < 50;
+  const isGibberish = /^(.)\1{10,}|^[^a-zA-Z0-9\s]{20,}/.test(prompt.trim());
+  const isBlank = prompt.trim().length < 5;
+  
+  if (isBlank || isGibberish) score = 0.15; // Poor quality
+  else if (isVeryShort) score -= 0.25; 
+  else if (words < 200) score -= 0.15; 
+  else if (words < 350) score -= 0.08;
+  
+  if (hasCutoffText) score -= 0.15;
+  if (checkForRepetition(prompt)) score -= 0.12;
+  if (words > 3000) score -= 0.05;
+
+  // Strategy bonus (reduced for balanced scoring)
+  score += strategyWeight * 0.05;
+
+  return Math.min(0.95, Math.max(0.15, score));
+}
+
+// Helper function to detect repetition
+function checkForRepetition(text: string): boolean {
+  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 10);
+  const uniqueSentences = new Set(sentences.map(s => s.trim().toLowerCase()));
+  return sentences.length > uniqueSentences.size * 1.1; // Slightly stricter repetition detection
+}
+
+// Fast skim evaluation for long outputs (over 2 pages)
+export function fastSkimEvaluation(text: string, strategyWeight: number): number {
+  const words = text.split(' ').length;
+  
+  // Quick quality checks on first and last portions
+  const firstPortion = text.substring(0, 500);
+  const lastPortion = text.substring(Math.max(0, text.length - 500));
+  const middlePortion = text.substring(Math.floor(text.length * 0.4), Math.floor(text.length * 0.6));
+  
+  // Quick indicators of quality
+  const hasGoodStructure = /(?:\n\s*[-*]\s|\d+\.|:{1,2}|#{1,6}\s)/g.test(text);
+  const hasVariedSentences = !/^(.{20,50}[.!?]\s*){10,}$/m.test(firstPortion);
+  const isNotTruncated = !text.trim().endsWith('...') && !/\b(tbc|to be continued|truncated)\b/i.test(lastPortion);
+  const hasGoodTransitions = /\b(however|furthermore|additionally|therefore|moreover|consequently)\b/i.test(middlePortion);
+  
+  // Start with lower base score for realistic distribution
+  let score = 0.5;
+  
+  // Quality bonuses
+  if (hasGoodStructure) score += 0.15;
+  if (hasVariedSentences) score += 0.10;
+  if (isNotTruncated) score += 0.10;
+  if (hasGoodTransitions) score += 0.08;
+  
+  // Penalties
+  if (words < 800) score -= 0.20; 
+  if (words > 5000) score -= 0.10; 
+  if (checkForRepetition(firstPortion + lastPortion)) score -= 0.15;
+  
+  // Strategy bonus (reduced for balanced scoring)
+  score += strategyWeight * 0.05;
+  
+  return Math.min(0.95, Math.max(0.15, score));
+}
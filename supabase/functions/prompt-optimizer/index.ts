@@ -2,127 +2,34 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
 import { handleSpeedMode } from './speed-mode-functions.ts';
+import { buildStrategySet, getApplicableStrategyKeys, getStrategy, loadCustomStrategies } from './strategy-registry.ts';
+import { normalizeTestCases, runTestSuite, withSchemaAssertions, type TestSuiteResult } from './test-cases.ts';
+import { createEvaluator, evaluateOutput, normalizeRubric, withSchemaValidation, type EvaluationResult, type EvaluatorType } from './evaluators.ts';
+import { runTournament, type TournamentResult } from './tournament.ts';
+import { parsePortabilityTargets, runPortabilityCheck } from './portability.ts';
+import { renderPromptDialect } from './dialects.ts';
+import { checkIntent, describeIntentDrift, normalizeIntentGuard, preferIntentPreserved } from './intent.ts';
+import { createProgressStream, noopEmitter, type ProgressEmitter } from './progress-stream.ts';
+import { createUsageLedger, type UsageLedger } from '../_shared/usage.ts';
+import { chat, chatWithFallback, isProviderConfigured, loadCustomProvider, loadUserProviderConfigs, parseFallbackChain, type FallbackTarget, type ProviderConfigs, type ResponseFormat } from '../_shared/providers/index.ts';
+import { appendSchemaInstruction, hasJsonSchemaInput, normalizeJsonSchema } from '../_shared/json-schema.ts';
+import { extractPlaceholders, fillPlaceholders, missingPlaceholders, normalizeVariables, placeholderInstruction } from '../_shared/placeholders.ts';
+import { OPTIMIZATION_MODELS, resolveApiModel, resolveApiTargets, validateModel } from '../_shared/models.ts';
+import { budgetExceededMessage, budgetExceededResponse, budgetSpendLimit, loadBudgetStatus, recordUsage } from '../_shared/budget.ts';
+import { claimOptimizationJob, createJobReporter, createOptimizationJob, dispatchOptimizationJob, failStaleOptimizationJobs, getOptimizationJobStatus, type OptimizationJob } from './optimization-jobs.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// API Configuration
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
-const googleApiKey = Deno.env.get('GOOGLE_API_KEY');
-const groqApiKey = Deno.env.get('GROQ_API_KEY');
-const mistralApiKey = Deno.env.get('MISTRAL_API_KEY');
-
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
-// AI Provider configurations (simplified for speed)
-const AI_PROVIDERS = {
-  openai: {
-    baseUrl: 'https://api.openai.com/v1/chat/completions',
-    apiKey: openAIApiKey,
-    models: {
-      'gpt-5-2025-08-07': { name: 'gpt-5-2025-08-07', maxTokens: 4096 },
-      'gpt-5-mini-2025-08-07': { name: 'gpt-5-mini-2025-08-07', maxTokens: 4096 },
-      'gpt-5-nano-2025-08-07': { name: 'gpt-5-nano-2025-08-07', maxTokens: 4096 },
-      'gpt-4.1-2025-04-14': { name: 'gpt-4.1-2025-04-14', maxTokens: 4096 },
-      'gpt-4o': { name: 'gpt-4o', maxTokens: 4096 },
-      'gpt-4o-mini': { name: 'gpt-4o-mini', maxTokens: 4096 }
-    }
-  },
-  anthropic: {
-    baseUrl: 'https://api.anthropic.com/v1/messages',
-    apiKey: anthropicApiKey,
-    models: {
-      'claude-opus-4-1-20250805': { name: 'claude-opus-4-1-20250805', maxTokens: 4096 },
-      'claude-sonnet-4-20250514': { name: 'claude-sonnet-4-20250514', maxTokens: 4096 },
-      'claude-3-5-haiku-20241022': { name: 'claude-3-5-haiku-20241022', maxTokens: 4096 }
-    }
-  },
-  groq: {
-    baseUrl: 'https://api.groq.com/openai/v1/chat/completions',
-    apiKey: groqApiKey,
-    models: {
-      'llama-3.1-8b': { name: 'llama-3.1-8b-instant', maxTokens: 2048 }
-    }
-  },
-  mistral: {
-    baseUrl: 'https://api.mistral.ai/v1/chat/completions',
-    apiKey: mistralApiKey,
-    models: {
-      'mistral-large': { name: 'mistral-large-latest', maxTokens: 2048 },
-      'mistral-medium': { name: 'mistral-medium-latest', maxTokens: 2048 }
-    }
-  },
-  google: {
-    baseUrl: 'https://generativelanguage.googleapis.com/v1beta/models',
-    apiKey: googleApiKey,
-    models: {
-      'gemini-2.0-flash-lite': { name: 'gemini-2.0-flash-lite', maxTokens: 4096 },
-      'gemini-2.0-flash': { name: 'gemini-2.0-flash', maxTokens: 4096 },
-      'gemini-2.5-flash-lite': { name: 'gemini-2.5-flash-lite', maxTokens: 4096 },
-      'gemini-2.5-flash': { name: 'gemini-2.5-flash', maxTokens: 4096 },
-      'gemini-2.5-pro': { name: 'gemini-2.5-pro', maxTokens: 8192 }
-    }
-  }
-};
-
-// Cheaper models for optimization process
-const OPTIMIZATION_MODELS = {
-  openai: 'gpt-4o-mini',
-  anthropic: 'claude-3-5-haiku-20241022',
-  mistral: 'mistral-medium',
-  groq: 'llama-3.1-8b',
-  google: 'gemini-2.5-flash'
-};
-
-// Faster optimization strategies (simplified for speed)
-const OPTIMIZATION_STRATEGIES = {
-  clarity: {
-    name: "Clarity Enhancement",
-    systemPrompt: "You are a prompt optimization expert. Your job is to make the given prompt clearer and more specific while PRESERVING THE EXACT INTENT AND ACTION. If the user asks to 'say hello', the optimized prompt should still result in the AI saying 'hello' - just with better structure. Do NOT change what the user is asking for - only improve HOW they're asking for it:",
-    weight: 0.3
-  },
-  specificity: {
-    name: "Specificity Improvement", 
-    systemPrompt: "You are a prompt optimization expert. Your job is to add specific details to make this prompt more precise while KEEPING THE CORE REQUEST UNCHANGED. If the user asks to 'write code', don't ask for 'analyze code' instead. Preserve their exact intent and action. Do NOT answer the prompt - only improve how it asks the question:",
-    weight: 0.25
-  },
-  efficiency: {
-    name: "Efficiency Optimization",
-    systemPrompt: "You are a prompt optimization expert. Your job is to optimize this prompt for better AI performance while MAINTAINING THE EXACT SAME GOAL. Do not change what the user wants to accomplish. If they ask to generate something, keep it as generate. If they ask to explain, keep it as explain. Do NOT answer the prompt - only improve how it asks the question:",
-    weight: 0.2
-  },
-  structure: {
-    name: "Structure and Steps",
-    systemPrompt: "You are a prompt optimization expert. Your job is to improve the logical structure with step-by-step instructions while PRESERVING THE ORIGINAL REQUEST. The end goal must be identical to the original prompt. Do NOT answer the prompt - only improve how it asks the question:",
-    weight: 0.15
-  },
-  constraints: {
-    name: "Constraints and Format",
-    systemPrompt: "You are a prompt optimization expert. Your job is to add constraints and output format specifications while KEEPING THE CORE ACTION THE SAME. If the user asks to 'say bye', the optimized version should still tell the AI to say bye, just with better formatting. Do NOT answer the prompt - only improve how it asks the question:",
-    weight: 0.1
-  },
-  elaboration: {
-    name: "Elaboration & Context Expansion",
-    systemPrompt: "You are a prompt optimization expert. Your job is to expand this prompt to include relevant context while ABSOLUTELY PRESERVING THE CORE INTENT. The fundamental action/goal must remain unchanged. If they want the AI to output 'hello', don't change it to 'create a greeting' - keep the exact action but add helpful context. Do NOT answer the prompt - only improve how it asks the question:",
-    weight: 0.12,
-    condition: (prompt: string) => prompt.length < 200 // Trigger for short/under-contextualized prompts
-  },
-  intent: {
-    name: "User Intent Alignment",
-    systemPrompt: "You are a prompt optimization expert. Your job is to clarify the user's intent and make it more actionable WITHOUT CHANGING THEIR GOAL. If they ask to 'fix code', keep it as fixing code - don't change to 'analyze' or 'review'. Preserve the exact verb and outcome. Do NOT answer the prompt - only improve how it asks the question:",
-    weight: 0.12,
-    condition: (prompt: string) => /\b(improve|better|fix|enhance|optimize|analyze|make)\b/i.test(prompt) // Trigger for vague verbs
-  },
-  adaptability: {
-    name: "Adaptability Optimization",
-    systemPrompt: "You are a prompt optimization expert. Your job is to adapt this prompt for consistent results across multiple AI models while KEEPING THE EXACT SAME REQUEST. Do not alter what the user is asking the AI to do - just make the instructions clearer for different models. Do NOT answer the prompt - only improve how it asks the question:",
-    weight: 0.10
-  }
-};
+// Upper bound on refinement rounds per deep-mode request
+const MAX_OPTIMIZATION_ROUNDS = 5;
+// Finalists in a pairwise tournament; comparisons grow quadratically with this
+const MAX_TOURNAMENT_VARIANTS = 6;
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -130,6 +37,68 @@ serve(async (req) => {
   }
 
   try {
+    const body = await req.json();
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+
+    // Worker path: only this function (holding the service key) may start processing a queued job
+    let job: OptimizationJob | null = null;
+    if (body.action === 'process_job') {
+      if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      job = await claimOptimizationJob(supabase, body.jobId);
+      if (!job) {
+        return new Response(
+          JSON.stringify({ error: 'Job not found or already claimed' }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      console.log(`🛠️ Processing optimization job ${job.id}`);
+    }
+
+    // Whose keys, budget and history the run uses. A signed-in caller is identified by their session token; only
+    // service-role callers (the job worker, and agent-invoke after checking the agent's API key) may name the user.
+    const serviceCall = !!supabaseServiceKey && req.headers.get('Authorization') === `Bearer ${supabaseServiceKey}`;
+    let userId: string | undefined;
+    if (job) {
+      userId = job.user_id;
+    } else if (serviceCall) {
+      userId = typeof body.userId === 'string' ? body.userId : undefined;
+    } else {
+      const authHeader = req.headers.get('Authorization');
+      const { data: { user } } = authHeader
+        ? await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+        : { data: { user: null } };
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      userId = user.id;
+    }
+
+    // Job status for the client's poll; a job whose worker stopped responding comes back failed
+    if (body.action === 'job_status') {
+      if (typeof body.jobId !== 'string' || !userId) {
+        return new Response(
+          JSON.stringify({ error: 'A jobId is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const status = await getOptimizationJobStatus(supabase, userId, body.jobId);
+      if (!status) {
+        return new Response(
+          JSON.stringify({ error: 'Job not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      return new Response(JSON.stringify(status), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
     const { 
       originalPrompt, 
       taskDescription, 
@@ -137,12 +106,25 @@ serve(async (req) => {
       modelName = 'gpt-4o-mini', 
       outputType = 'text',
       variants = 3,
-      userId,
       maxTokens = null,
       temperature = 0.7,
       influence = '',
       influenceWeight = 0,
       mode = 'deep',
+      rounds = 1,
+      minRoundImprovement = 0.02,
+      testCases: rawTestCases = [],
+      evaluator: evaluatorType = 'heuristic',
+      rubric: rawRubric = null,
+      judgeProvider = null,
+      judgeModel = null,
+      ranking = 'score',
+      stream = false,
+      fallbackChain: rawFallbackChain = [],
+      renderDialect = false,
+      jsonSchema: rawJsonSchema = null,
+      variables: rawVariables = null,
+      intentGuard: rawIntentGuard = 'flag',
       // New template functionality
       isTemplate = false,
       templateId = null,
@@ -150,9 +132,9 @@ serve(async (req) => {
       templateTitle = '',
       templateDescription = '',
       templateCategory = 'custom'
-    } = await req.json();
+    } = job ? job.payload : body;
 
-    console.log('prompt-optimizer received:', { maxTokens, modelName, aiProvider, temperature, variants, outputType, mode, isTemplate, influenceWeight });
+    console.log('prompt-optimizer received:', { maxTokens, modelName, aiProvider, temperature, variants, outputType, mode, rounds, isTemplate, influenceWeight });
 
     if (!originalPrompt || !userId) {
       return new Response(
@@ -161,8 +143,141 @@ serve(async (req) => {
       );
     }
 
-    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    // Reject models outside the catalog (or the user's custom provider) before queueing or spending anything
+    const customModels = aiProvider === 'custom' || judgeProvider === 'custom'
+      ? (await loadCustomProvider(supabase, userId))?.models ?? []
+      : [];
+    const modelError = validateModel(aiProvider, modelName, customModels)
+      ?? (judgeProvider && judgeModel ? validateModel(judgeProvider, judgeModel, customModels) : null);
+    if (modelError) {
+      if (job) await createJobReporter(supabase, job).fail(new Error(modelError));
+      return new Response(
+        JSON.stringify({ error: modelError, code: 'unknown_model' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Structured output: responses are validated against this schema and validity counts toward the score
+    const jsonSchema = normalizeJsonSchema(rawJsonSchema);
+    if (hasJsonSchemaInput(rawJsonSchema) && !jsonSchema) {
+      const schemaError = 'jsonSchema must be a JSON Schema object';
+      if (job) await createJobReporter(supabase, job).fail(new Error(schemaError));
+      return new Response(
+        JSON.stringify({ error: schemaError, code: 'invalid_json_schema' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const responseFormat: ResponseFormat | undefined = jsonSchema ? { type: 'json', schema: jsonSchema } : undefined;
+
+    // Template prompts: {{placeholders}} are locked through optimization, and sample bindings fill them for testing
+    const placeholders = extractPlaceholders(originalPrompt);
+    const variables = normalizeVariables(rawVariables);
+    const intentGuard = normalizeIntentGuard(rawIntentGuard);
+
+    // Refuse before any provider call once a daily or monthly cap has been reached
+    const budget = await loadBudgetStatus(supabase, userId);
+    if (budget.exceeded) {
+      console.log(`💸 ${budget.exceeded.period} budget reached for user ${userId}`);
+      if (job) await createJobReporter(supabase, job).fail(new Error(budgetExceededMessage(budget)));
+      return budgetExceededResponse(budget, corsHeaders);
+    }
+
+    // Job submission: queue the run and hand it to a worker invocation instead of holding this request open
+    if (body.action === 'submit_job') {
+      if (mode !== 'deep') {
+        return new Response(
+          JSON.stringify({ error: 'Only deep mode optimizations can run as jobs' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const payload = { ...body, userId };
+      delete payload.action;
+      delete payload.stream;
+      await failStaleOptimizationJobs(supabase, userId);
+      const newJob = await createOptimizationJob(supabase, userId, payload);
+      EdgeRuntime.waitUntil(
+        dispatchOptimizationJob(`${supabaseUrl}/functions/v1/prompt-optimizer`, supabaseServiceKey!, newJob.id)
+      );
+      return new Response(
+        JSON.stringify({ jobId: newJob.id, status: newJob.status }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const startTime = Date.now();
+    const testCases = withSchemaAssertions(normalizeTestCases(rawTestCases), jsonSchema);
+    // The user's own endpoints (e.g. a custom OpenAI-compatible server) for every call in the run
+    const providerConfigs = await loadUserProviderConfigs(supabase, userId);
+    // Providers to try, in order, when the selected one keeps failing (e.g. anthropic -> openai)
+    const fallbackChain = parseFallbackChain(rawFallbackChain);
+
+    // Scoring for tested variants: heuristic by default, or an LLM judge grading against a rubric.
+    // The same judge decides pairwise matches when ranking by tournament.
+    const judgeProviderName = judgeProvider || aiProvider;
+    const judgeModelName = judgeModel || OPTIMIZATION_MODELS[judgeProviderName as keyof typeof OPTIMIZATION_MODELS] || modelName;
+    // Every provider call in the run is billed to runUsage; variant ledgers roll up into it.
+    // The ledger is capped at the remaining budget so a large run stops calling providers once it is spent.
+    const runUsage = createUsageLedger(undefined, budgetSpendLimit(budget));
+    const rubric = normalizeRubric(rawRubric);
+    const judgeWithLedger = (ledger: UsageLedger) => (judgePrompt: string) =>
+      callAIProvider(judgeProviderName, judgeModelName, judgePrompt, 1024, 0, ledger, providerConfigs, fallbackChain);
+    const callJudge = judgeWithLedger(runUsage);
+    const evaluator = withSchemaValidation(createEvaluator(evaluatorType as EvaluatorType, rubric, callJudge), jsonSchema);
+
+    // Portability check: run an optimized prompt on several models and score each output with this run's evaluator
+    if (body.action === 'portability_check') {
+      const targets = parsePortabilityTargets(body.targets);
+      if (typeof body.prompt !== 'string' || !body.prompt.trim() || targets.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'A prompt and at least one target model are required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const targetCustomModels = targets.some(t => t.provider === 'custom')
+        ? (await loadCustomProvider(supabase, userId))?.models ?? []
+        : [];
+      const targetError = targets.map(t => validateModel(t.provider, t.model, targetCustomModels)).find(Boolean);
+      if (targetError) {
+        return new Response(
+          JSON.stringify({ error: targetError, code: 'unknown_model' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const testTokens = maxTokens ? Math.max(512, Math.min(maxTokens, 4096)) : 1024;
+      const portabilityPrompt = fillPlaceholders(body.prompt, variables);
+      const results = await runPortabilityCheck({
+        prompt: portabilityPrompt,
+        targets,
+        testCases,
+        usage: runUsage,
+        // No fallbacks here: a row must show the model it is labelled with
+        runModel: async (target, prompt, ledger) => {
+          ledger.assertWithinLimit();
+          const response = await chat(target.provider, {
+            model: resolveApiModel(target.provider, target.model),
+            messages: [{ role: 'user', content: prompt }],
+            maxTokens: testTokens,
+            responseFormat
+          }, providerConfigs);
+          ledger.record(response.model, response.usage, response.provider);
+          return response.text || null;
+        },
+        // Every target gets the same strategy bonus, so it is left out of the comparison
+        evaluate: (output) => evaluator.evaluate({
+          prompt: portabilityPrompt,
+          response: output,
+          originalPrompt: fillPlaceholders(originalPrompt, variables),
+          taskDescription,
+          strategyWeight: 0
+        })
+      }).finally(() => recordUsage(supabase, userId, 'portability', runUsage.summary()));
+
+      return new Response(
+        JSON.stringify({ results, evaluator: evaluator.type, cost: runUsage.summary(), processingTimeMs: Date.now() - startTime }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
     // Handle Speed Mode
     if (mode === 'speed') {
@@ -178,357 +293,585 @@ serve(async (req) => {
         maxTokens,
         temperature,
         influence,
-        influenceWeight
+        influenceWeight,
+        usage: runUsage,
+        providerConfigs,
+        fallbackChain,
+        jsonSchema,
+        placeholders,
+        intentGuard
       });
     }
 
-    // Create initial prompt record in background
-    const createPromptRecord = async () => {
-      return await supabase
-        .from('prompts')
-        .insert({
-          user_id: userId,
-          original_prompt: originalPrompt,
-          task_description: taskDescription,
-          ai_provider: aiProvider,
-          model_name: modelName,
-          output_type: outputType,
-          status: 'processing'
-        })
-        .select()
-        .single();
-    };
+    // Deep mode pipeline; progress events are emitted as variants move through generation, testing and scoring
+    const runDeepOptimization = async (emit: ProgressEmitter) => {
+      // Create initial prompt record in background
+      const createPromptRecord = async () => {
+        return await supabase
+          .from('prompts')
+          .insert({
+            user_id: userId,
+            original_prompt: originalPrompt,
+            task_description: taskDescription,
+            ai_provider: aiProvider,
+            model_name: modelName,
+            output_type: outputType,
+            status: 'processing'
+          })
+          .select()
+          .single();
+      };
 
-    // Start prompt record creation
-    const promptRecordPromise = createPromptRecord();
+      // Start prompt record creation
+      const promptRecordPromise = createPromptRecord();
 
-    // Load cached optimization insights instead of checking all history
-    const cachedInsights = await loadOptimizationInsights(supabase, userId, aiProvider, modelName);
+      // Load cached optimization insights instead of checking all history, plus the user's custom strategies
+      const [cachedInsights, customStrategies] = await Promise.all([
+        loadOptimizationInsights(supabase, userId, aiProvider, modelName),
+        loadCustomStrategies(supabase, userId)
+      ]);
+      const strategySet = buildStrategySet(customStrategies);
     
-    // Generate optimized variants in parallel for maximum speed
-    // Filter strategies based on their conditional logic
-    const allAvailableStrategies = Object.keys(OPTIMIZATION_STRATEGIES).filter(key => {
-      const strategy = OPTIMIZATION_STRATEGIES[key as keyof typeof OPTIMIZATION_STRATEGIES];
-      // Check if strategy has a condition function, and if so, test it
-      if (strategy.condition && typeof strategy.condition === 'function') {
-        return strategy.condition(originalPrompt);
-      }
-      // Always include strategies without conditions
-      return true;
-    });
+      // Run one generation of variants against roundPrompt (the original prompt, or the previous round's winner)
+      const runOptimizationRound = async (roundPrompt: string, cycle: number) => {
+        // Generate optimized variants in parallel for maximum speed
+        // Filter strategies based on their conditional logic
+        const allAvailableStrategies = getApplicableStrategyKeys(roundPrompt, strategySet);
     
-    // Get ALL strategies sorted by performance for this specific LLM
-    const allStrategiesSorted = selectBestStrategies(allAvailableStrategies, 0, cachedInsights, aiProvider, modelName);
-    const variantCount = Math.min(Math.max(Number(variants) || 1, 1), allStrategiesSorted.length);
+        // Get ALL strategies sorted by performance for this specific LLM
+        const allStrategiesSorted = selectBestStrategies(allAvailableStrategies, 0, cachedInsights, aiProvider, modelName);
+        const variantCount = Math.min(Math.max(Number(variants) || 1, 1), allStrategiesSorted.length);
     
-    // Always include top 2 best performers for this LLM, then rotate through others
-    const top2BestForLLM = allStrategiesSorted.slice(0, 2);
-    const remainingStrategies = allStrategiesSorted.slice(2);
+        // Always include top 2 best performers for this LLM, then rotate through others
+        const top2BestForLLM = allStrategiesSorted.slice(0, 2);
+        const remainingStrategies = allStrategiesSorted.slice(2);
     
-    // Rotate through remaining strategies using timestamp-based offset
-    const rotationOffset = Math.floor(Date.now() / 3600000) % Math.max(1, remainingStrategies.length); // Rotate hourly
-    const rotatedRemaining = [...remainingStrategies.slice(rotationOffset), ...remainingStrategies.slice(0, rotationOffset)];
+        // Rotate through remaining strategies using timestamp-based offset
+        const rotationOffset = Math.floor(Date.now() / 3600000) % Math.max(1, remainingStrategies.length); // Rotate hourly
+        const rotatedRemaining = [...remainingStrategies.slice(rotationOffset), ...remainingStrategies.slice(0, rotationOffset)];
     
-    // Combine: top 2 + rotated remaining, up to variant count
-    const selectedStrategies = [
-      ...top2BestForLLM,
-      ...rotatedRemaining
-    ].slice(0, variantCount);
+        // Combine: top 2 + rotated remaining, up to variant count
+        const selectedStrategies = [
+          ...top2BestForLLM,
+          ...rotatedRemaining
+        ].slice(0, variantCount);
+
+        emit('strategy_selected', {
+          cycle,
+          strategies: selectedStrategies.map(key => ({ strategyKey: key, strategy: getStrategy(key, strategySet)!.name }))
+        });
     
-    // Test only the requested number of strategies, prioritized by performance
-    const variantPromises = selectedStrategies.map(async (strategyKey, index) => {
-      const strategy = OPTIMIZATION_STRATEGIES[strategyKey as keyof typeof OPTIMIZATION_STRATEGIES];
+        // Test only the requested number of strategies, prioritized by performance
+        const variantPromises = selectedStrategies.map(async (strategyKey, index) => {
+          const strategy = getStrategy(strategyKey, strategySet)!;
+          const variantUsage = createUsageLedger(runUsage);
       
-      try {
-        // For optimization: enhance the prompt while preserving intent
-        // CRITICAL: Explicitly state the strategy being used
-        let optimizationPrompt = `You are optimizing a prompt using the ${strategy.name.toUpperCase()} strategy.\n\n${strategy.systemPrompt}\n\nOriginal prompt to optimize:\n${originalPrompt}`;
+          try {
+            // For optimization: enhance the prompt while preserving intent
+            // CRITICAL: Explicitly state the strategy being used
+            let optimizationPrompt = `You are optimizing a prompt using the ${strategy.name.toUpperCase()} strategy.\n\n${strategy.systemPrompt}\n\nOriginal prompt to optimize:\n${roundPrompt}`;
         
-        // CRITICAL: Add task description as meta-instructions FIRST, before anything else
-        if (taskDescription) {
-          optimizationPrompt += `\n\n=== HOW TO OPTIMIZE (Meta-instructions) ===\nThe following are guidance on HOW you should optimize this prompt. These are NOT part of the prompt itself:\n${taskDescription}`;
-        }
+            // CRITICAL: Add task description as meta-instructions FIRST, before anything else
+            if (taskDescription) {
+              optimizationPrompt += `\n\n=== HOW TO OPTIMIZE (Meta-instructions) ===\nThe following are guidance on HOW you should optimize this prompt. These are NOT part of the prompt itself:\n${taskDescription}`;
+            }
         
-        // Add cached insights if available
-        const strategyInsights = cachedInsights.strategies[strategyKey];
-        if (strategyInsights?.patterns?.length > 0) {
-          optimizationPrompt += `\n\nSuccessful patterns for this strategy: ${strategyInsights.patterns.slice(0, 3).join(', ')}`;
-        }
+            // Add cached insights if available
+            const strategyInsights = cachedInsights.strategies[strategyKey];
+            if (strategyInsights?.patterns?.length > 0) {
+              optimizationPrompt += `\n\nSuccessful patterns for this strategy: ${strategyInsights.patterns.slice(0, 3).join(', ')}`;
+            }
         
-        // Critical rules: keep user's intent and only improve the prompt
-        optimizationPrompt += `\n\nRules:\n- Preserve the user's original task and intent exactly.\n- You are optimizing a PROMPT, not answering it directly.\n- Do NOT answer the user's question - only improve how they ask it.\n- Apply the ${strategy.name.toUpperCase()} strategy throughout your optimization.\n- Return ONLY the improved prompt enclosed between <optimized_prompt> and </optimized_prompt> with no other text.\n- Do not use markdown fences or commentary.\n- The output should still be a prompt that asks for the same thing, just better.\n- Do not change the task into writing code unless the original prompt explicitly requested code.`;
+            // Critical rules: keep user's intent and only improve the prompt
+            optimizationPrompt += `\n\nRules:\n- Preserve the user's original task and intent exactly.\n- You are optimizing a PROMPT, not answering it directly.\n- Do NOT answer the user's question - only improve how they ask it.\n- Apply the ${strategy.name.toUpperCase()} strategy throughout your optimization.\n- Return ONLY the improved prompt enclosed between <optimized_prompt> and </optimized_prompt> with no other text.\n- Do not use markdown fences or commentary.\n- The output should still be a prompt that asks for the same thing, just better.\n- Do not change the task into writing code unless the original prompt explicitly requested code.`;
         
-        // UNIFORM influence instructions - exactly the same for ALL variants
-        if (influence && influence.trim().length > 0 && influenceWeight > 0) {
-          const influenceStrength = 
-            influenceWeight < 30 ? 'MINIMAL' :
-            influenceWeight < 60 ? 'MODERATE' :
-            'STRONG';
+            // UNIFORM influence instructions - exactly the same for ALL variants
+            if (influence && influence.trim().length > 0 && influenceWeight > 0) {
+              const influenceStrength = 
+                influenceWeight < 30 ? 'MINIMAL' :
+                influenceWeight < 60 ? 'MODERATE' :
+                'STRONG';
           
-          optimizationPrompt += `\n\n=== INFLUENCE TEMPLATE (${influenceWeight}% weight) ===\nReference template:\n"${influence}"\n\n🎯 CRITICAL INFLUENCE RULES - APPLY UNIFORMLY:\n`;
+              optimizationPrompt += `\n\n=== INFLUENCE TEMPLATE (${influenceWeight}% weight) ===\nReference template:\n"${influence}"\n\n🎯 CRITICAL INFLUENCE RULES - APPLY UNIFORMLY:\n`;
           
-          if (influenceWeight < 30) {
-            optimizationPrompt += `- ${influenceWeight}% = ${influenceStrength} influence\n- Use template for LIGHT INSPIRATION ONLY (tone/style hints)\n- PRIMARY FOCUS: ${100 - influenceWeight}% on original prompt\n- DO NOT copy template structure, phrasing, or patterns\n- Keep original prompt's core approach and voice`;
-          } else if (influenceWeight < 60) {
-            optimizationPrompt += `- ${influenceWeight}% = ${influenceStrength} influence\n- Balance template guidance with original style\n- Blend template patterns with user's approach (${influenceWeight}% template / ${100 - influenceWeight}% original)\n- Adapt helpful template elements while preserving original intent`;
-          } else {
-            optimizationPrompt += `- ${influenceWeight}% = ${influenceStrength} influence\n- Closely follow template's patterns and structure\n- Adapt template approach (${influenceWeight}%) to user's specific needs (${100 - influenceWeight}%)\n- Template is primary guide, original prompt provides the topic`;
-          }
-        } else if (influence && influence.trim().length > 0) {
-          optimizationPrompt += `\n\n=== INFLUENCE: DISABLED (0%) ===\nA template was provided but set to 0% - COMPLETELY IGNORE IT. Focus only on the original prompt.`;
-        }
+              if (influenceWeight < 30) {
+                optimizationPrompt += `- ${influenceWeight}% = ${influenceStrength} influence\n- Use template for LIGHT INSPIRATION ONLY (tone/style hints)\n- PRIMARY FOCUS: ${100 - influenceWeight}% on original prompt\n- DO NOT copy template structure, phrasing, or patterns\n- Keep original prompt's core approach and voice`;
+              } else if (influenceWeight < 60) {
+                optimizationPrompt += `- ${influenceWeight}% = ${influenceStrength} influence\n- Balance template guidance with original style\n- Blend template patterns with user's approach (${influenceWeight}% template / ${100 - influenceWeight}% original)\n- Adapt helpful template elements while preserving original intent`;
+              } else {
+                optimizationPrompt += `- ${influenceWeight}% = ${influenceStrength} influence\n- Closely follow template's patterns and structure\n- Adapt template approach (${influenceWeight}%) to user's specific needs (${100 - influenceWeight}%)\n- Template is primary guide, original prompt provides the topic`;
+              }
+            } else if (influence && influence.trim().length > 0) {
+              optimizationPrompt += `\n\n=== INFLUENCE: DISABLED (0%) ===\nA template was provided but set to 0% - COMPLETELY IGNORE IT. Focus only on the original prompt.`;
+            }
         
-        if (outputType && outputType !== 'text') {
-          optimizationPrompt += `\n- Ensure the improved prompt clearly instructs the AI to RESPOND in ${outputType} format (this affects the AI's response format only, not the prompt itself).`;
-        }
+            if (outputType && outputType !== 'text') {
+              optimizationPrompt += `\n- Ensure the improved prompt clearly instructs the AI to RESPOND in ${outputType} format (this affects the AI's response format only, not the prompt itself).`;
+            }
+
+            if (jsonSchema) {
+              optimizationPrompt += `\n- The AI's response must be JSON matching this JSON Schema: ${JSON.stringify(jsonSchema)}\n- Describe what each field should contain where that helps, but leave out the schema itself; it is appended to the prompt automatically.`;
+            }
+
+            if (placeholders.length > 0) {
+              optimizationPrompt += `\n- ${placeholderInstruction(placeholders)}`;
+            }
         
-        // CRITICAL: Only integrate max_tokens if it's set
-        if (maxTokens) {
-          optimizationPrompt += `\n- IMPORTANT: Integrate the token limit naturally into the prompt as a constraint. For example, add phrasing like "in ${maxTokens} tokens or less" or "Keep the response within ${maxTokens} tokens" or "Provide a concise response (max ${maxTokens} tokens)" as part of the prompt's requirements. Make it flow naturally with the rest of the prompt - don't just append it as metadata.`;
-        }
+            // CRITICAL: Only integrate max_tokens if it's set
+            if (maxTokens) {
+              optimizationPrompt += `\n- IMPORTANT: Integrate the token limit naturally into the prompt as a constraint. For example, add phrasing like "in ${maxTokens} tokens or less" or "Keep the response within ${maxTokens} tokens" or "Provide a concise response (max ${maxTokens} tokens)" as part of the prompt's requirements. Make it flow naturally with the rest of the prompt - don't just append it as metadata.`;
+            }
 
-        // Textual creativity guidance derived from user's temperature (do NOT mention parameters)
-        const temp = typeof temperature === 'number' ? temperature : 0.7;
-        let creativityLabel = 'Balanced';
-        let creativityGuidance = '- Maintain a balance between novelty and adherence to constraints.';
-        if (temp <= 0.3) {
-          creativityLabel = 'Highly deterministic';
-          creativityGuidance = '- Emphasize specificity, determinism, and reproducibility; minimize brainstorming or randomness.';
-        } else if (temp < 0.7) {
-          creativityLabel = 'Balanced';
-          creativityGuidance = '- Encourage limited variation while strictly following requirements and structure.';
-        } else {
-          creativityLabel = 'Creative';
-          creativityGuidance = '- Encourage diverse ideas and varied phrasing while still meeting acceptance criteria.';
-        }
-        optimizationPrompt += `\n\n=== CREATIVITY STYLE (Textual guidance only) ===\nTarget: ${creativityLabel}\nGuidance:\n${creativityGuidance}\n- Embed wording in the improved prompt to achieve this style without referencing model parameters.`;
-        const optimizationModel = OPTIMIZATION_MODELS[aiProvider as keyof typeof OPTIMIZATION_MODELS] || modelName;
-        // Ensure minimum 1024 tokens for optimization to avoid MAX_TOKENS errors
-        const optimizationTokens = maxTokens ? Math.max(1024, Math.min(maxTokens, 4096)) : 2048;
-        const optimizedPromptRaw = await callAIProvider(
-          aiProvider, 
-          optimizationModel, 
-          optimizationPrompt, 
-          optimizationTokens,
-          temperature
-        );
+            // Textual creativity guidance derived from user's temperature (do NOT mention parameters)
+            const temp = typeof temperature === 'number' ? temperature : 0.7;
+            let creativityLabel = 'Balanced';
+            let creativityGuidance = '- Maintain a balance between novelty and adherence to constraints.';
+            if (temp <= 0.3) {
+              creativityLabel = 'Highly deterministic';
+              creativityGuidance = '- Emphasize specificity, determinism, and reproducibility; minimize brainstorming or randomness.';
+            } else if (temp < 0.7) {
+              creativityLabel = 'Balanced';
+              creativityGuidance = '- Encourage limited variation while strictly following requirements and structure.';
+            } else {
+              creativityLabel = 'Creative';
+              creativityGuidance = '- Encourage diverse ideas and varied phrasing while still meeting acceptance criteria.';
+            }
+            optimizationPrompt += `\n\n=== CREATIVITY STYLE (Textual guidance only) ===\nTarget: ${creativityLabel}\nGuidance:\n${creativityGuidance}\n- Embed wording in the improved prompt to achieve this style without referencing model parameters.`;
+            const optimizationModel = OPTIMIZATION_MODELS[aiProvider as keyof typeof OPTIMIZATION_MODELS] || modelName;
+            // Ensure minimum 1024 tokens for optimization to avoid MAX_TOKENS errors
+            const optimizationTokens = maxTokens ? Math.max(1024, Math.min(maxTokens, 4096)) : 2048;
+            const optimizedPromptRaw = await callAIProvider(
+              aiProvider, 
+              optimizationModel, 
+              optimizationPrompt, 
+              optimizationTokens,
+              temperature,
+              variantUsage,
+              providerConfigs,
+              fallbackChain
+            );
         
-        // Sanitize to ensure we only keep the improved prompt text (never an AI answer)
-        let optimizedPrompt = (optimizedPromptRaw ?? '').toString();
-        const tagMatch = optimizedPrompt.match(/<optimized_prompt>([\s\S]*?)<\/optimized_prompt>/i);
-        if (tagMatch) {
-          optimizedPrompt = tagMatch[1].trim();
-        } else {
-          const fenceMatch = optimizedPrompt.match(/```(?:\w+)?\s*([\s\S]*?)\s*```/);
-          if (fenceMatch) optimizedPrompt = fenceMatch[1].trim();
-          optimizedPrompt = optimizedPrompt
-            .replace(/^\s*Optimized Prompt:\s*/i, '')
-            .replace(/^\s*(Here is|Here’s|Sure,|Certainly,|I can|As an AI)\b[:,]?\s*/i, '')
-            .trim();
-        }
+            // Sanitize to ensure we only keep the improved prompt text (never an AI answer)
+            let optimizedPrompt = (optimizedPromptRaw ?? '').toString();
+            const tagMatch = optimizedPrompt.match(/<optimized_prompt>([\s\S]*?)<\/optimized_prompt>/i);
+            if (tagMatch) {
+              optimizedPrompt = tagMatch[1].trim();
+            } else {
+              const fenceMatch = optimizedPrompt.match(/```(?:\w+)?\s*([\s\S]*?)\s*```/);
+              if (fenceMatch) optimizedPrompt = fenceMatch[1].trim();
+              optimizedPrompt = optimizedPrompt
+                .replace(/^\s*Optimized Prompt:\s*/i, '')
+                .replace(/^\s*(Here is|Here’s|Sure,|Certainly,|I can|As an AI)\b[:,]?\s*/i, '')
+                .trim();
+            }
         
-        if (!optimizedPrompt) {
-          console.error('Failed to get optimization response for strategy:', strategyKey);
-          return null;
-        }
+            if (optimizedPrompt && jsonSchema) {
+              optimizedPrompt = appendSchemaInstruction(optimizedPrompt, jsonSchema);
+            }
+
+            if (!optimizedPrompt) {
+              console.error('Failed to get optimization response for strategy:', strategyKey);
+              emit('variant_failed', { cycle, strategyKey, strategy: strategy.name });
+              return null;
+            }
 
-        // Test the optimized prompt with user's selected model
-        let actualResponse = '';
-        let actualScore = 0;
+            // A variant that drops or renames a placeholder can't be used as the template, however well it scores
+            const lostPlaceholders = missingPlaceholders(optimizedPrompt, placeholders);
+            if (lostPlaceholders.length > 0) {
+              const reason = `Lost placeholders: ${lostPlaceholders.map(name => `{{${name}}}`).join(', ')}`;
+              console.error(`Rejecting ${strategyKey} variant. ${reason}`);
+              emit('variant_failed', { cycle, strategyKey, strategy: strategy.name, reason });
+              return null;
+            }
+
+            // Intent guard: compared with the prompt the user wrote, not this round's input, so drift can't build up over rounds.
+            // Flagging runs alongside testing; discarding has to wait so a drifted variant is never tested.
+            const intentPromise = intentGuard === 'off'
+              ? Promise.resolve(null)
+              : checkIntent(originalPrompt, optimizedPrompt, judgeWithLedger(variantUsage), taskDescription);
+            if (intentGuard === 'discard') {
+              const intentCheck = await intentPromise;
+              if (intentCheck && !intentCheck.preserved) {
+                const reason = describeIntentDrift(intentCheck);
+                console.error(`Rejecting ${strategyKey} variant. ${reason}`);
+                emit('variant_failed', { cycle, strategyKey, strategy: strategy.name, reason });
+                return null;
+              }
+            }
+
+            emit('variant_generated', { cycle, strategyKey, strategy: strategy.name, prompt: optimizedPrompt });
+
+            // Test the optimized prompt with user's selected model
+            let actualResponse = '';
+            let actualScore = 0;
         
-        try {
-          console.log(`Testing optimized prompt with user's selected model: ${modelName}`);
-          // Use 1024 tokens for testing when no limit is set (faster responses), otherwise respect user's limit
-          const testTokens = maxTokens ? Math.max(512, Math.min(maxTokens, 4096)) : 1024;
-          const testResponse = await callAIProvider(
-            aiProvider,
-            modelName,
-            optimizedPrompt,
-            testTokens,
-            temperature
-          );
-          
-          if (testResponse) {
-            actualResponse = testResponse;
-            // Score based on the actual response from the user's selected model
-            // Use fast evaluation for very long responses (over 2 pages)
-            const responseWords = testResponse.split(' ').length;
-            if (responseWords > 1500) { // Roughly 2 pages
-              console.log(`Using fast skim evaluation for long response (${responseWords} words)`);
-              actualScore = fastSkimEvaluation(testResponse, strategy.weight);
+            // Use 1024 tokens for testing when no limit is set (faster responses), otherwise respect user's limit
+            const testTokens = maxTokens ? Math.max(512, Math.min(maxTokens, 4096)) : 1024;
+            let testSuite: TestSuiteResult | null = null;
+            let evaluation: EvaluationResult | null = null;
+            // The model is tested on the template filled with the sample bindings; the variant keeps its placeholders
+            const testPrompt = fillPlaceholders(optimizedPrompt, variables);
+
+            if (testCases.length > 0) {
+              // Score by pass rate against the user's test suite instead of heuristics
+              console.log(`Running ${testCases.length} test cases with ${modelName} for strategy: ${strategyKey}`);
+              testSuite = await runTestSuite(testPrompt, testCases, (casePrompt) =>
+                callAIProvider(aiProvider, modelName, casePrompt, testTokens, temperature, variantUsage, providerConfigs, fallbackChain, responseFormat)
+              );
+              actualScore = testSuite.passRate;
+              actualResponse = testSuite.results.find(r => r.output)?.output || `No test output from ${modelName}`;
+              emit('variant_tested', { cycle, strategyKey, testsPassed: testSuite.passed, testsTotal: testSuite.total });
+              console.log(`Test suite passed ${testSuite.passed}/${testSuite.total} for strategy: ${strategyKey}`);
             } else {
-              actualScore = evaluateOutput(testResponse, strategy.weight);
+              try {
+                console.log(`Testing optimized prompt with user's selected model: ${modelName}`);
+                const testResponse = await callAIProvider(
+                  aiProvider,
+                  modelName,
+                  testPrompt,
+                  testTokens,
+                  temperature,
+                  variantUsage,
+                  providerConfigs,
+                  fallbackChain,
+                  responseFormat
+                );
+
+                if (testResponse) {
+                  actualResponse = testResponse;
+                  emit('variant_tested', { cycle, strategyKey, responseLength: testResponse.length });
+                  // Score based on the actual response from the user's selected model
+                  // Judge calls for this variant are billed to it rather than the run overhead
+                  const variantEvaluator = withSchemaValidation(
+                    createEvaluator(evaluatorType as EvaluatorType, rubric, judgeWithLedger(variantUsage)),
+                    jsonSchema
+                  );
+                  evaluation = await variantEvaluator.evaluate({
+                    prompt: testPrompt,
+                    response: testResponse,
+                    originalPrompt: fillPlaceholders(roundPrompt, variables),
+                    taskDescription,
+                    strategyWeight: strategy.weight
+                  });
+                  actualScore = evaluation.score;
+                  console.log(`Actual response scored: ${actualScore} (${evaluation.evaluator}) for strategy: ${strategyKey}`);
+                } else {
+                  // If no response, re-score the optimized prompt but ensure it's actually optimized
+                  if (optimizedPrompt.length > roundPrompt.length * 0.8) {
+                    actualScore = evaluateOutput(optimizedPrompt, strategy.weight);
+                    actualResponse = `Successfully optimized using ${strategy.name} strategy`;
+                  } else {
+                    // Prompt wasn't properly optimized, give low score
+                    actualScore = strategy.weight * 0.3;
+                    actualResponse = `Partial optimization using ${strategy.name} strategy`;
+                  }
+                  console.log(`Using fallback scoring for strategy: ${strategyKey}`);
+                }
+              } catch (error) {
+                console.error(`Error testing with user model ${modelName}:`, error);
+                // Ensure we still have a properly optimized prompt even in error cases
+                if (optimizedPrompt && optimizedPrompt.length > roundPrompt.length * 0.8) {
+                  actualScore = evaluateOutput(optimizedPrompt, strategy.weight);
+                  actualResponse = `Optimization completed using ${strategy.name} strategy (fallback)`;
+                } else {
+                  // If optimization failed completely, return a lower score
+                  actualScore = strategy.weight * 0.2;
+                  actualResponse = `Limited optimization using ${strategy.name} strategy`;
+                }
+              }
             }
-            console.log(`Actual response scored: ${actualScore} for strategy: ${strategyKey}`);
-         } else {
-           // If no response, re-score the optimized prompt but ensure it's actually optimized
-           if (optimizedPrompt.length > originalPrompt.length * 0.8) {
-             actualScore = evaluateOutput(optimizedPrompt, strategy.weight);
-             actualResponse = `Successfully optimized using ${strategy.name} strategy`;
-           } else {
-             // Prompt wasn't properly optimized, give low score
-             actualScore = strategy.weight * 0.3;
-             actualResponse = `Partial optimization using ${strategy.name} strategy`;
-           }
-           console.log(`Using fallback scoring for strategy: ${strategyKey}`);
-         }
-       } catch (error) {
-         console.error(`Error testing with user model ${modelName}:`, error);
-         // Ensure we still have a properly optimized prompt even in error cases
-         if (optimizedPrompt && optimizedPrompt.length > originalPrompt.length * 0.8) {
-           actualScore = evaluateOutput(optimizedPrompt, strategy.weight);
-           actualResponse = `Optimization completed using ${strategy.name} strategy (fallback)`;
-         } else {
-           // If optimization failed completely, return a lower score
-           actualScore = strategy.weight * 0.2;
-           actualResponse = `Limited optimization using ${strategy.name} strategy`;
-         }
-       }
-
-        return {
-          prompt: optimizedPrompt,
-          strategy: strategy.name,
-          score: actualScore,
-          response: actualResponse,
-            metrics: {
-              tokens_used: optimizedPrompt.length,
-              response_length: actualResponse.length,
-              prompt_length: originalPrompt.length,
-              strategy_weight: strategy.weight * 100,
-              tested_with_target_model: actualResponse !== `Optimization completed using ${strategy.name} strategy`
+
+            const intentCheck = await intentPromise;
+            if (intentCheck && !intentCheck.preserved) {
+              console.warn(`Flagging ${strategyKey} variant. ${describeIntentDrift(intentCheck)}`);
             }
-        };
 
-      } catch (error) {
-        console.error(`Error processing strategy ${strategyKey}:`, error);
-        return null;
-      }
-    });
+            const usage = variantUsage.summary();
+            const variant = {
+              prompt: optimizedPrompt,
+              strategy: strategy.name,
+              strategyKey,
+              score: actualScore,
+              response: actualResponse,
+              usage,
+              metrics: {
+                tokens_used: usage.totalTokens,
+                cost_usd: usage.cost,
+                response_length: actualResponse.length,
+                prompt_length: roundPrompt.length,
+                strategy_weight: strategy.weight * 100,
+                tested_with_target_model: actualResponse !== `Optimization completed using ${strategy.name} strategy`,
+                ...(testSuite ? { test_pass_rate: testSuite.passRate, tests_passed: testSuite.passed, tests_total: testSuite.total } : {}),
+                ...(intentCheck ? { intent_preserved: intentCheck.preserved } : {})
+              },
+              testResults: testSuite?.results,
+              evaluation,
+              intentCheck
+            };
+            emit('variant_scored', { cycle, strategyKey, variant: { ...variant, cycle } });
+            return variant;
+
+          } catch (error) {
+            console.error(`Error processing strategy ${strategyKey}:`, error);
+            emit('variant_failed', { cycle, strategyKey, strategy: strategy.name });
+            return null;
+          }
+        });
+
+        const roundResults = await Promise.allSettled(variantPromises);
+        return roundResults
+          .filter(result => result.status === 'fulfilled' && result.value)
+          .map(result => ({ ...(result as PromiseFulfilledResult<any>).value, cycle }));
+      };
 
-    // Wait for variants in parallel
-    const [promptRecordResult, ...variantResults] = await Promise.allSettled([
-      promptRecordPromise,
-      ...variantPromises
-    ]);
+      // Multi-round optimization: each round refines the best variant so far
+      const roundCount = Math.min(Math.max(Number(rounds) || 1, 1), MAX_OPTIMIZATION_ROUNDS);
+      const optimizedVariants: any[] = [];
+      const roundSummaries: any[] = [];
+      let bestVariant: any = null;
+      let roundPrompt = originalPrompt;
+      // Highest score among variants that kept the user's intent (all of them when none did). In flag mode drifting
+      // variants stay in the results, but they don't win a round, seed the next one or become the final prompt.
+      const pickBest = (variants: any[]) => preferIntentPreserved(variants).reduce((best, current) =>
+        current.score > best.score ? current : best
+      );
 
-    // Get prompt record
-    const promptRecord = promptRecordResult.status === 'fulfilled' ? promptRecordResult.value.data : null;
-    if (!promptRecord) {
-      throw new Error('Failed to create prompt record');
-    }
+      for (let cycle = 1; cycle <= roundCount; cycle++) {
+        console.log(`🔁 Optimization round ${cycle}/${roundCount}`);
+        const roundVariants = await runOptimizationRound(roundPrompt, cycle);
+        if (roundVariants.length === 0) {
+          console.error(`Round ${cycle} produced no variants, stopping`);
+          break;
+        }
+        optimizedVariants.push(...roundVariants);
+
+        const roundBest = pickBest(roundVariants);
+        const scoreGain = bestVariant ? roundBest.score - bestVariant.score : roundBest.score;
+        roundSummaries.push({
+          cycle,
+          bestScore: roundBest.score,
+          bestStrategy: roundBest.strategy,
+          scoreGain,
+          totalVariants: roundVariants.length
+        });
+        emit('round_complete', roundSummaries[roundSummaries.length - 1]);
 
-    // Filter successful variants
-    const optimizedVariants = variantResults
-      .filter(result => result.status === 'fulfilled' && result.value)
-      .map(result => (result as PromiseFulfilledResult<any>).value);
+        if (!bestVariant || pickBest([bestVariant, roundBest]) === roundBest) {
+          bestVariant = roundBest;
+        }
 
-    if (optimizedVariants.length === 0) {
-      throw new Error('Failed to generate any optimized variants');
-    }
+        if (cycle > 1 && scoreGain < minRoundImprovement) {
+          console.log(`⏹️ Stopping after round ${cycle}: score gain ${scoreGain.toFixed(3)} below threshold ${minRoundImprovement}`);
+          break;
+        }
 
-    // Find best variant
-    const bestVariant = optimizedVariants.reduce((best, current) => 
-      current.score > best.score ? current : best
-    );
+        // Feed the winner back in as the prompt to optimize next round
+        roundPrompt = bestVariant.prompt;
+      }
 
-    const processingTime = Date.now() - startTime;
+      // Get prompt record
+      const [promptRecordResult] = await Promise.allSettled([promptRecordPromise]);
+      const promptRecord = promptRecordResult.status === 'fulfilled' ? promptRecordResult.value.data : null;
+      if (!promptRecord) {
+        throw new Error('Failed to create prompt record');
+      }
 
-    // Background task for database updates and optimization insights (don't block response)
-    const backgroundUpdates = async () => {
-      try {
-        // Store optimization history
-        const historyPromises = optimizedVariants.map(variant => 
-          supabase.from('optimization_history').insert({
-            user_id: userId,
-            prompt_id: promptRecord.id,
-            variant_prompt: variant.prompt,
-            ai_response: variant.response,
-            score: variant.score,
-            metrics: variant.metrics,
-            generation_time_ms: processingTime,
-            tokens_used: variant.metrics.tokens_used
-          })
-        );
+      if (optimizedVariants.length === 0) {
+        throw new Error('Failed to generate any optimized variants');
+      }
 
-        await Promise.allSettled(historyPromises);
+      const roundsCompleted = roundSummaries.length;
 
-        // Update prompt record
-        await supabase
-          .from('prompts')
-          .update({
-            optimized_prompt: bestVariant.prompt,
-            score: bestVariant.score,
-            performance_metrics: {
-              best_strategy: bestVariant.strategy,
-              total_variants: optimizedVariants.length,
-              processing_time_ms: processingTime,
-              average_score: optimizedVariants.reduce((sum, v) => sum + v.score, 0) / optimizedVariants.length
-            },
-            variants_generated: optimizedVariants.length,
-            status: 'completed'
-          })
-          .eq('id', promptRecord.id);
+      // Tournament ranking: the top-scoring variants play each other pairwise and the judge's preferences pick the winner
+      let tournament: (TournamentResult & { variantIndexes: number[] }) | null = null;
+      // Finalists come from the same intent-preserving pool as the round winners
+      const tournamentCandidates = preferIntentPreserved(optimizedVariants);
+      if (ranking === 'tournament' && tournamentCandidates.length >= 2) {
+        const finalistIndexes = tournamentCandidates
+          .map(variant => ({ index: optimizedVariants.indexOf(variant), score: variant.score }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_TOURNAMENT_VARIANTS)
+          .map(entry => entry.index);
 
-        // Save batch findings to optimization insights - CRITICAL for speed optimization
-        console.log('Starting to save batch insights to optimization_insights table...');
-        await saveBatchInsights(supabase, userId, aiProvider, modelName, optimizedVariants, cachedInsights);
-        console.log('✅ Batch insights saved successfully to optimization_insights table');
+        try {
+          const result = await runTournament(
+            finalistIndexes.map(index => optimizedVariants[index]),
+            originalPrompt,
+            callJudge
+          );
+          // Point rankings back at positions in the returned variants array
+          tournament = {
+            ...result,
+            ranking: result.ranking.map(entry => ({ ...entry, index: finalistIndexes[entry.index] })),
+            comparisons: result.comparisons.map(c => ({ ...c, a: finalistIndexes[c.a], b: finalistIndexes[c.b] })),
+            variantIndexes: finalistIndexes
+          };
+          bestVariant = optimizedVariants[tournament.ranking[0].index];
+          console.log(`🏆 Tournament winner: ${bestVariant.strategy} (rating ${tournament.ranking[0].rating})`);
+        } catch (error) {
+          console.error('Tournament failed, keeping score-based winner:', error);
+        }
+      }
+
+      const processingTime = Date.now() - startTime;
+      // Includes generation, testing, judging and tournament calls
+      const cost = runUsage.summary();
 
-        console.log('Background database updates and insights completed');
-      } catch (error) {
-        console.error('❌ Background update error:', error);
-        // Try to save insights even if other operations failed
+      // Background task for database updates and optimization insights (don't block response)
+      const backgroundUpdates = async () => {
         try {
-          console.log('Attempting fallback save of batch insights...');
+          // Store optimization history
+          const historyPromises = optimizedVariants.map(variant => 
+            supabase.from('optimization_history').insert({
+              user_id: userId,
+              prompt_id: promptRecord.id,
+              variant_prompt: variant.prompt,
+              ai_response: variant.response,
+              score: variant.score,
+              metrics: {
+                ...variant.metrics,
+                ...(variant.testResults ? { test_results: variant.testResults } : {}),
+                ...(variant.evaluation ? { evaluation: variant.evaluation } : {}),
+                ...(variant.intentCheck ? { intent_check: variant.intentCheck } : {})
+              },
+              generation_time_ms: processingTime,
+              tokens_used: variant.metrics.tokens_used,
+              cost_usd: variant.metrics.cost_usd,
+              optimization_cycle: variant.cycle
+            })
+          );
+
+          await Promise.allSettled(historyPromises);
+
+          // Update prompt record
+          await supabase
+            .from('prompts')
+            .update({
+              optimized_prompt: bestVariant.prompt,
+              score: bestVariant.score,
+              performance_metrics: {
+                best_strategy: bestVariant.strategy,
+                total_variants: optimizedVariants.length,
+                processing_time_ms: processingTime,
+                average_score: optimizedVariants.reduce((sum, v) => sum + v.score, 0) / optimizedVariants.length,
+                rounds: roundSummaries,
+                cost,
+                ...(tournament ? { tournament } : {})
+              },
+              tokens_used: cost.totalTokens,
+              cost_usd: cost.cost,
+              variants_generated: optimizedVariants.length,
+              optimization_cycle: roundsCompleted,
+              status: 'completed'
+            })
+            .eq('id', promptRecord.id);
+
+          // Save batch findings to optimization insights - CRITICAL for speed optimization
+          console.log('Starting to save batch insights to optimization_insights table...');
           await saveBatchInsights(supabase, userId, aiProvider, modelName, optimizedVariants, cachedInsights);
-          console.log('✅ Fallback batch insights save successful');
-        } catch (fallbackError) {
-          console.error('❌ Fallback batch insights save failed:', fallbackError);
+          console.log('✅ Batch insights saved successfully to optimization_insights table');
+
+          console.log('Background database updates and insights completed');
+        } catch (error) {
+          console.error('❌ Background update error:', error);
+          // Try to save insights even if other operations failed
+          try {
+            console.log('Attempting fallback save of batch insights...');
+            await saveBatchInsights(supabase, userId, aiProvider, modelName, optimizedVariants, cachedInsights);
+            console.log('✅ Fallback batch insights save successful');
+          } catch (fallbackError) {
+            console.error('❌ Fallback batch insights save failed:', fallbackError);
+          }
+        }
+      };
+
+      // Start background task to save insights
+      console.log('🚀 Starting background task to save optimization insights...');
+      Promise.resolve().then(() => backgroundUpdates().catch(err => 
+        console.error('❌ Background task failed completely:', err)
+      ));
+
+      // Save as template if requested
+      if (saveAsTemplate && templateTitle) {
+        try {
+          await supabase.from('prompt_templates').insert({
+            user_id: userId,
+            title: templateTitle,
+            description: templateDescription || `Optimized template from ${bestVariant.strategy}`,
+            template: bestVariant.prompt,
+            category: templateCategory,
+            output_type: outputType,
+            rating: Math.min(Math.round(bestVariant.score * 5), 5), // Convert 0-1 score to 1-5 rating
+            tags: [aiProvider, modelName, bestVariant.strategy.toLowerCase().replace(/\s+/g, '-')]
+          });
+          console.log('✅ Template saved successfully');
+        } catch (templateError) {
+          console.error('❌ Error saving template:', templateError);
         }
       }
+
+      // Return immediate response
+      const response = {
+        promptId: promptRecord.id,
+        originalPrompt,
+        bestOptimizedPrompt: bestVariant.prompt,
+        bestScore: bestVariant.score,
+        variants: optimizedVariants,
+        rounds: roundSummaries,
+        tournament,
+        // The winner restructured into the target model's preferred conventions, when requested
+        rendered: renderDialect ? renderPromptDialect(bestVariant.prompt, aiProvider, modelName) : null,
+        placeholders,
+        cost,
+        templateSaved: saveAsTemplate && templateTitle,
+        summary: {
+          improvementScore: Math.max(0, bestVariant.score - 0.5),
+          bestStrategy: bestVariant.strategy,
+          totalVariants: optimizedVariants.length,
+          roundsCompleted,
+          testCasesRun: testCases.length,
+          evaluator: evaluator.type,
+          ranking: tournament ? 'tournament' : 'score',
+          intentGuard,
+          intentDrifted: optimizedVariants.filter(v => v.intentCheck && !v.intentCheck.preserved).length,
+          totalTokens: cost.totalTokens,
+          totalCost: cost.cost,
+          processingTimeMs: processingTime
+        }
+      };
+
+      return response;
     };
 
-    // Start background task to save insights
-    console.log('🚀 Starting background task to save optimization insights...');
-    Promise.resolve().then(() => backgroundUpdates().catch(err => 
-      console.error('❌ Background task failed completely:', err)
-    ));
+    // Bill the run whether it completes or fails part-way
+    const billed = <T>(run: Promise<T>) => run.finally(() => recordUsage(supabase, userId, 'deep', runUsage.summary()));
 
-    // Save as template if requested
-    if (saveAsTemplate && templateTitle) {
-      try {
-        await supabase.from('prompt_templates').insert({
-          user_id: userId,
-          title: templateTitle,
-          description: templateDescription || `Optimized template from ${bestVariant.strategy}`,
-          template: bestVariant.prompt,
-          category: templateCategory,
-          output_type: outputType,
-          rating: Math.min(Math.round(bestVariant.score * 5), 5), // Convert 0-1 score to 1-5 rating
-          tags: [aiProvider, modelName, bestVariant.strategy.toLowerCase().replace(/\s+/g, '-')]
-        });
-        console.log('✅ Template saved successfully');
-      } catch (templateError) {
-        console.error('❌ Error saving template:', templateError);
-      }
+    if (job) {
+      const reporter = createJobReporter(supabase, job);
+      EdgeRuntime.waitUntil(
+        billed(runDeepOptimization(reporter.emit))
+          .then(reporter.complete)
+          .catch(reporter.fail)
+      );
+      return new Response(
+        JSON.stringify({ jobId: job.id, status: 'running' }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Return immediate response
-    const response = {
-      promptId: promptRecord.id,
-      originalPrompt,
-      bestOptimizedPrompt: bestVariant.prompt,
-      bestScore: bestVariant.score,
-      variants: optimizedVariants,
-      templateSaved: saveAsTemplate && templateTitle,
-      summary: {
-        improvementScore: Math.max(0, bestVariant.score - 0.5),
-        bestStrategy: bestVariant.strategy,
-        totalVariants: optimizedVariants.length,
-        processingTimeMs: processingTime
-      }
-    };
+    if (stream) {
+      const progress = createProgressStream(corsHeaders, Number(rounds) || 1);
+      billed(runDeepOptimization(progress.emit))
+        .then(response => progress.emit('done', response))
+        .catch(error => {
+          console.error('Error in streamed prompt-optimizer run:', error);
+          progress.emit('error', { error: error instanceof Error ? error.message : 'Unknown error' });
+        })
+        .finally(progress.close);
+      return progress.response;
+    }
 
+    const response = await billed(runDeepOptimization(noopEmitter));
     return new Response(JSON.stringify(response), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -543,306 +886,37 @@ serve(async (req) => {
   }
 });
 
-// Optimized AI provider calls
-async function callAIProvider(provider: string, model: string, prompt: string, maxTokens: number, temperature: number): Promise<string | null> {
-  const providerConfig = AI_PROVIDERS[provider as keyof typeof AI_PROVIDERS];
-  if (!providerConfig || !providerConfig.apiKey) {
+// Optimized AI provider calls; token usage is recorded on the ledger when one is given.
+// Fallback targets are tried in order once the selected provider has exhausted its retries.
+async function callAIProvider(provider: string, model: string, prompt: string, maxTokens: number, temperature: number, usage?: UsageLedger, providerConfigs?: ProviderConfigs, fallbackChain: FallbackTarget[] = [], responseFormat?: ResponseFormat): Promise<string | null> {
+  if (!isProviderConfigured(provider, providerConfigs) && fallbackChain.length === 0) {
     throw new Error(`Provider ${provider} not configured`);
   }
-
-  let modelConfig = (providerConfig.models as any)[model];
-  if (!modelConfig && provider === 'groq') {
-    // Fallback to the only supported Groq model we expose
-    modelConfig = (providerConfig.models as any)['llama-3.1-8b'];
-  }
-  if (!modelConfig) {
-    throw new Error(`Model ${model} not available`);
-  }
+  const targets = [
+    { provider, model: resolveApiModel(provider, model) },
+    ...resolveApiTargets(fallbackChain.filter(t => t.provider !== provider || t.model !== model))
+  ];
+  usage?.assertWithinLimit();
 
   try {
-    switch (provider) {
-      case 'openai':
-      case 'groq':
-      case 'mistral':
-        return await callOpenAICompatible(providerConfig, modelConfig.name, prompt, maxTokens, temperature);
-      
-      case 'anthropic':
-        return await callAnthropic(providerConfig, modelConfig.name, prompt, maxTokens);
-      
-      case 'google':
-        return await callGoogle(providerConfig, modelConfig.name, prompt, maxTokens);
-      
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
+    // Temperature is left at the provider default; style is enforced via prompt wording
+    const response = await chatWithFallback(targets, {
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens,
+      responseFormat
+    }, providerConfigs);
+    usage?.record(response.model, response.usage, response.provider);
+    if (!response.text) {
+      console.error(`❌ ${response.provider} returned an empty response (stop reason: ${response.stopReason})`);
+      return null;
     }
+    return response.text;
   } catch (error) {
     console.error(`Error calling ${provider} API:`, error);
     return null;
   }
 }
 
-async function callOpenAICompatible(providerConfig: any, model: string, prompt: string, maxTokens: number, temperature: number): Promise<string> {
-  console.log(`🟢 OpenAI-compatible API call: ${model} with maxTokens: ${maxTokens}`);
-  
-  const isNewerModel = /^(gpt-5|gpt-4\.1|o3|o4)/i.test(model);
-  const payload: any = {
-    model: model,
-    messages: [{ role: 'user', content: prompt }],
-  };
-  
-  if (isNewerModel) {
-    payload.max_completion_tokens = maxTokens;
-    // Newer models don't support temperature parameter - defaults to 1.0
-  } else {
-    payload.max_tokens = maxTokens;
-    // Ignore temperature; style is enforced via prompt wording
-  }
-
-  console.log('📦 OpenAI Payload:', { model, isNewerModel, maxTokens, temp: payload.temperature });
-
-  const response = await fetch(providerConfig.baseUrl, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${providerConfig.apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  });
-
-  console.log(`📡 Response status: ${response.status} for model: ${model}`);
-  
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`❌ API call failed for ${model}:`, errorText);
-    throw new Error(`API call failed: ${response.statusText} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  console.log(`✅ OpenAI-compatible API success: ${model}`);
-  return data.choices[0].message.content;
-}
-
-async function callAnthropic(providerConfig: any, model: string, prompt: string, maxTokens: number): Promise<string> {
-  console.log(`🟣 Anthropic API call: ${model} with maxTokens: ${maxTokens}`);
-  
-  console.log('📦 Anthropic Payload:', { model, maxTokens });
-  
-  const response = await fetch(providerConfig.baseUrl, {
-    method: 'POST',
-    headers: {
-      'x-api-key': providerConfig.apiKey,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: model,
-      max_tokens: maxTokens,
-      messages: [{ role: 'user', content: prompt }],
-    }),
-  });
-
-  console.log(`📡 Response status: ${response.status} for model: ${model}`);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`❌ Anthropic API error (${response.status}):`, errorText);
-    throw new Error(`Anthropic API call failed: ${response.statusText} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  console.log(`✅ Anthropic API success: ${model}`);
-  return data.content[0].text;
-}
-
-async function callGoogle(providerConfig: any, model: string, prompt: string, maxTokens: number): Promise<string> {
-  console.log(`🔵 Google API call: ${model} with maxTokens: ${maxTokens}`);
-  
-  console.log('📦 Google Payload:', { model, maxOutputTokens: maxTokens });
-  
-  const response = await fetch(`${providerConfig.baseUrl}/${model}:generateContent?key=${providerConfig.apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{ text: prompt }]
-      }],
-      generationConfig: {
-        maxOutputTokens: maxTokens,
-      }
-    }),
-  });
-
-  console.log(`📡 Response status: ${response.status} for model: ${model}`);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`❌ Google API error (${response.status}):`, errorText);
-    throw new Error(`Google API call failed: ${response.status} ${response.statusText} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  
-  if (!data.candidates || data.candidates.length === 0) {
-    console.error('❌ Google API response has no candidates:', JSON.stringify(data));
-    throw new Error('Google API returned no candidates');
-  }
-  
-  if (!data.candidates[0].content || !data.candidates[0].content.parts || data.candidates[0].content.parts.length === 0) {
-    console.error('❌ Google API response has no content parts:', JSON.stringify(data.candidates[0]));
-    throw new Error('Google API returned no content parts');
-  }
-  
-  console.log(`✅ Google API success: ${model}`);
-  return data.candidates[0].content.parts[0].text;
-}
-
-// Advanced evaluation logic with length-based analysis
-function evaluateOutput(prompt: string, strategyWeight: number): number {
-  const words = prompt.split(' ').length;
-  const sentences = prompt.split(/[.!?]+/).length;
-  const approximateTokens = words * 1.3; // Rough token estimation
-
-  // Length-based evaluation strategy with calibrated scoring ranges
-  if (approximateTokens <= 1000) {
-    return fullDetailedEvaluation(prompt, words, sentences, strategyWeight);
-  } else {
-    return compressedAnalysis(prompt, words, sentences, strategyWeight);
-  }
-}
-
-// Full detailed evaluation for shorter outputs
-function fullDetailedEvaluation(prompt: string, words: number, sentences: number, strategyWeight: number): number {
-  // Base score starts at 0.35 for more realistic distribution
-  const hasSpecificTerms = /\b(specific|detail|example|step|instruction|format|constraint|criteria|acceptance)\b/i.test(prompt);
-  const hasStructure = /(?:\n\s*[-*]\s|\d+\.|:|#\s)/.test(prompt);
-  const hasContext = /\b(context|background|purpose|goal|objective|audience|constraints)\b/i.test(prompt);
-  const hasTransitions = /\b(then|next|after|before|finally|additionally|furthermore|therefore|however)\b/i.test(prompt);
-  const avgWordsPerSentence = words / Math.max(sentences, 1);
-
-  const accuracy = Math.min(1,
-    0.3 + (hasSpecificTerms ? 0.3 : 0) + (hasContext ? 0.2 : 0) + (hasStructure ? 0.2 : 0)
-  );
-
-  const sectionsCount = prompt.split(/\n\n|\n(?=[A-Z])|\d+\.|#{1,6}\s/).length;
-  const completeness = Math.min(1,
-    0.3 + (words >= 50 ? 0.25 : 0) + (words >= 100 ? 0.25 : 0) + (hasStructure ? 0.2 : 0)
-  );
-
-  const clarity = Math.min(1,
-    0.3 + ((avgWordsPerSentence >= 12 && avgWordsPerSentence <= 22) ? 0.3 : 0) + (hasTransitions ? 0.2 : 0) + (sentences >= 3 ? 0.2 : 0)
-  );
-
-  // Base score starts lower for realistic distribution
-  let score = 0.35 + 0.5 * (0.4 * accuracy + 0.35 * completeness + 0.25 * clarity);
-
-  // Penalties for bad quality
-  const hasCutoffText = prompt.trim().endsWith('...') || /\b(tbc|to be continued)\b/i.test(prompt);
-  const isVeryShort = words < 10;
-  const isGibberish = /^(.)\1{10,}|^[^a-zA-Z0-9\s]{20,}/.test(prompt.trim());
-  const isBlank = prompt.trim().length < 5;
-  
-  if (isBlank || isGibberish) score = 0.15; // Poor quality
-  else if (isVeryShort) score -= 0.25; 
-  else if (words < 20) score -= 0.15; 
-  else if (words < 40) score -= 0.10;
-  
-  if (words > 400) score -= 0.05;
-  if (hasCutoffText) score -= 0.15;
-  if (checkForRepetition(prompt)) score -= 0.12;
-
-  // Strategy bonus (reduced for balanced scoring)
-  score += strategyWeight * 0.05;
-
-  return Math.min(0.95, Math.max(0.15, score));
-}
-
-// Compressed analysis for longer outputs
-function compressedAnalysis(prompt: string, words: number, sentences: number, strategyWeight: number): number {
-  const sections = prompt.split(/\n\n|\n(?=[A-Z])|\d+\.|#{1,6}\s/).length;
-  const avgWordsPerSentence = words / Math.max(sentences, 1);
-
-  // Required sections presence check
-  const requiredSections = {
-    introduction: /\b(introduction|overview|purpose|goal)\b/i.test(prompt),
-    methodology: /\b(method|approach|steps|process|procedure)\b/i.test(prompt),
-    requirements: /\b(requirement|constraint|criteria|specification|acceptance)\b/i.test(prompt),
-    format: /\b(format|structure|template|output|result)\b/i.test(prompt),
-    conclusion: /\b(conclusion|summary|final|end)\b/i.test(prompt)
-  } as const;
-  const presentSections = Object.values(requiredSections).filter(Boolean).length;
-
-  const structure = Math.min(1, 0.3 + (sections >= 3 ? 0.25 : 0) + (sections >= 5 ? 0.25 : 0) + (sections >= 7 ? 0.2 : 0));
-  const coverage = Math.min(1, 0.3 + (presentSections / 5) * 0.7);
-  const clarity = Math.min(1, 0.3 + ((avgWordsPerSentence >= 12 && avgWordsPerSentence <= 24) ? 0.3 : 0) + (/\b(first|second|third|finally)\b/i.test(prompt) ? 0.2 : 0) + (sentences >= 5 ? 0.2 : 0));
-
-  // Base score starts lower for realistic distribution
-  let score = 0.35 + 0.5 * (0.5 * structure + 0.3 * coverage + 0.2 * clarity);
-
-  // Penalties for bad quality
-  const hasCutoffText = prompt.trim().endsWith('...') || /\b(tbc|to be continued)\b/i.test(prompt);
-  const isVeryShort = words < 50;
-  const isGibberish = /^(.)\1{10,}|^[^a-zA-Z0-9\s]{20,}/.test(prompt.trim());
-  const isBlank = prompt.trim().length < 5;
-  
-  if (isBlank || isGibberish) score = 0.15; // Poor quality
-  else if (isVeryShort) score -= 0.25; 
-  else if (words < 200) score -= 0.15; 
-  else if (words < 350) score -= 0.08;
-  
-  if (hasCutoffText) score -= 0.15;
-  if (checkForRepetition(prompt)) score -= 0.12;
-  if (words > 3000) score -= 0.05;
-
-  // Strategy bonus (reduced for balanced scoring)
-  score += strategyWeight * 0.05;
-
-  return Math.min(0.95, Math.max(0.15, score));
-}
-
-// Helper function to detect repetition
-function checkForRepetition(text: string): boolean {
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 10);
-  const uniqueSentences = new Set(sentences.map(s => s.trim().toLowerCase()));
-  return sentences.length > uniqueSentences.size * 1.1; // Slightly stricter repetition detection
-}
-
-// Fast skim evaluation for long outputs (over 2 pages)
-function fastSkimEvaluation(text: string, strategyWeight: number): number {
-  const words = text.split(' ').length;
-  
-  // Quick quality checks on first and last portions
-  const firstPortion = text.substring(0, 500);
-  const lastPortion = text.substring(Math.max(0, text.length - 500));
-  const middlePortion = text.substring(Math.floor(text.length * 0.4), Math.floor(text.length * 0.6));
-  
-  // Quick indicators of quality
-  const hasGoodStructure = /(?:\n\s*[-*]\s|\d+\.|:{1,2}|#{1,6}\s)/g.test(text);
-  const hasVariedSentences = !/^(.{20,50}[.!?]\s*){10,}$/m.test(firstPortion);
-  const isNotTruncated = !text.trim().endsWith('...') && !/\b(tbc|to be continued|truncated)\b/i.test(lastPortion);
-  const hasGoodTransitions = /\b(however|furthermore|additionally|therefore|moreover|consequently)\b/i.test(middlePortion);
-  
-  // Start with lower base score for realistic distribution
-  let score = 0.5;
-  
-  // Quality bonuses
-  if (hasGoodStructure) score += 0.15;
-  if (hasVariedSentences) score += 0.10;
-  if (isNotTruncated) score += 0.10;
-  if (hasGoodTransitions) score += 0.08;
-  
-  // Penalties
-  if (words < 800) score -= 0.20; 
-  if (words > 5000) score -= 0.10; 
-  if (checkForRepetition(firstPortion + lastPortion)) score -= 0.15;
-  
-  // Strategy bonus (reduced for balanced scoring)
-  score += strategyWeight * 0.05;
-  
-  return Math.min(0.95, Math.max(0.15, score));
-}
-
 // Load cached optimization insights for fast optimization
 async function loadOptimizationInsights(supabase: any, userId: string, aiProvider: string, modelName: string) {
   try {
@@ -911,7 +985,7 @@ async function saveBatchInsights(supabase: any, userId: string, aiProvider: stri
     optimizedVariants.forEach(variant => {
       if (variant.score > 0.7) {
         const patterns = extractSuccessfulPatterns(variant.prompt);
-        const strategyKey = identifyStrategy(variant.strategy);
+        const strategyKey = variant.strategyKey || identifyStrategy(variant.strategy);
         
         if (!successfulStrategies[strategyKey]) {
           successfulStrategies[strategyKey] = { patterns: [], scores: [], count: 0 };
@@ -0,0 +1,101 @@
+// Intent: catch variants that quietly change what the prompt asks for (e.g. "fix this code" becoming "review this code")
+
+import type { JudgeCall } from './evaluators.ts';
+
+// off: no check; flag: keep drifting variants but mark them; discard: drop them before testing
+export type IntentGuardMode = 'off' | 'flag' | 'discard';
+
+export type IntentAspect = 'task' | 'verb' | 'deliverable';
+
+export interface PromptIntent {
+  task: string;
+  verb: string;
+  deliverable: string;
+}
+
+export interface IntentCheck {
+  preserved: boolean;
+  // Aspects the judge saw change between the original and the variant
+  changed: IntentAspect[];
+  original: PromptIntent;
+  variant: PromptIntent;
+  reason: string;
+}
+
+const INTENT_ASPECTS: IntentAspect[] = ['task', 'verb', 'deliverable'];
+const INTENT_GUARD_MODES: IntentGuardMode[] = ['off', 'flag', 'discard'];
+
+export function normalizeIntentGuard(raw: unknown): IntentGuardMode {
+  return INTENT_GUARD_MODES.includes(raw as IntentGuardMode) ? raw as IntentGuardMode : 'flag';
+}
+
+function buildIntentPrompt(originalPrompt: string, variantPrompt: string, taskDescription?: string): string {
+  return `You are checking whether a rewritten prompt still asks for the same thing as the original.\n\nOriginal prompt:\n${originalPrompt}\n\n${taskDescription ? `Guidance the rewrite was given (not part of either prompt):\n${taskDescription}\n\n` : ''}Rewritten prompt:\n${variantPrompt}\n\nFor each prompt, extract:\n- task: what the AI is asked to do, in a short phrase\n- verb: the main action (e.g. fix, review, summarize, translate, write)\n- deliverable: what the AI should hand back (e.g. corrected code, a list of issues, a summary)\n\nThe intent is preserved when the rewrite asks for the same action and the same deliverable. Added detail, structure, constraints or formatting do not change the intent; a different action, a different deliverable, or a narrower or broader task does.\n\nReturn ONLY JSON in this exact shape:\n{"original": {"task": "...", "verb": "...", "deliverable": "..."}, "variant": {"task": "...", "verb": "...", "deliverable": "..."}, "preserved": true|false, "changed": ["task"|"verb"|"deliverable"], "reason": "<one sentence>"}`;
+}
+
+interface IntentVerdict {
+  original?: Partial<Record<keyof PromptIntent, unknown>>;
+  variant?: Partial<Record<keyof PromptIntent, unknown>>;
+  preserved?: unknown;
+  changed?: unknown;
+  reason?: unknown;
+}
+
+function toIntent(raw: IntentVerdict['original']): PromptIntent {
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  return { task: text(raw?.task), verb: text(raw?.verb), deliverable: text(raw?.deliverable) };
+}
+
+// Returns null unless the judge gave an explicit verdict
+function parseIntentVerdict(raw: string | null): IntentCheck | null {
+  if (!raw) return null;
+  const jsonMatch = raw.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: IntentVerdict;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+  if (typeof parsed?.preserved !== 'boolean') return null;
+
+  const listed = Array.isArray(parsed.changed) ? parsed.changed : [];
+  const changed = INTENT_ASPECTS.filter(aspect => listed.includes(aspect));
+  return {
+    // A verdict of "preserved" that still lists a changed aspect is treated as drift; a narrower or broader task counts
+    preserved: parsed.preserved && changed.length === 0,
+    changed,
+    original: toIntent(parsed.original),
+    variant: toIntent(parsed.variant),
+    reason: typeof parsed.reason === 'string' ? parsed.reason.trim() : ''
+  };
+}
+
+// Compare a variant with the prompt the user wrote; null when the judge is unavailable, so the variant is neither flagged nor dropped
+export async function checkIntent(
+  originalPrompt: string,
+  variantPrompt: string,
+  callJudge: JudgeCall,
+  taskDescription?: string
+): Promise<IntentCheck | null> {
+  try {
+    const verdict = parseIntentVerdict(await callJudge(buildIntentPrompt(originalPrompt, variantPrompt, taskDescription)));
+    if (!verdict) console.error('🧭 Intent check returned an unparseable verdict, skipping');
+    return verdict;
+  } catch (error) {
+    console.error('🧭 Intent check failed, skipping:', error);
+    return null;
+  }
+}
+
+// Candidates for a winner: variants the intent check flagged are left out unless every variant was flagged
+export function preferIntentPreserved<T extends { intentCheck?: IntentCheck | null }>(variants: T[]): T[] {
+  const preserved = variants.filter(variant => !variant.intentCheck || variant.intentCheck.preserved);
+  return preserved.length > 0 ? preserved : variants;
+}
+
+export function describeIntentDrift(check: IntentCheck): string {
+  const aspects = check.changed.length > 0 ? check.changed.join(', ') : 'task';
+  return `Intent drift (${aspects})${check.reason ? `: ${check.reason}` : ''}`;
+}
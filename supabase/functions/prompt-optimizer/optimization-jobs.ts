@@ -0,0 +1,144 @@
+// Optimization Jobs: queue deep-mode runs in optimization_jobs and process them in a separate worker invocation
+
+import { initialProgress, reduceProgress, type ProgressEmitter, type ProgressState } from './progress-stream.ts';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface OptimizationJob {
+  id: string;
+  user_id: string;
+  mode: string;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  progress: ProgressState;
+}
+
+// A worker that dies (timeout, crash, redeploy) stops writing progress; a queued or running job whose row hasn't
+// changed for this long is failed instead of being left in flight forever
+export const JOB_STALE_MS = 10 * 60 * 1000;
+const STALE_JOB_ERROR = 'Optimization job stopped responding';
+
+const staleCutoff = () => new Date(Date.now() - JOB_STALE_MS).toISOString();
+
+// Store the request as a queued job; the caller kicks off the worker separately
+export async function createOptimizationJob(supabase: any, userId: string, payload: Record<string, unknown>): Promise<OptimizationJob> {
+  const { data, error } = await supabase
+    .from('optimization_jobs')
+    .insert({
+      user_id: userId,
+      mode: 'deep',
+      status: 'queued',
+      payload,
+      progress: initialProgress(Number(payload.rounds) || 1)
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create optimization job: ${error?.message || 'unknown error'}`);
+  }
+  return data;
+}
+
+// Invoke this function again as the worker so processing gets its own execution time budget
+export function dispatchOptimizationJob(functionUrl: string, serviceKey: string, jobId: string): Promise<void> {
+  return fetch(functionUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${serviceKey}`
+    },
+    body: JSON.stringify({ action: 'process_job', jobId })
+  })
+    .then(response => {
+      if (!response.ok) console.error(`❌ Worker dispatch for job ${jobId} returned ${response.status}`);
+    })
+    .catch(error => console.error(`❌ Worker dispatch for job ${jobId} failed:`, error));
+}
+
+// Move a queued job to running; returns null when another worker already claimed it or it sat queued until stale
+export async function claimOptimizationJob(supabase: any, jobId: string): Promise<OptimizationJob | null> {
+  const { data, error } = await supabase
+    .from('optimization_jobs')
+    .update({ status: 'running', started_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .gte('updated_at', staleCutoff())
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error claiming optimization job:', error);
+    return null;
+  }
+  return data;
+}
+
+// Fail the user's stale jobs (or just jobId) so they stop counting as in flight
+export async function failStaleOptimizationJobs(supabase: any, userId: string, jobId?: string): Promise<void> {
+  let query = supabase
+    .from('optimization_jobs')
+    .update({ status: 'failed', error: STALE_JOB_ERROR, completed_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .in('status', ['queued', 'running'])
+    .lt('updated_at', staleCutoff());
+  if (jobId) query = query.eq('id', jobId);
+
+  const { error } = await query;
+  if (error) console.error('Error failing stale optimization jobs:', error);
+}
+
+// The job as the client sees it, after failing it if its worker stopped responding
+export async function getOptimizationJobStatus(supabase: any, userId: string, jobId: string) {
+  await failStaleOptimizationJobs(supabase, userId, jobId);
+  const { data, error } = await supabase
+    .from('optimization_jobs')
+    .select('id, status, payload, progress, result, error, created_at, updated_at')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load optimization job: ${error.message}`);
+  return data;
+}
+
+// Progress emitter plus completion hooks that persist a running job's state
+export function createJobReporter(supabase: any, job: OptimizationJob) {
+  let progress = job.progress && Array.isArray(job.progress.variants)
+    ? job.progress
+    : initialProgress(Number(job.payload.rounds) || 1);
+  // Chain writes so a slow update never lands after a newer one
+  let writes: Promise<unknown> = Promise.resolve();
+
+  // Only while running, so a worker that outlived its job being failed as stale can't bring it back
+  const write = (values: Record<string, unknown>) => {
+    writes = writes.then(async () => {
+      const { error } = await supabase.from('optimization_jobs').update(values).eq('id', job.id).eq('status', 'running');
+      if (error) console.error(`Error updating optimization job ${job.id}:`, error);
+    });
+    return writes;
+  };
+
+  const emit: ProgressEmitter = (type, data) => {
+    progress = reduceProgress(progress, type, data);
+    write({ progress });
+  };
+
+  const complete = (result: { promptId?: string }) => write({
+    status: 'completed',
+    result,
+    prompt_id: result.promptId ?? null,
+    completed_at: new Date().toISOString()
+  });
+
+  const fail = (error: unknown) => {
+    console.error(`❌ Optimization job ${job.id} failed:`, error);
+    return write({
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      completed_at: new Date().toISOString()
+    });
+  };
+
+  return { emit, complete, fail };
+}
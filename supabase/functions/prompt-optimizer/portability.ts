@@ -0,0 +1,95 @@
+// Portability: run one optimized prompt across several target models and score every output the same way
+
+import { createUsageLedger, type CostBreakdown, type UsageLedger } from '../_shared/usage.ts';
+import { parseFallbackChain, type FallbackTarget } from '../_shared/providers/index.ts';
+import { runTestSuite, type TestCase, type TestSuiteResult } from './test-cases.ts';
+import type { EvaluationResult } from './evaluators.ts';
+
+export type PortabilityTarget = FallbackTarget;
+
+export interface PortabilityResult extends PortabilityTarget {
+  output: string;
+  score: number | null;
+  evaluation: EvaluationResult | null;
+  testSuite: TestSuiteResult | null;
+  latencyMs: number;
+  // Cost of the target model's calls only; judge calls are billed to the run
+  cost: CostBreakdown;
+  error?: string;
+}
+
+export interface PortabilityOptions {
+  prompt: string;
+  targets: PortabilityTarget[];
+  testCases: TestCase[];
+  usage: UsageLedger;
+  // Send a prompt to one target, recording its tokens on the given ledger
+  runModel: (target: PortabilityTarget, prompt: string, ledger: UsageLedger) => Promise<string | null>;
+  // Score one target's output with the run's evaluator
+  evaluate: (output: string) => Promise<EvaluationResult>;
+}
+
+// Each target is a full model call plus judging, so keep the matrix small
+export const MAX_PORTABILITY_TARGETS = 6;
+
+// Drop malformed and duplicate provider/model pairs
+export function parsePortabilityTargets(raw: unknown): PortabilityTarget[] {
+  const seen = new Set<string>();
+  return parseFallbackChain(raw, Number.MAX_SAFE_INTEGER)
+    .filter(target => {
+      const key = `${target.provider}/${target.model}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_PORTABILITY_TARGETS);
+}
+
+async function runTarget(target: PortabilityTarget, options: PortabilityOptions): Promise<PortabilityResult> {
+  const ledger = createUsageLedger(options.usage);
+  const startTime = Date.now();
+  const result: PortabilityResult = {
+    ...target,
+    output: '',
+    score: null,
+    evaluation: null,
+    testSuite: null,
+    latencyMs: 0,
+    cost: ledger.summary()
+  };
+
+  try {
+    if (options.testCases.length > 0) {
+      result.testSuite = await runTestSuite(options.prompt, options.testCases, (casePrompt) =>
+        options.runModel(target, casePrompt, ledger)
+      );
+      result.latencyMs = Date.now() - startTime;
+      result.output = result.testSuite.results.find(r => r.output)?.output || '';
+      result.score = result.testSuite.passRate;
+      if (!result.output) result.error = 'No test case produced any output';
+    } else {
+      const output = await options.runModel(target, options.prompt, ledger);
+      result.latencyMs = Date.now() - startTime;
+      if (output) {
+        result.output = output;
+        result.evaluation = await options.evaluate(output);
+        result.score = result.evaluation.score;
+      } else {
+        result.error = 'Empty response';
+      }
+    }
+  } catch (error) {
+    result.latencyMs = result.latencyMs || Date.now() - startTime;
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Portability check failed for ${target.provider}/${target.model}:`, error);
+  }
+
+  result.cost = ledger.summary();
+  return result;
+}
+
+// Targets run side by side; one failing model is reported in its row rather than failing the check
+export async function runPortabilityCheck(options: PortabilityOptions): Promise<PortabilityResult[]> {
+  console.log(`🧭 Portability check across ${options.targets.map(t => `${t.provider}/${t.model}`).join(', ')}`);
+  return await Promise.all(options.targets.map(target => runTarget(target, options)));
+}
@@ -0,0 +1,128 @@
+// Progress Stream: Server-Sent Events for reporting deep-mode optimization progress as it happens
+
+export type ProgressEventType =
+  | 'strategy_selected'
+  | 'variant_generated'
+  | 'variant_tested'
+  | 'variant_scored'
+  | 'variant_failed'
+  | 'round_complete'
+  | 'done'
+  | 'error';
+
+export type ProgressEmitter = (type: ProgressEventType, data: Record<string, unknown>) => void;
+
+// Used for non-streaming requests so the pipeline can emit unconditionally
+export const noopEmitter: ProgressEmitter = () => {};
+
+export function formatSSE(type: ProgressEventType, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Open an SSE response; events written after the client disconnects are dropped.
+// Each progress event also carries the state folded by reduceProgress, the same view a job stores for pollers.
+export function createProgressStream(headers: Record<string, string>, totalRounds: number) {
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let closed = false;
+  let progress = initialProgress(totalRounds);
+
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  const emit: ProgressEmitter = (type, data) => {
+    if (closed || !controller) return;
+    const terminal = type === 'done' || type === 'error';
+    if (!terminal) progress = reduceProgress(progress, type, data);
+    try {
+      controller.enqueue(encoder.encode(formatSSE(type, terminal ? data : { ...data, progress })));
+    } catch (error) {
+      console.error('Failed to write progress event:', error);
+      closed = true;
+    }
+  };
+
+  const close = () => {
+    if (closed || !controller) return;
+    closed = true;
+    controller.close();
+  };
+
+  const response = new Response(body, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+
+  return { response, emit, close };
+}
+
+export interface VariantProgress {
+  cycle: number;
+  strategyKey: string;
+  strategy: string;
+  status: 'generating' | 'testing' | 'scoring' | 'scored' | 'failed';
+  score?: number;
+  // Why a variant was rejected, e.g. it lost a locked placeholder
+  reason?: string;
+}
+
+// Folded view of the event stream, persisted on optimization jobs so pollers see the same progress as SSE clients
+export interface ProgressState {
+  round: number;
+  totalRounds: number;
+  variants: VariantProgress[];
+  partialVariants: any[];
+}
+
+export function initialProgress(totalRounds: number): ProgressState {
+  return { round: 1, totalRounds, variants: [], partialVariants: [] };
+}
+
+export function reduceProgress(progress: ProgressState, type: ProgressEventType, data: any): ProgressState {
+  const updateVariant = (changes: Partial<VariantProgress>): ProgressState => ({
+    ...progress,
+    variants: progress.variants.map(v =>
+      v.cycle === data.cycle && v.strategyKey === data.strategyKey ? { ...v, ...changes } : v
+    )
+  });
+
+  switch (type) {
+    case 'strategy_selected':
+      return {
+        ...progress,
+        round: data.cycle,
+        variants: [
+          ...progress.variants,
+          ...data.strategies.map((s: { strategyKey: string; strategy: string }) => ({
+            cycle: data.cycle,
+            strategyKey: s.strategyKey,
+            strategy: s.strategy,
+            status: 'generating' as const
+          }))
+        ]
+      };
+    case 'variant_generated':
+      return updateVariant({ status: 'testing' });
+    case 'variant_tested':
+      return updateVariant({ status: 'scoring' });
+    case 'variant_scored':
+      return {
+        ...updateVariant({ status: 'scored', score: data.variant.score }),
+        partialVariants: [...progress.partialVariants, data.variant]
+      };
+    case 'variant_failed':
+      return updateVariant({ status: 'failed', ...(data.reason ? { reason: data.reason } : {}) });
+    default:
+      return progress;
+  }
+}
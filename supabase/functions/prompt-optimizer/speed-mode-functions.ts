@@ -1,29 +1,29 @@
 // Speed Mode: Optimizes via API calls (like deep mode) but skips testing responses
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
-const googleApiKey = Deno.env.get('GOOGLE_API_KEY');
-const groqApiKey = Deno.env.get('GROQ_API_KEY');
-const mistralApiKey = Deno.env.get('MISTRAL_API_KEY');
-
-const AI_PROVIDERS = {
-  openai: { baseUrl: 'https://api.openai.com/v1/chat/completions', apiKey: openAIApiKey },
-  anthropic: { baseUrl: 'https://api.anthropic.com/v1/messages', apiKey: anthropicApiKey },
-  google: { baseUrl: 'https://generativelanguage.googleapis.com/v1beta/models', apiKey: googleApiKey },
-  groq: { baseUrl: 'https://api.groq.com/openai/v1/chat/completions', apiKey: groqApiKey },
-  mistral: { baseUrl: 'https://api.mistral.ai/v1/chat/completions', apiKey: mistralApiKey },
-} as const;
-
-const OPTIMIZATION_MODELS: Record<string, string> = {
-  openai: 'gpt-4o-mini',
-  anthropic: 'claude-3-5-haiku-20241022',
-  google: 'gemini-2.0-flash-lite',
-  groq: 'llama-3.1-8b-instant',
-  mistral: 'mistral-small-latest',
-};
+import {
+  applyStrategyFallback,
+  buildStrategySet,
+  getApplicableStrategyKeys,
+  getStrategy,
+  getStrategyDisplayName,
+  getStrategyWeight,
+  hasGoodStructure,
+  loadCustomStrategies,
+  type StrategySet,
+} from './strategy-registry.ts';
+import { checkIntent, describeIntentDrift, preferIntentPreserved, type IntentGuardMode } from './intent.ts';
+import { recordUsage } from '../_shared/budget.ts';
+import { createUsageLedger, type UsageLedger } from '../_shared/usage.ts';
+import { appendSchemaInstruction } from '../_shared/json-schema.ts';
+import { missingPlaceholders, placeholderInstruction } from '../_shared/placeholders.ts';
+import { chatWithFallback, type FallbackTarget, type ProviderConfigs } from '../_shared/providers/index.ts';
+import { SPEED_OPTIMIZATION_MODELS, resolveApiModel, resolveApiTargets } from '../_shared/models.ts';
+
+// Per-call timeout so one slow provider response can't consume the whole speed-mode budget
+const PROVIDER_TIMEOUT_MS = 15000;
 
 export async function handleSpeedMode(
   supabase: any,
-  { originalPrompt, taskDescription, outputType, userId, startTime, variants: requestedVariants = 3, aiProvider = 'openai', modelName = 'gpt-4o-mini', maxTokens = 1024, temperature = 0.7, influence = '', influenceWeight = 0 }: any
+  { originalPrompt, taskDescription, outputType, userId, startTime, variants: requestedVariants = 3, aiProvider = 'openai', modelName = 'gpt-4o-mini', maxTokens = 1024, temperature = 0.7, influence = '', influenceWeight = 0, usage = createUsageLedger(), providerConfigs, fallbackChain = [], jsonSchema = null, placeholders = [], intentGuard = 'off' }: any
 ) {
   console.log('🚀 Running Speed Mode optimization...');
   console.log(`📋 Config: provider=${aiProvider}, model=${modelName}, variants=${requestedVariants}, maxTokens=${maxTokens}`);
@@ -43,6 +43,8 @@ export async function handleSpeedMode(
       .limit(1)
       .maybeSingle();
 
+    const strategySet = buildStrategySet(await loadCustomStrategies(supabase, userId));
+
     console.log(`✅ Speed mode loaded cached insights: ${insights ? 'Found' : 'None'}`);
     if (insights) {
       console.log(`📈 Insights: ${insights.batch_count} batches, ${insights.total_optimizations} total opts, avg score: ${insights.avg_improvement_score}`);
@@ -60,12 +62,22 @@ export async function handleSpeedMode(
       maxTokens,
       temperature,
       influence,
-      influenceWeight
+      influenceWeight,
+      strategySet,
+      usage,
+      providerConfigs,
+      fallbackChain,
+      placeholders,
+      intentGuard
     );
     
     const variants = await Promise.race([speedPromise, timeoutPromise]) as any[];
+    if (jsonSchema) {
+      for (const variant of variants) variant.prompt = appendSchemaInstruction(variant.prompt, jsonSchema);
+    }
     const bestVariant = selectBestVariant(variants);
     const processingTime = Date.now() - startTime;
+    const cost = usage.summary();
 
     console.log(`✨ Speed optimization completed in ${processingTime}ms with ${variants.length} variants. Best variant score: ${bestVariant.score}`);
     console.log(`🎯 Best prompt preview: ${bestVariant.prompt.substring(0, 100)}...`);
@@ -104,10 +116,15 @@ export async function handleSpeedMode(
       processingTimeMs: processingTime,
       speedResultId: speedResult?.id,
       improvement: calculateSpeedImprovement(originalPrompt, bestVariant.prompt),
+      cost,
       summary: {
         bestStrategy: bestVariant.strategy,
         totalVariants: variants.length,
-        processingTimeMs: processingTime
+        totalTokens: cost.totalTokens,
+        totalCost: cost.cost,
+        processingTimeMs: processingTime,
+        intentGuard,
+        intentDrifted: variants.filter(v => v.intentCheck && !v.intentCheck.preserved).length
       }
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -125,23 +142,15 @@ export async function handleSpeedMode(
     if (isTimeout) {
       const strategies = ['clarity', 'specificity', 'structure'];
       const fallbacks = strategies.slice(0, Math.max(1, Math.min(requestedVariants || 3, 3))).map((s) => {
-        let prompt = '';
-        switch (s) {
-          case 'specificity':
-            prompt = applyDeepModeSpecificityOptimization(originalPrompt, taskDescription, outputType, null);
-            break;
-          case 'structure':
-            prompt = applyDeepModeStructureOptimization(originalPrompt, taskDescription, outputType);
-            break;
-          default:
-            prompt = applyDeepModeClarityOptimization(originalPrompt, taskDescription, outputType);
-        }
+        const fallbackPrompt = applyStrategyFallback(s, originalPrompt, taskDescription, outputType, null);
+        const prompt = jsonSchema ? appendSchemaInstruction(fallbackPrompt, jsonSchema) : fallbackPrompt;
         return {
           prompt,
           strategy: getStrategyDisplayName(s),
+          strategyKey: s,
           response: `Optimization completed using ${getStrategyDisplayName(s)} strategy (timeout fallback)`,
           metrics: {
-            tokens_used: prompt.length,
+            tokens_used: 0,
             prompt_length: originalPrompt.length,
             strategy_weight: getStrategyWeight(s) * 100
           }
@@ -175,25 +184,18 @@ export async function handleSpeedMode(
       status: 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
+  } finally {
+    // Bill whatever was spent, including calls made before a timeout
+    await recordUsage(supabase, userId, 'speed', usage.summary());
   }
 }
 
 // Generate multiple variants using speed heuristics (same strategies as deep mode)
-async function generateSpeedVariants(originalPrompt: string, taskDescription: string, outputType: string, insights: any, requestedVariants: number = 3, aiProvider: string, modelName: string, maxTokens: number, temperature: number, influence: string = '', influenceWeight: number = 0): Promise<any[]> {
+async function generateSpeedVariants(originalPrompt: string, taskDescription: string, outputType: string, insights: any, requestedVariants: number = 3, aiProvider: string, modelName: string, maxTokens: number, temperature: number, influence: string = '', influenceWeight: number = 0, strategySet?: StrategySet, usage?: UsageLedger, providerConfigs?: ProviderConfigs, fallbackChain: FallbackTarget[] = [], placeholders: string[] = [], intentGuard: IntentGuardMode = 'off'): Promise<any[]> {
   const variants = [];
   
-  // Use the same strategy selection logic as deep mode - include all 8 strategies
-  const allStrategies = ['clarity', 'specificity', 'structure', 'efficiency', 'constraints', 'elaboration', 'intent', 'adaptability'];
-  
-  // Filter strategies based on conditional logic
-  const availableStrategies = allStrategies.filter(strategy => {
-    // Check elaboration condition: short prompts
-    if (strategy === 'elaboration' && originalPrompt.length >= 200) return false;
-    // Check intent alignment condition: vague verbs
-    if (strategy === 'intent' && !/\b(improve|better|fix|enhance|optimize|analyze|make)\b/i.test(originalPrompt)) return false;
-    // Always include other strategies
-    return true;
-  });
+  // Use the same strategy registry and conditional filtering as deep mode
+  const availableStrategies = getApplicableStrategyKeys(originalPrompt, strategySet);
   
   // Get ALL strategies sorted by performance for this specific LLM
   const allStrategiesSorted = selectBestStrategiesFromInsights(availableStrategies, availableStrategies.length, insights, aiProvider, modelName);
@@ -219,9 +221,15 @@ async function generateSpeedVariants(originalPrompt: string, taskDescription: st
   const seen = new Set<string>();
   
   // Generate variants using selected strategies (run in parallel for speed)
-  const optimizationModel = OPTIMIZATION_MODELS[aiProvider] || modelName;
+  const optimizationModel = resolveApiModel(aiProvider, SPEED_OPTIMIZATION_MODELS[aiProvider as keyof typeof SPEED_OPTIMIZATION_MODELS] || modelName);
+  // Fallbacks also generate with their provider's optimization model; entries outside the catalog are skipped
+  const optimizationFallbacks = resolveApiTargets(fallbackChain.map((t: FallbackTarget) => ({
+    provider: t.provider,
+    model: SPEED_OPTIMIZATION_MODELS[t.provider as keyof typeof SPEED_OPTIMIZATION_MODELS] || t.model
+  })));
   const tasks = selectedStrategies.map((strategy, i) => (async () => {
-    const instruction = buildInstructionForStrategy(strategy, originalPrompt, taskDescription, outputType, insights, influence, influenceWeight, maxTokens);
+    const instruction = buildInstructionForStrategy(strategy, originalPrompt, taskDescription, outputType, insights, influence, influenceWeight, maxTokens, strategySet, placeholders);
+    const variantUsage = createUsageLedger(usage);
 
     let optimizedPrompt = '';
     try {
@@ -232,7 +240,10 @@ async function generateSpeedVariants(originalPrompt: string, taskDescription: st
         optimizationModel,
         instruction,
         Math.min(maxTokens || 1024, 4096),
-        tempForVariant
+        tempForVariant,
+        variantUsage,
+        providerConfigs,
+        optimizationFallbacks
       ) || '';
     } catch (e) {
       console.error(`❌ Optimization API call failed for strategy ${strategy}:`, e);
@@ -246,7 +257,9 @@ async function generateSpeedVariants(originalPrompt: string, taskDescription: st
           'gemini-2.0-flash',
           instruction,
           Math.min(maxTokens || 1024, 2048),
-          Math.min(1, (temperature ?? 0.7) + 0.1)
+          Math.min(1, (temperature ?? 0.7) + 0.1),
+          variantUsage,
+          providerConfigs
         );
         if (retry && retry.trim()) optimizedPrompt = retry.trim();
       } catch (err) {
@@ -254,41 +267,17 @@ async function generateSpeedVariants(originalPrompt: string, taskDescription: st
       }
     }
 
+    // Placeholders are locked: a variant that lost any is replaced by the local fallback, which keeps the original text
+    const lostPlaceholders = optimizedPrompt.trim() ? missingPlaceholders(optimizedPrompt, placeholders) : [];
+    if (lostPlaceholders.length > 0) {
+      console.error(`❌ Strategy ${strategy} lost placeholders: ${lostPlaceholders.join(', ')}`);
+      optimizedPrompt = '';
+    }
+
     // Strategy-specific local fallback
-    if (!optimizedPrompt.trim()) {
-      switch (strategy) {
-        case 'specificity':
-          optimizedPrompt = applyDeepModeSpecificityOptimization(originalPrompt, taskDescription, outputType, insights);
-          break;
-        case 'structure':
-          optimizedPrompt = applyDeepModeStructureOptimization(originalPrompt, taskDescription, outputType);
-          break;
-        case 'efficiency':
-          optimizedPrompt = applyDeepModeEfficiencyOptimization(originalPrompt, taskDescription, outputType);
-          break;
-        case 'constraints':
-          optimizedPrompt = applyDeepModeConstraintsOptimization(originalPrompt, taskDescription, outputType);
-          break;
-        case 'elaboration':
-          // Add context and reasoning guidance
-          optimizedPrompt = `${originalPrompt}\n\nPlease provide relevant context, reasoning guidance, and any implicit assumptions needed to make your response complete and comprehensive.`;
-          break;
-        case 'intent':
-          // Align with user's likely goal
-          optimizedPrompt = originalPrompt.replace(/\b(improve|better|fix|enhance|optimize|analyze|make)\b/gi, (match) => {
-            return `provide a detailed and actionable ${match}ment for`;
-          });
-          if (optimizedPrompt === originalPrompt) {
-            optimizedPrompt = `${originalPrompt}\n\nBe specific and actionable in your response.`;
-          }
-          break;
-        case 'adaptability':
-          // Make prompt work across models
-          optimizedPrompt = `${originalPrompt}\n\nProvide a clear, well-structured response that would be consistent across different AI models.`;
-          break;
-        default:
-          optimizedPrompt = applyDeepModeClarityOptimization(originalPrompt, taskDescription, outputType);
-      }
+    const usedFallback = !optimizedPrompt.trim();
+    if (usedFallback) {
+      optimizedPrompt = applyStrategyFallback(strategy, originalPrompt, taskDescription, outputType, insights, strategySet);
     }
 
     // Ensure uniqueness with up to 2 retries
@@ -302,21 +291,43 @@ async function generateSpeedVariants(originalPrompt: string, taskDescription: st
         optimizationModel,
         altInstruction,
         Math.min(maxTokens || 1024, 4096),
-        Math.min(1, (temperature ?? 0.7) + 0.2)
+        Math.min(1, (temperature ?? 0.7) + 0.2),
+        variantUsage,
+        providerConfigs,
+        optimizationFallbacks
       );
-      if (alt && alt.trim()) optimizedPrompt = alt.trim();
+      if (alt && alt.trim() && missingPlaceholders(alt, placeholders).length === 0) optimizedPrompt = alt.trim();
       attempts++;
     }
 
+    // Intent guard, as in deep mode: the local fallback keeps the original text, so only model rewrites are checked.
+    // A discarded rewrite is replaced by the fallback rather than dropped, to keep the variant count.
+    let intentCheck = null;
+    if (intentGuard !== 'off' && !usedFallback) {
+      const judge = (judgePrompt: string) =>
+        callAIProvider(aiProvider, optimizationModel, judgePrompt, 1024, 0, variantUsage, providerConfigs, optimizationFallbacks);
+      intentCheck = await checkIntent(originalPrompt, optimizedPrompt, judge, taskDescription);
+      if (intentGuard === 'discard' && intentCheck && !intentCheck.preserved) {
+        console.error(`Replacing ${strategy} variant with its fallback. ${describeIntentDrift(intentCheck)}`);
+        optimizedPrompt = applyStrategyFallback(strategy, originalPrompt, taskDescription, outputType, insights, strategySet);
+        intentCheck = null;
+      }
+    }
+
     seen.add(normalizeText(optimizedPrompt));
+    const variantCost = variantUsage.summary();
     return {
       prompt: optimizedPrompt,
-      strategy: getStrategyDisplayName(strategy),
-      response: `Optimization completed using ${getStrategyDisplayName(strategy)} strategy`,
+      intentCheck,
+      strategy: getStrategyDisplayName(strategy, strategySet),
+      strategyKey: strategy,
+      response: `Optimization completed using ${getStrategyDisplayName(strategy, strategySet)} strategy`,
+      usage: variantCost,
       metrics: {
-        tokens_used: optimizedPrompt.length,
+        tokens_used: variantCost.totalTokens,
+        cost_usd: variantCost.cost,
         prompt_length: originalPrompt.length,
-        strategy_weight: getStrategyWeight(strategy) * 100
+        strategy_weight: getStrategyWeight(strategy, strategySet) * 100
       }
     };
   })());
@@ -330,15 +341,16 @@ async function generateSpeedVariants(originalPrompt: string, taskDescription: st
   while (variants.length < numVariants) {
     const missingIdx = variants.length;
     const strategy = selectedStrategies[missingIdx] || 'clarity';
-    const fallback = applyDeepModeClarityOptimization(originalPrompt, taskDescription, outputType);
+    const fallback = applyStrategyFallback('clarity', originalPrompt, taskDescription, outputType, insights);
     variants.push({
       prompt: fallback,
-      strategy: getStrategyDisplayName(strategy),
-      response: `Optimization completed using ${getStrategyDisplayName(strategy)} strategy (fallback)`,
+      strategy: getStrategyDisplayName(strategy, strategySet),
+      strategyKey: strategy,
+      response: `Optimization completed using ${getStrategyDisplayName(strategy, strategySet)} strategy (fallback)`,
       metrics: {
-        tokens_used: fallback.length,
+        tokens_used: 0,
         prompt_length: originalPrompt.length,
-        strategy_weight: getStrategyWeight(strategy) * 100
+        strategy_weight: getStrategyWeight(strategy, strategySet) * 100
       }
     });
   }
@@ -350,117 +362,13 @@ async function generateSpeedVariants(originalPrompt: string, taskDescription: st
 }
 
 function selectBestVariant(variants: any[]): any {
-  // In speed mode, just return the first variant (no scoring)
+  // In speed mode, just return the first variant (no scoring), skipping any flagged for intent drift
   if (variants.length === 0) {
     throw new Error('No variants available to select from');
   }
-  console.log(`🏆 Selected first variant with strategy: ${variants[0].strategy}`);
-  return variants[0];
-}
-
-// Deep mode style optimization functions
-function applyDeepModeClarityOptimization(prompt: string, taskDescription: string, outputType: string): string {
-  let improved = '';
-  if (outputType === 'code') {
-    improved = `Write clean, well-documented ${prompt}. Include:\n- Clear variable names and function structure\n- Inline comments explaining complex logic\n- Error handling for edge cases\n- Example usage demonstrating key features`;
-  } else if (outputType === 'list') {
-    improved = `Create a comprehensive, well-organized ${prompt}. Ensure:\n- Each item is clearly defined and actionable\n- Logical grouping and ordering of related items\n- Specific details rather than vague descriptions\n- Consistent formatting throughout`;
-  } else if (outputType === 'json') {
-    improved = `Respond in valid JSON to: ${prompt}\n\nRequired keys:\n- "summary"\n- "steps"\n- "notes"\nReturn only JSON.`;
-  } else {
-    improved = `Provide a clear, detailed response to: ${prompt}. Include:\n- Specific examples and concrete details\n- Well-structured explanations with logical flow\n- Practical applications where relevant\n- Clear conclusions or next steps`;
-  }
-  if (taskDescription) {
-    improved += `\n\nContext: ${taskDescription}`;
-  }
-  return improved;
-}
-
-function applyDeepModeSpecificityOptimization(prompt: string, taskDescription: string, outputType: string, insights: any): string {
-  let enhanced = prompt;
-  
-  if (outputType === 'code') {
-    enhanced += '\n\nSpecific requirements:\n- Include proper error handling\n- Add meaningful variable names\n- Provide working examples\n- Include necessary imports/dependencies';
-  } else if (outputType === 'list') {
-    enhanced += '\n\nEnsure specificity:\n- Include specific quantities or numbers where applicable\n- Provide concrete examples for each point\n- Add context or reasoning for important items';
-  } else if (outputType === 'json') {
-    enhanced += '\n\nBe specific about the JSON structure and required fields. Return only JSON.';
-  } else {
-    enhanced += '\n\nBe specific about:\n- Exact steps or processes involved\n- Measurable outcomes or criteria\n- Real-world examples and applications\n- Timeframes and expectations';
-  }
-  
-  if (insights?.successful_strategies?.specificity?.patterns?.length > 0) {
-    const patterns = insights.successful_strategies.specificity.patterns.slice(0, 2);
-    enhanced += `\n\nIncorporate these proven patterns: ${patterns.join(', ')}`;
-  }
-  
-  if (taskDescription) {
-    enhanced += `\n\nContext: ${taskDescription}`;
-  }
-  
-  return enhanced;
-}
-
-function applyDeepModeStructureOptimization(prompt: string, taskDescription: string, outputType: string): string {
-  if (hasGoodStructure(prompt)) return prompt;
-  
-  let structured = '';
-  if (outputType === 'code') {
-    structured = `${prompt}\n\nStructure your response as follows:\n1. **Setup & Dependencies**: List required imports and setup\n2. **Core Implementation**: Main code with clear comments\n3. **Error Handling**: Include try-catch blocks and validation\n4. **Usage Example**: Demonstrate how to use the code\n5. **Testing**: Basic test cases or validation steps`;
-  } else if (outputType === 'list') {
-    structured = `${prompt}\n\nOrganize your response with this structure:\n1. **Overview**: Brief introduction to the topic\n2. **Main Categories**: Group related items together\n3. **Detailed Items**: Specific, actionable points for each category\n4. **Priority Ranking**: Order by importance or urgency\n5. **Implementation Notes**: Additional context or considerations`;
-  } else {
-    structured = `${prompt}\n\nStructure your response as follows:\n1. **Introduction**: Brief overview of the topic\n2. **Main Content**: Detailed explanation with examples\n3. **Key Points**: Important takeaways or considerations\n4. **Practical Applications**: How to apply this information\n5. **Conclusion**: Summary and next steps`;
-  }
-  
-  if (taskDescription) {
-    structured += `\n\nContext: ${taskDescription}`;
-  }
-  
-  return structured;
-}
-
-function applyDeepModeEfficiencyOptimization(prompt: string, taskDescription: string, outputType: string): string {
-  // Remove redundant words/phrases
-  let optimized = prompt
-    .replace(/\b(please|kindly|if possible|if you would|if you could)\b/gi, '')
-    .replace(/\b(very|really|quite|rather|somewhat)\b/gi, '')
-    .replace(/\s+/g, ' ')
-    .trim();
-  
-  if (outputType === 'code') {
-    optimized += '\n\nFocus on efficiency: Use optimal algorithms, minimize memory usage, and include performance considerations.';
-  } else if (outputType === 'list') {
-    optimized += '\n\nPrioritize high-impact items and organize by effectiveness.';
-  } else if (outputType === 'json') {
-    optimized += '\n\nReturn only the essential fields in compact, valid JSON.';
-  } else {
-    optimized += '\n\nProvide concise, actionable information with maximum value.';
-  }
-  
-  if (taskDescription) {
-    optimized += `\n\nContext: ${taskDescription}`;
-  }
-  
-  return optimized;
-}
-
-function applyDeepModeConstraintsOptimization(prompt: string, taskDescription: string, outputType: string): string {
-  let constrained = `${prompt}`;
-  
-  const outputHint = outputType === 'json' 
-    ? 'Respond strictly with valid JSON only.' 
-    : outputType === 'code' 
-      ? 'Return complete, runnable code with necessary imports.' 
-      : 'Use a clear, consistent format.';
-  
-  constrained += `\n\nConstraints and format:\n- Define acceptance criteria and edge cases\n- Specify any limits (time, tokens, complexity)\n- ${outputHint}`;
-  
-  if (taskDescription) {
-    constrained += `\n\nContext: ${taskDescription}`;
-  }
-  
-  return constrained;
+  const best = preferIntentPreserved(variants)[0];
+  console.log(`🏆 Selected first variant with strategy: ${best.strategy}`);
+  return best;
 }
 
 function calculateDeepModeStyleScore(optimized: string, original: string, strategy: string): number {
@@ -496,43 +404,6 @@ function calculateDeepModeStyleScore(optimized: string, original: string, strate
   return Math.min(1.0, Math.max(0.6, score));
 }
 
-function getStrategyDisplayName(strategy: string): string {
-  const names = {
-    'clarity': 'Clarity Enhancement',
-    'specificity': 'Specificity Improvement',
-    'structure': 'Structure and Steps',
-    'efficiency': 'Efficiency Optimization',
-    'constraints': 'Constraints and Format'
-  };
-  return names[strategy as keyof typeof names] || strategy;
-}
-
-function getStrategyWeight(strategy: string): number {
-  const weights = {
-    'clarity': 0.3,
-    'specificity': 0.25,
-    'structure': 0.15,
-    'efficiency': 0.2,
-    'constraints': 0.1,
-    'elaboration': 0.12,
-    'intent': 0.12,
-    'adaptability': 0.10
-  };
-  return weights[strategy as keyof typeof weights] || 0.2;
-}
-
-function hasGoodStructure(prompt: string): boolean {
-  const structureIndicators = [
-    /\d+\./g,  // numbered lists
-    /[-*]\s/g, // bullet points
-    /:\s*$/gm, // colons at end of lines
-    /#{1,6}\s/g, // headers
-    /\*\*.*\*\*/g // bold headers
-  ];
-  
-  return structureIndicators.some(pattern => pattern.test(prompt));
-}
-
 function calculateSpeedImprovement(original: string, optimized: string): any {
   return {
     lengthImprovement: optimized.length > original.length ? 'expanded' : 'condensed',
@@ -543,41 +414,19 @@ function calculateSpeedImprovement(original: string, optimized: string): any {
 }
 
 // Build deep-mode style instruction for the LLM
-function buildInstructionForStrategy(strategy: string, originalPrompt: string, taskDescription: string, outputType: string, insights: any, influence: string = '', influenceWeight: number = 0, maxTokens: number = 1024): string {
+function buildInstructionForStrategy(strategy: string, originalPrompt: string, taskDescription: string, outputType: string, insights: any, influence: string = '', influenceWeight: number = 0, maxTokens: number = 1024, strategySet?: StrategySet, placeholders: string[] = []): string {
   let instruction = '';
   
   // CRITICAL: Add task description as meta-instructions FIRST
   const metaInstructions = taskDescription ? `\n\n=== HOW TO OPTIMIZE (Meta-instructions) ===\nThe following are guidance on HOW you should optimize this prompt. These are NOT part of the prompt itself:\n${taskDescription}\n\n` : '';
   
   // CRITICAL: Explicitly state which strategy to use
-  switch (strategy) {
-    case 'clarity':
-      instruction = `You are optimizing a prompt using the CLARITY ENHANCEMENT strategy. Make this prompt clearer and more specific:${metaInstructions}\nOriginal prompt to optimize:\n${originalPrompt}`;
-      break;
-    case 'specificity':
-      instruction = `You are optimizing a prompt using the SPECIFICITY IMPROVEMENT strategy. Add specific details and examples to this prompt:${metaInstructions}\nOriginal prompt to optimize:\n${originalPrompt}`;
-      if (insights?.successful_strategies?.specificity?.patterns?.length > 0) {
-        instruction += `\n\nSuccessful patterns for this strategy: ${insights.successful_strategies.specificity.patterns.slice(0, 3).join(', ')}`;
-      }
-      break;
-    case 'structure':
-      instruction = `You are optimizing a prompt using the STRUCTURE AND STEPS strategy. Improve the logical structure with step-by-step instructions and sections:${metaInstructions}\nOriginal prompt to optimize:\n${originalPrompt}`;
-      break;
-    case 'efficiency':
-      instruction = `You are optimizing a prompt using the EFFICIENCY OPTIMIZATION strategy. Optimize this prompt for better AI performance:${metaInstructions}\nOriginal prompt to optimize:\n${originalPrompt}`;
-      break;
-    case 'constraints':
-      instruction = `You are optimizing a prompt using the CONSTRAINTS AND FORMAT strategy. Add constraints, acceptance criteria, and a precise output format:${metaInstructions}\nOriginal prompt to optimize:\n${originalPrompt}`;
-      break;
-    case 'elaboration':
-      instruction = `You are optimizing a prompt using the ELABORATION & CONTEXT EXPANSION strategy. Expand this prompt to include relevant context, reasoning guidance, and implicit assumptions to make the AI's answer more complete:${metaInstructions}\nOriginal prompt to optimize:\n${originalPrompt}`;
-      break;
-    case 'intent':
-      instruction = `You are optimizing a prompt using the USER INTENT ALIGNMENT strategy. Rewrite this prompt so that it better aligns with the user's likely goal or outcome. Translate vague requests into actionable, specific instructions:${metaInstructions}\nOriginal prompt to optimize:\n${originalPrompt}`;
-      break;
-    case 'adaptability':
-      instruction = `You are optimizing a prompt using the ADAPTABILITY OPTIMIZATION strategy. Adapt this prompt for consistent results across multiple AI models and contexts. Focus on universal clarity and model-agnostic instructions:${metaInstructions}\nOriginal prompt to optimize:\n${originalPrompt}`;
-      break;
+  const strategyDef = getStrategy(strategy, strategySet);
+  const strategyName = strategyDef?.name || strategy;
+  instruction = `You are optimizing a prompt using the ${strategyName.toUpperCase()} strategy. ${strategyDef?.systemPrompt || ''}${metaInstructions}\nOriginal prompt to optimize:\n${originalPrompt}`;
+  const strategyPatterns = insights?.successful_strategies?.[strategy]?.patterns;
+  if (strategyPatterns?.length > 0) {
+    instruction += `\n\nSuccessful patterns for this strategy: ${strategyPatterns.slice(0, 3).join(', ')}`;
   }
   if (outputType && outputType !== 'text') {
     instruction += `\n\nEnsure the improved prompt clearly instructs the AI to RESPOND in ${outputType} format (this affects the AI's response format only, not the prompt itself).`;
@@ -608,161 +457,38 @@ function buildInstructionForStrategy(strategy: string, originalPrompt: string, t
     instruction += `\n\nIMPORTANT: Integrate the token limit naturally into the prompt as a constraint. For example, add phrasing like "in ${maxTokens} tokens or less" or "Keep the response within ${maxTokens} tokens" or "Provide a concise response (max ${maxTokens} tokens)" as part of the prompt's requirements. Make it flow naturally with the rest of the prompt - don't just append it as metadata.`;
   }
   
-  instruction += `\n\nRules:\n- Preserve the user's original task and intent.\n- Do NOT generate meta-prompts (e.g., 'create a prompt', 'write code that generates a prompt').\n- Apply the ${strategy.toUpperCase()} strategy throughout your optimization.\n- Return ONLY the improved prompt text with no extra commentary or markdown fences.\n- Do not change the task into writing code unless the original prompt explicitly requested code.`;
+  instruction += `\n\nRules:\n- Preserve the user's original task and intent.\n- Do NOT generate meta-prompts (e.g., 'create a prompt', 'write code that generates a prompt').\n- Apply the ${strategyName.toUpperCase()} strategy throughout your optimization.\n- Return ONLY the improved prompt text with no extra commentary or markdown fences.\n- Do not change the task into writing code unless the original prompt explicitly requested code.`;
+  if (placeholders.length > 0) {
+    instruction += `\n- ${placeholderInstruction(placeholders)}`;
+  }
   return instruction;
 }
 
-// Provider calls (subset matching index.ts behavior)
-async function callAIProvider(provider: string, model: string, prompt: string, maxTokens: number, temperature: number): Promise<string | null> {
+// Provider calls go through the shared adapters; failures return null so callers fall back locally.
+// Speed mode allows a single retry so a fallback provider still fits inside the overall timeout.
+async function callAIProvider(provider: string, model: string, prompt: string, maxTokens: number, temperature: number, usage?: UsageLedger, providerConfigs?: ProviderConfigs, fallbackChain: FallbackTarget[] = []): Promise<string | null> {
   try {
-    switch (provider) {
-      case 'openai':
-      case 'groq':
-      case 'mistral':
-        return await callOpenAICompatible(provider, model, prompt, maxTokens, temperature);
-      case 'anthropic':
-        return await callAnthropic(model, prompt, maxTokens);
-      case 'google':
-        return await callGoogle(model, prompt, maxTokens);
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
+    usage?.assertWithinLimit();
+    const targets = [{ provider, model }, ...fallbackChain.filter(t => t.provider !== provider || t.model !== model)];
+    // Temperature is left at the provider default; style is enforced in the prompt
+    const response = await chatWithFallback(targets, {
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens,
+      timeoutMs: PROVIDER_TIMEOUT_MS,
+      retry: { maxAttempts: 2, maxDelayMs: 2000, maxRetryAfterMs: 3000 }
+    }, providerConfigs);
+    usage?.record(response.model, response.usage, response.provider);
+    const text = response.text.trim();
+    if (!text) {
+      console.error(`❌ ${response.provider} returned an empty response (stop reason: ${response.stopReason})`);
     }
+    return text || null;
   } catch (e) {
     console.error('callAIProvider error', e);
     return null;
   }
 }
 
-async function callOpenAICompatible(provider: string, model: string, prompt: string, maxTokens: number, temperature: number): Promise<string | null> {
-  const cfg = AI_PROVIDERS[provider as keyof typeof AI_PROVIDERS];
-  if (!cfg?.apiKey) throw new Error(`${provider} API key missing`);
-  
-  console.log(`🟢 ${provider} API call: ${model} with maxTokens: ${maxTokens}`);
-  
-  const isNewerModel = /^(gpt-5|gpt-4\.1|o3|o4)/i.test(model);
-  const payload: any = { model, messages: [{ role: 'user', content: prompt }] };
-  
-  if (isNewerModel) {
-    payload.max_completion_tokens = maxTokens;
-  } else {
-    payload.max_tokens = maxTokens;
-    // Ignore temperature here; enforce style in prompt
-  }
-  
-  // Add 15-second timeout for API calls (increased for reliability)
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 15000);
-  
-  try {
-    const res = await fetch(cfg.baseUrl, { 
-      method: 'POST', 
-      headers: { 'Authorization': `Bearer ${cfg.apiKey}`, 'Content-Type': 'application/json' }, 
-      body: JSON.stringify(payload),
-      signal: controller.signal
-    });
-    clearTimeout(timeoutId);
-    
-    if (!res.ok) { 
-      const errorText = await res.text();
-      console.error(`${provider} failed:`, errorText); 
-      return null; 
-    }
-    const data = await res.json();
-    return data?.choices?.[0]?.message?.content?.trim() ?? null;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    console.error(`${provider} API call failed:`, (error as Error).message);
-    return null;
-  }
-}
-
-async function callAnthropic(model: string, prompt: string, maxTokens: number): Promise<string | null> {
-  const cfg = AI_PROVIDERS.anthropic;
-  if (!cfg.apiKey) throw new Error('Anthropic API key missing');
-  
-  console.log(`🟣 Anthropic API call: ${model} with maxTokens: ${maxTokens}`);
-  
-  // Add 15-second timeout for API calls (increased for reliability)
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 15000);
-  
-  try {
-    const res = await fetch(cfg.baseUrl, { 
-      method: 'POST', 
-      headers: { 
-        'x-api-key': cfg.apiKey, 
-        'content-type': 'application/json', 
-        'anthropic-version': '2023-06-01' 
-      }, 
-      body: JSON.stringify({ 
-        model, 
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content: prompt }] 
-      }),
-      signal: controller.signal
-    });
-    clearTimeout(timeoutId);
-    
-    if (!res.ok) { 
-      const errorText = await res.text();
-      console.error('anthropic failed:', errorText); 
-      return null; 
-    }
-    const data = await res.json();
-    // data.content can be array segments; join text
-    const txt = Array.isArray(data?.content) ? data.content.map((c: any) => c.text).join('\n').trim() : data?.content?.[0]?.text?.trim();
-    return txt || null;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    console.error('Anthropic API call failed:', (error as Error).message);
-    return null;
-  }
-}
-
-async function callGoogle(model: string, prompt: string, maxTokens: number): Promise<string | null> {
-  const cfg = AI_PROVIDERS.google;
-  if (!cfg.apiKey) throw new Error('Google API key missing');
-  
-  console.log(`🔵 Google API call: ${model} with maxTokens: ${maxTokens}`);
-  
-  // Add 15-second timeout for API calls (increased for reliability)
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 15000);
-  
-  try {
-    const url = `${cfg.baseUrl}/${model}:generateContent?key=${cfg.apiKey}`;
-    const res = await fetch(url, { 
-      method: 'POST', 
-      headers: { 'Content-Type': 'application/json' }, 
-      body: JSON.stringify({ 
-        contents: [{ parts: [{ text: prompt }] }], 
-        generationConfig: { 
-          maxOutputTokens: maxTokens,
-          temperature: 0.7
-        } 
-      }),
-      signal: controller.signal
-    });
-    clearTimeout(timeoutId);
-    
-    if (!res.ok) { 
-      const errorText = await res.text();
-      console.error(`❌ Google API error (${res.status}):`, errorText); 
-      return null; 
-    }
-    const data = await res.json();
-    const txt = data?.candidates?.[0]?.content?.parts?.map((p: any) => p.text).join('\n').trim();
-    if (!txt) {
-      console.error('❌ Google API returned empty response:', JSON.stringify(data));
-    }
-    return txt || null;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    console.error('Google API call failed:', (error as Error).message);
-    return null;
-  }
-}
-
 // Strategy selection logic matching deep mode
 function selectBestStrategiesFromInsights(
   allStrategies: string[], 
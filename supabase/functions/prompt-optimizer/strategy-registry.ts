@@ -0,0 +1,310 @@
+// Strategy Registry: single source of truth for optimization strategies (deep + speed mode)
+
+export type StrategyFallback = (prompt: string, taskDescription: string, outputType: string, insights: any) => string;
+
+export interface OptimizationStrategy {
+  key: string;
+  name: string;
+  systemPrompt: string;
+  weight: number;
+  // Strategy is only offered when the condition passes for the original prompt
+  condition?: (prompt: string) => boolean;
+  // Deterministic local rewrite used when the optimization API call fails
+  fallback?: StrategyFallback;
+}
+
+const DEFAULT_STRATEGY_WEIGHT = 0.2;
+const CUSTOM_STRATEGY_PREFIX = 'custom:';
+
+export type StrategySet = Map<string, OptimizationStrategy>;
+
+const registry: StrategySet = new Map();
+
+export function registerStrategy(strategy: OptimizationStrategy): void {
+  registry.set(strategy.key, strategy);
+}
+
+export function getStrategy(key: string, strategies: StrategySet = registry): OptimizationStrategy | undefined {
+  return strategies.get(key);
+}
+
+export function getAllStrategies(strategies: StrategySet = registry): OptimizationStrategy[] {
+  return Array.from(strategies.values());
+}
+
+// Keys of all strategies whose condition (if any) passes for this prompt, in registration order
+export function getApplicableStrategyKeys(prompt: string, strategies: StrategySet = registry): string[] {
+  return getAllStrategies(strategies)
+    .filter(strategy => !strategy.condition || strategy.condition(prompt))
+    .map(strategy => strategy.key);
+}
+
+export function getStrategyDisplayName(key: string, strategies: StrategySet = registry): string {
+  return strategies.get(key)?.name || key;
+}
+
+export function getStrategyWeight(key: string, strategies: StrategySet = registry): number {
+  return strategies.get(key)?.weight ?? DEFAULT_STRATEGY_WEIGHT;
+}
+
+// Local rewrite for a strategy, falling back to clarity when the strategy has none
+export function applyStrategyFallback(key: string, prompt: string, taskDescription: string, outputType: string, insights: any, strategies: StrategySet = registry): string {
+  const fallback = strategies.get(key)?.fallback || registry.get('clarity')?.fallback || applyClarityFallback;
+  return fallback(prompt, taskDescription, outputType, insights);
+}
+
+export function isCustomStrategyKey(key: string): boolean {
+  return key.startsWith(CUSTOM_STRATEGY_PREFIX);
+}
+
+// Convert a custom_strategies row into a registry entry (keyed "custom:<id>")
+export function toCustomStrategy(row: any): OptimizationStrategy {
+  let condition: ((prompt: string) => boolean) | undefined;
+  const pattern = (row.applicability_regex || '').trim();
+  if (pattern) {
+    try {
+      const regex = new RegExp(pattern, 'i');
+      condition = (prompt: string) => regex.test(prompt);
+    } catch (error) {
+      console.error(`⚠️ Invalid applicability regex for custom strategy "${row.name}":`, error);
+      condition = () => false;
+    }
+  }
+
+  const weight = Number(row.weight);
+  return {
+    key: `${CUSTOM_STRATEGY_PREFIX}${row.id}`,
+    name: row.name,
+    systemPrompt: row.instruction,
+    weight: Number.isFinite(weight) ? Math.min(1, Math.max(0, weight)) : DEFAULT_STRATEGY_WEIGHT,
+    condition
+  };
+}
+
+// Load the user's active custom strategies; failures fall back to built-ins only
+export async function loadCustomStrategies(supabase: any, userId: string): Promise<OptimizationStrategy[]> {
+  try {
+    const { data, error } = await supabase
+      .from('custom_strategies')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    console.log(`🧩 Loaded ${data?.length || 0} custom strategies`);
+    return (data || []).map(toCustomStrategy);
+  } catch (error) {
+    console.error('Error loading custom strategies:', error);
+    return [];
+  }
+}
+
+// Request-scoped strategy set: built-ins plus the caller's custom strategies
+export function buildStrategySet(customStrategies: OptimizationStrategy[] = []): StrategySet {
+  const strategies: StrategySet = new Map(registry);
+  customStrategies.forEach(strategy => strategies.set(strategy.key, strategy));
+  return strategies;
+}
+
+export function hasGoodStructure(prompt: string): boolean {
+  const structureIndicators = [
+    /\d+\./g,  // numbered lists
+    /[-*]\s/g, // bullet points
+    /:\s*$/gm, // colons at end of lines
+    /#{1,6}\s/g, // headers
+    /\*\*.*\*\*/g // bold headers
+  ];
+
+  return structureIndicators.some(pattern => pattern.test(prompt));
+}
+
+// Local fallback rewrites
+function applyClarityFallback(prompt: string, taskDescription: string, outputType: string): string {
+  let improved = '';
+  if (outputType === 'code') {
+    improved = `Write clean, well-documented ${prompt}. Include:\n- Clear variable names and function structure\n- Inline comments explaining complex logic\n- Error handling for edge cases\n- Example usage demonstrating key features`;
+  } else if (outputType === 'list') {
+    improved = `Create a comprehensive, well-organized ${prompt}. Ensure:\n- Each item is clearly defined and actionable\n- Logical grouping and ordering of related items\n- Specific details rather than vague descriptions\n- Consistent formatting throughout`;
+  } else if (outputType === 'json') {
+    improved = `Respond in valid JSON to: ${prompt}\n\nRequired keys:\n- "summary"\n- "steps"\n- "notes"\nReturn only JSON.`;
+  } else {
+    improved = `Provide a clear, detailed response to: ${prompt}. Include:\n- Specific examples and concrete details\n- Well-structured explanations with logical flow\n- Practical applications where relevant\n- Clear conclusions or next steps`;
+  }
+  if (taskDescription) {
+    improved += `\n\nContext: ${taskDescription}`;
+  }
+  return improved;
+}
+
+function applySpecificityFallback(prompt: string, taskDescription: string, outputType: string, insights: any): string {
+  let enhanced = prompt;
+
+  if (outputType === 'code') {
+    enhanced += '\n\nSpecific requirements:\n- Include proper error handling\n- Add meaningful variable names\n- Provide working examples\n- Include necessary imports/dependencies';
+  } else if (outputType === 'list') {
+    enhanced += '\n\nEnsure specificity:\n- Include specific quantities or numbers where applicable\n- Provide concrete examples for each point\n- Add context or reasoning for important items';
+  } else if (outputType === 'json') {
+    enhanced += '\n\nBe specific about the JSON structure and required fields. Return only JSON.';
+  } else {
+    enhanced += '\n\nBe specific about:\n- Exact steps or processes involved\n- Measurable outcomes or criteria\n- Real-world examples and applications\n- Timeframes and expectations';
+  }
+
+  if (insights?.successful_strategies?.specificity?.patterns?.length > 0) {
+    const patterns = insights.successful_strategies.specificity.patterns.slice(0, 2);
+    enhanced += `\n\nIncorporate these proven patterns: ${patterns.join(', ')}`;
+  }
+
+  if (taskDescription) {
+    enhanced += `\n\nContext: ${taskDescription}`;
+  }
+
+  return enhanced;
+}
+
+function applyStructureFallback(prompt: string, taskDescription: string, outputType: string): string {
+  if (hasGoodStructure(prompt)) return prompt;
+
+  let structured = '';
+  if (outputType === 'code') {
+    structured = `${prompt}\n\nStructure your response as follows:\n1. **Setup & Dependencies**: List required imports and setup\n2. **Core Implementation**: Main code with clear comments\n3. **Error Handling**: Include try-catch blocks and validation\n4. **Usage Example**: Demonstrate how to use the code\n5. **Testing**: Basic test cases or validation steps`;
+  } else if (outputType === 'list') {
+    structured = `${prompt}\n\nOrganize your response with this structure:\n1. **Overview**: Brief introduction to the topic\n2. **Main Categories**: Group related items together\n3. **Detailed Items**: Specific, actionable points for each category\n4. **Priority Ranking**: Order by importance or urgency\n5. **Implementation Notes**: Additional context or considerations`;
+  } else {
+    structured = `${prompt}\n\nStructure your response as follows:\n1. **Introduction**: Brief overview of the topic\n2. **Main Content**: Detailed explanation with examples\n3. **Key Points**: Important takeaways or considerations\n4. **Practical Applications**: How to apply this information\n5. **Conclusion**: Summary and next steps`;
+  }
+
+  if (taskDescription) {
+    structured += `\n\nContext: ${taskDescription}`;
+  }
+
+  return structured;
+}
+
+function applyEfficiencyFallback(prompt: string, taskDescription: string, outputType: string): string {
+  // Remove redundant words/phrases
+  let optimized = prompt
+    .replace(/\b(please|kindly|if possible|if you would|if you could)\b/gi, '')
+    .replace(/\b(very|really|quite|rather|somewhat)\b/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (outputType === 'code') {
+    optimized += '\n\nFocus on efficiency: Use optimal algorithms, minimize memory usage, and include performance considerations.';
+  } else if (outputType === 'list') {
+    optimized += '\n\nPrioritize high-impact items and organize by effectiveness.';
+  } else if (outputType === 'json') {
+    optimized += '\n\nReturn only the essential fields in compact, valid JSON.';
+  } else {
+    optimized += '\n\nProvide concise, actionable information with maximum value.';
+  }
+
+  if (taskDescription) {
+    optimized += `\n\nContext: ${taskDescription}`;
+  }
+
+  return optimized;
+}
+
+function applyConstraintsFallback(prompt: string, taskDescription: string, outputType: string): string {
+  let constrained = `${prompt}`;
+
+  const outputHint = outputType === 'json'
+    ? 'Respond strictly with valid JSON only.'
+    : outputType === 'code'
+      ? 'Return complete, runnable code with necessary imports.'
+      : 'Use a clear, consistent format.';
+
+  constrained += `\n\nConstraints and format:\n- Define acceptance criteria and edge cases\n- Specify any limits (time, tokens, complexity)\n- ${outputHint}`;
+
+  if (taskDescription) {
+    constrained += `\n\nContext: ${taskDescription}`;
+  }
+
+  return constrained;
+}
+
+function applyElaborationFallback(prompt: string): string {
+  // Add context and reasoning guidance
+  return `${prompt}\n\nPlease provide relevant context, reasoning guidance, and any implicit assumptions needed to make your response complete and comprehensive.`;
+}
+
+function applyIntentFallback(prompt: string): string {
+  // Align with user's likely goal
+  const aligned = prompt.replace(/\b(improve|better|fix|enhance|optimize|analyze|make)\b/gi, (match) => {
+    return `provide a detailed and actionable ${match}ment for`;
+  });
+  return aligned === prompt ? `${prompt}\n\nBe specific and actionable in your response.` : aligned;
+}
+
+function applyAdaptabilityFallback(prompt: string): string {
+  // Make prompt work across models
+  return `${prompt}\n\nProvide a clear, well-structured response that would be consistent across different AI models.`;
+}
+
+// Built-in strategies
+registerStrategy({
+  key: 'clarity',
+  name: "Clarity Enhancement",
+  systemPrompt: "You are a prompt optimization expert. Your job is to make the given prompt clearer and more specific while PRESERVING THE EXACT INTENT AND ACTION. If the user asks to 'say hello', the optimized prompt should still result in the AI saying 'hello' - just with better structure. Do NOT change what the user is asking for - only improve HOW they're asking for it:",
+  weight: 0.3,
+  fallback: applyClarityFallback
+});
+
+registerStrategy({
+  key: 'specificity',
+  name: "Specificity Improvement",
+  systemPrompt: "You are a prompt optimization expert. Your job is to add specific details to make this prompt more precise while KEEPING THE CORE REQUEST UNCHANGED. If the user asks to 'write code', don't ask for 'analyze code' instead. Preserve their exact intent and action. Do NOT answer the prompt - only improve how it asks the question:",
+  weight: 0.25,
+  fallback: applySpecificityFallback
+});
+
+registerStrategy({
+  key: 'efficiency',
+  name: "Efficiency Optimization",
+  systemPrompt: "You are a prompt optimization expert. Your job is to optimize this prompt for better AI performance while MAINTAINING THE EXACT SAME GOAL. Do not change what the user wants to accomplish. If they ask to generate something, keep it as generate. If they ask to explain, keep it as explain. Do NOT answer the prompt - only improve how it asks the question:",
+  weight: 0.2,
+  fallback: applyEfficiencyFallback
+});
+
+registerStrategy({
+  key: 'structure',
+  name: "Structure and Steps",
+  systemPrompt: "You are a prompt optimization expert. Your job is to improve the logical structure with step-by-step instructions while PRESERVING THE ORIGINAL REQUEST. The end goal must be identical to the original prompt. Do NOT answer the prompt - only improve how it asks the question:",
+  weight: 0.15,
+  fallback: applyStructureFallback
+});
+
+registerStrategy({
+  key: 'constraints',
+  name: "Constraints and Format",
+  systemPrompt: "You are a prompt optimization expert. Your job is to add constraints and output format specifications while KEEPING THE CORE ACTION THE SAME. If the user asks to 'say bye', the optimized version should still tell the AI to say bye, just with better formatting. Do NOT answer the prompt - only improve how it asks the question:",
+  weight: 0.1,
+  fallback: applyConstraintsFallback
+});
+
+registerStrategy({
+  key: 'elaboration',
+  name: "Elaboration & Context Expansion",
+  systemPrompt: "You are a prompt optimization expert. Your job is to expand this prompt to include relevant context while ABSOLUTELY PRESERVING THE CORE INTENT. The fundamental action/goal must remain unchanged. If they want the AI to output 'hello', don't change it to 'create a greeting' - keep the exact action but add helpful context. Do NOT answer the prompt - only improve how it asks the question:",
+  weight: 0.12,
+  condition: (prompt: string) => prompt.length < 200, // Trigger for short/under-contextualized prompts
+  fallback: applyElaborationFallback
+});
+
+registerStrategy({
+  key: 'intent',
+  name: "User Intent Alignment",
+  systemPrompt: "You are a prompt optimization expert. Your job is to clarify the user's intent and make it more actionable WITHOUT CHANGING THEIR GOAL. If they ask to 'fix code', keep it as fixing code - don't change to 'analyze' or 'review'. Preserve the exact verb and outcome. Do NOT answer the prompt - only improve how it asks the question:",
+  weight: 0.12,
+  condition: (prompt: string) => /\b(improve|better|fix|enhance|optimize|analyze|make)\b/i.test(prompt), // Trigger for vague verbs
+  fallback: applyIntentFallback
+});
+
+registerStrategy({
+  key: 'adaptability',
+  name: "Adaptability Optimization",
+  systemPrompt: "You are a prompt optimization expert. Your job is to adapt this prompt for consistent results across multiple AI models while KEEPING THE EXACT SAME REQUEST. Do not alter what the user is asking the AI to do - just make the instructions clearer for different models. Do NOT answer the prompt - only improve how it asks the question:",
+  weight: 0.10,
+  fallback: applyAdaptabilityFallback
+});
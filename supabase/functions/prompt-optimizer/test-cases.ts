@@ -0,0 +1,210 @@
+// Test Cases: score optimized prompts by running them against user-supplied input/expected-output pairs
+
+import { validateJsonOutput, type JsonSchema } from '../_shared/json-schema.ts';
+
+// 'schema' is added by the server when a run has a JSON Schema; users cannot submit it directly
+export type AssertionType = 'contains' | 'regex' | 'json' | 'equals' | 'schema';
+
+export interface TestAssertion {
+  type: AssertionType;
+  value?: string;
+}
+
+export interface TestCase {
+  input: string;
+  expectedOutput?: string;
+  assertions: TestAssertion[];
+}
+
+export interface AssertionResult {
+  type: AssertionType;
+  value?: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface TestCaseResult {
+  input: string;
+  output: string;
+  passed: boolean;
+  assertions: AssertionResult[];
+}
+
+export interface TestSuiteResult {
+  passRate: number;
+  passed: number;
+  total: number;
+  results: TestCaseResult[];
+}
+
+const ASSERTION_TYPES: AssertionType[] = ['contains', 'regex', 'json', 'equals'];
+const MAX_TEST_CASES = 10;
+// Regex assertions run server-side once per case per variant, so both sides of the match are bounded
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_INPUT_LENGTH = 10000;
+
+interface RawTestCase {
+  input?: unknown;
+  expectedOutput?: unknown;
+  assertions?: Array<{ type?: unknown; value?: unknown }>;
+}
+
+// Drop malformed entries; an expected output without assertions becomes an "equals" check
+export function normalizeTestCases(raw: unknown): TestCase[] {
+  if (!Array.isArray(raw)) return [];
+
+  return (raw as RawTestCase[])
+    .filter(tc => tc && typeof tc.input === 'string')
+    .slice(0, MAX_TEST_CASES)
+    .map(tc => {
+      const assertions: TestAssertion[] = (Array.isArray(tc.assertions) ? tc.assertions : [])
+        .filter(a => a && ASSERTION_TYPES.includes(a.type as AssertionType))
+        .map(a => ({ type: a.type as AssertionType, value: typeof a.value === 'string' ? a.value : undefined }))
+        .filter(a => {
+          const rejection = a.type === 'regex' ? unsafeRegexReason(a.value ?? '') : null;
+          if (rejection) console.warn(`Dropping regex assertion /${(a.value ?? '').slice(0, 50)}/: ${rejection}`);
+          return !rejection;
+        });
+
+      const expectedOutput = typeof tc.expectedOutput === 'string' && tc.expectedOutput.trim() ? tc.expectedOutput : undefined;
+      if (expectedOutput && assertions.length === 0) {
+        assertions.push({ type: 'equals', value: expectedOutput });
+      }
+
+      return { input: tc.input as string, expectedOutput, assertions };
+    })
+    .filter(tc => tc.assertions.length > 0);
+}
+
+// Why a pattern could stall the worker, or null when it looks safe: too long, a backreference, or a quantified
+// group that itself contains a quantifier (e.g. (a+)+), the usual causes of catastrophic backtracking
+export function unsafeRegexReason(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) return `longer than ${MAX_REGEX_LENGTH} characters`;
+  if (/\\[1-9]|\\k</.test(pattern)) return 'backreferences are not allowed';
+
+  // One entry per open group: whether a quantifier appears anywhere inside it
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (char === ']') inClass = false;
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const quantifiedInside = groups.pop() ?? false;
+      const quantifiedAfter = /^(?:[+*]|\{\d+,)/.test(pattern.slice(i + 1));
+      if (quantifiedInside && quantifiedAfter) return 'nested quantifiers like (a+)+ are not allowed';
+      if (quantifiedInside && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (/[+*{]/.test(char) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return null;
+}
+
+// Every case must also produce output matching the run's JSON Schema
+export function withSchemaAssertions(testCases: TestCase[], schema: JsonSchema | null): TestCase[] {
+  if (!schema) return testCases;
+  const assertion: TestAssertion = { type: 'schema', value: JSON.stringify(schema) };
+  return testCases.map(tc => ({ ...tc, assertions: [...tc.assertions, assertion] }));
+}
+
+// Insert the case input into the prompt: replace {{input}} if present, otherwise append it
+export function buildTestPrompt(prompt: string, input: string): string {
+  if (prompt.includes('{{input}}')) {
+    return prompt.split('{{input}}').join(input);
+  }
+  return `${prompt}\n\nInput:\n${input}`;
+}
+
+export function evaluateAssertion(output: string, assertion: TestAssertion): AssertionResult {
+  const value = assertion.value ?? '';
+  switch (assertion.type) {
+    case 'contains': {
+      const passed = output.toLowerCase().includes(value.toLowerCase());
+      return { ...assertion, passed, message: passed ? `Contains "${value}"` : `Missing "${value}"` };
+    }
+    case 'regex': {
+      const rejection = unsafeRegexReason(value);
+      if (rejection) {
+        return { ...assertion, passed: false, message: `Regex not run: ${rejection}` };
+      }
+      try {
+        const passed = new RegExp(value, 'i').test(output.slice(0, MAX_REGEX_INPUT_LENGTH));
+        return { ...assertion, passed, message: passed ? `Matches /${value}/` : `Does not match /${value}/` };
+      } catch {
+        return { ...assertion, passed: false, message: `Invalid regex /${value}/` };
+      }
+    }
+    case 'json': {
+      try {
+        JSON.parse(stripJsonFence(output));
+        return { ...assertion, passed: true, message: 'Valid JSON' };
+      } catch {
+        return { ...assertion, passed: false, message: 'Invalid JSON' };
+      }
+    }
+    case 'schema': {
+      const validation = validateJsonOutput(output, JSON.parse(value));
+      return {
+        type: assertion.type,
+        passed: validation.valid,
+        message: validation.valid ? 'Matches JSON Schema' : validation.errors.join('; ')
+      };
+    }
+    case 'equals': {
+      const passed = normalizeOutput(output) === normalizeOutput(value);
+      return { ...assertion, passed, message: passed ? 'Equals expected output' : 'Does not equal expected output' };
+    }
+  }
+}
+
+// Run every case through the target model; a case passes only when all its assertions pass
+export async function runTestSuite(
+  prompt: string,
+  testCases: TestCase[],
+  runModel: (prompt: string) => Promise<string | null>
+): Promise<TestSuiteResult> {
+  const results = await Promise.all(testCases.map(async (testCase): Promise<TestCaseResult> => {
+    let output = '';
+    try {
+      output = (await runModel(buildTestPrompt(prompt, testCase.input))) || '';
+    } catch (error) {
+      console.error('Test case run failed:', error);
+    }
+
+    const assertions = testCase.assertions.map(assertion => evaluateAssertion(output, assertion));
+    return {
+      input: testCase.input,
+      output,
+      passed: output.length > 0 && assertions.every(a => a.passed),
+      assertions
+    };
+  }));
+
+  const passed = results.filter(r => r.passed).length;
+  return {
+    passRate: results.length > 0 ? passed / results.length : 0,
+    passed,
+    total: results.length,
+    results
+  };
+}
+
+function normalizeOutput(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function stripJsonFence(text: string): string {
+  const fenceMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  return (fenceMatch ? fenceMatch[1] : text).trim();
+}
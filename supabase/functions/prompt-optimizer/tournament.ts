@@ -0,0 +1,181 @@
+// Tournament: rank variants by pairwise judge comparisons using a Bradley-Terry model
+
+import type { JudgeCall } from './evaluators.ts';
+
+export interface TournamentEntry {
+  prompt: string;
+  response: string;
+  strategy: string;
+}
+
+export interface PairwiseComparison {
+  a: number;
+  b: number;
+  // 1 = a wins, 0 = b wins, 0.5 = tie
+  outcome: number;
+  rationale: string;
+}
+
+export interface TournamentRanking {
+  index: number;
+  strategy: string;
+  rating: number;
+  ciLow: number;
+  ciHigh: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface TournamentResult {
+  ranking: TournamentRanking[];
+  // matrix[i][j] = points i scored against j (1 win, 0.5 tie, 0 loss); null on the diagonal
+  matrix: (number | null)[][];
+  comparisons: PairwiseComparison[];
+}
+
+const BASE_RATING = 1500;
+const BOOTSTRAP_SAMPLES = 200;
+const MAX_ITERATIONS = 100;
+// Virtual tie between every pair keeps strengths finite when one variant wins everything
+const PRIOR_TIES = 0.5;
+
+export async function runTournament(
+  entries: TournamentEntry[],
+  originalPrompt: string,
+  callJudge: JudgeCall
+): Promise<TournamentResult> {
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) pairs.push([i, j]);
+  }
+
+  console.log(`🏟️ Running tournament: ${entries.length} variants, ${pairs.length} pairwise comparisons`);
+
+  const comparisons = await Promise.all(pairs.map(async ([a, b], pairIndex) => {
+    // Alternate presentation order to offset the judge's position bias
+    const swap = pairIndex % 2 === 1;
+    const [first, second] = swap ? [b, a] : [a, b];
+    const verdict = await judgePair(entries[first], entries[second], originalPrompt, callJudge);
+    const firstScore = verdict.winner === 'A' ? 1 : verdict.winner === 'B' ? 0 : 0.5;
+    return { a, b, outcome: swap ? 1 - firstScore : firstScore, rationale: verdict.rationale };
+  }));
+
+  const n = entries.length;
+  const matrix: (number | null)[][] = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => i === j ? null : 0));
+  const record = entries.map(() => ({ wins: 0, losses: 0, ties: 0 }));
+  comparisons.forEach(({ a, b, outcome }) => {
+    matrix[a][b] = outcome;
+    matrix[b][a] = 1 - outcome;
+    if (outcome === 0.5) {
+      record[a].ties++;
+      record[b].ties++;
+    } else if (outcome === 1) {
+      record[a].wins++;
+      record[b].losses++;
+    } else {
+      record[b].wins++;
+      record[a].losses++;
+    }
+  });
+
+  const ratings = toRatings(fitBradleyTerry(n, comparisons));
+
+  // Bootstrap over comparisons for 95% confidence intervals
+  const samples: number[][] = entries.map(() => []);
+  for (let s = 0; s < BOOTSTRAP_SAMPLES; s++) {
+    const resampled = comparisons.map(() => comparisons[Math.floor(Math.random() * comparisons.length)]);
+    toRatings(fitBradleyTerry(n, resampled)).forEach((rating, i) => samples[i].push(rating));
+  }
+
+  const ranking = entries
+    .map((entry, i) => {
+      const sorted = samples[i].sort((x, y) => x - y);
+      return {
+        index: i,
+        strategy: entry.strategy,
+        rating: Math.round(ratings[i]),
+        ciLow: Math.round(percentile(sorted, 0.025)),
+        ciHigh: Math.round(percentile(sorted, 0.975)),
+        ...record[i]
+      };
+    })
+    .sort((x, y) => y.rating - x.rating);
+
+  return { ranking, matrix, comparisons };
+}
+
+async function judgePair(
+  first: TournamentEntry,
+  second: TournamentEntry,
+  originalPrompt: string,
+  callJudge: JudgeCall
+): Promise<{ winner: 'A' | 'B' | 'tie'; rationale: string }> {
+  const judgePrompt = `You are an impartial judge comparing two AI responses to the same request.\n\nThe user's original request:\n${originalPrompt}\n\n=== Response A ===\n${first.response}\n\n=== Response B ===\n${second.response}\n\nWhich response better fulfills the original request? Judge on correctness, completeness and adherence to what was asked, not on length.\n\nReturn ONLY JSON: {"winner": "A" | "B" | "tie", "rationale": "<one sentence>"}`;
+
+  try {
+    const raw = await callJudge(judgePrompt);
+    const jsonMatch = raw?.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      const parsed = JSON.parse(jsonMatch[0]);
+      const winner = String(parsed.winner).trim().toUpperCase();
+      return {
+        winner: winner === 'A' || winner === 'B' ? winner : 'tie',
+        rationale: typeof parsed.rationale === 'string' ? parsed.rationale : ''
+      };
+    }
+  } catch (error) {
+    console.error('🏟️ Pairwise judge call failed:', error);
+  }
+  return { winner: 'tie', rationale: 'Judge verdict unavailable' };
+}
+
+// Minorization-maximization fit of Bradley-Terry strengths
+function fitBradleyTerry(n: number, comparisons: PairwiseComparison[]): number[] {
+  const wins = new Array(n).fill(0);
+  const games: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      wins[i] += PRIOR_TIES / 2;
+      wins[j] += PRIOR_TIES / 2;
+      games[i][j] += PRIOR_TIES;
+      games[j][i] += PRIOR_TIES;
+    }
+  }
+  comparisons.forEach(({ a, b, outcome }) => {
+    wins[a] += outcome;
+    wins[b] += 1 - outcome;
+    games[a][b]++;
+    games[b][a]++;
+  });
+
+  let strengths = new Array(n).fill(1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = strengths.map((p, i) => {
+      let denominator = 0;
+      for (let j = 0; j < n; j++) {
+        if (j !== i && games[i][j] > 0) denominator += games[i][j] / (p + strengths[j]);
+      }
+      return denominator > 0 ? wins[i] / denominator : p;
+    });
+    const total = next.reduce((sum, p) => sum + p, 0);
+    const normalized = next.map(p => (p * n) / total);
+    const delta = Math.max(...normalized.map((p, i) => Math.abs(p - strengths[i])));
+    strengths = normalized;
+    if (delta < 1e-6) break;
+  }
+  return strengths;
+}
+
+// Express strengths on an Elo-like scale centred on BASE_RATING
+function toRatings(strengths: number[]): number[] {
+  const logMean = strengths.reduce((sum, p) => sum + Math.log10(p), 0) / strengths.length;
+  return strengths.map(p => BASE_RATING + 400 * (Math.log10(p) - logMean));
+}
+
+function percentile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[position];
+}
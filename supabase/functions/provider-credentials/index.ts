@@ -0,0 +1,151 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { decryptSecret, encryptSecret } from '../_shared/crypto.ts';
+import { CREDENTIAL_PROVIDERS, PROVIDER_ADAPTERS, chat, keyHint, type ProviderId } from '../_shared/providers/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Cheapest chat model per provider, used to check that a key is accepted
+const TEST_MODELS: Partial<Record<ProviderId, string>> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-20241022',
+  google: 'gemini-2.0-flash-lite',
+  groq: 'llama-3.1-8b-instant',
+  mistral: 'mistral-small-latest'
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Send a one-token request using only this key, never the platform's
+async function testKey(provider: ProviderId, apiKey: string): Promise<{ ok: boolean; error?: string }> {
+  try {
+    await chat(provider, {
+      model: TEST_MODELS[provider]!,
+      messages: [{ role: 'user', content: 'ping' }],
+      maxTokens: 1,
+      timeoutMs: 15000,
+      // Report a bad key straight away rather than retrying it
+      retry: { maxAttempts: 1 }
+    }, {
+      user: { [provider]: { apiKey, baseUrl: PROVIDER_ADAPTERS[provider].defaultBaseUrl } },
+      allowPlatformKeys: false
+    });
+    return { ok: true };
+  } catch (error: any) {
+    return { ok: false, error: error.message };
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { action, provider, apiKey } = await req.json().catch(() => ({}));
+
+    if (!CREDENTIAL_PROVIDERS.includes(provider)) {
+      return jsonResponse({ error: `Unsupported provider: ${provider}` }, 400);
+    }
+
+    if (action === 'save') {
+      const key = typeof apiKey === 'string' ? apiKey.trim() : '';
+      if (!key) {
+        return jsonResponse({ error: 'API key is required' }, 400);
+      }
+
+      const { ciphertext, iv } = await encryptSecret(key);
+      const { error } = await supabase
+        .from('provider_credentials')
+        .upsert({
+          user_id: user.id,
+          provider,
+          encrypted_key: ciphertext,
+          key_iv: iv,
+          key_hint: keyHint(key),
+          last_tested_at: null,
+          last_test_ok: null,
+          last_test_error: null
+        }, { onConflict: 'user_id,provider' });
+
+      if (error) {
+        console.error('Error saving provider credential:', error);
+        return jsonResponse({ error: 'Failed to save API key' }, 500);
+      }
+
+      console.log(`🔑 Saved ${provider} key for user ${user.id}`);
+      return jsonResponse({ provider, keyHint: keyHint(key) });
+    }
+
+    if (action === 'test') {
+      // Test an unsaved key from the form, or the stored one
+      let key = typeof apiKey === 'string' ? apiKey.trim() : '';
+      const { data: stored } = await supabase
+        .from('provider_credentials')
+        .select('id, encrypted_key, key_iv')
+        .eq('user_id', user.id)
+        .eq('provider', provider)
+        .maybeSingle();
+
+      if (!key) {
+        if (!stored) {
+          return jsonResponse({ error: `No ${provider} API key saved` }, 404);
+        }
+        try {
+          key = await decryptSecret({ ciphertext: stored.encrypted_key, iv: stored.key_iv });
+        } catch (error) {
+          console.error('Error decrypting provider credential:', error);
+          return jsonResponse({ error: 'Saved key could not be decrypted. Please save it again.' }, 500);
+        }
+      }
+
+      const result = await testKey(provider, key);
+      console.log(`🧪 ${provider} key test for user ${user.id}: ${result.ok ? 'ok' : result.error}`);
+
+      // Only record the outcome against the stored key when that is what we tested
+      if (stored && !apiKey) {
+        await supabase
+          .from('provider_credentials')
+          .update({
+            last_tested_at: new Date().toISOString(),
+            last_test_ok: result.ok,
+            last_test_error: result.error ?? null
+          })
+          .eq('id', stored.id);
+      }
+
+      return jsonResponse({ provider, ...result });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error: any) {
+    console.error('Error in provider-credentials function:', error);
+    return jsonResponse({ error: error.message || 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,45 @@
+-- Create custom_strategies table for user-defined optimization strategies
+CREATE TABLE public.custom_strategies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  instruction TEXT NOT NULL,
+  applicability_regex TEXT,
+  weight NUMERIC NOT NULL DEFAULT 0.15,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT custom_strategies_weight_range CHECK (weight >= 0 AND weight <= 1)
+);
+
+-- Enable RLS
+ALTER TABLE public.custom_strategies ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for custom_strategies
+CREATE POLICY "Users can view their own custom strategies" 
+ON public.custom_strategies 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own custom strategies" 
+ON public.custom_strategies 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own custom strategies" 
+ON public.custom_strategies 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own custom strategies" 
+ON public.custom_strategies 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_custom_strategies_user_id ON public.custom_strategies(user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_custom_strategies_updated_at
+BEFORE UPDATE ON public.custom_strategies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,5 @@
+-- Track which refinement round produced each optimization variant
+ALTER TABLE public.optimization_history
+ADD COLUMN IF NOT EXISTS optimization_cycle INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_optimization_history_prompt_cycle ON public.optimization_history(prompt_id, optimization_cycle);
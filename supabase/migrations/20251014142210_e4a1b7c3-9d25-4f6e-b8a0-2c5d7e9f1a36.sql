@@ -0,0 +1,39 @@
+-- Create optimization_jobs table so deep optimizations run as server-side jobs the client can poll and resume
+CREATE TABLE public.optimization_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'deep',
+  status TEXT NOT NULL DEFAULT 'queued',
+  payload JSONB NOT NULL,
+  progress JSONB NOT NULL DEFAULT '{}'::jsonb,
+  result JSONB,
+  error TEXT,
+  prompt_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT optimization_jobs_status_check CHECK (status IN ('queued', 'running', 'completed', 'failed'))
+);
+
+-- Enable RLS
+ALTER TABLE public.optimization_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created and advanced by the prompt-optimizer function; users can only read and clear their own
+CREATE POLICY "Users can view their own optimization jobs"
+ON public.optimization_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own optimization jobs"
+ON public.optimization_jobs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_optimization_jobs_user_status ON public.optimization_jobs(user_id, status, created_at DESC);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_optimization_jobs_updated_at
+BEFORE UPDATE ON public.optimization_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
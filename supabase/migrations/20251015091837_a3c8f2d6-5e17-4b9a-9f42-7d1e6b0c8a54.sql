@@ -0,0 +1,14 @@
+-- Record real token usage and estimated cost for optimization runs, their variants and agent invocations
+ALTER TABLE public.prompts
+ADD COLUMN IF NOT EXISTS tokens_used INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.optimization_history
+ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.agent_logs
+ADD COLUMN IF NOT EXISTS tokens_used INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_prompts_user_created_at ON public.prompts(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_agent_logs_user_created_at ON public.agent_logs(user_id, created_at);
@@ -0,0 +1,28 @@
+-- Add per-user spend caps to user_settings; NULL means no limit for that period
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS budget_unit TEXT NOT NULL DEFAULT 'usd',
+ADD COLUMN IF NOT EXISTS daily_budget NUMERIC(14,4),
+ADD COLUMN IF NOT EXISTS monthly_budget NUMERIC(14,4),
+ADD CONSTRAINT user_settings_budget_unit_check CHECK (budget_unit IN ('usd', 'tokens'));
+
+-- Create usage_records table: one row per billed run, kept independently of prompt history retention
+CREATE TABLE public.usage_records (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  source TEXT NOT NULL,
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+  breakdown JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.usage_records ENABLE ROW LEVEL SECURITY;
+
+-- Records are written by edge functions; users can only read their own
+CREATE POLICY "Users can view their own usage records"
+ON public.usage_records
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_usage_records_user_created_at ON public.usage_records(user_id, created_at DESC);
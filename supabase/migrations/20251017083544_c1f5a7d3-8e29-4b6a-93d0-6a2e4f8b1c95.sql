@@ -0,0 +1,42 @@
+-- Create custom_providers table for each user's own OpenAI-compatible endpoint (vLLM, Ollama, LiteLLM, ...)
+CREATE TABLE public.custom_providers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  name TEXT NOT NULL DEFAULT 'Custom',
+  base_url TEXT NOT NULL,
+  auth_header TEXT,
+  auth_value TEXT,
+  models TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.custom_providers ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own custom provider"
+ON public.custom_providers
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own custom provider"
+ON public.custom_providers
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own custom provider"
+ON public.custom_providers
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own custom provider"
+ON public.custom_providers
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_custom_providers_updated_at
+BEFORE UPDATE ON public.custom_providers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
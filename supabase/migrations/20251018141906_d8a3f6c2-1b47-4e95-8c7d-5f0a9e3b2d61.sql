@@ -0,0 +1,40 @@
+-- Create provider_credentials table for users' own provider API keys, encrypted by the provider-credentials function
+CREATE TABLE public.provider_credentials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  provider TEXT NOT NULL,
+  encrypted_key TEXT NOT NULL,
+  key_iv TEXT NOT NULL,
+  key_hint TEXT,
+  last_tested_at TIMESTAMP WITH TIME ZONE,
+  last_test_ok BOOLEAN,
+  last_test_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT provider_credentials_user_provider_key UNIQUE (user_id, provider),
+  CONSTRAINT provider_credentials_provider_check CHECK (provider IN ('openai', 'anthropic', 'google', 'groq', 'mistral'))
+);
+
+-- Enable RLS
+ALTER TABLE public.provider_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Keys are written only by the provider-credentials function; users can list and remove their own
+CREATE POLICY "Users can view their own provider credentials"
+ON public.provider_credentials
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own provider credentials"
+ON public.provider_credentials
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_provider_credentials_updated_at
+BEFORE UPDATE ON public.provider_credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether calls for providers without a user key may use the platform's keys
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS allow_platform_keys BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,3 @@
+-- Ordered providers an agent falls back to when its own provider keeps failing, e.g. [{"provider": "openai", "model": "gpt-4o-mini"}]
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS fallback_chain JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,3 @@
+-- JSON Schema an agent's responses must match; chat mode validates against it and optimization modes weave it into the prompt
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS json_schema JSONB;
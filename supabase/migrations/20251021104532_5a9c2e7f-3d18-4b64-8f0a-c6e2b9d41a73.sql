@@ -0,0 +1,54 @@
+-- Server-side conversation state for API agents, so clients can hold multi-turn chats without resending history
+CREATE TABLE public.agent_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  title TEXT,
+  -- Running summary of the earliest turns, for agents that summarize instead of truncating
+  summary TEXT,
+  summarized_count INTEGER NOT NULL DEFAULT 0,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.agent_conversation_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.agent_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Order within the conversation; a turn and its reply are written in one insert and share created_at
+  position INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.agent_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_conversation_messages ENABLE ROW LEVEL SECURITY;
+
+-- Turns are written by agent-invoke with the service role; owners can read and clean up their agents' conversations
+CREATE POLICY "Users can view their own agent conversations"
+  ON public.agent_conversations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own agent conversations"
+  ON public.agent_conversations FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own agent conversation messages"
+  ON public.agent_conversation_messages FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_agent_conversations_updated_at
+  BEFORE UPDATE ON public.agent_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_agent_conversations_agent_id ON public.agent_conversations(agent_id, updated_at DESC);
+CREATE UNIQUE INDEX idx_agent_conversation_messages_position ON public.agent_conversation_messages(conversation_id, position);
+
+-- How much history (in estimated tokens) each agent sends per turn, and what happens to the turns that no longer fit
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS context_window_tokens INTEGER NOT NULL DEFAULT 4000,
+ADD COLUMN IF NOT EXISTS context_strategy TEXT NOT NULL DEFAULT 'truncate' CHECK (context_strategy IN ('truncate', 'summarize'));
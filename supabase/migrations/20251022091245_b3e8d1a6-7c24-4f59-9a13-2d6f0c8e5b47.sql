@@ -0,0 +1,5 @@
+-- Tools a chat agent's model may call, as [{ name, description, parameters (JSON Schema), webhook_url }],
+-- and how many rounds of tool calls one invocation may run before it stops
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS tools JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS max_tool_steps INTEGER NOT NULL DEFAULT 5;
@@ -0,0 +1,69 @@
+-- Batch runs of an agent over many inputs: one row per batch, one per input, processed in the background by agent-batch
+CREATE TABLE public.agent_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  name TEXT,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  concurrency INTEGER NOT NULL DEFAULT 3,
+  total_items INTEGER NOT NULL DEFAULT 0,
+  succeeded_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.agent_batch_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES public.agent_batches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Order in the submitted input, so results line up with the source file
+  position INTEGER NOT NULL,
+  input TEXT NOT NULL,
+  variables JSONB,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  output TEXT,
+  -- Full agent-invoke response for the item
+  result JSONB,
+  error TEXT,
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC NOT NULL DEFAULT 0,
+  processing_time_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.agent_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_batch_items ENABLE ROW LEVEL SECURITY;
+
+-- Batches are created and processed by agent-batch with the service role; owners can read and delete them
+CREATE POLICY "Users can view their own agent batches"
+  ON public.agent_batches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own agent batches"
+  ON public.agent_batches FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own agent batch items"
+  ON public.agent_batch_items FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_agent_batches_updated_at
+  BEFORE UPDATE ON public.agent_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_agent_batch_items_updated_at
+  BEFORE UPDATE ON public.agent_batch_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_agent_batches_agent_id ON public.agent_batches(agent_id, created_at DESC);
+CREATE UNIQUE INDEX idx_agent_batch_items_position ON public.agent_batch_items(batch_id, position);
+CREATE INDEX idx_agent_batch_items_status ON public.agent_batch_items(batch_id, status);
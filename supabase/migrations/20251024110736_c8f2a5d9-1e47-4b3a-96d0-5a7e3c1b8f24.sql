@@ -0,0 +1,95 @@
+-- Agent versions: the agents row becomes an editable draft, and publishing freezes its configuration as the next
+-- numbered version. API callers get the published version (or pin one with agent_id@version), so edits no longer
+-- reach them until they are published.
+CREATE TABLE public.agent_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- The agent's configuration columns at publish time
+  config JSONB NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_agent_versions_agent_version ON public.agent_versions(agent_id, version);
+
+ALTER TABLE public.agent_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are only ever added; there is no update policy, and the trigger below stops the service role too
+CREATE POLICY "Users can view their own agent versions"
+  ON public.agent_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own agent versions"
+  ON public.agent_versions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.prevent_agent_version_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Published agent versions cannot be changed';
+END;
+$$;
+
+CREATE TRIGGER prevent_agent_version_update
+  BEFORE UPDATE ON public.agent_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_agent_version_update();
+
+-- The version "latest" resolves to. Usually the newest, but a rollback points it back at an older one.
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS published_version INTEGER;
+
+-- Which version served each request (null for agents that were never published)
+ALTER TABLE public.agent_logs
+ADD COLUMN IF NOT EXISTS agent_version INTEGER;
+
+-- Batches pin the version that was current when they were created
+ALTER TABLE public.agent_batches
+ADD COLUMN IF NOT EXISTS agent_version INTEGER;
+
+-- Snapshot the draft as the next version and make it the published one. Runs with the caller's rights, so RLS
+-- limits it to the caller's own agents; the row lock keeps two publishes from taking the same number.
+CREATE OR REPLACE FUNCTION public.publish_agent_version(p_agent_id uuid, p_notes text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  draft public.agents;
+  next_version integer;
+BEGIN
+  SELECT * INTO draft FROM public.agents WHERE id = p_agent_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent not found';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM public.agent_versions
+  WHERE agent_id = p_agent_id;
+
+  INSERT INTO public.agent_versions (agent_id, user_id, version, config, notes)
+  VALUES (
+    p_agent_id,
+    draft.user_id,
+    next_version,
+    to_jsonb(draft) - ARRAY['id', 'user_id', 'created_at', 'updated_at', 'published_version'],
+    NULLIF(btrim(p_notes), '')
+  );
+
+  UPDATE public.agents SET published_version = next_version WHERE id = p_agent_id;
+  RETURN next_version;
+END;
+$$;
+
+-- Existing agents keep serving exactly what they serve today as their version 1
+INSERT INTO public.agent_versions (agent_id, user_id, version, config, notes)
+SELECT a.id, a.user_id, 1, to_jsonb(a) - ARRAY['id', 'user_id', 'created_at', 'updated_at', 'published_version'], 'Configuration before versioning'
+FROM public.agents a
+WHERE NOT EXISTS (SELECT 1 FROM public.agent_versions v WHERE v.agent_id = a.id);
+
+UPDATE public.agents SET published_version = 1 WHERE published_version IS NULL;
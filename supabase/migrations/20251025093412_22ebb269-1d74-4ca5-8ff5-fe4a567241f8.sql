@@ -0,0 +1,37 @@
+-- Agent versions are only created by publish_agent_version. The insert policy let a user add a version row to any
+-- agent as long as they put their own user_id on it, so it is dropped; the function now runs with definer rights and
+-- checks ownership itself.
+DROP POLICY IF EXISTS "Users can create their own agent versions" ON public.agent_versions;
+
+CREATE OR REPLACE FUNCTION public.publish_agent_version(p_agent_id uuid, p_notes text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  draft public.agents;
+  next_version integer;
+BEGIN
+  SELECT * INTO draft FROM public.agents WHERE id = p_agent_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent not found';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM public.agent_versions
+  WHERE agent_id = p_agent_id;
+
+  INSERT INTO public.agent_versions (agent_id, user_id, version, config, notes)
+  VALUES (
+    p_agent_id,
+    draft.user_id,
+    next_version,
+    to_jsonb(draft) - ARRAY['id', 'user_id', 'created_at', 'updated_at', 'published_version'],
+    NULLIF(btrim(p_notes), '')
+  );
+
+  UPDATE public.agents SET published_version = next_version WHERE id = p_agent_id;
+  RETURN next_version;
+END;
+$$;
@@ -0,0 +1,14 @@
+-- Store the custom provider's auth value encrypted, like provider_credentials. Only the custom-provider function
+-- writes it, and users read back whether one is set rather than the value. Plaintext values cannot be encrypted from
+-- SQL (the key is a function secret), so existing ones are dropped and have to be entered again.
+ALTER TABLE public.custom_providers
+DROP COLUMN IF EXISTS auth_value;
+
+ALTER TABLE public.custom_providers
+ADD COLUMN IF NOT EXISTS encrypted_auth_value TEXT,
+ADD COLUMN IF NOT EXISTS auth_value_iv TEXT,
+ADD COLUMN IF NOT EXISTS has_auth_value BOOLEAN GENERATED ALWAYS AS (encrypted_auth_value IS NOT NULL) STORED;
+
+-- Writes go through the custom-provider function; users can still view and remove their own
+DROP POLICY IF EXISTS "Users can create their own custom provider" ON public.custom_providers;
+DROP POLICY IF EXISTS "Users can update their own custom provider" ON public.custom_providers;